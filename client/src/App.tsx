@@ -3,10 +3,13 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Navigation from "@/components/navigation";
 import Home from "@/pages/home";
 import Generator from "@/pages/generator";
 import Results from "@/pages/results";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -16,8 +19,9 @@ function Router() {
       <main className="container mx-auto px-4 py-8">
         <Switch>
           <Route path="/" component={Home} />
-          <Route path="/generator" component={Generator} />
-          <Route path="/results/:id" component={Results} />
+          <Route path="/auth" component={AuthPage} />
+          <ProtectedRoute path="/generator" component={Generator} />
+          <ProtectedRoute path="/results/:id" component={Results} />
           <Route component={NotFound} />
         </Switch>
       </main>
@@ -28,10 +32,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
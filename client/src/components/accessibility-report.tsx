@@ -1,9 +1,11 @@
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   CheckCircle, 
   AlertTriangle, 
@@ -15,12 +17,20 @@ import {
   Accessibility
 } from "lucide-react";
 
+type WcagLevel = 'A' | 'AA' | 'AAA';
+
+// Rule, criterion and level are missing from reports saved before the rule-based engine
 interface AccessibilityIssue {
   type: 'error' | 'warning' | 'info';
   message: string;
   element: string;
   fix: string;
+  ruleId?: string;
   wcagCriterion?: string;
+  level?: WcagLevel;
+  nodeId?: string;
+  // Resolved in the generated code by the autofix pass
+  autoFixed?: boolean;
 }
 
 interface AccessibilityReport {
@@ -65,9 +75,30 @@ export default function AccessibilityReport({ report }: AccessibilityReportProps
     }
   };
 
-  const errorCount = report.issues.filter(issue => issue.type === 'error').length;
-  const warningCount = report.issues.filter(issue => issue.type === 'warning').length;
-  const infoCount = report.issues.filter(issue => issue.type === 'info').length;
+  const [levelFilter, setLevelFilter] = useState<WcagLevel | 'all'>('all');
+  const [typeFilter, setTypeFilter] = useState<AccessibilityIssue['type'] | 'auto-fixed' | 'all'>('all');
+
+  // Filtered issues grouped by success criterion, in criterion order
+  const groups = useMemo(() => {
+    const byCriterion = new Map<string, AccessibilityIssue[]>();
+    report.issues
+      .filter(issue => levelFilter === 'all' || issue.level === levelFilter)
+      .filter(issue => typeFilter === 'all'
+        || (typeFilter === 'auto-fixed' ? issue.autoFixed : !issue.autoFixed && issue.type === typeFilter))
+      .forEach(issue => {
+        const criterion = issue.wcagCriterion || 'Other';
+        byCriterion.set(criterion, [...(byCriterion.get(criterion) || []), issue]);
+      });
+    return Array.from(byCriterion.entries())
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+  }, [report.issues, levelFilter, typeFilter]);
+
+  // Auto-fixed issues are counted on their own, not by severity
+  const openIssues = report.issues.filter(issue => !issue.autoFixed);
+  const errorCount = openIssues.filter(issue => issue.type === 'error').length;
+  const warningCount = openIssues.filter(issue => issue.type === 'warning').length;
+  const infoCount = openIssues.filter(issue => issue.type === 'info').length;
+  const autoFixedCount = report.issues.length - openIssues.length;
 
   return (
     <div className="space-y-6">
@@ -115,7 +146,7 @@ export default function AccessibilityReport({ report }: AccessibilityReportProps
                 <AlertTriangle className="h-6 w-6 text-primary" />
               </div>
               <div>
-                <div className="text-2xl font-bold">{report.issues.length}</div>
+                <div className="text-2xl font-bold">{openIssues.length}</div>
                 <div className="text-sm text-muted-foreground">Total Issues</div>
               </div>
             </div>
@@ -148,7 +179,7 @@ export default function AccessibilityReport({ report }: AccessibilityReportProps
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className={`grid ${autoFixedCount > 0 ? 'grid-cols-4' : 'grid-cols-3'} gap-4 mb-4`}>
               <div className="text-center">
                 <div className="text-2xl font-bold text-red-600">{errorCount}</div>
                 <div className="text-sm text-muted-foreground">Errors</div>
@@ -161,32 +192,87 @@ export default function AccessibilityReport({ report }: AccessibilityReportProps
                 <div className="text-2xl font-bold text-blue-600">{infoCount}</div>
                 <div className="text-sm text-muted-foreground">Info</div>
               </div>
+              {autoFixedCount > 0 && (
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-green-600">{autoFixedCount}</div>
+                  <div className="text-sm text-muted-foreground">Auto-fixed</div>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              <Select value={levelFilter} onValueChange={(value: WcagLevel | 'all') => setLevelFilter(value)}>
+                <SelectTrigger className="w-36" aria-label="Filter by WCAG level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All levels</SelectItem>
+                  <SelectItem value="A">Level A</SelectItem>
+                  <SelectItem value="AA">Level AA</SelectItem>
+                  <SelectItem value="AAA">Level AAA</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={(value: AccessibilityIssue['type'] | 'auto-fixed' | 'all') => setTypeFilter(value)}>
+                <SelectTrigger className="w-36" aria-label="Filter by severity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All severities</SelectItem>
+                  <SelectItem value="error">Errors</SelectItem>
+                  <SelectItem value="warning">Warnings</SelectItem>
+                  <SelectItem value="info">Info</SelectItem>
+                  <SelectItem value="auto-fixed">Auto-fixed</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
             <ScrollArea className="h-64">
-              <div className="space-y-3">
-                {report.issues.map((issue, index) => (
-                  <Alert key={index} className="border">
-                    <div className="flex items-start space-x-3">
-                      {getIssueIcon(issue.type)}
-                      <div className="flex-1 space-y-1">
-                        <div className="flex items-center justify-between">
-                          <AlertTitle className="text-sm font-medium">
-                            {issue.message}
-                          </AlertTitle>
-                          {issue.wcagCriterion && (
-                            <Badge variant="outline" className="text-xs">
-                              {issue.wcagCriterion}
-                            </Badge>
-                          )}
-                        </div>
-                        <AlertDescription className="text-sm">
-                          <div><strong>Element:</strong> {issue.element}</div>
-                          <div><strong>Fix:</strong> {issue.fix}</div>
-                        </AlertDescription>
-                      </div>
+              <div className="space-y-4">
+                {groups.length === 0 && (
+                  <div className="text-sm text-muted-foreground">No issues match the filters.</div>
+                )}
+                {groups.map(([criterion, issues]) => (
+                  <div key={criterion} className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-semibold">{criterion}</span>
+                      {issues[0].level && (
+                        <Badge variant="outline" className="text-xs">
+                          Level {issues[0].level}
+                        </Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">{issues.length}</span>
                     </div>
-                  </Alert>
+                    {issues.map((issue, index) => (
+                      <Alert key={`${issue.ruleId ?? ""}:${issue.nodeId ?? ""}:${index}`} className="border">
+                        <div className="flex items-start space-x-3">
+                          {issue.autoFixed ? <CheckCircle className="h-4 w-4 text-green-500" /> : getIssueIcon(issue.type)}
+                          <div className="flex-1 space-y-1">
+                            <div className="flex items-center justify-between">
+                              <AlertTitle className="text-sm font-medium">
+                                {issue.message}
+                              </AlertTitle>
+                              <div className="flex items-center space-x-1">
+                                {issue.autoFixed && (
+                                  <Badge variant="outline" className="text-xs bg-green-100 text-green-800 border-green-200">
+                                    auto-fixed
+                                  </Badge>
+                                )}
+                                {issue.ruleId && (
+                                  <Badge variant="outline" className="text-xs font-mono">
+                                    {issue.ruleId}
+                                  </Badge>
+                                )}
+                              </div>
+                            </div>
+                            <AlertDescription className="text-sm">
+                              <div><strong>Element:</strong> {issue.element}</div>
+                              <div><strong>{issue.autoFixed ? 'Fixed:' : 'Fix:'}</strong> {issue.fix}</div>
+                            </AlertDescription>
+                          </div>
+                        </div>
+                      </Alert>
+                    ))}
+                  </div>
                 ))}
               </div>
             </ScrollArea>
@@ -6,6 +6,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { Copy, Check, Download, ExternalLink } from "lucide-react";
+import ComponentPreview from "@/components/component-preview";
+import type { PreviewComponent, PreviewOptions } from "@shared/utils/component-preview";
 
 interface GeneratedComponent {
   id: string;
@@ -15,6 +17,13 @@ interface GeneratedComponent {
   typescript?: string;
   vue?: string;
   html?: string;
+  angular?: string;
+  svelte?: string;
+  responsive?: {
+    mobile: string;
+    tablet: string;
+    desktop: string;
+  };
   metadata: {
     complexity: string;
     estimatedAccuracy: number;
@@ -30,10 +39,21 @@ interface GeneratedComponent {
 
 interface CodePreviewProps {
   component: GeneratedComponent;
-  framework: 'react' | 'vue' | 'html';
+  framework: 'react' | 'vue' | 'html' | 'angular' | 'svelte';
+  // The other components of the project and the generation options, for the live preview
+  components?: PreviewComponent[];
+  options?: PreviewOptions;
 }
 
-export function CodePreview({ component, framework }: CodePreviewProps) {
+const FRAMEWORK_LABELS: Record<CodePreviewProps['framework'], string> = {
+  react: 'React',
+  vue: 'Vue',
+  html: 'HTML',
+  angular: 'Angular',
+  svelte: 'Svelte',
+};
+
+export function CodePreview({ component, framework, components, options }: CodePreviewProps) {
   const [copiedCode, setCopiedCode] = useState<string | null>(null);
   const { toast } = useToast();
 
@@ -80,6 +100,10 @@ export function CodePreview({ component, framework }: CodePreviewProps) {
         return component.vue || component.jsx;
       case 'html':
         return component.html || component.jsx;
+      case 'angular':
+        return component.angular || component.jsx;
+      case 'svelte':
+        return component.svelte || component.jsx;
       default:
         return component.jsx;
     }
@@ -93,11 +117,28 @@ export function CodePreview({ component, framework }: CodePreviewProps) {
         return '.vue';
       case 'html':
         return '.html';
+      case 'angular':
+        return '.component.ts';
+      case 'svelte':
+        return '.svelte';
       default:
         return '.jsx';
     }
   };
 
+  const getMainLanguage = () => {
+    switch (framework) {
+      case 'html':
+        return 'html';
+      case 'angular':
+        return 'typescript';
+      case 'svelte':
+        return 'svelte';
+      default:
+        return 'javascript';
+    }
+  };
+
   const CodeBlock = ({ code, type, language = 'javascript' }: { 
     code: string; 
     type: string; 
@@ -246,11 +287,11 @@ export function CodePreview({ component, framework }: CodePreviewProps) {
       {/* Code Tabs */}
       <Card>
         <Tabs defaultValue="main" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="main">
-              {framework === 'react' ? 'React' : 
-               framework === 'vue' ? 'Vue' : 'HTML'}
+              {FRAMEWORK_LABELS[framework]}
             </TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
             <TabsTrigger value="css">CSS</TabsTrigger>
             {component.typescript && (
               <TabsTrigger value="typescript">TypeScript</TabsTrigger>
@@ -262,7 +303,16 @@ export function CodePreview({ component, framework }: CodePreviewProps) {
             <CodeBlock
               code={getMainCode()}
               type={`${framework.toUpperCase()} Component`}
-              language={framework === 'html' ? 'html' : 'javascript'}
+              language={getMainLanguage()}
+            />
+          </TabsContent>
+
+          <TabsContent value="preview">
+            <ComponentPreview
+              component={component}
+              components={components}
+              framework={framework}
+              options={options}
             />
           </TabsContent>
           
@@ -289,7 +339,7 @@ export function CodePreview({ component, framework }: CodePreviewProps) {
               <CodeBlock
                 code={getMainCode()}
                 type={`${framework.toUpperCase()} Component`}
-                language={framework === 'html' ? 'html' : 'javascript'}
+                language={getMainLanguage()}
               />
               <CodeBlock
                 code={component.css}
@@ -0,0 +1,73 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ComponentLibraryReport as LibraryReport } from "@shared/types/generator";
+import { Library } from "lucide-react";
+
+interface ComponentLibraryReportProps {
+  report: LibraryReport;
+}
+
+// Which Figma components were rendered from the component library and which instances were not mapped
+export default function ComponentLibraryReport({ report }: ComponentLibraryReportProps) {
+  if (report.mapped.length === 0 && report.unmapped.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Library className="h-5 w-5" />
+          <span>Component Library</span>
+        </CardTitle>
+        <CardDescription>
+          {report.mapped.length} mapped and {report.unmapped.length} unmapped Figma components used as instances.
+          Unmapped components can be added with <code className="text-xs">PUT /api/component-mappings</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Figma component</TableHead>
+              <TableHead>Rendered as</TableHead>
+              <TableHead>Instances</TableHead>
+              <TableHead>Used in</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...report.mapped, ...report.unmapped].map((usage) => (
+              <TableRow key={`${usage.figmaKey ?? ""}:${usage.figmaName}`}>
+                <TableCell className="font-medium">
+                  {usage.figmaName}
+                  {usage.figmaKey && (
+                    <span className="ml-2 font-mono text-xs text-muted-foreground">{usage.figmaKey}</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {usage.componentName ? (
+                    <span className="font-mono text-xs">
+                      {usage.componentName} from {usage.importPath}
+                    </span>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">
+                      {usage.generated ? "unmapped · generated" : "unmapped · inlined"}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell>{usage.instances}</TableCell>
+                <TableCell>{usage.usedIn.join(", ")}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
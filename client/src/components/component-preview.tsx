@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Loader2, Monitor, RotateCw, Smartphone, Tablet } from "lucide-react";
+import type { CodeGenerationOptions } from "@shared/types/generator";
+import {
+  PREVIEW_CHANNEL,
+  buildPreviewDocument,
+  isPreviewable,
+  previewViewports,
+  type PreviewComponent,
+  type PreviewError,
+  type PreviewMessage,
+  type PreviewOptions,
+  type PreviewViewport,
+} from "@shared/utils/component-preview";
+
+interface ComponentPreviewProps {
+  component: PreviewComponent;
+  // Every component of the project, so instances of other generated components render too
+  components?: PreviewComponent[];
+  framework: CodeGenerationOptions["framework"];
+  options?: PreviewOptions;
+}
+
+const VIEWPORTS: Array<{ id: PreviewViewport; label: string; icon: typeof Monitor }> = [
+  { id: "mobile", label: "Mobile", icon: Smartphone },
+  { id: "tablet", label: "Tablet", icon: Tablet },
+  { id: "desktop", label: "Desktop", icon: Monitor },
+];
+
+const PHASE_LABELS: Record<PreviewError["phase"], string> = {
+  load: "Preview failed to load",
+  compile: "Compile error",
+  runtime: "Runtime error",
+};
+
+const FRAME_HEIGHT = 480;
+
+// Renders a generated component in a sandboxed iframe at the width of a responsive breakpoint
+export default function ComponentPreview({ component, components = [], framework, options = {} }: ComponentPreviewProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [viewport, setViewport] = useState<PreviewViewport>("desktop");
+  const [reloadKey, setReloadKey] = useState(0);
+  const [status, setStatus] = useState<"loading" | "rendered" | "error">("loading");
+  const [error, setError] = useState<PreviewError | null>(null);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  const widths = previewViewports(options.customBreakpoints);
+  const srcDoc = useMemo(
+    () => (isPreviewable(framework) ? buildPreviewDocument(component, components, framework, options) : ""),
+    [component, components, framework, options.styling, options.typescript, options.tailwindConfig]
+  );
+
+  useEffect(() => {
+    setStatus("loading");
+    setError(null);
+    setPlaceholders([]);
+    setWarnings([]);
+  }, [srcDoc, reloadKey]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // The sandboxed frame has an opaque origin, so messages are matched by their source window
+      if (event.source !== iframeRef.current?.contentWindow || event.data?.channel !== PREVIEW_CHANNEL) return;
+
+      const message = event.data as PreviewMessage;
+      switch (message.type) {
+        case "rendered":
+          setStatus("rendered");
+          setPlaceholders(message.placeholders);
+          break;
+        case "error":
+          setStatus("error");
+          setError(message.error);
+          break;
+        case "warning":
+          setWarnings(previous => [...previous, message.message]);
+          break;
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  if (!isPreviewable(framework)) {
+    return (
+      <div className="p-8 text-center text-sm text-muted-foreground">
+        Live preview is available for React, Vue and HTML output.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between p-2 bg-muted/50 border-b">
+        <div className="flex items-center space-x-1">
+          {VIEWPORTS.map(({ id, label, icon: Icon }) => (
+            <Button
+              key={id}
+              variant={viewport === id ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setViewport(id)}
+              aria-pressed={viewport === id}
+              title={`${label} (${widths[id]}px)`}
+            >
+              <Icon className="h-4 w-4 mr-1" />
+              {label}
+            </Button>
+          ))}
+          <Badge variant="outline" className="text-xs ml-2">
+            {widths[viewport]}px
+          </Badge>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setReloadKey(key => key + 1)} title="Reload preview">
+          <RotateCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="relative overflow-auto bg-muted/30 border rounded-md" style={{ height: FRAME_HEIGHT + 32 }}>
+        <iframe
+          key={reloadKey}
+          ref={iframeRef}
+          title={`${component.name} preview`}
+          sandbox="allow-scripts"
+          srcDoc={srcDoc}
+          className="mx-auto my-4 block bg-white shadow-sm transition-[width] duration-300"
+          style={{ width: widths[viewport], height: FRAME_HEIGHT }}
+        />
+
+        {status === "loading" && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/60 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Compiling preview…
+          </div>
+        )}
+
+        {error && (
+          <div className="absolute inset-0 overflow-auto bg-background/95 p-6" role="alert">
+            <div className="flex items-center space-x-2 text-destructive font-semibold">
+              <AlertTriangle className="h-4 w-4" />
+              <span>{PHASE_LABELS[error.phase]}</span>
+              {error.file && (
+                <span className="font-mono text-xs text-muted-foreground">
+                  {error.file}
+                  {error.line !== null && `:${error.line}`}
+                  {error.column !== null && `:${error.column}`}
+                </span>
+              )}
+            </div>
+            <pre className="mt-3 whitespace-pre-wrap text-sm">{error.message}</pre>
+            {error.excerpt.length > 0 && (
+              <pre className="mt-4 rounded-md bg-muted p-3 text-xs overflow-x-auto">
+                {error.excerpt.map(({ number, text }) => (
+                  <div key={number} className={number === error.line ? "bg-destructive/15 text-destructive" : undefined}>
+                    <span className="inline-block w-10 select-none text-right pr-3 text-muted-foreground">{number}</span>
+                    {text}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+
+      {(placeholders.length > 0 || warnings.length > 0) && (
+        <div className="space-y-1 text-xs text-muted-foreground">
+          {placeholders.length > 0 && (
+            <p>Rendered as placeholders: {placeholders.join(", ")}</p>
+          )}
+          {warnings.map(warning => (
+            <p key={warning}>{warning}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
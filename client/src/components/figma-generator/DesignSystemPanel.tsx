@@ -1,8 +1,10 @@
-import React, { useReducer, useCallback, useMemo } from 'react';
+import React, { useReducer, useCallback, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 
 import { FigmaApiResponse } from '@/types/figma';
 import { DesignSystemExtractor, DesignTokens } from '@/services/design-system-extractor';
 import { DesignSystemExporter, ExportOptions } from '@/services/design-system-exporter';
+import { auditPalette, type ColorVisionDeficiency, type PaletteAudit } from '@shared/services/palette-audit';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -115,6 +117,27 @@ const UI_TEXTS = {
   COMMENTS_LABEL: 'Kommentek',
   CUSTOM_PROPS_LABEL: 'CSS Custom Properties',
   VIRTUAL_VIEWER_LABEL: 'Nagy teljesítményű megjelenítő',
+  PALETTE_AUDIT_TAB: 'Kontraszt',
+  PALETTE_AUDIT_LOADING: 'Paletta elemzése...',
+  PALETTE_AUDIT_ERROR: 'Nem sikerült lekérni a paletta auditot.',
+  CONTRAST_MATRIX_TITLE: 'Kontraszt Mátrix',
+  CONTRAST_MATRIX_HINT: 'Sorok: előtér (szöveg), oszlopok: háttér. Normál méretű szövegre: AA 4.5:1, AAA 7:1.',
+  LEVEL_LABEL: 'Szint',
+  FOREGROUND_BACKGROUND: 'Előtér / Háttér',
+  FAILING_PAIRS_TITLE: 'Nem megfelelő párok',
+  NO_FAILING_PAIRS: 'Minden pár megfelel a választott szintnek.',
+  SUGGESTION_LABEL: 'Javasolt árnyalat',
+  NO_SUGGESTION: 'Nincs megfelelő árnyalat a skálában',
+  SIMULATION_TITLE: 'Színtévesztés Szimuláció',
+  CONFUSABLE_PAIRS: 'Összetéveszthető párok',
+  NO_CONFUSABLE_PAIRS: 'Nincs összetéveszthető pár.',
+};
+
+// A szimulált színtévesztések magyar nevei
+const DEFICIENCY_LABELS: Record<ColorVisionDeficiency, string> = {
+  protanopia: 'Protanópia (vörös)',
+  deuteranopia: 'Deuteranópia (zöld)',
+  tritanopia: 'Tritanópia (kék)',
 };
 
 // --- Hibakezelő hook ---
@@ -266,6 +289,165 @@ const BorderRadiusDisplay = React.memo(({ borderRadius }: BorderRadiusProps) =>
   </div>
 ));
 
+// --- Paletta audit komponens ---
+
+interface PaletteAuditViewProps {
+  designTokens: DesignTokens;
+  projectId?: number;
+}
+
+// Mentett projektnél a szerver auditálja a projekt palettáját, egyébként a kinyert tokenekből számoljuk
+const PaletteAuditView = React.memo(({ designTokens, projectId }: PaletteAuditViewProps) => {
+  const [level, setLevel] = useState<'AA' | 'AAA'>('AA');
+  const { data, isLoading, error } = useQuery<{ audit: PaletteAudit }>({
+    queryKey: [`/api/projects/${projectId}/palette-audit`],
+    enabled: projectId !== undefined,
+  });
+  const audit = useMemo(
+    () => (projectId !== undefined ? data?.audit : auditPalette(designTokens.colors)),
+    [projectId, data, designTokens]
+  );
+
+  if (projectId !== undefined && isLoading) {
+    return <div className="text-sm text-gray-600">{UI_TEXTS.PALETTE_AUDIT_LOADING}</div>;
+  }
+  if (error || !audit) {
+    return <div className="text-sm text-red-600">{UI_TEXTS.PALETTE_AUDIT_ERROR}</div>;
+  }
+
+  const hexOf = new Map(audit.colors.map((color) => [color.name, color.hex]));
+  const pairOf = new Map(audit.pairs.map((pair) => [`${pair.foreground}|${pair.background}`, pair]));
+  const failing = audit.pairs.filter((pair) => !pair[level]);
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="font-semibold text-gray-900">{UI_TEXTS.CONTRAST_MATRIX_TITLE}</h4>
+            <p className="text-xs text-gray-500">{UI_TEXTS.CONTRAST_MATRIX_HINT}</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="contrast-level">{UI_TEXTS.LEVEL_LABEL}</Label>
+            <Select value={level} onValueChange={(value: 'AA' | 'AAA') => setLevel(value)}>
+              <SelectTrigger id="contrast-level" className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="AA">AA</SelectItem>
+                <SelectItem value="AAA">AAA</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="max-h-[480px] overflow-auto rounded-lg border border-gray-200">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th className="sticky top-0 left-0 z-20 bg-white p-2 text-left">{UI_TEXTS.FOREGROUND_BACKGROUND}</th>
+                {audit.colors.map((background) => (
+                  <th key={background.name} className="sticky top-0 z-10 bg-white p-2 font-medium whitespace-nowrap">
+                    <div className="w-4 h-4 mx-auto mb-1 rounded border border-gray-200" style={{ backgroundColor: background.hex }} />
+                    {background.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {audit.colors.map((foreground) => (
+                <tr key={foreground.name}>
+                  <th className="sticky left-0 bg-white p-2 text-left font-medium whitespace-nowrap">{foreground.name}</th>
+                  {audit.colors.map((background) => {
+                    const pair = pairOf.get(`${foreground.name}|${background.name}`);
+                    if (!pair) return <td key={background.name} className="p-2 bg-gray-50" />;
+                    return (
+                      <td
+                        key={background.name}
+                        className={`p-1 text-center border ${pair[level] ? 'border-green-200' : 'border-red-300'}`}
+                        title={`${foreground.hex} / ${background.hex}`}
+                      >
+                        <div className="rounded px-2 py-1 font-semibold" style={{ color: foreground.hex, backgroundColor: background.hex }}>
+                          Aa
+                        </div>
+                        <div className={pair[level] ? 'text-green-700' : 'text-red-600'}>{pair.ratio}:1</div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="font-semibold text-gray-900">
+          {UI_TEXTS.FAILING_PAIRS_TITLE} ({level}) <Badge variant="outline">{failing.length}</Badge>
+        </h4>
+        {failing.length === 0 ? (
+          <p className="text-sm text-gray-600">{UI_TEXTS.NO_FAILING_PAIRS}</p>
+        ) : (
+          <div className="max-h-72 overflow-auto space-y-2">
+            {failing.map((pair) => {
+              // AA hibánál csak AA javaslat létezik; AAA szintnél az AA-s javaslat kevés
+              const suggestion = pair.suggestion && (level === 'AA' || pair.suggestion.level === 'AAA') ? pair.suggestion : undefined;
+              return (
+                <div key={`${pair.foreground}|${pair.background}`} className="flex items-center justify-between p-2 border border-gray-200 rounded-lg text-sm">
+                  <div className="flex items-center space-x-2">
+                    <span className="rounded px-2 py-1 font-semibold" style={{ color: hexOf.get(pair.foreground), backgroundColor: hexOf.get(pair.background) }}>
+                      Aa
+                    </span>
+                    <span>{pair.foreground} / {pair.background}</span>
+                    <Badge variant="outline" className="text-red-600">{pair.ratio}:1</Badge>
+                  </div>
+                  {suggestion ? (
+                    <div className="flex items-center space-x-2 text-xs text-gray-600">
+                      <span>{UI_TEXTS.SUGGESTION_LABEL}:</span>
+                      <span className="rounded px-2 py-1 font-semibold" style={{ color: suggestion.hex, backgroundColor: hexOf.get(pair.background) }}>
+                        Aa
+                      </span>
+                      <span className="font-mono">{suggestion.name} ({suggestion.hex})</span>
+                      <Badge variant="outline" className="text-green-700">{suggestion.ratio}:1</Badge>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-gray-500">{UI_TEXTS.NO_SUGGESTION}</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="font-semibold text-gray-900">{UI_TEXTS.SIMULATION_TITLE}</h4>
+        {audit.simulations.map((simulation) => (
+          <div key={simulation.deficiency} className="p-4 border border-gray-200 rounded-lg space-y-3">
+            <div className="text-sm font-medium text-gray-700">{DEFICIENCY_LABELS[simulation.deficiency]}</div>
+            <div className="flex flex-wrap gap-2">
+              {simulation.colors.map((color) => (
+                <div key={color.name} className="text-center" title={`${color.name}: ${color.hex} → ${color.simulated}`}>
+                  <div className="flex rounded overflow-hidden border border-gray-200">
+                    <div className="w-6 h-8" style={{ backgroundColor: color.hex }} />
+                    <div className="w-6 h-8" style={{ backgroundColor: color.simulated }} />
+                  </div>
+                  <div className="text-[10px] text-gray-500">{color.name}</div>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-gray-600">
+              <span className="font-medium">{UI_TEXTS.CONFUSABLE_PAIRS}: </span>
+              {simulation.confusablePairs.length === 0
+                ? UI_TEXTS.NO_CONFUSABLE_PAIRS
+                : simulation.confusablePairs.map((pair) => `${pair.first} ↔ ${pair.second}`).join(', ')}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
+
 // --- Header komponens ---
 
 const DesignTokensHeader = React.memo(
@@ -436,6 +618,7 @@ interface DesignTokensTabsProps {
   onCopy: () => void;
   useVirtualViewer: boolean;
   onToggleVirtualViewer: (useVirtual: boolean) => void;
+  projectId?: number;
 }
 
 const DesignTokensTabs = React.memo(
@@ -449,6 +632,7 @@ const DesignTokensTabs = React.memo(
     onCopy,
     useVirtualViewer,
     onToggleVirtualViewer,
+    projectId,
   }: DesignTokensTabsProps) => {
     // Memoizált tab tartalmak
 
@@ -561,12 +745,13 @@ const DesignTokensTabs = React.memo(
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={onTabChange}>
-            <TabsList className="grid w-full grid-cols-6">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="colors">Színek</TabsTrigger>
               <TabsTrigger value="typography">Typography</TabsTrigger>
               <TabsTrigger value="spacing">Spacing</TabsTrigger>
               <TabsTrigger value="shadows">Shadows</TabsTrigger>
               <TabsTrigger value="radius">Border Radius</TabsTrigger>
+              <TabsTrigger value="palette-audit">{UI_TEXTS.PALETTE_AUDIT_TAB}</TabsTrigger>
               <TabsTrigger value="code">Kód</TabsTrigger>
             </TabsList>
 
@@ -585,6 +770,9 @@ const DesignTokensTabs = React.memo(
             <TabsContent value="radius" className="mt-6">
               {borderRadiusTab}
             </TabsContent>
+            <TabsContent value="palette-audit" className="mt-6">
+              <PaletteAuditView designTokens={designTokens} projectId={projectId} />
+            </TabsContent>
             <TabsContent value="code" className="mt-6">
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -675,10 +863,14 @@ const DesignSystemStats = React.memo(({ designTokens }: DesignSystemStatsProps)
 interface DesignSystemPanelProps {
   figmaData: FigmaApiResponse;
   fileKey: string;
+  // Mentett projektnél a paletta auditot a szerver számolja
+  projectId?: number;
 }
 
-export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps) {
+export function DesignSystemPanel({ figmaData, fileKey, projectId }: DesignSystemPanelProps) {
   const [state, dispatch] = useReducer(reducer, initialState);
+  // Az export formátumtól független aktív tab, hogy a kontraszt audit is elérhető legyen
+  const [activeTab, setActiveTab] = useState('colors');
   const { handleError } = useErrorHandler();
 
   const { updatePreview } = useDesignSystemExport(state.designTokens, state.exportOptions, dispatch);
@@ -754,16 +946,15 @@ export function DesignSystemPanel({ figmaData, fileKey }: DesignSystemPanelProps
 
             <DesignTokensTabs
               designTokens={state.designTokens}
-              activeTab={state.exportOptions.format} // vagy külön állapot az aktív tabnak
-              onTabChange={(tab) => {
-                // Ha külön állapot kell az aktív tabnak, itt kezelhető
-              }}
+              activeTab={activeTab}
+              onTabChange={setActiveTab}
               previewCode={state.previewCode}
               exportOptions={state.exportOptions}
               copied={state.copied}
               onCopy={handleCopy}
               useVirtualViewer={state.useVirtualViewer}
               onToggleVirtualViewer={toggleVirtualViewer}
+              projectId={projectId}
             />
 
             <DesignSystemStats designTokens={state.designTokens} />
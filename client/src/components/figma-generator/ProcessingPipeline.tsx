@@ -2,28 +2,35 @@ import React from 'react';
 
 import { Progress } from '@/components/ui/progress';
 
-import { CheckCircle, AlertCircle, Loader2, Database, Code, Layers } from 'lucide-react';
+import { CheckCircle, AlertCircle, Loader2, Database, Code, Layers, ScanSearch, Accessibility } from 'lucide-react';
 
 import { ProcessingPhase } from '@/types/figma';
 
+import type { GenerationComponentProgress } from '@shared/types/generator';
+
 import { cn } from '@/lib/utils';
 
 interface ProcessingPipelineProps {
   phases: ProcessingPhase[];
+  currentComponent?: GenerationComponentProgress;
 }
 
 const phaseDescriptions: Record<number, string> = {
-  1: "Figma API-n keresztül minden design tulajdonság kinyerése",
-  2: "Plugin által generált ~80% pontosságú kód javítása",
-  3: "4000+ soros CSS optimalizálása és finomhangolása",
+  1: "A Figma dokumentum beolvasása és ellenőrzése",
+  2: "A generálandó komponensek és fő frame-ek felderítése",
+  3: "Komponensenkénti kódgenerálás a választott keretrendszerre",
+  4: "WCAG alapú akadálymentességi elemzés komponensenként",
+  5: "A generált kód, CSS és típusok formázása",
 };
 
-export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
+export function ProcessingPipeline({ phases, currentComponent }: ProcessingPipelineProps) {
   const getPhaseIcon = (phaseId: number) => {
     switch (phaseId) {
       case 1: return Database;
-      case 2: return Code;
-      case 3: return Layers;
+      case 2: return ScanSearch;
+      case 3: return Code;
+      case 4: return Accessibility;
+      case 5: return Layers;
       default: return () => null; // Üres komponens ismeretlen fázis esetén
     }
   };
@@ -64,7 +71,7 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
     <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
       <div className="text-center mb-8">
         <h2 className="text-2xl font-bold text-gray-900 mb-2">
-          3-Fázisú Feldolgozási Pipeline
+          {phases.length}-Fázisú Feldolgozási Pipeline
         </h2>
         <p className="text-gray-600">
           Fejlett AI rendszer a Figma designok teljes körű feldolgozásához
@@ -148,6 +155,12 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
                   <div className="mt-3 text-sm text-gray-600">
                     {phaseDescriptions[phase.id] || ''}
                   </div>
+                  {/* Current Component */}
+                  {phase.status === 'processing' && currentComponent && phase.progress > 0 && (
+                    <div className="mt-1 text-sm font-medium text-blue-700">
+                      {currentComponent.name} ({currentComponent.index}/{currentComponent.total})
+                    </div>
+                  )}
                 </div>
               </div>
               {/* Connection Line */}
@@ -6,14 +6,17 @@ import { Badge } from '@/components/ui/badge';
 import { CheckCircle, AlertTriangle, Info, Zap, Shield, Smartphone } from 'lucide-react';
 
 import { GeneratedComponent } from '@/types/figma';
+import type { VisualDiffSummary } from '@shared/schema';
 
 import { cn } from '@/lib/utils';
 
 interface QualityReportProps {
   component?: GeneratedComponent | null;
+  // A Figma frame renderrel mért pixel-összehasonlítás eredménye, ha már lefutott
+  visualDiff?: VisualDiffSummary | null;
 }
 
-export function QualityReport({ component }: QualityReportProps) {
+export function QualityReport({ component, visualDiff }: QualityReportProps) {
   if (!component) {
     return (
       <div className="p-6 bg-gray-50 border border-red-300 rounded-md text-red-700">
@@ -32,6 +35,10 @@ export function QualityReport({ component }: QualityReportProps) {
     );
   }
 
+  // A mért egyezés felülírja a becsült pontosságot
+  const measured = visualDiff?.score ?? null;
+  const accuracy = measured ?? metadata.estimatedAccuracy;
+
   const getScoreColor = (score: number) => {
     if (score >= 90) return 'text-green-600';
     if (score >= 70) return 'text-yellow-600';
@@ -77,17 +84,19 @@ export function QualityReport({ component }: QualityReportProps) {
         {/* Accuracy Score */}
         <div className="bg-white rounded-xl p-4 border border-gray-200">
           <div className="flex items-center space-x-3 mb-3">
-            <div className={cn('p-2 rounded-lg', getScoreBg(metadata.estimatedAccuracy))}>
-              <Zap className={cn('w-5 h-5', getScoreColor(metadata.estimatedAccuracy))} />
+            <div className={cn('p-2 rounded-lg', getScoreBg(accuracy))}>
+              <Zap className={cn('w-5 h-5', getScoreColor(accuracy))} />
             </div>
             <div>
-              <div className="text-sm text-gray-600">Vizuális Pontosság</div>
-              <div className={cn('text-xl font-bold', getScoreColor(metadata.estimatedAccuracy))}>
-                {metadata.estimatedAccuracy}%
+              <div className="text-sm text-gray-600">
+                {measured !== null ? 'Vizuális Egyezés (mért)' : 'Vizuális Pontosság (becsült)'}
+              </div>
+              <div className={cn('text-xl font-bold', getScoreColor(accuracy))}>
+                {accuracy}%
               </div>
             </div>
           </div>
-          <Progress value={metadata.estimatedAccuracy} className="h-2" />
+          <Progress value={accuracy} className="h-2" />
         </div>
 
         {/* Accessibility Score */}
@@ -145,6 +154,35 @@ export function QualityReport({ component }: QualityReportProps) {
         </div>
       </div>
 
+      {/* Visual Diff */}
+      {visualDiff && (
+        <div className="mb-6">
+          <h5 className="text-md font-semibold text-gray-900 mb-3">Vizuális Összehasonlítás</h5>
+          {visualDiff.error ? (
+            <div className="flex items-start space-x-3 p-3 bg-white rounded-lg border border-red-200">
+              <AlertTriangle className="w-5 h-5 mt-0.5 text-red-600" />
+              <div className="text-sm text-red-700">{visualDiff.error}</div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="text-sm text-gray-600">
+                {visualDiff.mismatchedPixels?.toLocaleString()} / {visualDiff.totalPixels?.toLocaleString()} eltérő
+                pixel ({visualDiff.width}×{visualDiff.height}px,{' '}
+                {visualDiff.referenceSource === 'figma' ? 'Figma frame' : 'feltöltött referencia'} alapján)
+              </div>
+              {visualDiff.heatmapUrl && (
+                <img
+                  src={visualDiff.heatmapUrl}
+                  alt={`${visualDiff.componentName} eltérés-hőtérkép`}
+                  className="max-w-full border border-gray-200 rounded-lg bg-white"
+                />
+              )}
+              <div className="text-xs text-gray-500">Piros: a renderelt komponens eltér a referenciától</div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Accessibility Issues */}
       {accessibility.issues.length > 0 && (
         <div className="mb-6">
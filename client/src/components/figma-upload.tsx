@@ -8,10 +8,11 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import type { FigmaAsset } from "@shared/schema";
 import { Globe, CheckCircle, AlertTriangle, Loader2, Eye, EyeOff } from "lucide-react";
 
 interface FigmaUploadProps {
-  onDataUploaded: (data: any, name?: string) => void;
+  onDataUploaded: (data: any, name?: string, assets?: FigmaAsset[]) => void;
   projectName: string;
   onProjectNameChange: (name: string) => void;
 }
@@ -42,7 +43,7 @@ export default function FigmaUpload({ onDataUploaded, projectName, onProjectName
     onSuccess: (data) => {
       if (data.success && data.validation.valid) {
         setValidationResult(data.validation);
-        onDataUploaded(data.figmaData, data.validation.documentName);
+        onDataUploaded(data.figmaData, data.validation.documentName, data.assets);
         if (!projectName && data.validation.documentName) {
           onProjectNameChange(data.validation.documentName);
         }
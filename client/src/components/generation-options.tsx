@@ -9,9 +9,10 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Settings, Code, Palette, Accessibility, Smartphone, TestTube } from "lucide-react";
+import { ACCESSIBILITY_RULES } from "@shared/services/accessibility-rules";
 
 interface GenerationOptions {
-  framework: 'react' | 'vue' | 'html';
+  framework: 'react' | 'vue' | 'html' | 'angular' | 'svelte';
   styling: 'tailwind' | 'css-modules' | 'styled-components' | 'plain-css';
   typescript: boolean;
   accessibility: boolean;
@@ -20,6 +21,10 @@ interface GenerationOptions {
   includeComments: boolean;
   generateTests: boolean;
   customBreakpoints?: Record<string, number>;
+  tokenReferences?: 'none' | 'css-variables' | 'scss';
+  tailwindConfig?: string;
+  tailwindTolerance?: number;
+  accessibilityRules?: Record<string, boolean>;
 }
 
 interface CustomCode {
@@ -107,7 +112,7 @@ export default function GenerationOptions({
               <Label htmlFor="framework">Target Framework</Label>
               <Select
                 value={options.framework}
-                onValueChange={(value: 'react' | 'vue' | 'html') => updateOption('framework', value)}
+                onValueChange={(value: GenerationOptions['framework']) => updateOption('framework', value)}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select framework" />
@@ -116,6 +121,8 @@ export default function GenerationOptions({
                   <SelectItem value="react">React</SelectItem>
                   <SelectItem value="vue">Vue.js</SelectItem>
                   <SelectItem value="html">HTML</SelectItem>
+                  <SelectItem value="angular">Angular</SelectItem>
+                  <SelectItem value="svelte">Svelte</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -162,6 +169,26 @@ export default function GenerationOptions({
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="tokenReferences">Design Tokens</Label>
+              <Select
+                value={options.tokenReferences || 'none'}
+                onValueChange={(value: NonNullable<GenerationOptions['tokenReferences']>) => updateOption('tokenReferences', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select token references" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Raw values</SelectItem>
+                  <SelectItem value="css-variables">CSS variables (var(--token))</SelectItem>
+                  <SelectItem value="scss">Sass variables ($token)</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="text-sm text-muted-foreground">
+                Reference the extracted design tokens instead of raw values; Tailwind uses the token theme names
+              </div>
+            </div>
+
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label htmlFor="optimizeImages">Optimize Images</Label>
@@ -177,6 +204,44 @@ export default function GenerationOptions({
             </div>
           </CardContent>
         </Card>
+
+        {options.styling === 'tailwind' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Tailwind Theme</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="tailwindConfig">tailwind.config</Label>
+                <Textarea
+                  id="tailwindConfig"
+                  placeholder="// Paste your tailwind.config.js to use its theme scales&#10;module.exports = {&#10;  theme: { extend: { spacing: { '13': '13px' } } }&#10;};"
+                  value={options.tailwindConfig || ''}
+                  onChange={(e) => updateOption('tailwindConfig', e.target.value || undefined)}
+                  rows={6}
+                  className="font-mono text-sm"
+                />
+                <div className="text-sm text-muted-foreground">
+                  Values without an exact theme match become arbitrary values such as p-[13px]
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tailwindTolerance">Snap Tolerance</Label>
+                <Input
+                  id="tailwindTolerance"
+                  type="number"
+                  min={0}
+                  value={options.tailwindTolerance ?? 0}
+                  onChange={(e) => updateOption('tailwindTolerance', Math.max(0, Number(e.target.value) || 0))}
+                />
+                <div className="text-sm text-muted-foreground">
+                  Snap to the nearest theme value within this many px (or RGB units for colors); every snap is reported as a warning
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </TabsContent>
 
       <TabsContent value="features" className="space-y-6 mt-6">
@@ -247,6 +312,36 @@ export default function GenerationOptions({
           </CardContent>
         </Card>
 
+        {options.accessibility && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center space-x-2">
+                <Accessibility className="h-5 w-5" />
+                <span>Accessibility Rules</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {ACCESSIBILITY_RULES.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`rule-${rule.id}`}>{rule.description}</Label>
+                    <div className="text-sm text-muted-foreground">
+                      {rule.wcagCriterion} · Level {rule.level}
+                    </div>
+                  </div>
+                  <Switch
+                    id={`rule-${rule.id}`}
+                    checked={options.accessibilityRules?.[rule.id] !== false}
+                    onCheckedChange={(checked) =>
+                      updateOption('accessibilityRules', { ...options.accessibilityRules, [rule.id]: checked })
+                    }
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {options.responsive && (
           <Card>
             <CardHeader>
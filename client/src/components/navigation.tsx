@@ -18,12 +18,23 @@ import {
   Settings,
   Code,
   Palette,
-  Accessibility
+  Accessibility,
+  LogIn,
+  LogOut,
+  User
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Navigation() {
-  const [location] = useLocation();
+  const [location, setLocation] = useLocation();
+  const { user, logoutMutation } = useAuth();
+
+  const handleLogout = () => {
+    logoutMutation.mutate(undefined, {
+      onSuccess: () => setLocation("/auth")
+    });
+  };
 
   const isActive = (path: string) => {
     if (path === "/" && location === "/") return true;
@@ -34,7 +45,7 @@ export default function Navigation() {
   const features = [
     {
       title: "Multi-Framework Support",
-      description: "Generate React, Vue, and HTML components",
+      description: "Generate React, Vue, Angular, Svelte, and HTML components",
       icon: <Code className="h-4 w-4" />,
       href: "/generator"
     },
@@ -201,6 +212,31 @@ export default function Navigation() {
               <span className="hidden sm:inline ml-2">Settings</span>
             </Button>
 
+            {user ? (
+              <>
+                <span className="hidden md:flex items-center text-sm text-muted-foreground">
+                  <User className="mr-1 h-4 w-4" />
+                  {user.username}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleLogout}
+                  disabled={logoutMutation.isPending}
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span className="hidden sm:inline ml-2">Logout</span>
+                </Button>
+              </>
+            ) : (
+              <Button variant="ghost" size="sm" asChild>
+                <Link href="/auth">
+                  <LogIn className="h-4 w-4" />
+                  <span className="hidden sm:inline ml-2">Login</span>
+                </Link>
+              </Button>
+            )}
+
             <Button asChild>
               <Link href="/generator">
                 <Zap className="mr-2 h-4 w-4" />
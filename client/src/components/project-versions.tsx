@@ -0,0 +1,148 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { GenerationResult, ProjectVersionSummary } from "@shared/schema";
+import type { CodeGenerationOptions } from "@shared/types/generator";
+import { History, Loader2, RotateCcw } from "lucide-react";
+
+interface ProjectVersionsProps {
+  projectId: string;
+}
+
+interface VersionsResponse {
+  success: boolean;
+  currentVersion: number;
+  versions: ProjectVersionSummary[];
+}
+
+// Which Figma input, options and generator produced each version, with restore
+export default function ProjectVersions({ projectId }: ProjectVersionsProps) {
+  const { toast } = useToast();
+  const versionsKey = `/api/projects/${projectId}/versions`;
+
+  const { data, isLoading } = useQuery<VersionsResponse>({
+    queryKey: [versionsKey],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `${versionsKey}/${version}/restore`);
+      return response.json();
+    },
+    onSuccess: (_data, version) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      toast({
+        title: "Version Restored",
+        description: `Version ${version} is the current version again`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Restore Failed",
+        description: error.message || "Failed to restore the version",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !data?.versions.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Version History</span>
+        </CardTitle>
+        <CardDescription>
+          Every generation of this project with the options and generator that produced it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Options</TableHead>
+              <TableHead>Components</TableHead>
+              <TableHead>Figma data</TableHead>
+              <TableHead>Generator</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...data.versions].reverse().map((version) => {
+              const options = version.options as CodeGenerationOptions;
+              const results = version.results as GenerationResult | null;
+              const isCurrent = version.version === data.currentVersion;
+
+              return (
+                <TableRow key={version.id}>
+                  <TableCell className="font-medium">
+                    v{version.version}
+                    {isCurrent && (
+                      <Badge variant="secondary" className="ml-2 text-xs">
+                        current
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline" className="text-xs">
+                        {options.framework}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs">
+                        {options.styling}
+                      </Badge>
+                      {options.typescript && (
+                        <Badge variant="outline" className="text-xs">
+                          typescript
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>{results?.summary.componentCount ?? "–"}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {version.figmaHash?.slice(0, 12) ?? "–"}
+                  </TableCell>
+                  <TableCell>{version.generatorVersion ?? "–"}</TableCell>
+                  <TableCell className="text-right">
+                    {!isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(version.version)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        {restoreMutation.isPending && restoreMutation.variables === version.version ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                        )}
+                        Restore
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
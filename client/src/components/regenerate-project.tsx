@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FigmaApiClient } from "@shared/services/figma-api";
+import { Loader2, RefreshCw } from "lucide-react";
+
+interface RegenerateProjectProps {
+  projectId: string;
+}
+
+// Refetches the project's Figma file and regenerates it; the results page then shows the diff
+export default function RegenerateProject({ projectId }: RegenerateProjectProps) {
+  const [figmaUrl, setFigmaUrl] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const { toast } = useToast();
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/regenerate`, {
+        fileKey: FigmaApiClient.extractFileKey(figmaUrl),
+        nodeId: FigmaApiClient.extractNodeId(figmaUrl) ?? undefined,
+        apiKey,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/versions`] });
+      toast({
+        title: "Project Regenerated",
+        description: `${data.diff.summary.changed} changed, ${data.diff.summary.added} added and ${data.diff.summary.removed} removed components`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Regeneration Failed",
+        description: error.message || "Failed to regenerate the project",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <RefreshCw className="h-5 w-5" />
+          <span>Regenerate from Figma</span>
+        </CardTitle>
+        <CardDescription>
+          Fetch the latest version of the design and review what changed before updating your code.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="regenerateUrl">Figma URL</Label>
+          <Input
+            id="regenerateUrl"
+            placeholder="https://www.figma.com/design/..."
+            value={figmaUrl}
+            onChange={(e) => setFigmaUrl(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="regenerateApiKey">Figma API Key</Label>
+          <Input
+            id="regenerateApiKey"
+            type="password"
+            placeholder="figd_..."
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={() => regenerateMutation.mutate()}
+          disabled={!figmaUrl.trim() || !apiKey.trim() || regenerateMutation.isPending}
+        >
+          {regenerateMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Regenerate
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
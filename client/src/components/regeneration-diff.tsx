@@ -0,0 +1,173 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { GitCompare } from "lucide-react";
+import type {
+  ComponentDiff,
+  DiffHunk,
+  DiffStatus,
+  RegenerationDiff,
+} from "@shared/types/generator";
+
+interface RegenerationDiffViewProps {
+  diff: RegenerationDiff;
+}
+
+const STATUS_BADGES: Record<DiffStatus, string> = {
+  added: "bg-green-100 text-green-800 border-green-200",
+  removed: "bg-red-100 text-red-800 border-red-200",
+  changed: "bg-blue-100 text-blue-800 border-blue-200",
+};
+
+const LINE_STYLES = {
+  added: "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-200",
+  removed: "bg-red-50 text-red-900 dark:bg-red-950 dark:text-red-200",
+  context: "text-muted-foreground",
+};
+
+const LINE_PREFIXES = { added: "+", removed: "-", context: " " };
+
+function CodeDiff({ hunks }: { hunks: DiffHunk[] }) {
+  if (hunks.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes</p>;
+  }
+
+  return (
+    <ScrollArea className="max-h-96 rounded-md border">
+      <pre className="text-xs font-mono">
+        {hunks.map((hunk, hunkIndex) => (
+          <div key={hunkIndex}>
+            <div className="bg-muted px-3 py-1 text-muted-foreground">
+              @@ -{hunk.beforeStart} +{hunk.afterStart} @@
+            </div>
+            {hunk.lines.map((line, lineIndex) => (
+              <div key={lineIndex} className={`px-3 ${LINE_STYLES[line.type]}`}>
+                {LINE_PREFIXES[line.type]} {line.text}
+              </div>
+            ))}
+          </div>
+        ))}
+      </pre>
+    </ScrollArea>
+  );
+}
+
+function ComponentDiffCard({ component }: { component: ComponentDiff }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <span>{component.name}</span>
+          <Badge variant="outline" className={`text-xs ${STATUS_BADGES[component.status]}`}>
+            {component.status}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="nodes" className="w-full">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="nodes">Nodes ({component.nodes.length})</TabsTrigger>
+            <TabsTrigger value="css">CSS ({component.css.length})</TabsTrigger>
+            <TabsTrigger value="markup">Markup</TabsTrigger>
+            <TabsTrigger value="stylesheet">Stylesheet</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="nodes" className="mt-4">
+            {component.nodes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No node changes</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {component.nodes.map((node) => (
+                  <li key={node.nodeId} className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline" className={`text-xs ${STATUS_BADGES[node.status]}`}>
+                      {node.status}
+                    </Badge>
+                    <span className="font-medium">{node.name}</span>
+                    <span className="text-muted-foreground">
+                      {node.type} · {node.nodeId}
+                    </span>
+                    {node.properties && (
+                      <span className="text-muted-foreground">
+                        ({node.properties.join(", ")})
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+
+          <TabsContent value="css" className="mt-4">
+            {component.css.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No CSS property changes</p>
+            ) : (
+              <div className="space-y-1 text-sm font-mono">
+                {component.css.map((change, index) => (
+                  <div key={index}>
+                    <span className="text-muted-foreground">{change.selector} </span>
+                    <span className="font-medium">{change.property}: </span>
+                    {change.before !== undefined && (
+                      <span className="text-red-600 line-through">{change.before}</span>
+                    )}
+                    {change.before !== undefined && change.after !== undefined && " → "}
+                    {change.after !== undefined && (
+                      <span className="text-green-600">{change.after}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="markup" className="mt-4">
+            <CodeDiff hunks={component.code.markup} />
+          </TabsContent>
+
+          <TabsContent value="stylesheet" className="mt-4">
+            <CodeDiff hunks={component.code.css} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RegenerationDiffView({ diff }: RegenerationDiffViewProps) {
+  const { summary } = diff;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold flex items-center space-x-2">
+          <GitCompare className="h-6 w-6 text-primary" />
+          <span>
+            Design changes (v{diff.fromVersion} → v{diff.toVersion})
+          </span>
+        </h2>
+        <div className="flex items-center space-x-2 text-sm">
+          <Badge variant="outline" className={STATUS_BADGES.added}>
+            {summary.added} added
+          </Badge>
+          <Badge variant="outline" className={STATUS_BADGES.removed}>
+            {summary.removed} removed
+          </Badge>
+          <Badge variant="outline" className={STATUS_BADGES.changed}>
+            {summary.changed} changed
+          </Badge>
+          <Badge variant="outline">{summary.unchanged} unchanged</Badge>
+        </div>
+      </div>
+
+      {diff.components.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          The regenerated code is identical to the previous version.
+        </p>
+      ) : (
+        diff.components.map((component) => (
+          <ComponentDiffCard key={component.name} component={component} />
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FigmaApiClient } from "@shared/services/figma-api";
+import type { VisualDiffSummary } from "@shared/schema";
+import { Loader2, ScanEye } from "lucide-react";
+
+interface VisualRegressionProps {
+  projectId: string;
+  componentNames: string[];
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Reference images are matched to components by file name: Button.png is the reference of Button
+function referenceName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+// Scores the generated components against their Figma frames, or against uploaded reference images
+export default function VisualRegression({ projectId, componentNames }: VisualRegressionProps) {
+  const [figmaUrl, setFigmaUrl] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const { toast } = useToast();
+
+  const matched = files.filter(file => componentNames.includes(referenceName(file.name)));
+  const hasFigma = figmaUrl.trim() !== "" && apiKey.trim() !== "";
+
+  const compareMutation = useMutation({
+    mutationFn: async (): Promise<{ results: VisualDiffSummary[]; warnings: string[] }> => {
+      const references = Object.fromEntries(
+        await Promise.all(matched.map(async file => [referenceName(file.name), await readAsDataUrl(file)]))
+      );
+      const response = await apiRequest("POST", `/api/projects/${projectId}/visual-diffs`, {
+        ...(hasFigma ? { fileKey: FigmaApiClient.extractFileKey(figmaUrl), apiKey } : {}),
+        ...(matched.length > 0 ? { references } : {}),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/visual-diffs`] });
+      const scored = data.results.filter((result: VisualDiffSummary) => result.score !== null).length;
+      toast({
+        title: "Visual Comparison Finished",
+        description: `${scored} of ${data.results.length} components scored${data.warnings.length > 0 ? `, ${data.warnings.length} warnings` : ""}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Visual Comparison Failed",
+        description: error.message || "Failed to compare the components",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ScanEye className="h-5 w-5" />
+          <span>Visual Regression</span>
+        </CardTitle>
+        <CardDescription>
+          Render every component headlessly and compare it pixel by pixel with its Figma frame. Uploaded
+          images named after a component (Button.png) are used instead of the Figma render.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr] gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="visualDiffUrl">Figma URL</Label>
+            <Input
+              id="visualDiffUrl"
+              placeholder="https://www.figma.com/design/..."
+              value={figmaUrl}
+              onChange={(e) => setFigmaUrl(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="visualDiffApiKey">Figma API Key</Label>
+            <Input
+              id="visualDiffApiKey"
+              type="password"
+              placeholder="figd_..."
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="visualDiffReferences">Reference images</Label>
+            <Input
+              id="visualDiffReferences"
+              type="file"
+              accept="image/png,image/jpeg"
+              multiple
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+            {files.length > matched.length && (
+              <p className="text-xs text-muted-foreground">
+                {files.length - matched.length} files do not match a component name and are ignored
+              </p>
+            )}
+          </div>
+          <Button
+            onClick={() => compareMutation.mutate()}
+            disabled={(!hasFigma && matched.length === 0) || compareMutation.isPending}
+          >
+            {compareMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ScanEye className="mr-2 h-4 w-4" />
+            )}
+            Compare
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { createContext, useContext, type ReactNode } from "react";
+import {
+  useMutation,
+  useQuery,
+  type UseMutationResult,
+} from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface AuthUser {
+  id: number;
+  username: string;
+}
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+type AuthContextType = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// apiRequest throws "<status>: <body>"; surface the server's error text instead
+function readableError(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+async function postCredentials(url: string, credentials: Credentials): Promise<AuthUser> {
+  const response = await apiRequest("POST", url, credentials);
+  const { user } = await response.json();
+  return user;
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ success: boolean; user: AuthUser } | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (user: AuthUser) => {
+    queryClient.setQueryData(["/api/user"], { success: true, user });
+  };
+
+  const onAuthError = (title: string) => (error: Error) => {
+    toast({ title, description: readableError(error), variant: "destructive" });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) => postCredentials("/api/login", credentials),
+    onSuccess: onAuthenticated,
+    onError: onAuthError("Login failed"),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (credentials: Credentials) => postCredentials("/api/register", credentials),
+    onSuccess: onAuthenticated,
+    onError: onAuthError("Registration failed"),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop cached projects so the next user never sees them
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: onAuthError("Logout failed"),
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: data?.user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
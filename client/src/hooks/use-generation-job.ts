@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import type { CodeGenerationRequest } from "@shared/schema";
+import type {
+  GenerationJobEventType,
+  GenerationJobSnapshot,
+  GenerationJobStatus,
+} from "@shared/types/generator";
+
+const JOB_EVENT_TYPES: GenerationJobEventType[] = [
+  "progress",
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+export function useGenerationJob() {
+  const [job, setJob] = useState<GenerationJobSnapshot | null>(null);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const sourceRef = useRef<EventSource | null>(null);
+
+  const closeStream = useCallback(() => {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+  }, []);
+
+  const start = useCallback(
+    async (request: CodeGenerationRequest) => {
+      closeStream();
+      setJob(null);
+      setConnectionError(null);
+
+      const response = await apiRequest("POST", "/api/jobs", request);
+      const { job: createdJob } = (await response.json()) as {
+        job: GenerationJobSnapshot;
+      };
+      setJob(createdJob);
+
+      const source = new EventSource(`/api/jobs/${createdJob.id}/events`);
+      sourceRef.current = source;
+
+      JOB_EVENT_TYPES.forEach((type) => {
+        source.addEventListener(type, (event) => {
+          setJob(JSON.parse((event as MessageEvent).data));
+          if (type !== "progress") {
+            closeStream();
+          }
+        });
+      });
+
+      source.onerror = () => {
+        // The server closes the stream after the final event; anything else is a lost connection
+        if (sourceRef.current === source) {
+          setConnectionError("Lost connection to the generation job");
+          closeStream();
+        }
+      };
+
+      return createdJob.id;
+    },
+    [closeStream],
+  );
+
+  const cancel = useCallback(async () => {
+    if (!job) return;
+    await apiRequest("DELETE", `/api/jobs/${job.id}`);
+  }, [job]);
+
+  useEffect(() => closeStream, [closeStream]);
+
+  const status: GenerationJobStatus | "idle" = job?.status ?? "idle";
+
+  return {
+    job,
+    status,
+    phases: job?.phases ?? [],
+    currentComponent: job?.currentComponent,
+    result: job?.result ?? null,
+    error: job?.error ?? connectionError,
+    isRunning: !connectionError && (status === "queued" || status === "running"),
+    start,
+    cancel,
+  };
+}
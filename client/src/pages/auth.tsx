@@ -0,0 +1,125 @@
+import { useState, type FormEvent } from "react";
+import { Redirect } from "wouter";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Loader2, LogIn, UserPlus, Zap } from "lucide-react";
+import { useAuth, type Credentials } from "@/hooks/use-auth";
+
+function CredentialsForm({
+  id,
+  submitLabel,
+  icon,
+  isPending,
+  passwordHint,
+  onSubmit,
+}: {
+  id: string;
+  submitLabel: string;
+  icon: JSX.Element;
+  isPending: boolean;
+  passwordHint?: string;
+  onSubmit: (credentials: Credentials) => void;
+}) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSubmit({ username, password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-username`}>Username</Label>
+        <Input
+          id={`${id}-username`}
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-password`}>Password</Label>
+        <Input
+          id={`${id}-password`}
+          type="password"
+          autoComplete={id === "register" ? "new-password" : "current-password"}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+        {passwordHint && (
+          <p className="text-xs text-muted-foreground">{passwordHint}</p>
+        )}
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : icon}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/generator" />;
+  }
+
+  return (
+    <div className="flex justify-center py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+            <Zap className="h-6 w-6" />
+          </div>
+          <CardTitle>Welcome to FigmaGen</CardTitle>
+          <CardDescription>
+            Sign in to generate components and keep your projects
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="login">Login</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <CredentialsForm
+                id="login"
+                submitLabel="Login"
+                icon={<LogIn className="mr-2 h-4 w-4" />}
+                isPending={loginMutation.isPending}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+
+            <TabsContent value="register">
+              <CredentialsForm
+                id="register"
+                submitLabel="Create account"
+                icon={<UserPlus className="mr-2 h-4 w-4" />}
+                isPending={registerMutation.isPending}
+                passwordHint="At least 8 characters"
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
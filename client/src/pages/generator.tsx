@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Card,
   CardContent,
@@ -20,9 +20,11 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CodePreview } from "@/components/code-preview";
+import { ProcessingPipeline } from "@/components/figma-generator/ProcessingPipeline";
+import { useGenerationJob } from "@/hooks/use-generation-job";
+import { apiRequest } from "@/lib/queryClient";
 import {
   Upload,
   Wand2,
@@ -32,25 +34,29 @@ import {
   Smartphone,
   Download,
   RefreshCw,
+  XCircle,
 } from "lucide-react";
 import {
   FigmaApiResponse,
-  CodeGenerationOptions,
   GeneratedComponent,
   CustomCodeInputs,
 } from "@shared/types/figma";
-import { AdvancedCodeGenerator } from "@shared/services/advanced-code-generator";
+import { CodeGenerationOptions } from "@shared/types/generator";
+import type { FigmaAsset } from "@shared/schema";
 import { toast } from "sonner";
 
 const FigmaGenerator = () => {
   const [figmaUrl, setFigmaUrl] = useState("");
   const [accessToken, setAccessToken] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+  const [figmaData, setFigmaData] = useState<FigmaApiResponse | null>(null);
+  const [assets, setAssets] = useState<FigmaAsset[]>([]);
   const [components, setComponents] = useState<GeneratedComponent[]>([]);
   const [selectedComponent, setSelectedComponent] =
     useState<GeneratedComponent | null>(null);
-  const [generationProgress, setGenerationProgress] = useState(0);
   const [generationReport, setGenerationReport] = useState<any>(null);
+  const generationJob = useGenerationJob();
+  const isLoading = isFetching || generationJob.isRunning;
 
   const [options, setOptions] = useState<CodeGenerationOptions>({
     framework: "react",
@@ -59,6 +65,8 @@ const FigmaGenerator = () => {
     accessibility: true,
     responsive: true,
     optimizeImages: true,
+    includeComments: false,
+    generateTests: false,
   });
 
   const [customCode, setCustomCode] = useState<CustomCodeInputs>({
@@ -69,142 +77,89 @@ const FigmaGenerator = () => {
     utilities: "",
   });
 
+  const startGeneration = (
+    data: FigmaApiResponse,
+    framework: CodeGenerationOptions["framework"] = options.framework,
+    dataAssets: FigmaAsset[] = assets,
+  ) =>
+    generationJob.start({
+      name: data.name || "Untitled",
+      figmaData: data,
+      options: { ...options, framework },
+      customCode,
+      assets: dataAssets,
+    });
+
   const handleGenerate = async () => {
     if (!figmaUrl) {
       toast.error("Please enter a Figma URL");
       return;
     }
 
-    setIsLoading(true);
-    setGenerationProgress(0);
+    setIsFetching(true);
 
     try {
-      // Simulate progress updates
-      const progressSteps = [
-        { progress: 20, message: "Fetching Figma data..." },
-        { progress: 40, message: "Analyzing components with AI..." },
-        { progress: 60, message: "Running accessibility analysis..." },
-        { progress: 80, message: "Generating optimized code..." },
-        { progress: 100, message: "Complete!" },
-      ];
-
-      for (const step of progressSteps) {
-        setGenerationProgress(step.progress);
-        toast.info(step.message);
-        await new Promise((resolve) => setTimeout(resolve, 800));
-      }
-
-      // Mock Figma data for demonstration
-      const mockFigmaData: FigmaApiResponse = {
-        document: {
-          id: "root",
-          name: "Document",
-          type: "DOCUMENT",
-          children: [
-            {
-              id: "frame1",
-              name: "Login Button",
-              type: "FRAME",
-              children: [{ id: "text1", name: "Login", type: "TEXT" }],
-            },
-            {
-              id: "frame2",
-              name: "User Card",
-              type: "FRAME",
-              children: [
-                { id: "img1", name: "Avatar", type: "RECTANGLE" },
-                { id: "text2", name: "Username", type: "TEXT" },
-                { id: "text3", name: "Email", type: "TEXT" },
-              ],
-            },
-          ],
-        },
-        components: {
-          comp1: { key: "frame1", name: "LoginButton" },
-          comp2: { key: "frame2", name: "UserCard" },
-        },
-      };
-
-      // Initialize advanced generator
-      const generator = new AdvancedCodeGenerator(mockFigmaData, options);
-
-      // Check if setCustomCode method exists before calling it
-      if (typeof generator.setCustomCode === "function") {
-        generator.setCustomCode(customCode);
-      } else {
-        console.warn("setCustomCode method not available on generator");
-      }
-
-      // Generate components with advanced features
-      const generatedComponents = await generator.generateComponent(
-        mockFigmaData,
-        "frame1",
-        customCode,
-      );
-
-      setComponents([generatedComponents]);
-      setSelectedComponent(generatedComponents);
-
-      // Check if getAdvancedGenerationReport method exists
-      if (typeof generator.getAdvancedGenerationReport === "function") {
-        setGenerationReport(generator.getAdvancedGenerationReport());
-      } else {
-        // Create a mock report if the method doesn't exist
-        setGenerationReport({
-          figmaNodes: 5,
-          cacheStats: { total: 2 },
-        });
-      }
+      const response = await apiRequest("POST", "/api/fetch-figma", {
+        figmaUrl,
+        apiKey: accessToken,
+      });
+      const { figmaData: fetchedData, assets: fetchedAssets = [], warnings = [] } =
+        await response.json();
 
-      toast.success(`Successfully generated component with advanced features!`);
+      setFigmaData(fetchedData);
+      setAssets(fetchedAssets);
+      warnings.forEach((warning: string) => toast.warning(warning));
+      await startGeneration(fetchedData, options.framework, fetchedAssets);
     } catch (error) {
       console.error("Generation error:", error);
       toast.error("Failed to generate components. Please check your inputs.");
     } finally {
-      setIsLoading(false);
-      setGenerationProgress(0);
+      setIsFetching(false);
     }
   };
 
   const handleGenerateForFramework = async (framework: string) => {
-    if (!components.length) {
+    if (!figmaData) {
       toast.error("Generate components first");
       return;
     }
 
-    setIsLoading(true);
     try {
-      // Mock framework-specific generation
-      const mockFigmaData: FigmaApiResponse = {
-        document: {
-          id: "root",
-          name: "Document",
-          type: "DOCUMENT",
-          children: [],
-        },
-      };
-
-      const generator = new AdvancedCodeGenerator(mockFigmaData, {
-        ...options,
-        framework: framework as any,
-      });
-      const frameworkComponent = await generator.generateComponent(
-        mockFigmaData,
-        "frame1",
-        customCode,
+      await startGeneration(
+        figmaData,
+        framework as CodeGenerationOptions["framework"],
       );
+    } catch (error) {
+      toast.error(`Failed to generate ${framework} components`);
+    }
+  };
 
-      setComponents([frameworkComponent]);
-      setSelectedComponent(frameworkComponent);
-
-      toast.success(`Generated ${framework} component!`);
+  const handleCancel = async () => {
+    try {
+      await generationJob.cancel();
     } catch (error) {
-      toast.error(`Failed to generate ${framework} component`);
-    } finally {
-      setIsLoading(false);
+      toast.error("Failed to cancel generation");
     }
   };
 
+  useEffect(() => {
+    const { status, result, error } = generationJob;
+
+    if (status === "completed" && result) {
+      const generatedComponents = result.components as GeneratedComponent[];
+      setComponents(generatedComponents);
+      setSelectedComponent(generatedComponents[0] || null);
+      setGenerationReport({ figmaNodes: result.summary.totalNodes });
+      toast.success(
+        `Successfully generated ${generatedComponents.length} components!`,
+      );
+    } else if (status === "failed") {
+      toast.error(error || "Failed to generate components");
+    } else if (status === "cancelled") {
+      toast.info("Generation cancelled");
+    }
+  }, [generationJob.status]);
+
   return (
     <div className="container mx-auto p-6 space-y-6">
       {/* Header */}
@@ -303,7 +258,9 @@ const FigmaGenerator = () => {
                     <SelectContent>
                       <SelectItem value="react">React</SelectItem>
                       <SelectItem value="vue">Vue.js</SelectItem>
+                      <SelectItem value="html">HTML</SelectItem>
                       <SelectItem value="angular">Angular</SelectItem>
+                      <SelectItem value="svelte">Svelte</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -365,18 +322,23 @@ const FigmaGenerator = () => {
           </Card>
 
           {/* Generation Progress */}
-          {isLoading && (
-            <Card>
-              <CardContent className="pt-6">
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span>Generating components...</span>
-                    <span>{generationProgress}%</span>
-                  </div>
-                  <Progress value={generationProgress} />
-                </div>
-              </CardContent>
-            </Card>
+          {generationJob.phases.length > 0 && (
+            <div className="space-y-4">
+              <ProcessingPipeline
+                phases={generationJob.phases}
+                currentComponent={generationJob.currentComponent}
+              />
+              {generationJob.isRunning && (
+                <Button
+                  variant="outline"
+                  onClick={handleCancel}
+                  className="flex items-center gap-2"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Cancel Generation
+                </Button>
+              )}
+            </div>
           )}
 
           {/* Action Buttons */}
@@ -410,6 +372,13 @@ const FigmaGenerator = () => {
                 >
                   Generate Angular
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleGenerateForFramework("svelte")}
+                  disabled={isLoading}
+                >
+                  Generate Svelte
+                </Button>
               </>
             )}
           </div>
@@ -463,6 +432,8 @@ const FigmaGenerator = () => {
             <CodePreview
               component={selectedComponent}
               framework={options.framework}
+              components={components}
+              options={options}
             />
           ) : (
             <div className="text-center py-8 text-muted-foreground">
@@ -551,8 +522,8 @@ const FigmaGenerator = () => {
                   <Smartphone className="h-4 w-4" />
                   <AlertDescription>
                     <strong>Multi-Framework Support:</strong> Generate
-                    components for React, Vue.js, and Angular from the same
-                    Figma design.
+                    components for React, Vue.js, Angular, and Svelte from the
+                    same Figma design.
                   </AlertDescription>
                 </Alert>
               </div>
@@ -9,7 +9,7 @@ export default function Home() {
     {
       icon: <Code className="h-6 w-6" />,
       title: "Multi-Framework Support",
-      description: "Generate components for React, Vue, and HTML with TypeScript support"
+      description: "Generate components for React, Vue, Angular, Svelte, and HTML with TypeScript support"
     },
     {
       icon: <Palette className="h-6 w-6" />,
@@ -5,12 +5,21 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
 import { CodePreview } from "@/components/code-preview"; // Javított import - named import
 import AccessibilityReport from "@/components/accessibility-report";
+import ComponentLibraryReport from "@/components/component-library-report";
+import ProjectVersions from "@/components/project-versions";
+import RegenerateProject from "@/components/regenerate-project";
+import RegenerationDiffView from "@/components/regeneration-diff";
+import VisualRegression from "@/components/visual-regression";
+import { QualityReport } from "@/components/figma-generator/QualityReport";
+import type { VisualDiffSummary } from "@shared/schema";
 import {
   AlertTriangle,
   CheckCircle,
   Clock,
+  Download,
   FileCode,
   Layers,
 } from "lucide-react";
@@ -23,6 +32,12 @@ export default function Results() {
     enabled: !!id,
   });
 
+  const { data: visualDiffData } = useQuery<{ results: VisualDiffSummary[] }>({
+    queryKey: [`/api/projects/${id}/visual-diffs`],
+    enabled: !!id,
+  });
+  const visualDiffs = visualDiffData?.results ?? [];
+
   if (isLoading) {
     return (
       <div className="space-y-8 max-w-6xl mx-auto">
@@ -82,6 +97,8 @@ export default function Results() {
             <h1 className="text-3xl font-bold">{project.name}</h1>
             <p className="text-muted-foreground">
               Generated on {new Date(project.createdAt).toLocaleDateString()}
+              {(result.version ?? 1) > 1 &&
+                ` · version ${result.version}, updated ${new Date(project.updatedAt).toLocaleDateString()}`}
             </p>
           </div>
           <div className="flex items-center space-x-2">
@@ -91,6 +108,12 @@ export default function Results() {
             <Badge variant="outline" className="text-sm">
               {project.options.styling}
             </Badge>
+            <Button asChild size="sm">
+              <a href={`/api/projects/${id}/export.zip`} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download project
+              </a>
+            </Button>
           </div>
         </div>
 
@@ -212,6 +235,19 @@ export default function Results() {
         )}
       </div>
 
+      <RegenerateProject projectId={id} />
+
+      <ProjectVersions projectId={id} />
+
+      {components && components.length > 0 && (
+        <VisualRegression projectId={id} componentNames={components.map((component: any) => component.name)} />
+      )}
+
+      {/* Changes since the previous version */}
+      {result.diff && <RegenerationDiffView diff={result.diff} />}
+
+      {result.componentLibrary && <ComponentLibraryReport report={result.componentLibrary} />}
+
       {/* Components */}
       {components && components.length > 0 && (
         <div className="space-y-6">
@@ -251,11 +287,12 @@ export default function Results() {
 
               <CardContent>
                 <Tabs defaultValue="code" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3">
+                  <TabsList className="grid w-full grid-cols-4">
                     <TabsTrigger value="code">Code</TabsTrigger>
                     <TabsTrigger value="accessibility">
                       Accessibility
                     </TabsTrigger>
+                    <TabsTrigger value="quality">Quality</TabsTrigger>
                     <TabsTrigger value="metadata">Metadata</TabsTrigger>
                   </TabsList>
 
@@ -263,6 +300,8 @@ export default function Results() {
                     <CodePreview
                       component={component}
                       framework={project.options.framework}
+                      components={components}
+                      options={project.options}
                     />
                   </TabsContent>
 
@@ -272,6 +311,17 @@ export default function Results() {
                     />
                   </TabsContent>
 
+                  <TabsContent value="quality" className="mt-6">
+                    <QualityReport
+                      component={{
+                        ...component,
+                        accessibility: component.accessibilityReport,
+                        responsive: component.responsiveBreakpoints,
+                      }}
+                      visualDiff={visualDiffs.find(diff => diff.componentName === component.name)}
+                    />
+                  </TabsContent>
+
                   <TabsContent value="metadata" className="mt-6">
                     <div className="space-y-4">
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
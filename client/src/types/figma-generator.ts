@@ -65,7 +65,7 @@ export interface ResponsiveBreakpoints {
 }
 
 export interface CodeGenerationOptions {
-  framework: 'react' | 'vue' | 'angular';
+  framework: 'react' | 'vue' | 'html' | 'angular' | 'svelte';
   styling: 'tailwind' | 'css-modules' | 'styled-components' | 'plain-css';
   typescript: boolean;
   accessibility: boolean;
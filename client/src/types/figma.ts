@@ -2,6 +2,7 @@
 export interface FigmaApiResponse {
   document: FigmaNode;
   components: Record<string, FigmaComponent>;
+  componentSets?: Record<string, FigmaComponentSet>;
   styles: Record<string, FigmaStyle>;
   schemaVersion: number;
   name: string;
@@ -33,6 +34,21 @@ export interface FigmaNode {
   clipsContent?: boolean;
   background?: Paint[];
   layoutMode?: string;
+  layoutPositioning?: string;
+  primaryAxisSizingMode?: string;
+  counterAxisSizingMode?: string;
+  primaryAxisAlignItems?: string;
+  counterAxisAlignItems?: string;
+  counterAxisAlignContent?: string;
+  counterAxisSpacing?: number;
+  gridRowCount?: number;
+  gridColumnCount?: number;
+  gridRowGap?: number;
+  gridColumnGap?: number;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
   itemSpacing?: number;
   paddingLeft?: number;
   paddingRight?: number;
@@ -43,13 +59,20 @@ export interface FigmaNode {
   strokeJoin?: string;
   strokeDashes?: number[];
   opacity?: number;
+  visible?: boolean;
   blendMode?: string;
   isMask?: boolean;
   effects?: Effect[];
   characters?: string;
   style?: TypeStyle;
   characterStyleOverrides?: number[];
-  styleOverrideTable?: Record<string, TypeStyle>;
+  styleOverrideTable?: Record<string, Partial<TypeStyle>>;
+  lineTypes?: LineType[];
+  lineIndentations?: number[];
+  componentPropertyDefinitions?: Record<string, ComponentPropertyDefinition>;
+  componentPropertyReferences?: Record<string, string>;
+  componentId?: string;
+  componentProperties?: Record<string, ComponentPropertyValue>;
 }
 
 export type NodeType = 
@@ -124,6 +147,9 @@ export interface TypeStyle {
   hangingPunctuation?: boolean;
   hangingList?: boolean;
   fontSize: number;
+  fontWeight?: number;
+  italic?: boolean;
+  textAlignHorizontal?: string;
   textDecoration?: string;
   textCase?: string;
   lineHeightPx: number;
@@ -131,6 +157,7 @@ export interface TypeStyle {
   lineHeightPercentFontSize?: number;
   lineHeightUnit: string;
   letterSpacing: number;
+  textAutoResize?: string;
   fills: Paint[];
   hyperlink?: Hyperlink;
   opentypeFlags?: Record<string, number>;
@@ -165,6 +192,8 @@ export interface ImageFilters {
   shadows?: number;
 }
 
+export type LineType = 'NONE' | 'ORDERED' | 'UNORDERED';
+
 export interface Hyperlink {
   type: string;
   url?: string;
@@ -179,6 +208,26 @@ export interface FigmaComponent {
   documentationLinks: DocumentationLink[];
 }
 
+export interface FigmaComponentSet {
+  key: string;
+  name: string;
+  description: string;
+  documentationLinks?: DocumentationLink[];
+}
+
+// Declared on COMPONENT_SET nodes; variant axes have type VARIANT
+export interface ComponentPropertyDefinition {
+  type: 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP';
+  defaultValue: string | boolean;
+  variantOptions?: string[];
+}
+
+// Set on INSTANCE nodes; keys match the main component's property definitions
+export interface ComponentPropertyValue {
+  type: 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP';
+  value: string | boolean;
+}
+
 export interface FigmaStyle {
   key: string;
   name: string;
@@ -203,11 +252,17 @@ export interface GeneratedComponent {
   metadata: ComponentMetadata;
 }
 
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
 export interface AccessibilityReport {
   score: number;
   issues: AccessibilityIssue[];
   suggestions: string[];
-  wcagCompliance: 'AA' | 'A' | 'Non-compliant';
+  // Highest level whose success criteria have no reported issues
+  wcagCompliance: WcagLevel | 'Non-compliant';
+  contrastRatios?: ContrastRatio[];
+  // IDs of the accessibility rules that ran
+  rules?: string[];
 }
 
 export interface AccessibilityIssue {
@@ -215,6 +270,26 @@ export interface AccessibilityIssue {
   message: string;
   element: string;
   fix: string;
+  ruleId: string;
+  // WCAG 2.2 success criterion, e.g. '1.4.3 Contrast (Minimum)'
+  wcagCriterion: string;
+  level: WcagLevel;
+  nodeId: string;
+  autofix?: AccessibilityAutofixHint;
+  // Resolved by the code generator's autofix pass; `fix` then describes the change
+  autoFixed?: boolean;
+}
+
+// The markup change that resolves an issue: an attribute to set, or the element to render the node as
+export type AccessibilityAutofixHint =
+  | { kind: 'attribute'; name: string; value: string }
+  | { kind: 'element'; tag: string };
+
+export interface ContrastRatio {
+  element: string;
+  nodeId: string;
+  ratio: number;
+  passes: boolean;
 }
 
 export interface ResponsiveBreakpoints {
@@ -245,7 +320,7 @@ export interface ProcessingPhase {
 }
 
 export interface GenerationConfig {
-  framework: 'react' | 'vue' | 'html';
+  framework: 'react' | 'vue' | 'html' | 'angular' | 'svelte';
   styling: 'tailwind' | 'css-modules' | 'styled-components' | 'plain-css';
   typescript: boolean;
   accessibility: boolean;
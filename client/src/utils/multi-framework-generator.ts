@@ -46,6 +46,7 @@ export class MultiFrameworkGenerator {
     this.adapters.set('react', new ReactAdapter());
     this.adapters.set('vue', new VueAdapter());
     this.adapters.set('angular', new AngularAdapter());
+    this.adapters.set('svelte', new SvelteAdapter());
   }
 }
 
@@ -127,14 +128,17 @@ interface Props {
 class AngularAdapter implements FrameworkAdapter {
   generateCode(config: ComponentConfig): string {
     const componentName = config.name;
-    const selector = config.name.toLowerCase().replace(/([A-Z])/g, '-$1').toLowerCase();
+    const selector = componentName.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
 
     return `import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
 
 @Component({
   selector: 'app-${selector}',
+  standalone: true,
+  imports: [CommonModule],
   template: \`
-    <div [class]="${componentName.toLowerCase()} + ' ' + (className || '')" [attr.class]="className">
+    <div [ngClass]="['${componentName.toLowerCase()}', className || '']">
       <ng-content></ng-content>
     </div>
   \`,
@@ -152,6 +156,37 @@ export class ${componentName}Component {
   }
 
   getDependencies(): string[] {
-    return ['@angular/core'];
+    return ['@angular/core', '@angular/common'];
+  }
+}
+
+class SvelteAdapter implements FrameworkAdapter {
+  generateCode(config: ComponentConfig): string {
+    const componentName = config.name;
+
+    return `<script${config.options.typescript ? ' lang="ts"' : ''}>
+  let className${config.options.typescript ? ': string' : ''} = '';
+  export { className as class };
+</script>
+
+<div class="${componentName.toLowerCase()} {className}" {...$$restProps}>
+  <slot />
+</div>
+
+<style>
+  .${componentName.toLowerCase()} {
+    display: block;
+  }
+</style>`;
+  }
+
+  generateStyles(config: ComponentConfig): string {
+    return `.${config.name.toLowerCase()} {
+  display: block;
+}`;
+  }
+
+  getDependencies(): string[] {
+    return ['svelte'];
   }
 }
@@ -0,0 +1,35 @@
+CREATE TABLE "generated_components" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"jsx" text NOT NULL,
+	"css" text NOT NULL,
+	"typescript" text,
+	"vue" text,
+	"html" text,
+	"metadata" jsonb NOT NULL,
+	"accessibility_report" jsonb NOT NULL,
+	"responsive_breakpoints" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "generation_projects" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"figma_data" jsonb NOT NULL,
+	"options" jsonb NOT NULL,
+	"results" jsonb,
+	"user_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "generated_components" ADD CONSTRAINT "generated_components_project_id_generation_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."generation_projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generation_projects" ADD CONSTRAINT "generation_projects_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "generated_components" ADD COLUMN "angular" text;--> statement-breakpoint
+ALTER TABLE "generated_components" ADD COLUMN "svelte" text;
\ No newline at end of file
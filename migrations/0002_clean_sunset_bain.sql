@@ -0,0 +1,11 @@
+CREATE TABLE "project_assets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"node_id" text NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"data" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_assets" ADD CONSTRAINT "project_assets_project_id_generation_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."generation_projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
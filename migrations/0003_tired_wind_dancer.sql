@@ -0,0 +1,7 @@
+CREATE TABLE "figma_response_cache" (
+	"cache_key" text PRIMARY KEY NOT NULL,
+	"version" text NOT NULL,
+	"last_modified" text NOT NULL,
+	"response" jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
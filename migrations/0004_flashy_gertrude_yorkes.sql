@@ -0,0 +1,11 @@
+CREATE TABLE "project_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"figma_data" jsonb NOT NULL,
+	"options" jsonb NOT NULL,
+	"results" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_versions" ADD CONSTRAINT "project_versions_project_id_generation_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."generation_projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "project_versions" ADD COLUMN "figma_hash" text;--> statement-breakpoint
+ALTER TABLE "project_versions" ADD COLUMN "generator_version" text;--> statement-breakpoint
+ALTER TABLE "project_versions" ADD COLUMN "components" jsonb;--> statement-breakpoint
+ALTER TABLE "project_versions" ADD CONSTRAINT "project_versions_project_id_version_unique" UNIQUE("project_id","version");
\ No newline at end of file
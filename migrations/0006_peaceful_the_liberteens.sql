@@ -0,0 +1,13 @@
+CREATE TABLE "component_mappings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"figma_key" text,
+	"figma_name" text,
+	"import_path" text NOT NULL,
+	"component_name" text NOT NULL,
+	"selector" text,
+	"props" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "component_mappings" ADD CONSTRAINT "component_mappings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "visual_diffs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"component_name" text NOT NULL,
+	"figma_node_id" text NOT NULL,
+	"score" real,
+	"mismatched_pixels" integer,
+	"total_pixels" integer,
+	"width" integer,
+	"height" integer,
+	"reference_source" text NOT NULL,
+	"heatmap" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "visual_diffs_project_id_component_name_unique" UNIQUE("project_id","component_name")
+);
+--> statement-breakpoint
+ALTER TABLE "visual_diffs" ADD CONSTRAINT "visual_diffs_project_id_generation_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."generation_projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,178 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { registerUserSchema, type User as SelectUser } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${derived.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const storedBuffer = Buffer.from(hashed, "hex");
+  const suppliedBuffer = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return storedBuffer.length === suppliedBuffer.length && timingSafeEqual(storedBuffer, suppliedBuffer);
+}
+
+// Never send the password hash to the client
+function toPublicUser(user: SelectUser) {
+  return { id: user.id, username: user.username };
+}
+
+function getSessionSecret(app: Express): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // Development only: sessions are invalidated on every restart
+  return randomBytes(32).toString("hex");
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  next();
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(app),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Register a new account and sign it in
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const credentials = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(credentials.username)) {
+        return res.status(409).json({
+          success: false,
+          error: 'Username already exists'
+        });
+      }
+
+      const user = await storage.createUser({
+        username: credentials.username,
+        password: await hashPassword(credentials.password),
+      });
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json({
+          success: true,
+          user: toPublicUser(user)
+        });
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: error.errors[0]?.message || 'Invalid registration data'
+        });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid username or password'
+        });
+      }
+
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json({
+          success: true,
+          user: toPublicUser(user)
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/user", requireAuth, (req, res) => {
+    res.json({
+      success: true,
+      user: toPublicUser(req.user!)
+    });
+  });
+}
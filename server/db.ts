@@ -0,0 +1,11 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle({ client: pool, schema }) };
+}
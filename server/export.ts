@@ -0,0 +1,669 @@
+import JSZip from "jszip";
+import type { GenerationProject, GeneratedComponentRecord, CodeGenerationRequest, ProjectAsset } from "@shared/schema";
+import type { FigmaApiResponse, ComponentMetadata } from "@shared/types/figma";
+import { DesignSystemExtractor } from "@shared/services/design-system-extractor";
+import { DesignSystemExporter, type ExportOptions } from "@shared/services/design-system-exporter";
+import { ComponentNameSanitizer } from "@shared/utils/component-name-sanitizer";
+import { ASSET_PUBLIC_PATH } from "@shared/utils/figma-assets";
+
+type ProjectOptions = CodeGenerationRequest['options'];
+type Framework = ProjectOptions['framework'];
+
+interface ArchiveFile {
+  path: string;
+  content: string | Buffer;
+}
+
+// Versions the scaffold is pinned to; kept in line with this repo's own toolchain
+const PACKAGE_VERSIONS: Record<string, string> = {
+  'react': '^18.3.1',
+  'react-dom': '^18.3.1',
+  '@types/react': '^18.3.11',
+  '@types/react-dom': '^18.3.1',
+  'vue': '^3.5.13',
+  'svelte': '^4.2.19',
+  '@angular/common': '^18.2.0',
+  '@angular/compiler': '^18.2.0',
+  '@angular/core': '^18.2.0',
+  '@angular/platform-browser': '^18.2.0',
+  'rxjs': '~7.8.0',
+  'tslib': '^2.3.0',
+  'zone.js': '~0.14.10',
+  'next': '^14.2.15',
+  'styled-components': '^6.1.13',
+  'vite': '^5.4.19',
+  '@vitejs/plugin-react': '^4.3.2',
+  '@vitejs/plugin-vue': '^5.2.1',
+  '@sveltejs/vite-plugin-svelte': '^3.1.2',
+  '@angular/cli': '^18.2.0',
+  '@angular/compiler-cli': '^18.2.0',
+  '@angular-devkit/build-angular': '^18.2.0',
+  'typescript': '5.6.3',
+  'vue-tsc': '^2.1.10',
+  'tailwindcss': '^3.4.17',
+  'postcss': '^8.4.47',
+  'autoprefixer': '^10.4.20',
+};
+
+// Angular 18 does not support TypeScript 5.6 yet
+const ANGULAR_TYPESCRIPT_VERSION = '~5.5.2';
+
+// Packages that are only needed at build time
+const DEV_PACKAGES = new Set([
+  'typescript', 'vue-tsc', 'vite', '@vitejs/plugin-react', '@vitejs/plugin-vue', '@sveltejs/vite-plugin-svelte',
+  '@angular/cli', '@angular/compiler-cli', '@angular-devkit/build-angular', 'tailwindcss', 'postcss', 'autoprefixer'
+]);
+
+// Runtime and tooling packages each scaffold needs on top of the components' own dependencies
+const FRAMEWORK_PACKAGES: Record<Framework, { always: string[]; typescript: string[] }> = {
+  react: {
+    always: ['react', 'react-dom', 'vite', '@vitejs/plugin-react'],
+    typescript: ['typescript', '@types/react', '@types/react-dom']
+  },
+  vue: { always: ['vue', 'vite', '@vitejs/plugin-vue'], typescript: ['typescript', 'vue-tsc'] },
+  svelte: { always: ['svelte', 'vite', '@sveltejs/vite-plugin-svelte'], typescript: ['typescript'] },
+  angular: {
+    always: [
+      '@angular/common', '@angular/compiler', '@angular/core', '@angular/platform-browser', 'rxjs', 'tslib', 'zone.js',
+      '@angular/cli', '@angular/compiler-cli', '@angular-devkit/build-angular', 'typescript'
+    ],
+    typescript: []
+  },
+  html: { always: ['vite'], typescript: [] },
+};
+
+const TAILWIND_CONTENT_EXTENSIONS: Record<Framework, string> = {
+  react: 'js,ts,jsx,tsx',
+  vue: 'vue,js,ts',
+  svelte: 'svelte,js,ts',
+  angular: 'html,ts',
+  html: 'html,js',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'figma-project';
+}
+
+// "next/image" -> "next", "@scope/pkg/sub" -> "@scope/pkg"
+function packageName(specifier: string): string {
+  const segments = specifier.split('/');
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+function sortRecord(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Angular is always TypeScript, plain HTML never is
+function usesTypeScript(options: ProjectOptions): boolean {
+  if (options.framework === 'angular') return true;
+  if (options.framework === 'html') return false;
+  return options.typescript;
+}
+
+function componentsDir(options: ProjectOptions): string {
+  return options.framework === 'angular' ? 'src/app/components' : 'src/components';
+}
+
+// File name of a component without extension, relative to the components directory
+function componentBaseName(component: GeneratedComponentRecord, options: ProjectOptions): string {
+  return options.framework === 'angular'
+    ? `${ComponentNameSanitizer.toKebabCase(component.name)}.component`
+    : component.name;
+}
+
+function componentExtension(options: ProjectOptions): string {
+  switch (options.framework) {
+    case 'vue':
+      return '.vue';
+    case 'svelte':
+      return '.svelte';
+    case 'html':
+      return '.html';
+    case 'angular':
+      return '.ts';
+    default:
+      return options.typescript ? '.tsx' : '.jsx';
+  }
+}
+
+function componentSource(component: GeneratedComponentRecord, options: ProjectOptions): string {
+  switch (options.framework) {
+    case 'vue':
+      return component.vue ?? component.jsx;
+    case 'html':
+      return component.html ?? component.jsx;
+    case 'angular':
+      return component.angular ?? component.jsx;
+    case 'svelte':
+      return component.svelte ?? component.jsx;
+    default:
+      return component.jsx;
+  }
+}
+
+// Styled-components only exist for React; every other framework gets plain CSS from the generator
+function usesStyledComponents(options: ProjectOptions): boolean {
+  return options.styling === 'styled-components' && options.framework === 'react';
+}
+
+function styleFileName(baseName: string, options: ProjectOptions): string {
+  // Angular components reference their stylesheet through styleUrls
+  if (options.framework === 'angular') return `${baseName}.css`;
+  if (options.styling === 'css-modules') return `${baseName}.module.css`;
+  if (usesStyledComponents(options)) return `${baseName}.styles.${options.typescript ? 'ts' : 'js'}`;
+  return `${baseName}.css`;
+}
+
+// Whether component stylesheets are imported globally instead of by each component
+function hasGlobalComponentStyles(options: ProjectOptions): boolean {
+  return options.framework !== 'angular' && options.styling !== 'css-modules' && !usesStyledComponents(options);
+}
+
+function buildComponentFiles(components: GeneratedComponentRecord[], options: ProjectOptions): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+  const dir = componentsDir(options);
+
+  for (const component of components) {
+    const baseName = componentBaseName(component, options);
+    files.push({
+      path: `${dir}/${baseName}${componentExtension(options)}`,
+      content: componentSource(component, options)
+    });
+
+    // Angular fails to build when a styleUrls entry is missing, so its stylesheet is always written
+    if (component.css || options.framework === 'angular') {
+      files.push({ path: `${dir}/${styleFileName(baseName, options)}`, content: component.css });
+    }
+
+    if (component.typescript && usesTypeScript(options)) {
+      files.push({ path: `${dir}/${component.name}.types.ts`, content: component.typescript });
+    }
+  }
+
+  return files;
+}
+
+function buildBarrel(components: GeneratedComponentRecord[], options: ProjectOptions): ArchiveFile | null {
+  if (options.framework === 'html') return null;
+
+  const lines = components.map(component => {
+    switch (options.framework) {
+      case 'angular':
+        return `export { ${component.name}Component } from './app/components/${componentBaseName(component, options)}';`;
+      case 'vue':
+      case 'svelte':
+        return `export { default as ${component.name} } from './components/${component.name}${componentExtension(options)}';`;
+      default:
+        return `export { default as ${component.name} } from './components/${component.name}';`;
+    }
+  });
+
+  return {
+    path: `src/index.${usesTypeScript(options) ? 'ts' : 'js'}`,
+    content: `${lines.join('\n')}\n`
+  };
+}
+
+function exportTokens(figmaData: FigmaApiResponse, options: Omit<ExportOptions, 'includeComments' | 'useCustomProperties'>) {
+  const tokens = new DesignSystemExtractor(figmaData).extractDesignTokens();
+  return new DesignSystemExporter(tokens, { includeComments: true, useCustomProperties: true, ...options }).export();
+}
+
+function buildTokenFiles(figmaData: FigmaApiResponse, options: ProjectOptions): ArchiveFile[] {
+  const files = [
+    ...exportTokens(figmaData, { format: 'css' }),
+    ...exportTokens(figmaData, { format: 'json' }),
+  ].map(file => ({ path: `src/styles/${file.filename}`, content: file.content }));
+
+  if (options.styling === 'tailwind') {
+    const [config] = exportTokens(figmaData, {
+      format: 'tailwind',
+      contentPaths: ['./index.html', `./src/**/*.{${TAILWIND_CONTENT_EXTENSIONS[options.framework]}}`]
+    });
+    // The scaffold is an ES module package, so CommonJS configs need the .cjs extension
+    files.push({ path: 'tailwind.config.cjs', content: config.content });
+    // The Angular CLI sets up PostCSS for Tailwind on its own once it finds the config
+    if (options.framework !== 'angular') {
+      files.push({
+        path: 'postcss.config.cjs',
+        content: `module.exports = {\n  plugins: {\n    tailwindcss: {},\n    autoprefixer: {},\n  },\n};\n`
+      });
+    }
+  }
+
+  return files;
+}
+
+function globalStylesheet(components: GeneratedComponentRecord[], options: ProjectOptions): ArchiveFile {
+  const lines = ["@import './styles/tokens.css';", "@import './styles/utilities.css';"];
+
+  // @import rules have to precede every other statement
+  if (hasGlobalComponentStyles(options)) {
+    lines.push(...components.map(component => `@import './components/${component.name}.css';`));
+  }
+
+  if (options.styling === 'tailwind') {
+    lines.push('', '@tailwind base;', '@tailwind components;', '@tailwind utilities;');
+  }
+
+  return { path: 'src/index.css', content: `${lines.join('\n')}\n` };
+}
+
+function indexHtml(path: string, title: string, body: string, head = ''): ArchiveFile {
+  return {
+    path,
+    content: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title}</title>${head}
+  </head>
+  <body>
+${body}
+  </body>
+</html>
+`
+  };
+}
+
+function moduleEntryHtml(title: string, entry: string): ArchiveFile {
+  return indexHtml('index.html', title, `    <div id="root"></div>\n    <script type="module" src="/${entry}"></script>`);
+}
+
+function viteConfig(ts: boolean, pluginImport: string, pluginCall: string): ArchiveFile {
+  return {
+    path: `vite.config.${ts ? 'ts' : 'js'}`,
+    content: `import { defineConfig } from 'vite';
+${pluginImport}
+
+export default defineConfig({
+  plugins: [${pluginCall}],
+});
+`
+  };
+}
+
+function buildHtmlApp(components: GeneratedComponentRecord[], title: string): ArchiveFile[] {
+  const links = components
+    .map(component => `      <li><a href="/src/components/${component.name}.html">${component.name}</a></li>`)
+    .join('\n');
+
+  return [
+    indexHtml('index.html', title, `    <h1>${title}</h1>\n    <ul>\n${links}\n    </ul>`, '\n    <link rel="stylesheet" href="/src/index.css" />')
+  ];
+}
+
+function buildReactApp(names: string[], ts: boolean, title: string): ArchiveFile[] {
+  const entry = `src/main.${ts ? 'tsx' : 'jsx'}`;
+  const files = [
+    moduleEntryHtml(title, entry),
+    {
+      path: entry,
+      content: `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App';
+import './index.css';
+
+ReactDOM.createRoot(document.getElementById('root')${ts ? '!' : ''}).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>,
+);
+`
+    },
+    {
+      path: `src/App.${ts ? 'tsx' : 'jsx'}`,
+      content: `${names.length ? `import { ${names.join(', ')} } from './index';\n\n` : ''}export default function App() {
+  return (
+    <main>
+${names.map(name => `      <${name} />`).join('\n')}
+    </main>
+  );
+}
+`
+    },
+    viteConfig(ts, "import react from '@vitejs/plugin-react';", 'react()'),
+  ];
+
+  if (ts) {
+    files.push({ path: 'src/vite-env.d.ts', content: `/// <reference types="vite/client" />\n` });
+  }
+
+  return files;
+}
+
+function buildVueApp(names: string[], ts: boolean, title: string): ArchiveFile[] {
+  const entry = `src/main.${ts ? 'ts' : 'js'}`;
+  const files = [
+    moduleEntryHtml(title, entry),
+    {
+      path: entry,
+      content: `import { createApp } from 'vue';
+import App from './App.vue';
+import './index.css';
+
+createApp(App).mount('#root');
+`
+    },
+    {
+      path: 'src/App.vue',
+      content: `<template>
+  <main>
+${names.map(name => `    <${name} />`).join('\n')}
+  </main>
+</template>
+
+<script setup${ts ? ' lang="ts"' : ''}>
+${names.length ? `import { ${names.join(', ')} } from './index';` : ''}
+</script>
+`
+    },
+    viteConfig(ts, "import vue from '@vitejs/plugin-vue';", 'vue()'),
+  ];
+
+  if (ts) {
+    files.push({ path: 'src/env.d.ts', content: `/// <reference types="vite/client" />\n\ndeclare module '*.vue' {\n  import type { DefineComponent } from 'vue';\n  const component: DefineComponent;\n  export default component;\n}\n` });
+  }
+
+  return files;
+}
+
+function buildSvelteApp(names: string[], ts: boolean, title: string): ArchiveFile[] {
+  const entry = `src/main.${ts ? 'ts' : 'js'}`;
+  const files = [
+    moduleEntryHtml(title, entry),
+    {
+      path: entry,
+      content: `import App from './App.svelte';
+import './index.css';
+
+const app = new App({
+  target: document.getElementById('root')${ts ? '!' : ''},
+});
+
+export default app;
+`
+    },
+    {
+      path: 'src/App.svelte',
+      content: `<script${ts ? ' lang="ts"' : ''}>
+${names.length ? `  import { ${names.join(', ')} } from './index';` : ''}
+</script>
+
+<main>
+${names.map(name => `  <${name} />`).join('\n')}
+</main>
+`
+    },
+    viteConfig(ts, "import { svelte } from '@sveltejs/vite-plugin-svelte';", 'svelte()'),
+    {
+      path: 'svelte.config.js',
+      content: `import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+
+export default {
+  preprocess: vitePreprocess(),
+};
+`
+    },
+  ];
+
+  if (ts) {
+    files.push({ path: 'src/vite-env.d.ts', content: `/// <reference types="svelte" />\n/// <reference types="vite/client" />\n` });
+  }
+
+  return files;
+}
+
+function buildAngularApp(components: GeneratedComponentRecord[], options: ProjectOptions, name: string, title: string): ArchiveFile[] {
+  const classNames = components.map(component => `${component.name}Component`);
+  const imports = components
+    .map(component => `import { ${component.name}Component } from './components/${componentBaseName(component, options)}';`)
+    .join('\n');
+  const tags = components
+    .map(component => {
+      const selector = `app-${ComponentNameSanitizer.toKebabCase(component.name)}`;
+      return `      <${selector}></${selector}>`;
+    })
+    .join('\n');
+
+  const angularJson = {
+    $schema: './node_modules/@angular/cli/lib/config/schema.json',
+    version: 1,
+    newProjectRoot: 'projects',
+    projects: {
+      [name]: {
+        projectType: 'application',
+        root: '',
+        sourceRoot: 'src',
+        prefix: 'app',
+        architect: {
+          build: {
+            builder: '@angular-devkit/build-angular:application',
+            options: {
+              outputPath: `dist/${name}`,
+              index: 'src/index.html',
+              browser: 'src/main.ts',
+              polyfills: ['zone.js'],
+              tsConfig: 'tsconfig.json',
+              styles: ['src/index.css'],
+              assets: [{ glob: '**/*', input: 'public' }]
+            }
+          },
+          serve: {
+            builder: '@angular-devkit/build-angular:dev-server',
+            options: { buildTarget: `${name}:build` }
+          }
+        }
+      }
+    }
+  };
+
+  return [
+    { path: 'angular.json', content: `${JSON.stringify(angularJson, null, 2)}\n` },
+    indexHtml('src/index.html', title, '    <app-root></app-root>'),
+    {
+      path: 'src/main.ts',
+      content: `import { bootstrapApplication } from '@angular/platform-browser';
+import { AppComponent } from './app/app.component';
+
+bootstrapApplication(AppComponent).catch(error => console.error(error));
+`
+    },
+    {
+      path: 'src/app/app.component.ts',
+      content: `import { Component } from '@angular/core';
+${imports}
+
+@Component({
+  selector: 'app-root',
+  standalone: true,
+  imports: [${classNames.join(', ')}],
+  template: \`
+    <main>
+${tags}
+    </main>
+  \`
+})
+export class AppComponent {}
+`
+    },
+  ];
+}
+
+function buildAppFiles(components: GeneratedComponentRecord[], options: ProjectOptions, name: string, projectName: string): ArchiveFile[] {
+  const ts = usesTypeScript(options);
+  const title = escapeHtml(projectName);
+  const names = components.map(component => component.name);
+  const stylesheet = globalStylesheet(components, options);
+
+  switch (options.framework) {
+    case 'html':
+      return [stylesheet, ...buildHtmlApp(components, title)];
+    case 'vue':
+      return [stylesheet, ...buildVueApp(names, ts, title)];
+    case 'svelte':
+      return [stylesheet, ...buildSvelteApp(names, ts, title)];
+    case 'angular':
+      return [stylesheet, ...buildAngularApp(components, options, name, title)];
+    default:
+      return [stylesheet, ...buildReactApp(names, ts, title)];
+  }
+}
+
+function buildTsConfig(options: ProjectOptions): ArchiveFile | null {
+  if (!usesTypeScript(options)) return null;
+
+  if (options.framework === 'angular') {
+    const compilerOptions = {
+      target: 'ES2022',
+      module: 'ES2022',
+      moduleResolution: 'bundler',
+      lib: ['ES2022', 'dom'],
+      strict: true,
+      skipLibCheck: true,
+      experimentalDecorators: true,
+      importHelpers: true,
+      useDefineForClassFields: false
+    };
+    return {
+      path: 'tsconfig.json',
+      content: `${JSON.stringify({ compilerOptions, files: ['src/main.ts'], include: ['src/**/*.d.ts'] }, null, 2)}\n`
+    };
+  }
+
+  const compilerOptions = {
+    target: 'ES2020',
+    module: 'ESNext',
+    moduleResolution: 'bundler',
+    lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+    ...(options.framework === 'react' ? { jsx: 'react-jsx' } : { jsx: 'preserve' }),
+    strict: true,
+    skipLibCheck: true,
+    isolatedModules: true,
+    noEmit: true
+  };
+
+  return {
+    path: 'tsconfig.json',
+    content: `${JSON.stringify({ compilerOptions, include: ['src'] }, null, 2)}\n`
+  };
+}
+
+function buildScripts(options: ProjectOptions): Record<string, string> {
+  if (options.framework === 'angular') {
+    return { dev: 'ng serve', build: 'ng build' };
+  }
+
+  let typecheck = '';
+  if (options.framework === 'vue' && options.typescript) typecheck = 'vue-tsc --noEmit && ';
+  if (options.framework === 'react' && options.typescript) typecheck = 'tsc && ';
+
+  return { dev: 'vite', build: `${typecheck}vite build`, preview: 'vite preview' };
+}
+
+function buildPackageJson(name: string, components: GeneratedComponentRecord[], options: ProjectOptions): ArchiveFile {
+  const required = new Set<string>();
+
+  for (const component of components) {
+    const metadata = component.metadata as ComponentMetadata | null;
+    (metadata?.dependencies ?? []).forEach(dependency => required.add(packageName(dependency)));
+  }
+
+  const frameworkPackages = FRAMEWORK_PACKAGES[options.framework];
+  frameworkPackages.always.forEach(pkg => required.add(pkg));
+  if (options.typescript) {
+    frameworkPackages.typescript.forEach(pkg => required.add(pkg));
+  }
+  if (options.styling === 'tailwind') {
+    ['tailwindcss', 'postcss', 'autoprefixer'].forEach(pkg => required.add(pkg));
+  }
+
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+  required.forEach(pkg => {
+    const target = DEV_PACKAGES.has(pkg) || pkg.startsWith('@types/') ? devDependencies : dependencies;
+    target[pkg] = PACKAGE_VERSIONS[pkg] ?? 'latest';
+  });
+
+  if (options.framework === 'angular') {
+    devDependencies.typescript = ANGULAR_TYPESCRIPT_VERSION;
+  }
+
+  const pkg = {
+    name,
+    private: true,
+    version: '0.1.0',
+    type: 'module',
+    scripts: buildScripts(options),
+    dependencies: sortRecord(dependencies),
+    devDependencies: sortRecord(devDependencies)
+  };
+
+  return { path: 'package.json', content: `${JSON.stringify(pkg, null, 2)}\n` };
+}
+
+function buildReadme(project: GenerationProject, options: ProjectOptions): ArchiveFile {
+  return {
+    path: 'README.md',
+    content: `# ${project.name}
+
+Generated from Figma (${options.framework}, ${options.styling}).
+
+\`\`\`bash
+npm install
+npm run dev
+\`\`\`
+
+Components live in \`${componentsDir(options)}\`; design tokens in \`src/styles\`.
+`
+  };
+}
+
+// Generated markup references the images as /assets/<file>, which Vite and the Angular CLI serve from public/
+function buildAssetFiles(assets: ProjectAsset[]): ArchiveFile[] {
+  return assets.map(asset => ({
+    path: `public${ASSET_PUBLIC_PATH}/${asset.fileName}`,
+    content: Buffer.from(asset.data, 'base64')
+  }));
+}
+
+export function projectArchiveName(project: GenerationProject): string {
+  return `${slugify(project.name)}.zip`;
+}
+
+/**
+ * Builds a ready-to-run project scaffold (components, barrel, design tokens, Figma image assets,
+ * package.json and Vite, Angular CLI or Tailwind config) for a generated project.
+ */
+export async function buildProjectArchive(
+  project: GenerationProject,
+  components: GeneratedComponentRecord[],
+  assets: ProjectAsset[] = []
+): Promise<Buffer> {
+  const options = project.options as ProjectOptions;
+  const figmaData = project.figmaData as FigmaApiResponse;
+  const name = slugify(project.name);
+
+  const files = [
+    buildPackageJson(name, components, options),
+    buildTsConfig(options),
+    buildReadme(project, options),
+    ...buildAppFiles(components, options, name, project.name),
+    ...buildComponentFiles(components, options),
+    buildBarrel(components, options),
+    ...buildTokenFiles(figmaData, options),
+    ...buildAssetFiles(assets),
+  ].filter((file): file is ArchiveFile => file !== null);
+
+  const zip = new JSZip();
+  const root = zip.folder(name)!;
+  files.forEach(file => root.file(file.path, file.content));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,199 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { FigmaNode } from "@shared/types/figma";
+import { FigmaApiClient } from "@shared/services/figma-api";
+import { ValidationError } from "@shared/utils/errors";
+import { importFigmaFile } from "./figma-import";
+
+const FILE_KEY = "AbC123";
+
+const hero: FigmaNode = {
+  id: "12:34",
+  name: "Hero",
+  type: "FRAME",
+  children: [
+    { id: "12:35", name: "Photo", type: "RECTANGLE", fills: [{ type: "IMAGE", imageRef: "ref" }] },
+    { id: "12:36", name: "Logo", type: "VECTOR" },
+    {
+      id: "12:37",
+      name: "Banner",
+      type: "FRAME",
+      fills: [{ type: "IMAGE", imageRef: "ref" }],
+      // Part of the banner's image, so not exported on its own
+      children: [{ id: "12:38", name: "Badge", type: "STAR" }]
+    },
+    { id: "12:39", name: "Hidden icon", type: "VECTOR", visible: false }
+  ]
+};
+
+const document: FigmaNode = {
+  id: "0:0",
+  name: "Document",
+  type: "DOCUMENT",
+  children: [{ id: "0:1", name: "Page 1", type: "CANVAS", children: [hero] }]
+};
+
+const fileMeta = {
+  name: "Landing",
+  lastModified: "2024-05-01T00:00:00Z",
+  thumbnailUrl: "",
+  version: "42",
+  role: "viewer",
+  editorType: "figma"
+};
+
+// A local stand-in for the Figma REST API and its image CDN
+const stub = {
+  server: null as http.Server | null,
+  baseUrl: "",
+  requests: [] as string[],
+  // Node IDs the images endpoint answers with null for
+  unrenderable: new Set<string>(),
+  // Node IDs whose download fails
+  brokenDownloads: new Set<string>()
+};
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || "/", stub.baseUrl);
+  stub.requests.push(`${url.pathname}${url.search}`);
+
+  if (url.pathname === `/v1/files/${FILE_KEY}`) {
+    return send(res, 200, { ...fileMeta, document, components: {}, styles: {}, schemaVersion: 0 });
+  }
+
+  if (url.pathname === `/v1/files/${FILE_KEY}/nodes`) {
+    const ids = (url.searchParams.get("ids") || "").split(",");
+    const nodes = Object.fromEntries(ids.map(id => [
+      id,
+      id === hero.id ? { document: hero, components: {}, styles: {}, schemaVersion: 0 } : null
+    ]));
+    return send(res, 200, { ...fileMeta, nodes });
+  }
+
+  if (url.pathname === `/v1/images/${FILE_KEY}`) {
+    const format = url.searchParams.get("format");
+    const scale = url.searchParams.get("scale");
+    const images = Object.fromEntries((url.searchParams.get("ids") || "").split(",").map(id => [
+      id,
+      stub.unrenderable.has(id) ? null : `${stub.baseUrl}/render/${encodeURIComponent(id)}.${format}?scale=${scale}`
+    ]));
+    return send(res, 200, { err: null, images });
+  }
+
+  const render = url.pathname.match(/^\/render\/(.+)\.(svg|png)$/);
+  if (render) {
+    const id = decodeURIComponent(render[1]);
+    if (stub.brokenDownloads.has(id)) return send(res, 500, {});
+    res.writeHead(200, { "Content-Type": render[2] === "svg" ? "image/svg+xml" : "image/png" });
+    return res.end(`${render[2]}:${id}@${url.searchParams.get("scale")}`);
+  }
+
+  send(res, 404, { message: "Not found" });
+}
+
+function client() {
+  return new FigmaApiClient("figd_import_test", { baseUrl: `${stub.baseUrl}/v1`, maxRetries: 0 });
+}
+
+function decode(data: string) {
+  return Buffer.from(data, "base64").toString();
+}
+
+beforeAll(async () => {
+  stub.server = http.createServer(handle);
+  await new Promise<void>(resolve => stub.server!.listen(0, "127.0.0.1", resolve));
+  stub.baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => stub.server?.close(resolve));
+});
+
+beforeEach(() => {
+  stub.requests = [];
+  stub.unrenderable.clear();
+  stub.brokenDownloads.clear();
+});
+
+describe("FigmaApiClient.extractNodeId", () => {
+  it("reads the dash form of current Figma URLs", () => {
+    expect(FigmaApiClient.extractNodeId(`https://www.figma.com/design/${FILE_KEY}/Landing?node-id=12-34&t=abc`)).toBe("12:34");
+  });
+
+  it("reads the encoded colon form of older URLs", () => {
+    expect(FigmaApiClient.extractNodeId(`https://www.figma.com/file/${FILE_KEY}/Landing?node-id=12%3A34`)).toBe("12:34");
+  });
+
+  it("returns null when no node is selected", () => {
+    expect(FigmaApiClient.extractNodeId(`https://www.figma.com/file/${FILE_KEY}/Landing`)).toBeNull();
+  });
+});
+
+describe("importFigmaFile", () => {
+  it("fetches only the node selected in the URL and places it on a page of its own", async () => {
+    const result = await importFigmaFile(client(), `https://www.figma.com/design/${FILE_KEY}/Landing?node-id=12-34`);
+
+    expect(stub.requests[0]).toBe(`/v1/files/${FILE_KEY}/nodes?ids=12%3A34`);
+    expect(stub.requests).not.toContain(`/v1/files/${FILE_KEY}`);
+    expect(result.figmaData).toMatchObject({ name: "Landing", version: "42" });
+    expect(result.figmaData.document).toMatchObject({
+      type: "DOCUMENT",
+      children: [{ type: "CANVAS", children: [{ id: "12:34", name: "Hero" }] }]
+    });
+  });
+
+  it("fetches the whole file when the URL selects no node", async () => {
+    const result = await importFigmaFile(client(), `https://www.figma.com/file/${FILE_KEY}/Landing`);
+
+    expect(stub.requests[0]).toBe(`/v1/files/${FILE_KEY}`);
+    expect(result.figmaData.document).toEqual(document);
+  });
+
+  it("exports image fills as PNG@2x and vector shapes as SVG", async () => {
+    const { assets, warnings } = await importFigmaFile(client(), `https://www.figma.com/design/${FILE_KEY}/Landing?node-id=12-34`);
+
+    const imageRequests = stub.requests.filter(request => request.startsWith(`/v1/images/`));
+    expect(imageRequests).toEqual([
+      `/v1/images/${FILE_KEY}?ids=12%3A36&format=svg&scale=1`,
+      `/v1/images/${FILE_KEY}?ids=12%3A35%2C12%3A37&format=png&scale=2`
+    ]);
+
+    expect(assets.map(asset => ({ ...asset, data: decode(asset.data) }))).toEqual([
+      { nodeId: "12:36", fileName: "logo-12-36.svg", mimeType: "image/svg+xml", data: "svg:12:36@1" },
+      { nodeId: "12:35", fileName: "photo-12-35.png", mimeType: "image/png", data: "png:12:35@2" },
+      { nodeId: "12:37", fileName: "banner-12-37.png", mimeType: "image/png", data: "png:12:37@2" }
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("reports images Figma cannot render or that fail to download as warnings", async () => {
+    stub.unrenderable.add("12:36");
+    stub.brokenDownloads.add("12:37");
+
+    const { assets, warnings } = await importFigmaFile(client(), `https://www.figma.com/design/${FILE_KEY}/Landing?node-id=12-34`);
+
+    expect(assets.map(asset => asset.nodeId)).toEqual(["12:35"]);
+    expect(warnings).toEqual([
+      "Figma could not render Logo (12:36) as SVG",
+      expect.stringMatching(/^Failed to download the image of Banner \(12:37\): 500/)
+    ]);
+  });
+
+  it("rejects a URL without a file key", async () => {
+    await expect(importFigmaFile(client(), "https://www.figma.com/community/plugin/1")).rejects.toBeInstanceOf(ValidationError);
+    expect(stub.requests).toEqual([]);
+  });
+
+  it("rejects a node ID that is not in the file", async () => {
+    const error = await importFigmaFile(client(), `https://www.figma.com/design/${FILE_KEY}/Landing?node-id=99-1`).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe("Node 99:1 was not found in the Figma file");
+  });
+});
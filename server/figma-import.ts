@@ -0,0 +1,172 @@
+import type { FigmaAsset } from "@shared/schema";
+import type { FigmaApiResponse, FigmaNode } from "@shared/types/figma";
+import { FigmaApiClient } from "@shared/services/figma-api";
+import { ValidationError } from "@shared/utils/errors";
+import {
+  ASSET_MIME_TYPES,
+  assetFileName,
+  collectAssetNodes,
+  type AssetFormat,
+  type AssetNode
+} from "@shared/utils/figma-assets";
+
+// Nodes rendered per images request; long ID lists make Figma time out
+const EXPORT_BATCH_SIZE = 50;
+
+// Rasters are exported at 2x so they stay sharp on high-density screens
+const EXPORT_SCALE: Record<AssetFormat, number> = { svg: 1, png: 2 };
+
+export interface FigmaImport {
+  figmaData: FigmaApiResponse;
+  assets: FigmaAsset[];
+  warnings: string[];
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+// Generation starts from a document; a selected frame is placed on a page of its own
+function documentFor(node: FigmaNode): FigmaNode {
+  if (node.type === 'DOCUMENT') return node;
+
+  const page: FigmaNode = node.type === 'CANVAS'
+    ? node
+    : { id: '0:1', name: 'Page 1', type: 'CANVAS', children: [node] };
+  return { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [page] };
+}
+
+async function fetchDocument(client: FigmaApiClient, fileKey: string, nodeId: string | null): Promise<FigmaApiResponse> {
+  if (!nodeId) {
+    return client.getFile(fileKey);
+  }
+
+  const response = await client.getFileNodes(fileKey, [nodeId]);
+  const entry = response.nodes[nodeId];
+  if (!entry) {
+    throw new ValidationError(`Node ${nodeId} was not found in the Figma file`, 'figmaUrl');
+  }
+
+  return {
+    document: documentFor(entry.document),
+    components: entry.components || {},
+    componentSets: entry.componentSets || {},
+    styles: entry.styles || {},
+    schemaVersion: entry.schemaVersion,
+    name: response.name,
+    lastModified: response.lastModified,
+    thumbnailUrl: response.thumbnailUrl,
+    version: response.version,
+    role: response.role,
+    editorType: response.editorType,
+    linkAccess: ''
+  };
+}
+
+async function downloadAsset(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer()).toString('base64');
+}
+
+// Renders nodes through Figma's images endpoint and downloads them, base64-encoded by node ID
+async function renderNodes(
+  client: FigmaApiClient,
+  fileKey: string,
+  nodes: Array<Pick<FigmaNode, 'id' | 'name'>>,
+  format: AssetFormat,
+  scale: number,
+  warnings: string[]
+): Promise<Map<string, string>> {
+  const rendered = new Map<string, string>();
+
+  for (const batch of chunk(nodes, EXPORT_BATCH_SIZE)) {
+    const { images } = await client.exportImages(fileKey, batch.map(node => node.id), { format, scale });
+
+    for (const node of batch) {
+      const url = images[node.id];
+      if (!url) {
+        warnings.push(`Figma could not render ${node.name} (${node.id}) as ${format.toUpperCase()}`);
+        continue;
+      }
+
+      try {
+        rendered.set(node.id, await downloadAsset(url));
+      } catch (error) {
+        warnings.push(`Failed to download the image of ${node.name} (${node.id}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  return rendered;
+}
+
+async function exportAssets(client: FigmaApiClient, fileKey: string, assetNodes: AssetNode[], warnings: string[]): Promise<FigmaAsset[]> {
+  const assets: FigmaAsset[] = [];
+
+  for (const format of ['svg', 'png'] as AssetFormat[]) {
+    const nodes = assetNodes.filter(asset => asset.format === format).map(asset => asset.node);
+    const rendered = await renderNodes(client, fileKey, nodes, format, EXPORT_SCALE[format], warnings);
+
+    nodes
+      .filter(node => rendered.has(node.id))
+      .forEach(node => assets.push({
+        nodeId: node.id,
+        fileName: assetFileName(node, format),
+        mimeType: ASSET_MIME_TYPES[format],
+        data: rendered.get(node.id) as string
+      }));
+  }
+
+  return assets;
+}
+
+/**
+ * PNGs of the given nodes at 1x, base64-encoded by node ID, e.g. the frames of generated
+ * components as references for the visual comparison. Nodes that fail are reported as warnings.
+ */
+export async function exportNodePngs(
+  client: FigmaApiClient,
+  fileKey: string,
+  nodes: Array<Pick<FigmaNode, 'id' | 'name'>>,
+  warnings: string[]
+): Promise<Map<string, string>> {
+  return renderNodes(client, fileKey, nodes, 'png', 1, warnings);
+}
+
+/**
+ * Fetches a Figma file, or only the subtree selected by the node-id in the URL, and exports its
+ * image fills (PNG@2x) and vector shapes (SVG) as assets. Images Figma cannot render or that fail
+ * to download are reported as warnings instead of failing the import.
+ */
+export async function importFigmaFile(client: FigmaApiClient, figmaUrl: string): Promise<FigmaImport> {
+  let fileKey: string;
+  try {
+    fileKey = FigmaApiClient.extractFileKey(figmaUrl);
+  } catch {
+    throw new ValidationError('Invalid Figma URL format', 'figmaUrl');
+  }
+
+  return importFigmaDocument(client, fileKey, FigmaApiClient.extractNodeId(figmaUrl));
+}
+
+/**
+ * The same import by file key, limited to the given node when nodeId is set
+ */
+export async function importFigmaDocument(client: FigmaApiClient, fileKey: string, nodeId: string | null = null): Promise<FigmaImport> {
+  const figmaData = await fetchDocument(client, fileKey, nodeId);
+  if (!figmaData.document) {
+    throw new ValidationError('Invalid response from Figma API');
+  }
+
+  const warnings: string[] = [];
+  const assets = await exportAssets(client, fileKey, collectAssetNodes(figmaData.document), warnings);
+
+  return { figmaData, assets, warnings };
+}
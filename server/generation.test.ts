@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { CodeGenerationRequest } from "@shared/schema";
+import type { FigmaNode } from "@shared/types/figma";
+import { regenerateProject, runGeneration } from "./generation";
+import { storage } from "./storage";
+
+const options: CodeGenerationRequest["options"] = {
+  framework: "react",
+  styling: "plain-css",
+  typescript: true,
+  accessibility: false,
+  responsive: false,
+  optimizeImages: false,
+  includeComments: false,
+  generateTests: false
+};
+
+function figmaData(label: string): CodeGenerationRequest["figmaData"] {
+  const card: FigmaNode = {
+    id: "1:1",
+    name: "Card",
+    type: "COMPONENT",
+    children: [{ id: "1:2", name: "Label", type: "TEXT", characters: label }]
+  };
+  return {
+    name: "Cards",
+    document: { id: "0:0", name: "Document", type: "DOCUMENT", children: [{ id: "0:1", name: "Page", type: "CANVAS", children: [card] }] }
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("regenerateProject", () => {
+  it("leaves the project, its components and its versions as they were when the components cannot be saved", async () => {
+    const generated = await runGeneration({ name: "Cards", figmaData: figmaData("Buy"), options }, 1);
+    const project = (await storage.getGenerationProject(generated.id))!;
+    const componentsBefore = await storage.getGeneratedComponentsByProject(project.id);
+    vi.spyOn(storage, "replaceGeneratedComponents").mockRejectedValue(new Error("connection lost"));
+
+    await expect(regenerateProject(project, { figmaData: figmaData("Sell") })).rejects.toThrow("connection lost");
+
+    expect(await storage.getGenerationProject(project.id)).toEqual(project);
+    expect(await storage.getGeneratedComponentsByProject(project.id)).toEqual(componentsBefore);
+    expect((await storage.getProjectVersions(project.id)).map(version => version.version)).toEqual([1]);
+  });
+
+  it("saves the regenerated components as the next version", async () => {
+    const generated = await runGeneration({ name: "Cards", figmaData: figmaData("Buy"), options }, 1);
+    const project = (await storage.getGenerationProject(generated.id))!;
+
+    const result = await regenerateProject(project, { figmaData: figmaData("Sell") });
+
+    expect(result.version).toBe(2);
+    expect((await storage.getProjectVersions(project.id)).map(version => version.version).sort()).toEqual([1, 2]);
+    const [card] = await storage.getGeneratedComponentsByProject(project.id);
+    expect(card.jsx).toContain("Sell");
+  });
+});
@@ -0,0 +1,483 @@
+import { createHash } from "crypto";
+import type {
+  CodeGenerationRequest,
+  FigmaAsset,
+  GenerationProject,
+  GenerationResult,
+  InsertGeneratedComponent,
+  InsertProjectVersion,
+  ProjectVersion
+} from "@shared/schema";
+import type { FigmaApiResponse, FigmaNode, GeneratedComponent } from "@shared/types/figma";
+import type { ComponentLibraryMapping, ComponentLibraryReport, GenerationPhaseKey } from "@shared/types/generator";
+import { AdvancedCodeGenerator } from "@shared/services/advanced-code-generator";
+import { AccessibilityAnalyzer } from "@shared/services/accessibility-analyzer";
+import { CodeFormatter, type PreviousComponentCode } from "@shared/services/code-formatter";
+import { ASSET_PUBLIC_PATH } from "@shared/utils/figma-assets";
+import { ComponentLibrary } from "@shared/utils/component-library";
+import { diffGeneration, type DiffableComponent } from "@shared/utils/generation-diff";
+import { GENERATOR_VERSION } from "@shared/utils/constants";
+import { ValidationError } from "@shared/utils/errors";
+import { pluginRegistry } from "./plugins";
+import { storage } from "./storage";
+
+export const GENERATION_PHASES: Array<{ key: GenerationPhaseKey; name: string }> = [
+  { key: 'parse', name: 'Parse Figma document' },
+  { key: 'detect', name: 'Detect components' },
+  { key: 'generate', name: 'Generate code' },
+  { key: 'accessibility', name: 'Analyze accessibility' },
+  { key: 'format', name: 'Format output' },
+];
+
+const COMPLEXITY_LEVELS = ['simple', 'medium', 'complex'];
+
+export interface GenerationHooks {
+  signal?: AbortSignal;
+  onPhaseStart?(phase: GenerationPhaseKey): void;
+  onComponentProgress?(phase: GenerationPhaseKey, componentName: string, index: number, total: number): void;
+  onPhaseComplete?(phase: GenerationPhaseKey): void;
+}
+
+export function countNodes(node: any): number {
+  if (!node) return 0;
+  return 1 + (node.children || []).reduce((total: number, child: any) => total + countNodes(child), 0);
+}
+
+function summarizeComponents(components: GeneratedComponent[], totalNodes: number): GenerationResult['summary'] {
+  if (components.length === 0) {
+    return { componentCount: 0, averageComplexity: 'simple', averageAccuracy: 0, totalNodes };
+  }
+
+  const complexityTotal = components.reduce(
+    (total, component) => total + Math.max(0, COMPLEXITY_LEVELS.indexOf(component.metadata.complexity)),
+    0
+  );
+  const accuracyTotal = components.reduce((total, component) => total + component.metadata.estimatedAccuracy, 0);
+
+  return {
+    componentCount: components.length,
+    averageComplexity: COMPLEXITY_LEVELS[Math.round(complexityTotal / components.length)],
+    averageAccuracy: Math.round(accuracyTotal / components.length),
+    totalNodes
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// Let pending I/O (SSE writes, cancellation requests) run between components
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+// What the pipeline needs besides the Figma file; a regeneration reuses the stored project's values
+type PipelineInput = Pick<CodeGenerationRequest, 'figmaData' | 'options' | 'customCode' | 'assets'> & {
+  // The project owner's component library mappings
+  componentMappings?: ComponentLibraryMapping[];
+};
+
+interface PipelineOutput {
+  components: GeneratedComponent[];
+  totalNodes: number;
+  errors: string[];
+  warnings: string[];
+  componentLibrary: ComponentLibraryReport | null;
+}
+
+/**
+ * Runs the generation phases (parse, detect, generate, analyze accessibility, format) without
+ * touching storage. Throws if the signal is aborted between steps.
+ */
+async function runPipeline(data: PipelineInput, hooks: GenerationHooks): Promise<PipelineOutput> {
+  const { signal } = hooks;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const figmaData = data.figmaData as FigmaApiResponse;
+
+  const runPhase = async <T>(phase: GenerationPhaseKey, work: () => T | Promise<T>): Promise<T> => {
+    signal?.throwIfAborted();
+    hooks.onPhaseStart?.(phase);
+    const value = await work();
+    hooks.onPhaseComplete?.(phase);
+    return value;
+  };
+
+  const forEachComponent = async <T extends { name: string }>(
+    phase: GenerationPhaseKey,
+    items: T[],
+    work: (item: T) => void
+  ) => {
+    for (let index = 0; index < items.length; index++) {
+      signal?.throwIfAborted();
+      try {
+        work(items[index]);
+      } catch (error) {
+        errors.push(`${items[index].name}: ${phase} failed: ${errorMessage(error)}`);
+      }
+      hooks.onComponentProgress?.(phase, items[index].name, index + 1, items.length);
+      await yieldToEventLoop();
+    }
+  };
+
+  const totalNodes = await runPhase('parse', () => {
+    if (!figmaData.document) {
+      throw new Error('Figma data must contain a document');
+    }
+    return countNodes(figmaData.document);
+  });
+
+  const generator = new AdvancedCodeGenerator(figmaData, data.options);
+  const customCode = data.customCode && {
+    jsx: data.customCode.jsx || '',
+    css: data.customCode.css || '',
+    cssAdvanced: data.customCode.cssAdvanced || ''
+  };
+  if (customCode) {
+    generator.setCustomCode(customCode);
+  }
+  if (data.componentMappings?.length) {
+    generator.setComponentLibrary(new ComponentLibrary(figmaData, data.componentMappings));
+  }
+  const assets = data.assets || [];
+  generator.setAssets(Object.fromEntries(assets.map(asset => [asset.nodeId, `${ASSET_PUBLIC_PATH}/${asset.fileName}`])));
+
+  const { targets, cycles } = await runPhase('detect', () => generator.buildComponentGraph());
+  cycles.forEach(cycle => warnings.push(`Circular component reference: ${cycle.join(' -> ')}`));
+  if (targets.length === 0) {
+    warnings.push('No components or non-empty frames found in the Figma document');
+  }
+
+  const generated: Array<{ name: string; node: FigmaNode; component: GeneratedComponent; pluginType: string | null }> = [];
+  await runPhase('generate', () => forEachComponent('generate', targets, ({ node, name }) => {
+    const pluginType = pluginRegistry.detect(node);
+    const generatedComponent = generator.generateComponent(node, name);
+    const component = pluginRegistry.generate(generatedComponent, {
+      name: generatedComponent.name,
+      type: pluginType ?? 'default',
+      node,
+      options: data.options,
+      customCode
+    });
+    generated.push({ name, node, component, pluginType });
+  }));
+  // Style values without a matching design token (only collected when tokenReferences is set)
+  warnings.push(...generator.getTokenWarnings());
+
+  await runPhase('accessibility', () => forEachComponent('accessibility', generated, ({ node, component }) => {
+    if (data.options.accessibility) {
+      // Keep the changes the generator's autofix pass made to the markup
+      component.accessibility = new AccessibilityAnalyzer(node, {
+        rules: data.options.accessibilityRules,
+        componentType: component.metadata.componentType,
+        autoFixed: component.accessibility?.issues.filter(issue => issue.autoFixed)
+      }).analyze();
+    }
+  }));
+
+  const formatter = new CodeFormatter(data.options);
+  await runPhase('format', () => forEachComponent('format', generated, item => {
+    const { component } = item;
+    if (data.options.framework === 'react') {
+      component.jsx = formatter.formatReactComponent(component);
+    } else if (data.options.framework === 'angular') {
+      component.jsx = formatter.formatAngularComponent(component);
+    } else if (data.options.framework === 'svelte') {
+      component.jsx = formatter.formatSvelteComponent(component);
+    }
+    if (data.options.styling !== 'styled-components') {
+      component.css = formatter.formatCSS(component.css, component.name);
+    }
+    if (component.typescript) {
+      component.typescript = formatter.formatTypeScript(component.typescript, component.name);
+    }
+    // Plugin hooks see the final output
+    item.component = pluginRegistry.postProcess(component, {
+      node: item.node,
+      options: data.options,
+      pluginType: item.pluginType
+    });
+  }));
+
+  signal?.throwIfAborted();
+
+  return {
+    components: generated.map(({ component }) => component),
+    totalNodes,
+    errors,
+    warnings,
+    componentLibrary: generator.getComponentLibraryReport()
+  };
+}
+
+async function saveAssets(projectId: number, assets: FigmaAsset[], errors: string[]): Promise<void> {
+  for (const asset of assets) {
+    try {
+      await storage.createProjectAsset({ ...asset, projectId });
+    } catch (error) {
+      errors.push(`Failed to save asset ${asset.fileName}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+function componentRecord(
+  projectId: number,
+  component: GeneratedComponent,
+  options: CodeGenerationRequest['options']
+): InsertGeneratedComponent {
+  return {
+    projectId,
+    name: component.name,
+    jsx: component.jsx,
+    css: component.css,
+    typescript: component.typescript ?? null,
+    vue: options.framework === 'vue' ? component.jsx : null,
+    html: options.framework === 'html' ? component.jsx : null,
+    angular: options.framework === 'angular' ? component.jsx : null,
+    svelte: options.framework === 'svelte' ? component.jsx : null,
+    metadata: component.metadata,
+    accessibilityReport: component.accessibility,
+    responsiveBreakpoints: component.responsive
+  };
+}
+
+async function saveComponents(
+  projectId: number,
+  components: GeneratedComponent[],
+  options: CodeGenerationRequest['options'],
+  errors: string[]
+): Promise<void> {
+  for (const component of components) {
+    try {
+      await storage.createGeneratedComponent(componentRecord(projectId, component, options));
+    } catch (error) {
+      errors.push(`Failed to save component ${component.name}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+async function loadComponentMappings(userId: number | null): Promise<ComponentLibraryMapping[]> {
+  if (userId === null) return [];
+  // Props were validated by componentMappingsRequestSchema when the mappings were saved
+  return await storage.getComponentMappings(userId) as ComponentLibraryMapping[];
+}
+
+// Identifies the exact Figma input of a version, so identical designs can be recognized
+function hashFigmaData(figmaData: unknown): string {
+  return createHash('sha256').update(JSON.stringify(figmaData)).digest('hex');
+}
+
+/**
+ * Records a project state as a version. The components are stored beside the result rather than
+ * inside it, so the history can be listed without loading them.
+ */
+async function saveVersion(
+  projectId: number,
+  version: number,
+  figmaData: unknown,
+  options: unknown,
+  result: GenerationResult,
+  generatorVersion: string | null = GENERATOR_VERSION
+): Promise<void> {
+  const { components, ...results } = result;
+  // Figma data, options and results are plain JSON, so they fit the jsonb columns unchanged
+  await storage.createProjectVersion({
+    projectId,
+    version,
+    figmaData,
+    figmaHash: hashFigmaData(figmaData),
+    options,
+    generatorVersion,
+    results,
+    components
+  } as InsertProjectVersion);
+}
+
+/**
+ * Runs the full generation pipeline and persists the project with its components and Figma
+ * image assets for the given user. Throws if the signal is aborted between steps.
+ */
+export async function runGeneration(
+  data: CodeGenerationRequest,
+  userId: number,
+  hooks: GenerationHooks = {}
+): Promise<GenerationResult> {
+  const startTime = Date.now();
+  const componentMappings = await loadComponentMappings(userId);
+  const { components, totalNodes, errors, warnings, componentLibrary } = await runPipeline({ ...data, componentMappings }, hooks);
+
+  const project = await storage.createGenerationProject({
+    name: data.name,
+    figmaData: data.figmaData,
+    options: data.options,
+    userId
+  });
+
+  await saveAssets(project.id, data.assets || [], errors);
+  await saveComponents(project.id, components, data.options, errors);
+
+  const result: GenerationResult = {
+    id: project.id,
+    components,
+    totalTime: Date.now() - startTime,
+    errors,
+    warnings,
+    summary: summarizeComponents(components, totalNodes),
+    version: 1,
+    ...(componentLibrary && { componentLibrary })
+  };
+
+  await storage.updateGenerationProject(project.id, { results: result });
+  await saveVersion(project.id, 1, data.figmaData, data.options, result);
+
+  return result;
+}
+
+/**
+ * Regenerates an existing project from new Figma data as its next version. Protected regions of
+ * the previous code are merged into the new output, the stored components are replaced and the
+ * result carries a diff against them (nodes, CSS declarations and code per component). Options
+ * default to the project's, and the stored assets are kept unless new ones are given.
+ */
+export async function regenerateProject(
+  project: GenerationProject,
+  data: Partial<PipelineInput> & Pick<PipelineInput, 'figmaData'> & {
+    importWarnings?: string[];
+    // Hand-edited files by component name; their protected regions win over the stored code
+    previousCode?: Record<string, PreviousComponentCode>;
+  },
+  hooks: GenerationHooks = {}
+): Promise<GenerationResult> {
+  const startTime = Date.now();
+  const previousResult = project.results as GenerationResult | null;
+  const previousVersion = previousResult?.version ?? 1;
+  const versions = await storage.getProjectVersions(project.id);
+  // After a restore the current version is not the latest, so numbering continues after the highest
+  const nextVersion = Math.max(previousVersion, ...versions.map(entry => entry.version)) + 1;
+  const options = data.options ?? project.options as CodeGenerationRequest['options'];
+  const assets = data.assets ?? await storage.getProjectAssets(project.id);
+
+  const componentMappings = await loadComponentMappings(project.userId);
+
+  const pipeline = await runPipeline(
+    { figmaData: data.figmaData, options, customCode: data.customCode, assets, componentMappings },
+    hooks
+  );
+  const { totalNodes, errors, warnings, componentLibrary } = pipeline;
+  warnings.unshift(...(data.importWarnings || []));
+
+  const previousComponents: Array<DiffableComponent & PreviousComponentCode> = (await storage.getGeneratedComponentsByProject(project.id))
+    .map(record => ({
+      name: record.name,
+      jsx: record.jsx,
+      css: record.css,
+      typescript: record.typescript ?? undefined,
+      metadata: record.metadata as DiffableComponent['metadata'],
+      ...data.previousCode?.[record.name]
+    }));
+  const components = mergeRegions(new CodeFormatter(options), pipeline.components, previousComponents, previousVersion, warnings);
+
+  const diff = diffGeneration(
+    { figmaData: project.figmaData as FigmaApiResponse, components: previousComponents },
+    { figmaData: data.figmaData as FigmaApiResponse, components },
+    previousVersion,
+    nextVersion
+  );
+
+  // Projects generated before versions were recorded get their current state saved first
+  if (previousResult && !versions.some(entry => entry.version === previousVersion)) {
+    await saveVersion(project.id, previousVersion, project.figmaData, project.options, previousResult, null);
+  }
+
+  // All or nothing: a regeneration that cannot save the components fails before the project, its
+  // assets or its versions change
+  await storage.replaceGeneratedComponents(project.id, components.map(component => componentRecord(project.id, component, options)));
+
+  if (data.assets) {
+    await storage.deleteProjectAssets(project.id);
+    await saveAssets(project.id, data.assets, errors);
+  }
+
+  const result: GenerationResult = {
+    id: project.id,
+    components,
+    totalTime: Date.now() - startTime,
+    errors,
+    warnings,
+    summary: summarizeComponents(components, totalNodes),
+    version: nextVersion,
+    diff,
+    ...(componentLibrary && { componentLibrary })
+  };
+
+  await storage.updateGenerationProject(project.id, { figmaData: data.figmaData, options, results: result });
+  await saveVersion(project.id, nextVersion, data.figmaData, options, result);
+
+  return result;
+}
+
+// Keeps the protected regions of the previous code; regions that cannot be placed become warnings
+function mergeRegions(
+  formatter: CodeFormatter,
+  components: GeneratedComponent[],
+  previousComponents: Array<DiffableComponent & PreviousComponentCode>,
+  previousVersion: number,
+  warnings: string[]
+): GeneratedComponent[] {
+  const previousByName = new Map(previousComponents.map(component => [component.name, component]));
+  const kept = ` It is still in version ${previousVersion}.`;
+
+  const merged = components.map(component => {
+    const previous = previousByName.get(component.name);
+    if (!previous) return component;
+
+    const result = formatter.mergeProtectedRegions(component, previous);
+    const messages = result.conflicts.map(conflict =>
+      `${component.name} (${conflict.file}): protected region "${conflict.region}" was not kept because ${conflict.reason}.${kept}`
+    );
+    warnings.push(...messages);
+    result.component.metadata = {
+      ...result.component.metadata,
+      warnings: [...(result.component.metadata.warnings || []), ...messages]
+    };
+    return result.component;
+  });
+
+  const generatedNames = new Set(components.map(component => component.name));
+  previousComponents
+    .filter(previous => !generatedNames.has(previous.name))
+    .filter(previous => [previous.jsx, previous.css, previous.typescript].some(code => code?.includes('@figma-keep-start')))
+    .forEach(previous => warnings.push(`${previous.name}: the component was removed together with its protected regions.${kept}`));
+
+  return merged;
+}
+
+/**
+ * Makes a stored version the project's current state again: its Figma data, options, result and
+ * components replace the current ones. The version history itself is left unchanged, and assets
+ * are not versioned, so the current ones stay.
+ */
+export async function restoreProjectVersion(project: GenerationProject, version: ProjectVersion): Promise<GenerationResult> {
+  if (!version.results) {
+    throw new ValidationError(`Version ${version.version} has no generation result to restore`);
+  }
+
+  const results = version.results as Omit<GenerationResult, 'components'> & { components?: GeneratedComponent[] };
+  // Versions saved before components had their own column keep them inside the result
+  const components = (version.components as GeneratedComponent[] | null) ?? results.components ?? [];
+  const options = version.options as CodeGenerationRequest['options'];
+
+  // A restore that cannot save the components fails and leaves the project as it was
+  await storage.replaceGeneratedComponents(project.id, components.map(component => componentRecord(project.id, component, options)));
+
+  const result: GenerationResult = {
+    ...results,
+    id: project.id,
+    components,
+    version: version.version
+  };
+
+  await storage.updateGenerationProject(project.id, { figmaData: version.figmaData, options, results: result });
+
+  return result;
+}
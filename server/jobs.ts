@@ -0,0 +1,172 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import type { CodeGenerationRequest } from "@shared/schema";
+import type {
+  GenerationJobEventType,
+  GenerationJobPhase,
+  GenerationJobSnapshot,
+  GenerationPhaseKey
+} from "@shared/types/generator";
+import { GENERATION_PHASES, runGeneration } from "./generation";
+
+// Finished jobs stay around long enough for late subscribers to read the result
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+export type GenerationJobListener = (type: GenerationJobEventType, snapshot: GenerationJobSnapshot) => void;
+
+interface GenerationJob {
+  userId: number;
+  snapshot: GenerationJobSnapshot;
+  controller: AbortController;
+  events: EventEmitter;
+}
+
+export function isJobFinished(snapshot: GenerationJobSnapshot): boolean {
+  return snapshot.status === 'completed' || snapshot.status === 'failed' || snapshot.status === 'cancelled';
+}
+
+function eventTypeFor(snapshot: GenerationJobSnapshot): GenerationJobEventType {
+  switch (snapshot.status) {
+    case 'completed':
+    case 'failed':
+    case 'cancelled':
+      return snapshot.status;
+    default:
+      return 'progress';
+  }
+}
+
+export class GenerationJobManager {
+  private jobs: Map<string, GenerationJob> = new Map();
+
+  createJob(request: CodeGenerationRequest, userId: number): GenerationJobSnapshot {
+    const job: GenerationJob = {
+      userId,
+      snapshot: {
+        id: randomUUID(),
+        status: 'queued',
+        phases: GENERATION_PHASES.map((phase, index) => ({
+          id: index + 1,
+          key: phase.key,
+          name: phase.name,
+          status: 'pending',
+          progress: 0
+        }))
+      },
+      controller: new AbortController(),
+      events: new EventEmitter()
+    };
+
+    this.jobs.set(job.snapshot.id, job);
+    setImmediate(() => this.run(job, request));
+
+    return job.snapshot;
+  }
+
+  getJob(id: string, userId: number): GenerationJobSnapshot | undefined {
+    return this.findJob(id, userId)?.snapshot;
+  }
+
+  /**
+   * Calls the listener with the current state right away, then on every change.
+   * Returns undefined when the job does not exist or belongs to another user.
+   */
+  subscribe(id: string, userId: number, listener: GenerationJobListener): (() => void) | undefined {
+    const job = this.findJob(id, userId);
+    if (!job) return undefined;
+
+    listener(eventTypeFor(job.snapshot), job.snapshot);
+    if (isJobFinished(job.snapshot)) {
+      return () => {};
+    }
+
+    job.events.on('event', listener);
+    return () => {
+      job.events.off('event', listener);
+    };
+  }
+
+  cancelJob(id: string, userId: number): GenerationJobSnapshot | undefined {
+    const job = this.findJob(id, userId);
+    if (!job) return undefined;
+
+    if (!isJobFinished(job.snapshot)) {
+      job.controller.abort();
+    }
+
+    return job.snapshot;
+  }
+
+  private findJob(id: string, userId: number): GenerationJob | undefined {
+    const job = this.jobs.get(id);
+    return job && job.userId === userId ? job : undefined;
+  }
+
+  private async run(job: GenerationJob, request: CodeGenerationRequest): Promise<void> {
+    const { snapshot, controller } = job;
+    const phaseFor = (key: GenerationPhaseKey) => snapshot.phases.find(phase => phase.key === key) as GenerationJobPhase;
+
+    try {
+      controller.signal.throwIfAborted();
+      snapshot.status = 'running';
+
+      const result = await runGeneration(request, job.userId, {
+        signal: controller.signal,
+        onPhaseStart: (key) => {
+          const phase = phaseFor(key);
+          phase.status = 'processing';
+          phase.startTime = Date.now();
+          this.emit(job, 'progress');
+        },
+        onComponentProgress: (key, name, index, total) => {
+          phaseFor(key).progress = Math.round((index / total) * 100);
+          snapshot.currentComponent = { phase: key, name, index, total };
+          this.emit(job, 'progress');
+        },
+        onPhaseComplete: (key) => {
+          const phase = phaseFor(key);
+          phase.status = 'completed';
+          phase.progress = 100;
+          phase.endTime = Date.now();
+          this.emit(job, 'progress');
+        }
+      });
+
+      snapshot.status = 'completed';
+      snapshot.currentComponent = undefined;
+      snapshot.result = result;
+      this.emit(job, 'completed');
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      const message = cancelled
+        ? 'Cancelled'
+        : error instanceof Error ? error.message : 'Unknown error';
+
+      const activePhase = snapshot.phases.find(phase => phase.status === 'processing');
+      if (activePhase) {
+        activePhase.status = 'error';
+        activePhase.error = message;
+        activePhase.endTime = Date.now();
+      }
+
+      if (!cancelled) {
+        console.error(`Generation job ${snapshot.id} failed:`, error);
+      }
+
+      snapshot.status = cancelled ? 'cancelled' : 'failed';
+      snapshot.error = message;
+      this.emit(job, snapshot.status);
+    } finally {
+      setTimeout(() => this.jobs.delete(snapshot.id), FINISHED_JOB_TTL_MS).unref();
+    }
+  }
+
+  private emit(job: GenerationJob, type: GenerationJobEventType): void {
+    job.events.emit('event', type, job.snapshot);
+    if (type !== 'progress') {
+      job.events.removeAllListeners();
+    }
+  }
+}
+
+export const generationJobs = new GenerationJobManager();
@@ -0,0 +1,71 @@
+import { readdir, stat } from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import { PluginRegistry } from "@shared/utils/plugin-registry";
+import { log } from "./vite";
+
+// Module files loaded as plugins; a directory is loaded through its index file
+const PLUGIN_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts'];
+
+export interface PluginLoadFailure {
+  source: string;
+  error: string;
+}
+
+export const pluginRegistry = new PluginRegistry();
+
+const loadFailures: PluginLoadFailure[] = [];
+
+export function pluginDirectory(): string {
+  return path.resolve(process.env.PLUGINS_DIR || 'plugins');
+}
+
+export function getPluginLoadFailures(): PluginLoadFailure[] {
+  return loadFailures;
+}
+
+async function resolveEntry(entryPath: string): Promise<string | null> {
+  const stats = await stat(entryPath);
+  if (stats.isFile()) {
+    return PLUGIN_EXTENSIONS.includes(path.extname(entryPath)) ? entryPath : null;
+  }
+  if (!stats.isDirectory()) return null;
+
+  for (const extension of PLUGIN_EXTENSIONS) {
+    const indexPath = path.join(entryPath, `index${extension}`);
+    if (await stat(indexPath).then(indexStats => indexStats.isFile(), () => false)) {
+      return indexPath;
+    }
+  }
+  return null;
+}
+
+/**
+ * Imports every plugin module in the directory (in name order) and registers its default or
+ * `plugin` export. A plugin that fails to load is logged and skipped; a missing directory
+ * means no plugins.
+ */
+export async function loadPlugins(directory = pluginDirectory()): Promise<void> {
+  let entries: string[];
+  try {
+    entries = (await readdir(directory)).sort();
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  for (const entry of entries) {
+    try {
+      const modulePath = await resolveEntry(path.join(directory, entry));
+      if (!modulePath) continue;
+
+      const module = await import(pathToFileURL(modulePath).href);
+      const plugin = pluginRegistry.register(module.default ?? module.plugin, entry);
+      log(`Loaded plugin ${plugin.name} from ${entry}`, "plugins");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      loadFailures.push({ source: entry, error: message });
+      log(`Failed to load plugin ${entry}: ${message}`, "plugins");
+    }
+  }
+}
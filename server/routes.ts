@@ -1,55 +1,77 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth } from "./auth";
 import { z } from "zod";
-import { codeGenerationRequestSchema } from "@shared/schema";
-import { AdvancedCodeGenerator } from "@shared/services/advanced-code-generator";
+import {
+  codeGenerationRequestSchema,
+  componentMappingsRequestSchema,
+  regenerationRequestSchema,
+  visualDiffRequestSchema,
+  type GenerationResult,
+  type InsertFigmaResponseCacheEntry
+} from "@shared/schema";
+import type { GenerationJobEventType, GenerationJobSnapshot } from "@shared/types/generator";
+import { countNodes, regenerateProject, restoreProjectVersion, runGeneration } from "./generation";
+import { generationJobs, isJobFinished } from "./jobs";
+import { getPluginLoadFailures, pluginRegistry } from "./plugins";
+import { buildProjectArchive, projectArchiveName } from "./export";
+import { importFigmaDocument, importFigmaFile } from "./figma-import";
+import { runVisualRegression, toVisualDiffSummary } from "./visual-diff";
+import {
+  FigmaApiClient,
+  FigmaApiError,
+  FigmaAuthError,
+  FigmaNotFoundError,
+  FigmaRateLimitError,
+  type FigmaResponseCache
+} from "@shared/services/figma-api";
+import { DesignSystemExtractor } from "@shared/services/design-system-extractor";
+import { auditPalette } from "@shared/services/palette-audit";
+import type { FigmaApiResponse } from "@shared/types/figma";
+import { ConfigurationError, ValidationError } from "@shared/utils/errors";
+
+// Projects owned by another user are reported as missing rather than forbidden
+async function getOwnedProject(projectId: number, userId: number) {
+  const project = await storage.getGenerationProject(projectId);
+  return project && project.userId === userId ? project : undefined;
+}
+
+// Fetched Figma files are kept in storage and reused until the file's version changes
+const figmaResponseCache: FigmaResponseCache = {
+  get: cacheKey => storage.getCachedFigmaResponse(cacheKey),
+  set: async (cacheKey, entry) => {
+    // Responses are parsed Figma JSON, so they always fit the jsonb column
+    await storage.cacheFigmaResponse({ cacheKey, ...entry } as InsertFigmaResponseCacheEntry);
+  }
+};
+
+// Figma's own status is not passed through: a 401 from this API means the session expired
+function figmaErrorStatus(error: FigmaApiError): number {
+  if (error instanceof FigmaAuthError) return 400;
+  if (error instanceof FigmaNotFoundError) return 404;
+  if (error instanceof FigmaRateLimitError) return 429;
+  return 502;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
   // Generate code from Figma data
-  app.post("/api/generate", async (req, res) => {
+  app.post("/api/generate", requireAuth, async (req, res) => {
     try {
       const data = codeGenerationRequestSchema.parse(req.body);
-
-      // Create a mock Figma API response
-      const mockFigmaData = {
-        document: {
-          id: 'root',
-          name: 'Document',
-          type: 'DOCUMENT',
-          children: [
-            {
-              id: 'frame1',
-              name: 'Sample Component',
-              type: 'FRAME',
-              children: []
-            }
-          ]
-        },
-        components: {
-          'comp1': { key: 'frame1', name: 'SampleComponent' }
-        }
-      };
-
-      // Generate using the advanced generator
-      const generator = new AdvancedCodeGenerator(mockFigmaData, data.options);
-      if (data.customCode) {
-        generator.setCustomCode(data.customCode);
-      }
-
-      const component = await generator.generateComponent(
-        mockFigmaData, 
-        'frame1', 
-        data.customCode
-      );
-
-      const result = {
-        success: true,
-        components: [component]
-      };
+      const result = await runGeneration(data, req.user!.id);
 
       res.json(result);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid generation request",
+          details: error.errors
+        });
+      }
+
       console.error('Generation error:', error);
       res.status(500).json({ 
         error: "Failed to generate components",
@@ -58,11 +80,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start an asynchronous generation job
+  app.post("/api/jobs", requireAuth, async (req, res) => {
+    try {
+      const data = codeGenerationRequestSchema.parse(req.body);
+      const job = generationJobs.createJob(data, req.user!.id);
+
+      res.status(202).json({
+        success: true,
+        job
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid generation request",
+          details: error.errors
+        });
+      }
+
+      console.error('Error creating job:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create generation job'
+      });
+    }
+  });
+
+  // Get the current state of a job
+  app.get("/api/jobs/:id", requireAuth, (req, res) => {
+    const job = generationJobs.getJob(req.params.id, req.user!.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      job
+    });
+  });
+
+  // Stream job progress as Server-Sent Events
+  app.get("/api/jobs/:id/events", requireAuth, (req, res) => {
+    if (!generationJobs.getJob(req.params.id, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    const send = (type: GenerationJobEventType, snapshot: GenerationJobSnapshot) => {
+      res.write(`event: ${type}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+      if (isJobFinished(snapshot)) {
+        res.end();
+      }
+    };
+
+    const unsubscribe = generationJobs.subscribe(req.params.id, req.user!.id, send);
+    req.on('close', () => unsubscribe?.());
+  });
+
+  // Cancel a running job
+  app.delete("/api/jobs/:id", requireAuth, (req, res) => {
+    const job = generationJobs.cancelJob(req.params.id, req.user!.id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      status: job.status
+    });
+  });
+
   // Get project by ID
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/projects/:id", requireAuth, async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const project = await storage.getGenerationProject(projectId);
+      const project = await getOwnedProject(projectId, req.user!.id);
 
       if (!project) {
         return res.status(404).json({
@@ -87,10 +196,360 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Regenerate a project from changed Figma data and report the differences to the previous version
+  app.post("/api/projects/:id/regenerate", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await getOwnedProject(projectId, req.user!.id);
+
+      if (!project) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const { figmaData, fileKey, nodeId, apiKey, ...data } = regenerationRequestSchema.parse(req.body);
+      const imported = figmaData
+        ? { figmaData, assets: data.assets, warnings: [] }
+        : await importFigmaDocument(
+            new FigmaApiClient(apiKey!, { baseUrl: process.env.FIGMA_API_URL, cache: figmaResponseCache }),
+            fileKey!,
+            nodeId ?? null
+          );
+
+      const result = await regenerateProject(project, {
+        ...data,
+        figmaData: imported.figmaData,
+        assets: imported.assets,
+        importWarnings: imported.warnings
+      });
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid regeneration request",
+          details: error.errors
+        });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+      if (error instanceof FigmaApiError) {
+        return res.status(figmaErrorStatus(error)).json({
+          success: false,
+          error: error.message,
+          code: error.name
+        });
+      }
+
+      console.error('Regeneration error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to regenerate project'
+      });
+    }
+  });
+
+  // List the project's versions (without their Figma data and components)
+  app.get("/api/projects/:id/versions", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await getOwnedProject(projectId, req.user!.id);
+
+      if (!project) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const versions = await storage.getProjectVersions(projectId);
+      const currentVersion = (project.results as GenerationResult | null)?.version ?? 1;
+
+      res.json({
+        success: true,
+        currentVersion,
+        versions
+      });
+    } catch (error) {
+      console.error('Error fetching project versions:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch project versions'
+      });
+    }
+  });
+
+  // Get one version with its Figma data and components
+  app.get("/api/projects/:id/versions/:version", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await getOwnedProject(projectId, req.user!.id);
+      const version = project && await storage.getProjectVersion(projectId, parseInt(req.params.version));
+
+      if (!version) {
+        return res.status(404).json({
+          success: false,
+          error: 'Version not found'
+        });
+      }
+
+      res.json({
+        success: true,
+        version
+      });
+    } catch (error) {
+      console.error('Error fetching project version:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch project version'
+      });
+    }
+  });
+
+  // Make a stored version the project's current state
+  app.post("/api/projects/:id/versions/:version/restore", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await getOwnedProject(projectId, req.user!.id);
+      const version = project && await storage.getProjectVersion(projectId, parseInt(req.params.version));
+
+      if (!project || !version) {
+        return res.status(404).json({
+          success: false,
+          error: 'Version not found'
+        });
+      }
+
+      const result = await restoreProjectVersion(project, version);
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(409).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      console.error('Error restoring project version:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to restore project version'
+      });
+    }
+  });
+
+  // Download the project as a ready-to-run scaffold
+  app.get("/api/projects/:id/export.zip", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await getOwnedProject(projectId, req.user!.id);
+
+      if (!project) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const components = await storage.getGeneratedComponentsByProject(projectId);
+      const assets = await storage.getProjectAssets(projectId);
+      const archive = await buildProjectArchive(project, components, assets);
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${projectArchiveName(project)}"`);
+      res.send(archive);
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export project'
+      });
+    }
+  });
+
+  // Serve an image exported from Figma for the project
+  app.get("/api/projects/:id/assets/:fileName", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await getOwnedProject(projectId, req.user!.id))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const asset = (await storage.getProjectAssets(projectId)).find(entry => entry.fileName === req.params.fileName);
+      if (!asset) {
+        return res.status(404).json({
+          success: false,
+          error: 'Asset not found'
+        });
+      }
+
+      res.setHeader('Content-Type', asset.mimeType);
+      res.send(Buffer.from(asset.data, 'base64'));
+    } catch (error) {
+      console.error('Error fetching asset:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch asset'
+      });
+    }
+  });
+
+  // Render the project's components headlessly and score them against their Figma frames or uploaded references
+  app.post("/api/projects/:id/visual-diffs", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await getOwnedProject(projectId, req.user!.id);
+
+      if (!project) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const request = visualDiffRequestSchema.parse(req.body);
+      const figmaClient = request.fileKey && request.apiKey
+        ? new FigmaApiClient(request.apiKey, { baseUrl: process.env.FIGMA_API_URL, cache: figmaResponseCache })
+        : null;
+      const result = await runVisualRegression(project, request, figmaClient);
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid visual comparison request",
+          details: error.errors
+        });
+      }
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+      if (error instanceof ConfigurationError) {
+        return res.status(503).json({
+          success: false,
+          error: error.message,
+          code: error.name
+        });
+      }
+      if (error instanceof FigmaApiError) {
+        return res.status(figmaErrorStatus(error)).json({
+          success: false,
+          error: error.message,
+          code: error.name
+        });
+      }
+
+      console.error('Visual comparison error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to compare components',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Latest visual comparison of each component (heatmaps are served separately)
+  app.get("/api/projects/:id/visual-diffs", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await getOwnedProject(projectId, req.user!.id))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const diffs = await storage.getVisualDiffs(projectId);
+
+      res.json({
+        success: true,
+        results: diffs.map(toVisualDiffSummary)
+      });
+    } catch (error) {
+      console.error('Error fetching visual comparisons:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch visual comparisons'
+      });
+    }
+  });
+
+  // Serve the heatmap of a component's latest visual comparison
+  app.get("/api/projects/:id/visual-diffs/:componentName/heatmap.png", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (!(await getOwnedProject(projectId, req.user!.id))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const diff = (await storage.getVisualDiffs(projectId)).find(entry => entry.componentName === req.params.componentName);
+      if (!diff?.heatmap) {
+        return res.status(404).json({
+          success: false,
+          error: 'Heatmap not found'
+        });
+      }
+
+      res.setHeader('Content-Type', 'image/png');
+      res.send(Buffer.from(diff.heatmap, 'base64'));
+    } catch (error) {
+      console.error('Error fetching heatmap:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch heatmap'
+      });
+    }
+  });
+
+  // Contrast matrix and color vision simulations of the palette extracted from the project's Figma file
+  app.get("/api/projects/:id/palette-audit", requireAuth, async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await getOwnedProject(projectId, req.user!.id);
+      if (!project) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      const tokens = new DesignSystemExtractor(project.figmaData as FigmaApiResponse).extractDesignTokens();
+
+      res.json({
+        success: true,
+        audit: auditPalette(tokens.colors)
+      });
+    } catch (error) {
+      console.error('Error auditing palette:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to audit palette'
+      });
+    }
+  });
+
   // Get all projects
-  app.get("/api/projects", async (req, res) => {
+  app.get("/api/projects", requireAuth, async (req, res) => {
     try {
-      const projects = await storage.getAllGenerationProjects();
+      const projects = await storage.getGenerationProjectsByUser(req.user!.id);
 
       res.json({
         success: true,
@@ -106,9 +565,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete project
-  app.delete("/api/projects/:id", async (req, res) => {
+  app.delete("/api/projects/:id", requireAuth, async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
+      if (!(await getOwnedProject(projectId, req.user!.id))) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
       await storage.deleteGenerationProject(projectId);
 
       res.json({
@@ -124,12 +590,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get component by ID
-  app.get("/api/components/:id", async (req, res) => {
+  app.get("/api/components/:id", requireAuth, async (req, res) => {
     try {
       const componentId = parseInt(req.params.id);
       const component = await storage.getGeneratedComponent(componentId);
 
-      if (!component) {
+      if (!component || !(await getOwnedProject(component.projectId, req.user!.id))) {
         return res.status(404).json({
           success: false,
           error: 'Component not found'
@@ -149,68 +615,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Fetch Figma data from API
-  app.post("/api/fetch-figma", async (req, res) => {
+  // The signed-in user's Figma component -> component library mappings
+  app.get("/api/component-mappings", requireAuth, async (req, res) => {
     try {
-      const { figmaUrl, apiKey } = req.body;
+      const mappings = await storage.getComponentMappings(req.user!.id);
 
-      if (!figmaUrl || !apiKey) {
-        return res.status(400).json({
-          success: false,
-          error: 'Figma URL and API key are required'
-        });
-      }
+      res.json({
+        success: true,
+        mappings
+      });
+    } catch (error) {
+      console.error('Error fetching component mappings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch component mappings'
+      });
+    }
+  });
+
+  // Replace the user's mappings, e.g. with the contents of a mappings JSON file
+  app.put("/api/component-mappings", requireAuth, async (req, res) => {
+    try {
+      const { mappings } = componentMappingsRequestSchema.parse(req.body);
+      const saved = await storage.replaceComponentMappings(
+        req.user!.id,
+        mappings.map(mapping => ({ ...mapping, userId: req.user!.id }))
+      );
 
-      // Extract file key from URL - handle both /file/ and /design/ paths with parameters
-      const urlMatch = figmaUrl.match(/\/(file|design)\/([a-zA-Z0-9]+)/);
-      if (!urlMatch) {
+      res.json({
+        success: true,
+        mappings: saved
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
         return res.status(400).json({
           success: false,
-          error: 'Invalid Figma URL format'
+          error: 'Invalid component mappings',
+          details: error.errors
         });
       }
 
-      const fileKey = urlMatch[2];
-
-      // Fetch from Figma API
-      const figmaApiUrl = `https://api.figma.com/v1/files/${fileKey}`;
-      const response = await fetch(figmaApiUrl, {
-        headers: {
-          'X-Figma-Token': apiKey
-        }
+      console.error('Error saving component mappings:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to save component mappings'
       });
+    }
+  });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        return res.status(response.status).json({
-          success: false,
-          error: `Figma API error: ${response.status} ${response.statusText}`
-        });
-      }
+  // List the loaded generator plugins and the ones that failed to load
+  app.get("/api/plugins", (_req, res) => {
+    res.json({
+      success: true,
+      plugins: pluginRegistry.list(),
+      failures: getPluginLoadFailures()
+    });
+  });
 
-      const figmaData = await response.json();
+  // Fetch Figma data from API
+  app.post("/api/fetch-figma", async (req, res) => {
+    try {
+      const { figmaUrl, apiKey } = req.body;
 
-      // Validate the fetched data
-      if (!figmaData.document) {
+      if (!figmaUrl || !apiKey) {
         return res.status(400).json({
           success: false,
-          error: 'Invalid response from Figma API'
+          error: 'Figma URL and API key are required'
         });
       }
 
+      // A node-id in the URL limits the import to that subtree; FIGMA_API_URL can point at a stub server
+      const client = new FigmaApiClient(apiKey, {
+        baseUrl: process.env.FIGMA_API_URL,
+        cache: figmaResponseCache
+      });
+      const { figmaData, assets, warnings } = await importFigmaFile(client, figmaUrl);
+
       // Count nodes and components
-      let nodeCount = 0;
+      const nodeCount = countNodes(figmaData.document);
       let componentCount = 0;
 
-      const countNodes = (node: any) => {
-        nodeCount++;
-        if (node.children) {
-          node.children.forEach(countNodes);
-        }
-      };
-
-      countNodes(figmaData.document);
-
       if (figmaData.components) {
         componentCount = Object.keys(figmaData.components).length;
       }
@@ -218,15 +702,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         success: true,
         figmaData,
+        assets,
+        warnings,
         validation: {
           valid: true,
           nodeCount,
           componentCount,
+          assetCount: assets.length,
           hasComponents: componentCount > 0,
           documentName: figmaData.name || 'Untitled'
         }
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+      if (error instanceof FigmaRateLimitError && error.retryAfterMs !== undefined) {
+        res.setHeader('Retry-After', Math.ceil(error.retryAfterMs / 1000));
+      }
+      if (error instanceof FigmaApiError) {
+        return res.status(figmaErrorStatus(error)).json({
+          success: false,
+          error: error.message,
+          code: error.name
+        });
+      }
+
       console.error('Figma fetch error:', error);
       res.status(500).json({
         success: false,
@@ -256,18 +760,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Count nodes and components
-      let nodeCount = 0;
+      const nodeCount = countNodes(figmaData.document);
       let componentCount = 0;
 
-      const countNodes = (node: any) => {
-        nodeCount++;
-        if (node.children) {
-          node.children.forEach(countNodes);
-        }
-      };
-
-      countNodes(figmaData.document);
-
       if (figmaData.components) {
         componentCount = Object.keys(figmaData.components).length;
       }
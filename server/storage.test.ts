@@ -0,0 +1,261 @@
+import path from "path";
+import session from "express-session";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { eq } from "drizzle-orm";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { DbStorage, IStorage, MemStorage, StorageDatabase } from "./storage";
+
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+const figmaData = { document: { id: "0:0", name: "Document", type: "DOCUMENT", children: [] } };
+const options = { framework: "react", styling: "tailwind" };
+
+function component(projectId: number, name: string): schema.InsertGeneratedComponent {
+  return {
+    projectId,
+    name,
+    jsx: `export const ${name} = () => <div />;`,
+    css: "",
+    metadata: { figmaNodeId: "1:1" },
+    accessibilityReport: { score: 100, issues: [] },
+    responsiveBreakpoints: {},
+  };
+}
+
+// The IStorage contract, run against both implementations
+function describeStorage(name: string, setup: () => Promise<IStorage>) {
+  describe(name, () => {
+    let storage: IStorage;
+    let userId: number;
+
+    beforeEach(async () => {
+      storage = await setup();
+      userId = (await storage.createUser({ username: "designer", password: "hash" })).id;
+    });
+
+    it("creates and looks up users", async () => {
+      const user = await storage.createUser({ username: "developer", password: "secret" });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("developer")).toEqual(user);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+
+    it("lists a user's projects newest first and leaves other users' projects out", async () => {
+      const other = await storage.createUser({ username: "other", password: "hash" });
+      const first = await storage.createGenerationProject({ name: "First", figmaData, options, userId });
+      const second = await storage.createGenerationProject({ name: "Second", figmaData, options, userId });
+      await storage.createGenerationProject({ name: "Foreign", figmaData, options, userId: other.id });
+
+      const projects = await storage.getGenerationProjectsByUser(userId);
+
+      expect(projects.map(project => project.id)).toEqual([second.id, first.id]);
+      expect(projects[0].results).toBeNull();
+    });
+
+    it("updates a project without changing its id or creation time", async () => {
+      const project = await storage.createGenerationProject({ name: "Landing", figmaData, options, userId });
+
+      const updated = await storage.updateGenerationProject(project.id, {
+        id: 999,
+        createdAt: new Date(0),
+        name: "Landing page",
+        results: { success: true },
+      });
+
+      expect(updated).toMatchObject({ id: project.id, name: "Landing page", results: { success: true } });
+      expect(updated!.createdAt).toEqual(project.createdAt);
+      expect(updated!.updatedAt.getTime()).toBeGreaterThanOrEqual(project.updatedAt.getTime());
+      expect(await storage.updateGenerationProject(999, { name: "Missing" })).toBeUndefined();
+    });
+
+    it("keeps a project's components in creation order", async () => {
+      const project = await storage.createGenerationProject({ name: "Kit", figmaData, options, userId });
+      const button = await storage.createGeneratedComponent(component(project.id, "Button"));
+      const card = await storage.createGeneratedComponent(component(project.id, "Card"));
+
+      expect((await storage.getGeneratedComponentsByProject(project.id)).map(entry => entry.name)).toEqual(["Button", "Card"]);
+      expect(button.vue).toBeNull();
+
+      await storage.deleteGeneratedComponent(button.id);
+
+      expect(await storage.getGeneratedComponent(button.id)).toBeUndefined();
+      expect(await storage.getGeneratedComponent(card.id)).toEqual(card);
+    });
+
+    it("replaces all components of one project only", async () => {
+      const project = await storage.createGenerationProject({ name: "Kit", figmaData, options, userId });
+      const other = await storage.createGenerationProject({ name: "Other", figmaData, options, userId });
+      await storage.createGeneratedComponent(component(project.id, "Button"));
+      await storage.createGeneratedComponent(component(other.id, "Button"));
+
+      const replaced = await storage.replaceGeneratedComponents(project.id, [component(project.id, "Card"), component(project.id, "Badge")]);
+
+      expect(replaced.map(entry => entry.name)).toEqual(["Card", "Badge"]);
+      expect((await storage.getGeneratedComponentsByProject(project.id)).map(entry => entry.name)).toEqual(["Card", "Badge"]);
+      expect(await storage.getGeneratedComponentsByProject(other.id)).toHaveLength(1);
+      expect(await storage.replaceGeneratedComponents(project.id, [])).toEqual([]);
+      expect(await storage.getGeneratedComponentsByProject(project.id)).toEqual([]);
+    });
+
+    it("stores and deletes a project's assets", async () => {
+      const project = await storage.createGenerationProject({ name: "Icons", figmaData, options, userId });
+      await storage.createProjectAsset({ projectId: project.id, nodeId: "1:2", fileName: "icon.svg", mimeType: "image/svg+xml", data: "PHN2Zz4=" });
+
+      expect((await storage.getProjectAssets(project.id)).map(asset => asset.fileName)).toEqual(["icon.svg"]);
+
+      await storage.deleteProjectAssets(project.id);
+
+      expect(await storage.getProjectAssets(project.id)).toEqual([]);
+    });
+
+    it("lists versions without their Figma data and components", async () => {
+      const project = await storage.createGenerationProject({ name: "History", figmaData, options, userId });
+      await storage.createProjectVersion({ projectId: project.id, version: 1, figmaData, options, components: [] });
+      await storage.createProjectVersion({ projectId: project.id, version: 2, figmaData, options, figmaHash: "abc" });
+
+      const versions = await storage.getProjectVersions(project.id);
+
+      expect(versions.map(version => version.version)).toEqual([1, 2]);
+      expect(versions[0]).not.toHaveProperty("figmaData");
+      expect(versions[0]).not.toHaveProperty("components");
+      expect(await storage.getProjectVersion(project.id, 2)).toMatchObject({ figmaHash: "abc", figmaData, components: null });
+      expect(await storage.getProjectVersion(project.id, 3)).toBeUndefined();
+    });
+
+    it("replaces a cached Figma response under the same key", async () => {
+      await storage.cacheFigmaResponse({ cacheKey: "file:abc", version: "1", lastModified: "2024-01-01", response: { name: "v1" } });
+      await storage.cacheFigmaResponse({ cacheKey: "file:abc", version: "2", lastModified: "2024-02-01", response: { name: "v2" } });
+
+      expect(await storage.getCachedFigmaResponse("file:abc")).toMatchObject({ version: "2", response: { name: "v2" } });
+      expect(await storage.getCachedFigmaResponse("file:missing")).toBeUndefined();
+    });
+
+    it("replaces all component mappings of one user only", async () => {
+      const other = await storage.createUser({ username: "other", password: "hash" });
+      const mapping = { importPath: "@acme/ui", componentName: "Button", figmaName: "Button" };
+      await storage.replaceComponentMappings(userId, [{ ...mapping, userId }]);
+      await storage.replaceComponentMappings(other.id, [{ ...mapping, userId: other.id }]);
+
+      const replaced = await storage.replaceComponentMappings(userId, [{ ...mapping, userId, componentName: "IconButton" }]);
+
+      expect(replaced.map(entry => entry.componentName)).toEqual(["IconButton"]);
+      expect((await storage.getComponentMappings(userId)).map(entry => entry.componentName)).toEqual(["IconButton"]);
+      expect(await storage.getComponentMappings(other.id)).toHaveLength(1);
+      expect(await storage.replaceComponentMappings(userId, [])).toEqual([]);
+      expect(await storage.getComponentMappings(userId)).toEqual([]);
+    });
+
+    it("keeps one visual diff per component", async () => {
+      const project = await storage.createGenerationProject({ name: "Visual", figmaData, options, userId });
+      const diff = { projectId: project.id, componentName: "Button", figmaNodeId: "1:1", referenceSource: "figma" };
+      await storage.saveVisualDiff({ ...diff, score: 80 });
+      await storage.saveVisualDiff({ ...diff, score: 95 });
+      await storage.saveVisualDiff({ ...diff, componentName: "Card", error: "Render failed" });
+
+      const diffs = await storage.getVisualDiffs(project.id);
+
+      expect(diffs.map(entry => [entry.componentName, entry.score])).toEqual(
+        expect.arrayContaining([["Button", 95], ["Card", null]])
+      );
+      expect(diffs).toHaveLength(2);
+    });
+
+    it("deletes a project with its components, assets, versions and visual diffs", async () => {
+      const project = await storage.createGenerationProject({ name: "Doomed", figmaData, options, userId });
+      const kept = await storage.createGenerationProject({ name: "Kept", figmaData, options, userId });
+      for (const projectId of [project.id, kept.id]) {
+        await storage.createGeneratedComponent(component(projectId, "Button"));
+        await storage.createProjectAsset({ projectId, nodeId: "1:2", fileName: "photo.png", mimeType: "image/png", data: "iVBO" });
+        await storage.createProjectVersion({ projectId, version: 1, figmaData, options });
+        await storage.saveVisualDiff({ projectId, componentName: "Button", figmaNodeId: "1:1", referenceSource: "figma" });
+      }
+
+      await storage.deleteGenerationProject(project.id);
+
+      expect(await storage.getGenerationProject(project.id)).toBeUndefined();
+      expect(await storage.getGeneratedComponentsByProject(project.id)).toEqual([]);
+      expect(await storage.getProjectAssets(project.id)).toEqual([]);
+      expect(await storage.getProjectVersions(project.id)).toEqual([]);
+      expect(await storage.getVisualDiffs(project.id)).toEqual([]);
+
+      expect(await storage.getGeneratedComponentsByProject(kept.id)).toHaveLength(1);
+      expect(await storage.getProjectAssets(kept.id)).toHaveLength(1);
+      expect(await storage.getProjectVersions(kept.id)).toHaveLength(1);
+      expect(await storage.getVisualDiffs(kept.id)).toHaveLength(1);
+    });
+  });
+}
+
+describeStorage("MemStorage", async () => new MemStorage());
+
+// One migrated in-process PostgreSQL for the suite, emptied before each test
+const pglite = { client: null as PGlite | null, db: null as StorageDatabase | null };
+
+beforeAll(async () => {
+  pglite.client = new PGlite();
+  const db = drizzle(pglite.client, { schema });
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  pglite.db = db as unknown as StorageDatabase;
+});
+
+afterAll(async () => {
+  await pglite.client?.close();
+});
+
+async function emptyDatabase(): Promise<StorageDatabase> {
+  await pglite.client!.exec(`
+    TRUNCATE users, generation_projects, generated_components, project_assets, project_versions,
+      figma_response_cache, component_mappings, visual_diffs RESTART IDENTITY CASCADE;
+  `);
+  return pglite.db!;
+}
+
+describeStorage("DbStorage", async () => new DbStorage(await emptyDatabase(), new session.MemoryStore()));
+
+describe("DbStorage cascades", () => {
+  it("removes a deleted user's component mappings in the database", async () => {
+    const db = await emptyDatabase();
+    const storage = new DbStorage(db, new session.MemoryStore());
+    const user = await storage.createUser({ username: "leaving", password: "hash" });
+    await storage.replaceComponentMappings(user.id, [{ userId: user.id, importPath: "@acme/ui", componentName: "Button" }]);
+
+    await db.delete(schema.users).where(eq(schema.users.id, user.id));
+
+    expect(await storage.getComponentMappings(user.id)).toEqual([]);
+  });
+
+  it("removes a project's rows from every child table through ON DELETE CASCADE", async () => {
+    const db = await emptyDatabase();
+    const storage = new DbStorage(db, new session.MemoryStore());
+    const project = await storage.createGenerationProject({ name: "Cascade", figmaData, options });
+    await storage.createGeneratedComponent(component(project.id, "Button"));
+    await storage.createProjectAsset({ projectId: project.id, nodeId: "1:2", fileName: "a.png", mimeType: "image/png", data: "iVBO" });
+    await storage.createProjectVersion({ projectId: project.id, version: 1, figmaData, options });
+    await storage.saveVisualDiff({ projectId: project.id, componentName: "Button", figmaNodeId: "1:1", referenceSource: "figma" });
+
+    // Straight through the database, so only the foreign keys can clean up
+    await db.delete(schema.generationProjects).where(eq(schema.generationProjects.id, project.id));
+
+    for (const table of [schema.generatedComponents, schema.projectAssets, schema.projectVersions, schema.visualDiffs]) {
+      expect(await db.select().from(table)).toEqual([]);
+    }
+  });
+});
+
+describe("DbStorage transactions", () => {
+  it("keeps a project's components when their replacement fails", async () => {
+    const storage = new DbStorage(await emptyDatabase(), new session.MemoryStore());
+    const project = await storage.createGenerationProject({ name: "Atomic", figmaData, options });
+    await storage.createGeneratedComponent(component(project.id, "Button"));
+
+    // The second row violates the NOT NULL constraint on name, after the delete already ran
+    const invalid = { ...component(project.id, "Card"), name: null } as unknown as schema.InsertGeneratedComponent;
+    await expect(storage.replaceGeneratedComponents(project.id, [component(project.id, "Card"), invalid])).rejects.toThrow();
+
+    expect((await storage.getGeneratedComponentsByProject(project.id)).map(entry => entry.name)).toEqual(["Button"]);
+  });
+});
@@ -1,13 +1,47 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, desc, eq, getTableColumns } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
 import { 
   GenerationProject, 
   InsertGenerationProject, 
   GeneratedComponentRecord, 
   InsertGeneratedComponent,
+  ProjectAsset,
+  InsertProjectAsset,
+  ProjectVersion,
+  ProjectVersionSummary,
+  InsertProjectVersion,
+  FigmaResponseCacheEntry,
+  InsertFigmaResponseCacheEntry,
+  ComponentMapping,
+  InsertComponentMapping,
+  VisualDiff,
+  InsertVisualDiff,
   User,
-  InsertUser
+  InsertUser,
+  users,
+  generationProjects,
+  generatedComponents,
+  projectAssets,
+  projectVersions,
+  figmaResponseCache,
+  componentMappings,
+  visualDiffs
 } from "@shared/schema";
+import * as schema from "@shared/schema";
+import { createDatabase } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// Figma file responses can be tens of megabytes, so the in-memory cache keeps only the latest few
+const MAX_MEM_FIGMA_RESPONSES = 20;
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -17,6 +51,7 @@ export interface IStorage {
   createGenerationProject(project: InsertGenerationProject): Promise<GenerationProject>;
   getGenerationProject(id: number): Promise<GenerationProject | undefined>;
   getAllGenerationProjects(): Promise<GenerationProject[]>;
+  getGenerationProjectsByUser(userId: number): Promise<GenerationProject[]>;
   updateGenerationProject(id: number, updates: Partial<GenerationProject>): Promise<GenerationProject | undefined>;
   deleteGenerationProject(id: number): Promise<void>;
 
@@ -25,23 +60,54 @@ export interface IStorage {
   getGeneratedComponent(id: number): Promise<GeneratedComponentRecord | undefined>;
   getGeneratedComponentsByProject(projectId: number): Promise<GeneratedComponentRecord[]>;
   deleteGeneratedComponent(id: number): Promise<void>;
+  // Swaps all components of a project at once; on failure the previous components are kept
+  replaceGeneratedComponents(projectId: number, components: InsertGeneratedComponent[]): Promise<GeneratedComponentRecord[]>;
+
+  // Asset methods
+  createProjectAsset(asset: InsertProjectAsset): Promise<ProjectAsset>;
+  getProjectAssets(projectId: number): Promise<ProjectAsset[]>;
+  deleteProjectAssets(projectId: number): Promise<void>;
+
+  // Version methods
+  createProjectVersion(version: InsertProjectVersion): Promise<ProjectVersion>;
+  getProjectVersions(projectId: number): Promise<ProjectVersionSummary[]>;
+  getProjectVersion(projectId: number, version: number): Promise<ProjectVersion | undefined>;
+
+  // Figma response cache methods
+  getCachedFigmaResponse(cacheKey: string): Promise<FigmaResponseCacheEntry | undefined>;
+  cacheFigmaResponse(entry: InsertFigmaResponseCacheEntry): Promise<FigmaResponseCacheEntry>;
+
+  // Component mapping methods
+  getComponentMappings(userId: number): Promise<ComponentMapping[]>;
+  // Replaces all mappings of the user
+  replaceComponentMappings(userId: number, mappings: InsertComponentMapping[]): Promise<ComponentMapping[]>;
+
+  // Visual diff methods
+  getVisualDiffs(projectId: number): Promise<VisualDiff[]>;
+  // Replaces the project's earlier comparison of the same component
+  saveVisualDiff(diff: InsertVisualDiff): Promise<VisualDiff>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User> = new Map();
   private projects: Map<number, GenerationProject> = new Map();
   private components: Map<number, GeneratedComponentRecord> = new Map();
+  private assets: Map<number, ProjectAsset> = new Map();
+  private versions: Map<number, ProjectVersion> = new Map();
+  private figmaResponses: Map<string, FigmaResponseCacheEntry> = new Map();
+  private mappings: Map<number, ComponentMapping> = new Map();
+  private visualDiffs: Map<number, VisualDiff> = new Map();
   private currentUserId: number = 1;
   private currentProjectId: number = 1;
   private currentComponentId: number = 1;
+  private currentAssetId: number = 1;
+  private currentVersionId: number = 1;
+  private currentMappingId: number = 1;
+  private currentVisualDiffId: number = 1;
 
-  constructor() {
-    // Add some sample data for development
-    this.createUser({
-      username: 'demo',
-      password: 'demo123'
-    });
-  }
+  sessionStore: session.Store = new MemoryStore({
+    checkPeriod: 24 * 60 * 60 * 1000 // prune expired sessions daily
+  });
 
   // User methods
   async getUser(id: number): Promise<User | undefined> {
@@ -71,7 +137,8 @@ export class MemStorage implements IStorage {
     const newProject: GenerationProject = {
       ...project,
       id,
-      results: project.results || null,
+      userId: project.userId ?? null,
+      results: null,
       createdAt: now,
       updatedAt: now
     };
@@ -85,10 +152,14 @@ export class MemStorage implements IStorage {
 
   async getAllGenerationProjects(): Promise<GenerationProject[]> {
     return Array.from(this.projects.values()).sort(
-      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id
     );
   }
 
+  async getGenerationProjectsByUser(userId: number): Promise<GenerationProject[]> {
+    return (await this.getAllGenerationProjects()).filter(project => project.userId === userId);
+  }
+
   async updateGenerationProject(id: number, updates: Partial<GenerationProject>): Promise<GenerationProject | undefined> {
     const existing = this.projects.get(id);
     if (!existing) return undefined;
@@ -97,6 +168,7 @@ export class MemStorage implements IStorage {
       ...existing,
       ...updates,
       id: existing.id, // Ensure ID doesn't change
+      createdAt: existing.createdAt,
       updatedAt: new Date()
     };
 
@@ -113,6 +185,16 @@ export class MemStorage implements IStorage {
       this.components.delete(component.id);
     }
 
+    await this.deleteProjectAssets(id);
+
+    Array.from(this.versions.values())
+      .filter(version => version.projectId === id)
+      .forEach(version => this.versions.delete(version.id));
+
+    Array.from(this.visualDiffs.values())
+      .filter(diff => diff.projectId === id)
+      .forEach(diff => this.visualDiffs.delete(diff.id));
+
     // Delete the project
     this.projects.delete(id);
   }
@@ -124,6 +206,11 @@ export class MemStorage implements IStorage {
     const newComponent: GeneratedComponentRecord = {
       ...component,
       id,
+      typescript: component.typescript ?? null,
+      vue: component.vue ?? null,
+      html: component.html ?? null,
+      angular: component.angular ?? null,
+      svelte: component.svelte ?? null,
       createdAt: now
     };
     this.components.set(id, newComponent);
@@ -143,6 +230,356 @@ export class MemStorage implements IStorage {
   async deleteGeneratedComponent(id: number): Promise<void> {
     this.components.delete(id);
   }
+
+  async replaceGeneratedComponents(projectId: number, components: InsertGeneratedComponent[]): Promise<GeneratedComponentRecord[]> {
+    Array.from(this.components.values())
+      .filter(component => component.projectId === projectId)
+      .forEach(component => this.components.delete(component.id));
+
+    return Promise.all(components.map(component => this.createGeneratedComponent({ ...component, projectId })));
+  }
+
+  // Asset methods
+  async createProjectAsset(asset: InsertProjectAsset): Promise<ProjectAsset> {
+    const id = this.currentAssetId++;
+    const newAsset: ProjectAsset = { ...asset, id, createdAt: new Date() };
+    this.assets.set(id, newAsset);
+    return newAsset;
+  }
+
+  async getProjectAssets(projectId: number): Promise<ProjectAsset[]> {
+    return Array.from(this.assets.values())
+      .filter(asset => asset.projectId === projectId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async deleteProjectAssets(projectId: number): Promise<void> {
+    Array.from(this.assets.values())
+      .filter(asset => asset.projectId === projectId)
+      .forEach(asset => this.assets.delete(asset.id));
+  }
+
+  // Version methods
+  async createProjectVersion(version: InsertProjectVersion): Promise<ProjectVersion> {
+    const id = this.currentVersionId++;
+    const newVersion: ProjectVersion = {
+      ...version,
+      id,
+      figmaHash: version.figmaHash ?? null,
+      generatorVersion: version.generatorVersion ?? null,
+      results: version.results ?? null,
+      components: version.components ?? null,
+      createdAt: new Date()
+    };
+    this.versions.set(id, newVersion);
+    return newVersion;
+  }
+
+  async getProjectVersions(projectId: number): Promise<ProjectVersionSummary[]> {
+    return Array.from(this.versions.values())
+      .filter(version => version.projectId === projectId)
+      .sort((a, b) => a.version - b.version)
+      .map(({ figmaData: _figmaData, components: _components, ...summary }) => summary);
+  }
+
+  async getProjectVersion(projectId: number, version: number): Promise<ProjectVersion | undefined> {
+    return Array.from(this.versions.values()).find(
+      (entry) => entry.projectId === projectId && entry.version === version,
+    );
+  }
+
+  // Figma response cache methods
+  async getCachedFigmaResponse(cacheKey: string): Promise<FigmaResponseCacheEntry | undefined> {
+    return this.figmaResponses.get(cacheKey);
+  }
+
+  async cacheFigmaResponse(entry: InsertFigmaResponseCacheEntry): Promise<FigmaResponseCacheEntry> {
+    const cached: FigmaResponseCacheEntry = { ...entry, response: entry.response ?? null, updatedAt: new Date() };
+
+    // Maps iterate in insertion order: re-inserting moves the entry last, the first one is the oldest
+    this.figmaResponses.delete(entry.cacheKey);
+    this.figmaResponses.set(entry.cacheKey, cached);
+    if (this.figmaResponses.size > MAX_MEM_FIGMA_RESPONSES) {
+      this.figmaResponses.delete(this.figmaResponses.keys().next().value!);
+    }
+    return cached;
+  }
+
+  // Component mapping methods
+  async getComponentMappings(userId: number): Promise<ComponentMapping[]> {
+    return Array.from(this.mappings.values())
+      .filter(mapping => mapping.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async replaceComponentMappings(userId: number, mappings: InsertComponentMapping[]): Promise<ComponentMapping[]> {
+    Array.from(this.mappings.values())
+      .filter(mapping => mapping.userId === userId)
+      .forEach(mapping => this.mappings.delete(mapping.id));
+
+    return mappings.map(mapping => {
+      const id = this.currentMappingId++;
+      const newMapping: ComponentMapping = {
+        ...mapping,
+        id,
+        userId,
+        figmaKey: mapping.figmaKey ?? null,
+        figmaName: mapping.figmaName ?? null,
+        selector: mapping.selector ?? null,
+        props: mapping.props ?? null,
+        createdAt: new Date()
+      };
+      this.mappings.set(id, newMapping);
+      return newMapping;
+    });
+  }
+
+  // Visual diff methods
+  async getVisualDiffs(projectId: number): Promise<VisualDiff[]> {
+    return Array.from(this.visualDiffs.values())
+      .filter(diff => diff.projectId === projectId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async saveVisualDiff(diff: InsertVisualDiff): Promise<VisualDiff> {
+    Array.from(this.visualDiffs.values())
+      .filter(existing => existing.projectId === diff.projectId && existing.componentName === diff.componentName)
+      .forEach(existing => this.visualDiffs.delete(existing.id));
+
+    const id = this.currentVisualDiffId++;
+    const newDiff: VisualDiff = {
+      ...diff,
+      id,
+      score: diff.score ?? null,
+      mismatchedPixels: diff.mismatchedPixels ?? null,
+      totalPixels: diff.totalPixels ?? null,
+      width: diff.width ?? null,
+      height: diff.height ?? null,
+      heatmap: diff.heatmap ?? null,
+      error: diff.error ?? null,
+      createdAt: new Date()
+    };
+    this.visualDiffs.set(id, newDiff);
+    return newDiff;
+  }
+}
+
+export type StorageDatabase = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export class DbStorage implements IStorage {
+  constructor(private db: StorageDatabase, public sessionStore: session.Store) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Project methods
+  async createGenerationProject(project: InsertGenerationProject): Promise<GenerationProject> {
+    const [newProject] = await this.db.insert(generationProjects).values(project).returning();
+    return newProject;
+  }
+
+  async getGenerationProject(id: number): Promise<GenerationProject | undefined> {
+    const [project] = await this.db.select().from(generationProjects).where(eq(generationProjects.id, id));
+    return project;
+  }
+
+  async getAllGenerationProjects(): Promise<GenerationProject[]> {
+    return this.db.select().from(generationProjects).orderBy(desc(generationProjects.createdAt), desc(generationProjects.id));
+  }
+
+  async getGenerationProjectsByUser(userId: number): Promise<GenerationProject[]> {
+    return this.db
+      .select()
+      .from(generationProjects)
+      .where(eq(generationProjects.userId, userId))
+      .orderBy(desc(generationProjects.createdAt), desc(generationProjects.id));
+  }
+
+  async updateGenerationProject(id: number, updates: Partial<GenerationProject>): Promise<GenerationProject | undefined> {
+    // Never let callers overwrite the primary key or creation time
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+
+    const [updated] = await this.db
+      .update(generationProjects)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(generationProjects.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteGenerationProject(id: number): Promise<void> {
+    // Components, assets and versions are removed by the ON DELETE CASCADE on their project_id
+    await this.db.delete(generationProjects).where(eq(generationProjects.id, id));
+  }
+
+  // Component methods
+  async createGeneratedComponent(component: InsertGeneratedComponent): Promise<GeneratedComponentRecord> {
+    const [newComponent] = await this.db.insert(generatedComponents).values(component).returning();
+    return newComponent;
+  }
+
+  async getGeneratedComponent(id: number): Promise<GeneratedComponentRecord | undefined> {
+    const [component] = await this.db.select().from(generatedComponents).where(eq(generatedComponents.id, id));
+    return component;
+  }
+
+  async getGeneratedComponentsByProject(projectId: number): Promise<GeneratedComponentRecord[]> {
+    return this.db
+      .select()
+      .from(generatedComponents)
+      .where(eq(generatedComponents.projectId, projectId))
+      .orderBy(asc(generatedComponents.createdAt), asc(generatedComponents.id));
+  }
+
+  async deleteGeneratedComponent(id: number): Promise<void> {
+    await this.db.delete(generatedComponents).where(eq(generatedComponents.id, id));
+  }
+
+  async replaceGeneratedComponents(projectId: number, components: InsertGeneratedComponent[]): Promise<GeneratedComponentRecord[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(generatedComponents).where(eq(generatedComponents.projectId, projectId));
+      if (components.length === 0) return [];
+      return tx
+        .insert(generatedComponents)
+        .values(components.map(component => ({ ...component, projectId })))
+        .returning();
+    });
+  }
+
+  // Asset methods
+  async createProjectAsset(asset: InsertProjectAsset): Promise<ProjectAsset> {
+    const [newAsset] = await this.db.insert(projectAssets).values(asset).returning();
+    return newAsset;
+  }
+
+  async getProjectAssets(projectId: number): Promise<ProjectAsset[]> {
+    return this.db
+      .select()
+      .from(projectAssets)
+      .where(eq(projectAssets.projectId, projectId))
+      .orderBy(asc(projectAssets.id));
+  }
+
+  async deleteProjectAssets(projectId: number): Promise<void> {
+    await this.db.delete(projectAssets).where(eq(projectAssets.projectId, projectId));
+  }
+
+  // Version methods
+  async createProjectVersion(version: InsertProjectVersion): Promise<ProjectVersion> {
+    const [newVersion] = await this.db.insert(projectVersions).values(version).returning();
+    return newVersion;
+  }
+
+  async getProjectVersions(projectId: number): Promise<ProjectVersionSummary[]> {
+    // Figma data and components can be megabytes per version; the history only needs the rest
+    const { figmaData: _figmaData, components: _components, ...summaryColumns } = getTableColumns(projectVersions);
+    return this.db
+      .select(summaryColumns)
+      .from(projectVersions)
+      .where(eq(projectVersions.projectId, projectId))
+      .orderBy(asc(projectVersions.version));
+  }
+
+  async getProjectVersion(projectId: number, version: number): Promise<ProjectVersion | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(projectVersions)
+      .where(and(eq(projectVersions.projectId, projectId), eq(projectVersions.version, version)));
+    return entry;
+  }
+
+  // Figma response cache methods
+  async getCachedFigmaResponse(cacheKey: string): Promise<FigmaResponseCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(figmaResponseCache).where(eq(figmaResponseCache.cacheKey, cacheKey));
+    return entry;
+  }
+
+  async cacheFigmaResponse(entry: InsertFigmaResponseCacheEntry): Promise<FigmaResponseCacheEntry> {
+    const [cached] = await this.db
+      .insert(figmaResponseCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: figmaResponseCache.cacheKey,
+        set: { version: entry.version, lastModified: entry.lastModified, response: entry.response, updatedAt: new Date() }
+      })
+      .returning();
+    return cached;
+  }
+
+  // Component mapping methods
+  async getComponentMappings(userId: number): Promise<ComponentMapping[]> {
+    return this.db
+      .select()
+      .from(componentMappings)
+      .where(eq(componentMappings.userId, userId))
+      .orderBy(asc(componentMappings.id));
+  }
+
+  async replaceComponentMappings(userId: number, mappings: InsertComponentMapping[]): Promise<ComponentMapping[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(componentMappings).where(eq(componentMappings.userId, userId));
+      if (mappings.length === 0) return [];
+      return tx
+        .insert(componentMappings)
+        .values(mappings.map(mapping => ({ ...mapping, userId })))
+        .returning();
+    });
+  }
+
+  // Visual diff methods
+  async getVisualDiffs(projectId: number): Promise<VisualDiff[]> {
+    return this.db
+      .select()
+      .from(visualDiffs)
+      .where(eq(visualDiffs.projectId, projectId))
+      .orderBy(asc(visualDiffs.id));
+  }
+
+  async saveVisualDiff(diff: InsertVisualDiff): Promise<VisualDiff> {
+    const [saved] = await this.db
+      .insert(visualDiffs)
+      .values(diff)
+      .onConflictDoUpdate({
+        target: [visualDiffs.projectId, visualDiffs.componentName],
+        set: {
+          figmaNodeId: diff.figmaNodeId,
+          score: diff.score ?? null,
+          mismatchedPixels: diff.mismatchedPixels ?? null,
+          totalPixels: diff.totalPixels ?? null,
+          width: diff.width ?? null,
+          height: diff.height ?? null,
+          referenceSource: diff.referenceSource,
+          heatmap: diff.heatmap ?? null,
+          error: diff.error ?? null,
+          createdAt: new Date()
+        }
+      })
+      .returning();
+    return saved;
+  }
+}
+
+// Use PostgreSQL when a database is provisioned, otherwise fall back to in-memory storage
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) {
+    return new MemStorage();
+  }
+
+  const { db, pool } = createDatabase(process.env.DATABASE_URL);
+  return new DbStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }));
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
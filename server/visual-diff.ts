@@ -0,0 +1,317 @@
+import type { Browser, HTTPRequest, Page } from "puppeteer-core";
+import type {
+  GenerationProject,
+  InsertVisualDiff,
+  ProjectAsset,
+  VisualDiff,
+  VisualDiffRequest,
+  VisualDiffSummary
+} from "@shared/schema";
+import type { ComponentMetadata, FigmaApiResponse } from "@shared/types/figma";
+import type { CodeGenerationOptions } from "@shared/types/generator";
+import type { FigmaApiClient } from "@shared/services/figma-api";
+import {
+  PREVIEW_CHANNEL,
+  buildPreviewDocument,
+  isPreviewable,
+  pageScript,
+  previewViewports,
+  type PreviewComponent,
+  type PreviewMessage
+} from "@shared/utils/component-preview";
+import { ASSET_PUBLIC_PATH } from "@shared/utils/figma-assets";
+import { NodeFinder } from "@shared/utils/node-finder";
+import { ConfigurationError, ValidationError } from "@shared/utils/errors";
+import { exportNodePngs } from "./figma-import";
+import { storage } from "./storage";
+
+declare global {
+  interface Window {
+    // The preview's first rendered or error message, set in the headless page
+    __previewResult?: PreviewMessage;
+  }
+}
+
+// The preview page and the project's assets are served from this origin by request interception
+const PREVIEW_ORIGIN = 'http://preview.localhost';
+
+const RENDER_TIMEOUT_MS = 30_000;
+
+// Time for the Tailwind Play CDN and web fonts to style the rendered component
+const SETTLE_MS = 250;
+
+// Colour distance (0-1, share of the largest RGB distance) above which two pixels differ
+const PIXEL_THRESHOLD = 0.1;
+
+// Height of the viewport when the component's Figma node has no bounding box
+const DEFAULT_FRAME_HEIGHT = 800;
+
+interface PixelComparison {
+  mismatchedPixels: number;
+  totalPixels: number;
+  width: number;
+  height: number;
+  // Base64 PNG
+  heatmap: string;
+}
+
+type ComparisonOutcome = Pick<InsertVisualDiff, 'score' | 'mismatchedPixels' | 'totalPixels' | 'width' | 'height' | 'heatmap' | 'error'>;
+
+export function toVisualDiffSummary(diff: VisualDiff): VisualDiffSummary {
+  const { heatmap, ...summary } = diff;
+  return {
+    ...summary,
+    heatmapUrl: heatmap
+      ? `/api/projects/${diff.projectId}/visual-diffs/${encodeURIComponent(diff.componentName)}/heatmap.png`
+      : null
+  };
+}
+
+// Uploaded references may be data URLs or bare base64, which is taken as PNG
+function referenceDataUrl(reference: string): string {
+  return reference.startsWith('data:') ? reference : `data:image/png;base64,${reference}`;
+}
+
+// puppeteer-core brings no browser, so an installed Chrome or Chromium is configured by path
+function chromeExecutablePath(): string {
+  const executablePath = process.env.PUPPETEER_EXECUTABLE_PATH || process.env.CHROME_PATH;
+  if (!executablePath) {
+    throw new ConfigurationError('Visual comparison needs Chrome: set PUPPETEER_EXECUTABLE_PATH (or CHROME_PATH) to its executable', 'PUPPETEER_EXECUTABLE_PATH');
+  }
+  return executablePath;
+}
+
+async function launchBrowser(executablePath: string): Promise<Browser> {
+  const { default: puppeteer } = await import("puppeteer-core");
+  // Containers usually run without the user namespaces Chrome's sandbox needs
+  return puppeteer.launch({ executablePath, headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
+}
+
+/**
+ * Runs in the headless page: draws both images at the rendered size on white, counts the pixels
+ * whose colours differ by more than the threshold and paints the heatmap, a faded grey copy of
+ * the reference with differing pixels in red (stronger red for larger differences).
+ */
+async function comparePixels(renderedUrl: string, referenceUrl: string, threshold: number): Promise<PixelComparison> {
+  const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The reference image could not be decoded'));
+    image.src = src;
+  });
+  const [rendered, reference] = await Promise.all([loadImage(renderedUrl), loadImage(referenceUrl)]);
+  const width = rendered.naturalWidth;
+  const height = rendered.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const pixelsOf = (image: HTMLImageElement) => {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height).data;
+  };
+  const actual = pixelsOf(rendered);
+  const expected = pixelsOf(reference);
+
+  const heatmap = context.createImageData(width, height);
+  const maxDistance = Math.sqrt(3 * 255 * 255);
+  let mismatchedPixels = 0;
+
+  for (let index = 0; index < actual.length; index += 4) {
+    const red = actual[index] - expected[index];
+    const green = actual[index + 1] - expected[index + 1];
+    const blue = actual[index + 2] - expected[index + 2];
+    const distance = Math.sqrt(red * red + green * green + blue * blue) / maxDistance;
+
+    if (distance > threshold) {
+      mismatchedPixels++;
+      heatmap.data[index] = 255;
+      heatmap.data[index + 1] = heatmap.data[index + 2] = Math.round(160 * (1 - distance));
+    } else {
+      const luminance = 0.299 * expected[index] + 0.587 * expected[index + 1] + 0.114 * expected[index + 2];
+      heatmap.data[index] = heatmap.data[index + 1] = heatmap.data[index + 2] = Math.round(255 - (255 - luminance) * 0.2);
+    }
+    heatmap.data[index + 3] = 255;
+  }
+
+  context.putImageData(heatmap, 0, 0);
+  return {
+    mismatchedPixels,
+    totalPixels: width * height,
+    width,
+    height,
+    heatmap: canvas.toDataURL('image/png').split(',')[1]
+  };
+}
+
+function frameSize(figmaData: FigmaApiResponse, metadata: ComponentMetadata, options: CodeGenerationOptions): { width: number; height: number } {
+  const box = new NodeFinder(figmaData).findNodeById(metadata.figmaNodeId)?.absoluteBoundingBox;
+  return {
+    width: Math.max(1, Math.round(box?.width ?? previewViewports(options.customBreakpoints).desktop)),
+    height: Math.max(1, Math.round(box?.height ?? DEFAULT_FRAME_HEIGHT))
+  };
+}
+
+async function servePreview(page: Page, html: string, assets: ProjectAsset[]): Promise<void> {
+  await page.setRequestInterception(true);
+  page.on('request', (request: HTTPRequest) => {
+    const url = new URL(request.url());
+    if (url.origin !== PREVIEW_ORIGIN) {
+      // The compilers and frameworks come from their CDNs
+      void request.continue();
+      return;
+    }
+    if (url.pathname === '/') {
+      void request.respond({ status: 200, contentType: 'text/html', body: html });
+      return;
+    }
+
+    const asset = assets.find(entry => `${ASSET_PUBLIC_PATH}/${entry.fileName}` === decodeURIComponent(url.pathname));
+    void request.respond(asset
+      ? { status: 200, contentType: asset.mimeType, body: Buffer.from(asset.data, 'base64') }
+      : { status: 404, body: '' });
+  });
+
+  await page.evaluateOnNewDocument((channel: string) => {
+    // The preview posts to its parent, which is the page itself outside an iframe
+    window.addEventListener('message', event => {
+      if (event.data?.channel === channel && event.data.type !== 'warning') {
+        window.__previewResult = event.data;
+      }
+    });
+  }, PREVIEW_CHANNEL);
+}
+
+// Renders the component at its frame size and compares a screenshot with the reference
+async function compareComponent(
+  browser: Browser,
+  html: string,
+  assets: ProjectAsset[],
+  size: { width: number; height: number },
+  reference: string
+): Promise<ComparisonOutcome> {
+  const page = await browser.newPage();
+  try {
+    await page.setViewport({ ...size, deviceScaleFactor: 1 });
+    await servePreview(page, html, assets);
+    await page.goto(`${PREVIEW_ORIGIN}/`, { waitUntil: 'load', timeout: RENDER_TIMEOUT_MS });
+
+    const handle = await page.waitForFunction(() => window.__previewResult, { timeout: RENDER_TIMEOUT_MS });
+    const message = await handle.jsonValue() as PreviewMessage;
+    if (message.type === 'error') {
+      const { phase, message: text, file, line } = message.error;
+      const location = file ? ` (${file}${line !== null ? `:${line}` : ''})` : '';
+      return { error: `${phase} error${location}: ${text}` };
+    }
+
+    await page.evaluate((settleMs: number) => document.fonts.ready.then(() => new Promise(resolve => setTimeout(resolve, settleMs))), SETTLE_MS);
+    const screenshot = await page.screenshot({ clip: { x: 0, y: 0, ...size }, encoding: 'base64' }) as string;
+    const comparison = await page.evaluate(pageScript(
+      comparePixels,
+      ...[`data:image/png;base64,${screenshot}`, referenceDataUrl(reference), PIXEL_THRESHOLD].map(arg => JSON.stringify(arg))
+    )) as PixelComparison;
+
+    return {
+      ...comparison,
+      score: Math.round((1 - comparison.mismatchedPixels / comparison.totalPixels) * 1000) / 10,
+      error: null
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unknown error' };
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Renders the project's components in a headless browser with the live preview's runtime and
+ * compares them pixel by pixel with their references: uploaded images, or PNGs of the Figma
+ * frames exported with the given client. Every compared component gets a stored score and
+ * heatmap; components that fail to render are stored with the error instead. Components without
+ * a reference are skipped with a warning.
+ */
+export async function runVisualRegression(
+  project: GenerationProject,
+  request: VisualDiffRequest,
+  figmaClient: FigmaApiClient | null
+): Promise<{ results: VisualDiffSummary[]; warnings: string[] }> {
+  const options = project.options as CodeGenerationOptions;
+  if (!isPreviewable(options.framework)) {
+    throw new ValidationError(`Visual comparison supports React, Vue and HTML output, not ${options.framework}`, 'framework');
+  }
+  // Before the Figma export, so no export quota is spent on a comparison that cannot run
+  const executablePath = chromeExecutablePath();
+
+  const records = await storage.getGeneratedComponentsByProject(project.id);
+  const selected = request.components
+    ? records.filter(record => request.components!.includes(record.name))
+    : records;
+  const warnings: string[] = [];
+
+  const uploads = request.references || {};
+  const references = new Map<string, { data: string; source: 'figma' | 'upload' }>(
+    Object.entries(uploads).map(([name, data]) => [name, { data, source: 'upload' }])
+  );
+  const toExport = selected.filter(record => !uploads[record.name]);
+  if (figmaClient && request.fileKey && toExport.length > 0) {
+    const nodes = toExport.map(record => ({ id: (record.metadata as ComponentMetadata).figmaNodeId, name: record.name }));
+    const pngs = await exportNodePngs(figmaClient, request.fileKey, nodes, warnings);
+    toExport.forEach((record, index) => {
+      const png = pngs.get(nodes[index].id);
+      if (png) references.set(record.name, { data: png, source: 'figma' });
+    });
+  }
+
+  const components: PreviewComponent[] = records.map(record => ({
+    name: record.name,
+    jsx: record.jsx,
+    css: record.css,
+    vue: record.vue ?? undefined,
+    html: record.html ?? undefined,
+    responsive: record.responsiveBreakpoints as PreviewComponent['responsive']
+  }));
+  const assets = await storage.getProjectAssets(project.id);
+  const results: VisualDiffSummary[] = [];
+
+  const compared = selected.filter(record => {
+    if (references.has(record.name)) return true;
+    warnings.push(`${record.name}: no reference image, so it was not compared`);
+    return false;
+  });
+  if (compared.length === 0) {
+    return { results, warnings };
+  }
+
+  const browser = await launchBrowser(executablePath);
+  try {
+    for (const record of compared) {
+      const metadata = record.metadata as ComponentMetadata;
+      const reference = references.get(record.name)!;
+      const component = components.find(candidate => candidate.name === record.name)!;
+      const html = buildPreviewDocument(component, components, options.framework, options);
+
+      const outcome = await compareComponent(
+        browser,
+        html,
+        assets,
+        frameSize(project.figmaData as FigmaApiResponse, metadata, options),
+        reference.data
+      );
+      const saved = await storage.saveVisualDiff({
+        projectId: project.id,
+        componentName: record.name,
+        figmaNodeId: metadata.figmaNodeId,
+        referenceSource: reference.source,
+        ...outcome
+      });
+      results.push(toVisualDiffSummary(saved));
+    }
+  } finally {
+    await browser.close();
+  }
+
+  return { results, warnings };
+}
@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, timestamp, unique, real } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ComponentLibraryReport, RegenerationDiff } from "./types/generator";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -21,25 +22,106 @@ export const generationProjects = pgTable("generation_projects", {
 
 export const generatedComponents = pgTable("generated_components", {
   id: serial("id").primaryKey(),
-  projectId: integer("project_id").references(() => generationProjects.id).notNull(),
+  projectId: integer("project_id").references(() => generationProjects.id, { onDelete: "cascade" }).notNull(),
   name: text("name").notNull(),
   jsx: text("jsx").notNull(),
   css: text("css").notNull(),
   typescript: text("typescript"),
   vue: text("vue"),
   html: text("html"),
+  angular: text("angular"),
+  svelte: text("svelte"),
   metadata: jsonb("metadata").notNull(),
   accessibilityReport: jsonb("accessibility_report").notNull(),
   responsiveBreakpoints: jsonb("responsive_breakpoints").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Images exported from Figma (PNG for image fills, SVG for vectors), stored base64-encoded
+export const projectAssets = pgTable("project_assets", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => generationProjects.id, { onDelete: "cascade" }).notNull(),
+  nodeId: text("node_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  data: text("data").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every generation of a project: its input, the generator that ran and the components it produced.
+// Hash, generator version and components are null on versions saved before they were recorded.
+export const projectVersions = pgTable("project_versions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => generationProjects.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  figmaData: jsonb("figma_data").notNull(),
+  figmaHash: text("figma_hash"),
+  options: jsonb("options").notNull(),
+  generatorVersion: text("generator_version"),
+  // Generation result without its components, which are kept in their own column
+  results: jsonb("results"),
+  components: jsonb("components"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  projectVersion: unique("project_versions_project_id_version_unique").on(table.projectId, table.version),
+}));
+
+// Figma API responses, reused while the file's version and lastModified stay the same
+export const figmaResponseCache = pgTable("figma_response_cache", {
+  cacheKey: text("cache_key").primaryKey(),
+  version: text("version").notNull(),
+  lastModified: text("last_modified").notNull(),
+  response: jsonb("response").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// A user's Figma component -> component library mappings (see ComponentLibraryMapping)
+export const componentMappings = pgTable("component_mappings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  figmaKey: text("figma_key"),
+  figmaName: text("figma_name"),
+  importPath: text("import_path").notNull(),
+  componentName: text("component_name").notNull(),
+  selector: text("selector"),
+  props: jsonb("props"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Pixel comparison of a rendered component with its Figma frame or an uploaded reference image.
+// Score and pixel counts are null when the component could not be rendered or compared.
+export const visualDiffs = pgTable("visual_diffs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => generationProjects.id, { onDelete: "cascade" }).notNull(),
+  componentName: text("component_name").notNull(),
+  figmaNodeId: text("figma_node_id").notNull(),
+  // Share of matching pixels, in percent
+  score: real("score"),
+  mismatchedPixels: integer("mismatched_pixels"),
+  totalPixels: integer("total_pixels"),
+  width: integer("width"),
+  height: integer("height"),
+  // 'figma' for an exported frame, 'upload' for an uploaded image
+  referenceSource: text("reference_source").notNull(),
+  // Base64 PNG of the reference with mismatching pixels in red
+  heatmap: text("heatmap"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  projectComponent: unique("visual_diffs_project_id_component_name_unique").on(table.projectId, table.componentName),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64, "Username is too long"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128, "Password is too long"),
+});
+
 export const insertGenerationProjectSchema = createInsertSchema(generationProjects).pick({
   name: true,
   figmaData: true,
@@ -55,11 +137,63 @@ export const insertGeneratedComponentSchema = createInsertSchema(generatedCompon
   typescript: true,
   vue: true,
   html: true,
+  angular: true,
+  svelte: true,
   metadata: true,
   accessibilityReport: true,
   responsiveBreakpoints: true,
 });
 
+export const insertProjectAssetSchema = createInsertSchema(projectAssets).pick({
+  projectId: true,
+  nodeId: true,
+  fileName: true,
+  mimeType: true,
+  data: true,
+});
+
+export const insertProjectVersionSchema = createInsertSchema(projectVersions).pick({
+  projectId: true,
+  version: true,
+  figmaData: true,
+  figmaHash: true,
+  options: true,
+  generatorVersion: true,
+  results: true,
+  components: true,
+});
+
+export const insertFigmaResponseCacheSchema = createInsertSchema(figmaResponseCache).pick({
+  cacheKey: true,
+  version: true,
+  lastModified: true,
+  response: true,
+});
+
+export const insertComponentMappingSchema = createInsertSchema(componentMappings).pick({
+  userId: true,
+  figmaKey: true,
+  figmaName: true,
+  importPath: true,
+  componentName: true,
+  selector: true,
+  props: true,
+});
+
+export const insertVisualDiffSchema = createInsertSchema(visualDiffs).pick({
+  projectId: true,
+  componentName: true,
+  figmaNodeId: true,
+  score: true,
+  mismatchedPixels: true,
+  totalPixels: true,
+  width: true,
+  height: true,
+  referenceSource: true,
+  heatmap: true,
+  error: true,
+});
+
 // Select schemas
 export const selectUserSchema = createSelectSchema(users);
 export const selectGenerationProjectSchema = createSelectSchema(generationProjects);
@@ -75,6 +209,58 @@ export type GenerationProject = typeof generationProjects.$inferSelect;
 export type InsertGeneratedComponent = z.infer<typeof insertGeneratedComponentSchema>;
 export type GeneratedComponentRecord = typeof generatedComponents.$inferSelect;
 
+export type InsertProjectAsset = z.infer<typeof insertProjectAssetSchema>;
+export type ProjectAsset = typeof projectAssets.$inferSelect;
+
+export type InsertProjectVersion = z.infer<typeof insertProjectVersionSchema>;
+export type ProjectVersion = typeof projectVersions.$inferSelect;
+// A version without its Figma data and components, for listing the history
+export type ProjectVersionSummary = Omit<ProjectVersion, 'figmaData' | 'components'>;
+
+export type InsertComponentMapping = z.infer<typeof insertComponentMappingSchema>;
+export type ComponentMapping = typeof componentMappings.$inferSelect;
+
+export type InsertVisualDiff = z.infer<typeof insertVisualDiffSchema>;
+export type VisualDiff = typeof visualDiffs.$inferSelect;
+// A comparison without its heatmap data, which is served as an image from heatmapUrl
+export type VisualDiffSummary = Omit<VisualDiff, 'heatmap'> & { heatmapUrl: string | null };
+
+export type InsertFigmaResponseCacheEntry = z.infer<typeof insertFigmaResponseCacheSchema>;
+export type FigmaResponseCacheEntry = typeof figmaResponseCache.$inferSelect;
+
+// An asset fetched from Figma before the project exists
+export const figmaAssetSchema = z.object({
+  nodeId: z.string(),
+  fileName: z.string().regex(/^[\w.-]+$/, "Invalid asset file name"),
+  mimeType: z.string(),
+  data: z.string()
+});
+
+export type FigmaAsset = z.infer<typeof figmaAssetSchema>;
+
+// The full mapping list of a user, e.g. the contents of a mappings JSON file
+export const componentMappingsRequestSchema = z.object({
+  mappings: z.array(z.object({
+    figmaKey: z.string().min(1).optional(),
+    figmaName: z.string().min(1).optional(),
+    importPath: z.string().min(1, "Import path is required"),
+    componentName: z.string().regex(/^[A-Za-z_$][\w$]*$/, "Component name must be an identifier"),
+    selector: z.string().min(1).optional(),
+    props: z.record(z.union([
+      z.string().min(1),
+      z.object({
+        prop: z.string().min(1),
+        values: z.record(z.union([z.string(), z.number(), z.boolean()])).optional()
+      })
+    ])).optional()
+  }).refine(
+    mapping => mapping.figmaKey || mapping.figmaName,
+    { message: "A mapping needs a figmaKey or a figmaName" }
+  ))
+});
+
+export type ComponentMappingsRequest = z.infer<typeof componentMappingsRequestSchema>;
+
 // API Request/Response types
 export const codeGenerationRequestSchema = z.object({
   name: z.string().min(1, "Project name is required"),
@@ -85,7 +271,7 @@ export const codeGenerationRequestSchema = z.object({
     name: z.string().optional()
   }),
   options: z.object({
-    framework: z.enum(['react', 'vue', 'html']),
+    framework: z.enum(['react', 'vue', 'html', 'angular', 'svelte']),
     styling: z.enum(['tailwind', 'css-modules', 'styled-components', 'plain-css']),
     typescript: z.boolean(),
     accessibility: z.boolean(),
@@ -93,7 +279,11 @@ export const codeGenerationRequestSchema = z.object({
     optimizeImages: z.boolean(),
     includeComments: z.boolean(),
     generateTests: z.boolean(),
-    customBreakpoints: z.record(z.number()).optional()
+    customBreakpoints: z.record(z.number()).optional(),
+    tokenReferences: z.enum(['none', 'css-variables', 'scss']).optional(),
+    tailwindConfig: z.string().optional(),
+    tailwindTolerance: z.number().min(0).optional(),
+    accessibilityRules: z.record(z.boolean()).optional()
   }),
   customCode: z.object({
     jsx: z.string().optional(),
@@ -101,11 +291,49 @@ export const codeGenerationRequestSchema = z.object({
     cssAdvanced: z.string().optional(),
     imports: z.string().optional(),
     utilities: z.string().optional()
-  }).optional()
+  }).optional(),
+  assets: z.array(figmaAssetSchema).optional()
 });
 
 export type CodeGenerationRequest = z.infer<typeof codeGenerationRequestSchema>;
 
+// New Figma data for an existing project, given directly or refetched by file key (and node ID)
+export const regenerationRequestSchema = z.object({
+  figmaData: codeGenerationRequestSchema.shape.figmaData.optional(),
+  fileKey: z.string().optional(),
+  nodeId: z.string().optional(),
+  apiKey: z.string().optional(),
+  options: codeGenerationRequestSchema.shape.options.optional(),
+  customCode: codeGenerationRequestSchema.shape.customCode,
+  assets: codeGenerationRequestSchema.shape.assets,
+  // Files edited since the last generation, by component name; their protected regions are kept
+  previousCode: z.record(z.object({
+    jsx: z.string().optional(),
+    css: z.string().optional(),
+    typescript: z.string().optional()
+  })).optional()
+}).refine(
+  request => request.figmaData || (request.fileKey && request.apiKey),
+  { message: "Provide figmaData, or a fileKey with an apiKey to refetch the file" }
+);
+
+export type RegenerationRequest = z.infer<typeof regenerationRequestSchema>;
+
+// References for the visual comparison: uploaded images by component name (base64 or data URLs),
+// and for the other components the Figma frames, exported with the API key
+export const visualDiffRequestSchema = z.object({
+  fileKey: z.string().optional(),
+  apiKey: z.string().optional(),
+  references: z.record(z.string().min(1)).optional(),
+  // Only compares these components; all of the project's by default
+  components: z.array(z.string()).optional()
+}).refine(
+  request => (request.fileKey && request.apiKey) || Object.keys(request.references || {}).length > 0,
+  { message: "Provide a fileKey with an apiKey to export the Figma frames, or reference images" }
+);
+
+export type VisualDiffRequest = z.infer<typeof visualDiffRequestSchema>;
+
 export const generationResultSchema = z.object({
   id: z.number(),
   components: z.array(z.any()),
@@ -117,7 +345,13 @@ export const generationResultSchema = z.object({
     averageComplexity: z.string(),
     averageAccuracy: z.number(),
     totalNodes: z.number()
-  })
+  }),
+  // 1 for the first generation, increased by every regeneration
+  version: z.number().optional(),
+  // Changes against the previous version, set by a regeneration
+  diff: z.custom<RegenerationDiff>().optional(),
+  // Instances rendered from the user's component library and the ones left unmapped
+  componentLibrary: z.custom<ComponentLibraryReport>().optional()
 });
 
 export type GenerationResult = z.infer<typeof generationResultSchema>;
\ No newline at end of file
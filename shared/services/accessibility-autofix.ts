@@ -0,0 +1,219 @@
+import { AccessibilityIssue, FigmaNode } from '../types/figma';
+import { AccessibilityAnalyzer } from './accessibility-analyzer';
+import {
+  ACCESSIBILITY_RULES,
+  accessibleName,
+  inferHeadingLevel,
+  isButtonLike,
+  isFormControl,
+  isHeading,
+  isImage,
+  isLinkLike,
+  textContent
+} from './accessibility-rules';
+
+// How the generator renders one node after the autofix pass
+export interface NodeAutofix {
+  // Element rendered instead of the generator's default
+  tag?: string;
+  // Literal alt text of an image
+  alt?: string;
+  // Further static attributes, with their HTML names ('for', 'tabindex')
+  attributes: Array<{ name: string; value: string }>;
+  // Kept as a container with a role, so Enter and Space must trigger a click
+  keyboard?: boolean;
+}
+
+export interface AccessibilityAutofixPlan {
+  nodes: Map<string, NodeAutofix>;
+  // Every change, as issues marked autoFixed, for the accessibility report
+  changes: AccessibilityIssue[];
+}
+
+export interface AccessibilityAutofixOptions {
+  rules?: Record<string, boolean>;
+  componentType?: string;
+  // Prefix of the ids that tie labels to their controls
+  idPrefix: string;
+  // The element the generator renders for a node without fixes
+  defaultTag(node: FigmaNode): string;
+  // Whether the generator renders the node as <img> (exported or image-filled)
+  rendersImage(node: FigmaNode): boolean;
+  // Instances rendered by their own component, which gets its own fixes
+  rendersElsewhere(node: FigmaNode): boolean;
+}
+
+/**
+ * Plans the markup changes that resolve accessibility issues while the code is generated:
+ * button- and link-like frames become <button>/<a> (or get a role and keyboard handling when
+ * they contain other controls), controls without text get an aria-label from the layer name,
+ * images get alt text, headings get a valid h1-h6 hierarchy and form controls become inputs tied
+ * to their label. Only changes of enabled rules are planned.
+ */
+export function planAccessibilityFixes(root: FigmaNode, options: AccessibilityAutofixOptions): AccessibilityAutofixPlan {
+  const enabled = new Set(AccessibilityAnalyzer.enabledRules(options.rules).map(rule => rule.id));
+  const nodes = new Map<string, NodeAutofix>();
+  const changes: AccessibilityIssue[] = [];
+
+  const fixFor = (node: FigmaNode): NodeAutofix => {
+    const fix = nodes.get(node.id) || { attributes: [] };
+    nodes.set(node.id, fix);
+    return fix;
+  };
+  const record = (ruleId: string, node: FigmaNode, message: string, fix: string) => {
+    const rule = ACCESSIBILITY_RULES.find(candidate => candidate.id === ruleId)!;
+    changes.push({
+      type: 'info',
+      message,
+      element: node.name,
+      fix,
+      ruleId,
+      wcagCriterion: rule.wcagCriterion,
+      level: rule.level,
+      nodeId: node.id,
+      autoFixed: true
+    });
+  };
+
+  const visible: FigmaNode[] = [];
+  const collect = (node: FigmaNode) => {
+    if (node.visible === false || (node !== root && options.rendersElsewhere(node))) return;
+    visible.push(node);
+    node.children?.forEach(collect);
+  };
+  collect(root);
+
+  const typeOf = (node: FigmaNode) => node === root ? options.componentType : undefined;
+  const isControl = (node: FigmaNode) => node.type !== 'TEXT' && !options.rendersImage(node)
+    && (isButtonLike(node, typeOf(node)) || isLinkLike(node));
+  const rendered = new Set(visible);
+  const containsControl = (node: FigmaNode): boolean =>
+    (node.children || []).some(child => rendered.has(child) && (isControl(child) || containsControl(child)));
+  // Controls named with aria-label; their images only repeat the name
+  const labelled = new Set<string>();
+
+  visible.filter(isControl).forEach(node => {
+    const link = isLinkLike(node);
+
+    if (enabled.has('interactive-role')) {
+      const fix = fixFor(node);
+      if (containsControl(node)) {
+        // Buttons and links cannot contain other controls
+        fix.attributes.push({ name: 'role', value: link ? 'link' : 'button' }, { name: 'tabindex', value: '0' });
+        fix.keyboard = true;
+        record('interactive-role', node, `"${node.name}" got role="${link ? 'link' : 'button'}" and keyboard handling`,
+          'Focusable with tabindex="0"; Enter and Space trigger a click');
+      } else if (link) {
+        fix.tag = 'a';
+        fix.attributes.push({ name: 'href', value: '#' });
+        record('interactive-role', node, `"${node.name}" is rendered as <a>`, 'Rendered as a link; replace href="#" with the target');
+      } else {
+        fix.tag = 'button';
+        fix.attributes.push({ name: 'type', value: 'button' });
+        record('interactive-role', node, `"${node.name}" is rendered as <button>`, 'Rendered as <button type="button">, operable with Enter and Space');
+      }
+    }
+
+    if (enabled.has('control-name') && !textContent(node)) {
+      const name = accessibleName(node);
+      fixFor(node).attributes.push({ name: 'aria-label', value: name });
+      labelled.add(node.id);
+      record('control-name', node, `"${node.name}" has no text`, `Named with aria-label="${name}" from the layer name`);
+    }
+  });
+
+  if (enabled.has('image-alt')) {
+    visible.filter(isImage).forEach(node => {
+      const insideLabelled = ancestorsOf(root, node).some(ancestor => labelled.has(ancestor.id));
+      if (!options.rendersImage(node)) {
+        // An icon drawn without an asset renders as an empty element; inside a named control it is decorative
+        if (insideLabelled) {
+          record('image-alt', node, `Image "${node.name}" needs alt text`, 'Decorative: it renders no image content and the control\'s aria-label names it');
+        }
+        return;
+      }
+      const alt = insideLabelled ? '' : accessibleName(node);
+      fixFor(node).alt = alt;
+      record('image-alt', node, `Image "${node.name}" needs alt text`,
+        insideLabelled ? 'Marked decorative with alt="", the control\'s aria-label names it' : `Given alt="${alt}" from the layer name`);
+    });
+  }
+
+  if (enabled.has('heading-order')) {
+    let previous = 0;
+    visible.filter(isHeading).forEach(node => {
+      const inferred = inferHeadingLevel(node);
+      const level = previous === 0 ? inferred : Math.min(inferred, previous + 1);
+      previous = level;
+
+      const tag = `h${level}`;
+      if (tag === options.defaultTag(node) && level === inferred) return;
+      fixFor(node).tag = tag;
+      record('heading-order', node, `Heading "${node.name}" is rendered as <${tag}>`,
+        level === inferred ? `Level inferred from the ${/\bh[1-6]\b/i.test(node.name) ? 'layer name' : 'font size'}` : `Lowered from h${inferred} so no level is skipped`);
+    });
+  }
+
+  if (enabled.has('form-label')) {
+    visible.filter(node => isFormControl(node, typeOf(node)) && !isControl(node)).forEach(node => {
+      const siblings = (parentOf(root, node)?.children || []).filter(sibling => sibling !== node && rendered.has(sibling));
+      const label = siblings.find(sibling => sibling.type === 'TEXT' && /\blabel\b/i.test(sibling.name))
+        || (siblings.length <= 2 ? siblings.find(sibling => sibling.type === 'TEXT') : undefined);
+      const fix = fixFor(node);
+      const textarea = /textarea/i.test(node.name);
+      const placeholder = textContent(node);
+
+      // Selects and dropdowns keep their markup; they only get a name
+      if (/\b(select|dropdown)\b/i.test(node.name)) {
+        if (!label) {
+          const name = accessibleName(node);
+          fix.attributes.push({ name: 'aria-label', value: name });
+          record('form-label', node, `Form control "${node.name}" has no label`, `Named with aria-label="${name}" from the layer name`);
+        }
+        return;
+      }
+
+      fix.tag = textarea ? 'textarea' : 'input';
+      if (!textarea) fix.attributes.push({ name: 'type', value: 'text' });
+      if (placeholder) fix.attributes.push({ name: 'placeholder', value: placeholder });
+
+      if (label) {
+        const id = `${options.idPrefix}-${slug(node.name)}-${slug(node.id)}`;
+        fix.attributes.push({ name: 'id', value: id });
+        fixFor(label).tag = 'label';
+        fixFor(label).attributes.push({ name: 'for', value: id });
+        record('form-label', node, `"${node.name}" is rendered as <${fix.tag}> labelled by "${label.name}"`,
+          `"${label.name}" is a <label for="${id}">`);
+      } else {
+        const name = accessibleName(node);
+        fix.attributes.push({ name: 'aria-label', value: name });
+        record('form-label', node, `Form control "${node.name}" has no label`,
+          `Rendered as <${fix.tag}> named with aria-label="${name}"; add a visible label`);
+      }
+    });
+  }
+
+  return { nodes, changes };
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function ancestorsOf(root: FigmaNode, target: FigmaNode): FigmaNode[] {
+  const path: FigmaNode[] = [];
+  const visit = (node: FigmaNode): boolean => {
+    if (node === target) return true;
+    path.push(node);
+    if ((node.children || []).some(visit)) return true;
+    path.pop();
+    return false;
+  };
+  visit(root);
+  return path;
+}
+
+function parentOf(root: FigmaNode, target: FigmaNode): FigmaNode | undefined {
+  const ancestors = ancestorsOf(root, target);
+  return ancestors[ancestors.length - 1];
+}
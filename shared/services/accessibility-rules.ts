@@ -0,0 +1,302 @@
+import { AccessibilityAutofixHint, AccessibilityIssue, Color, FigmaNode, WcagLevel } from '../types/figma';
+import { ColorUtils } from '../utils/color-utils';
+
+// A node of the analyzed component with its ancestors, nearest first
+export interface AccessibilityNodeEntry {
+  node: FigmaNode;
+  ancestors: FigmaNode[];
+}
+
+export interface AccessibilityRuleContext {
+  root: FigmaNode;
+  // Every visible node of the component in document order, the root first
+  nodes: AccessibilityNodeEntry[];
+  // Detected type of the component, e.g. 'button', when the caller knows it
+  componentType?: string;
+}
+
+// An issue as a rule reports it; the engine adds the rule's ID, criterion and level
+export interface AccessibilityFinding {
+  node: FigmaNode;
+  type: AccessibilityIssue['type'];
+  message: string;
+  fix: string;
+  autofix?: AccessibilityAutofixHint;
+}
+
+export interface AccessibilityRule {
+  id: string;
+  description: string;
+  // WCAG 2.2 success criterion, number and title
+  wcagCriterion: string;
+  level: WcagLevel;
+  check(context: AccessibilityRuleContext): AccessibilityFinding[];
+}
+
+const WHITE: Color = { r: 1, g: 1, b: 1, a: 1 };
+
+// Smallest target size of WCAG 2.2 2.5.8 (AA) and 2.5.5 (AAA), in px
+const MIN_TARGET_SIZE = 24;
+const ENHANCED_TARGET_SIZE = 44;
+
+function solidFill(paints: FigmaNode['fills']): Color | null {
+  const paint = paints?.find(fill => fill.visible !== false && fill.type === 'SOLID' && fill.color);
+  return paint?.color ? { ...paint.color, a: (paint.color.a ?? 1) * (paint.opacity ?? 1) } : null;
+}
+
+export function textColor(node: FigmaNode): Color | null {
+  return solidFill(node.fills) || solidFill(node.style?.fills);
+}
+
+// The nearest opaque-enough solid fill behind a node; the page is assumed white
+export function backgroundColor(entry: AccessibilityNodeEntry): Color {
+  for (const ancestor of entry.ancestors) {
+    const fill = solidFill(ancestor.fills) || (ancestor.backgroundColor?.a ? ancestor.backgroundColor : null);
+    if (fill && fill.a >= 0.5) return fill;
+  }
+  return WHITE;
+}
+
+// WCAG large text: 18pt (24px) or 14pt (18.66px) bold
+export function isLargeText(node: FigmaNode): boolean {
+  const fontSize = node.style?.fontSize ?? 0;
+  return fontSize >= 24 || (fontSize >= 18.66 && (node.style?.fontWeight ?? 400) >= 700);
+}
+
+export function contrastRatio(entry: AccessibilityNodeEntry): number | null {
+  const color = textColor(entry.node);
+  return color ? ColorUtils.getContrastRatio(color, backgroundColor(entry)) : null;
+}
+
+export function isHeading(node: FigmaNode): boolean {
+  if (node.type !== 'TEXT') return false;
+  const name = node.name.toLowerCase();
+  const hasKeyword = /\b(title|heading|header|h[1-6])\b/.test(name);
+  return hasKeyword || ((node.style?.fontSize ?? 0) > 20 && (node.style?.fontWeight ?? 0) >= 600);
+}
+
+// Level from an h1-h6 layer name, otherwise from the font size
+export function inferHeadingLevel(node: FigmaNode): number {
+  const named = node.name.toLowerCase().match(/\bh([1-6])\b/);
+  if (named) return Number(named[1]);
+
+  const fontSize = node.style?.fontSize || 16;
+  if (fontSize >= 32) return 1;
+  if (fontSize >= 24) return 2;
+  if (fontSize >= 20) return 3;
+  if (fontSize >= 18) return 4;
+  if (fontSize >= 16) return 5;
+  return 6;
+}
+
+export function isImage(node: FigmaNode): boolean {
+  if (node.fills?.some(fill => fill.type === 'IMAGE')) return true;
+  return ['RECTANGLE', 'ELLIPSE', 'VECTOR'].includes(node.type)
+    && /\b(image|img|photo|picture|icon|logo|avatar)\b/.test(node.name.toLowerCase());
+}
+
+export function isLinkLike(node: FigmaNode): boolean {
+  return /\b(link|anchor|href)\b/.test(node.name.toLowerCase());
+}
+
+export function isButtonLike(node: FigmaNode, componentType?: string): boolean {
+  return componentType === 'button' || /\b(button|btn|submit|cta)\b/.test(node.name.toLowerCase());
+}
+
+export function isInteractive(node: FigmaNode, componentType?: string): boolean {
+  if (node.type === 'TEXT') return false;
+  return isButtonLike(node, componentType) || isLinkLike(node)
+    || /\b(input|select|checkbox|radio|switch|toggle|tab)\b/.test(node.name.toLowerCase());
+}
+
+export function isFormControl(node: FigmaNode, componentType?: string): boolean {
+  if (node.type === 'TEXT') return false;
+  return componentType === 'input' || /\b(input|text ?field|textarea|select|dropdown)\b/.test(node.name.toLowerCase());
+}
+
+export function textContent(node: FigmaNode): string {
+  if (node.type === 'TEXT') return node.characters?.trim() ?? '';
+  return (node.children || [])
+    .filter(child => child.visible !== false)
+    .map(textContent)
+    .filter(Boolean)
+    .join(' ');
+}
+
+// "icon/arrow-left" -> "Arrow left"; layer names are the only description a design has
+export function accessibleName(node: FigmaNode): string {
+  const words = node.name
+    .split('/').pop()!
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b(icon|ic|img|image|button|btn)\b/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+  const name = words || node.name.trim().toLowerCase();
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function targetSizeRule(id: string, size: number, wcagCriterion: string, level: WcagLevel, type: AccessibilityIssue['type']): AccessibilityRule {
+  return {
+    id,
+    description: `Interactive elements are at least ${size}x${size}px`,
+    wcagCriterion,
+    level,
+    check: ({ nodes, componentType }) => nodes
+      .filter(({ node }) => isInteractive(node, node === nodes[0].node ? componentType : undefined) && node.absoluteBoundingBox)
+      .filter(({ node }) => node.absoluteBoundingBox!.width < size || node.absoluteBoundingBox!.height < size)
+      .map(({ node }): AccessibilityFinding => ({
+        node,
+        type,
+        message: `Touch target "${node.name}" is smaller than ${size}x${size}px (${Math.round(node.absoluteBoundingBox!.width)}x${Math.round(node.absoluteBoundingBox!.height)}px)`,
+        fix: `Increase the target to at least ${size}x${size}px or add spacing around it`
+      }))
+  };
+}
+
+/**
+ * The rules of the accessibility engine, in the order they run. Each checks one WCAG 2.2
+ * success criterion against the Figma node tree of a component.
+ */
+export const ACCESSIBILITY_RULES: AccessibilityRule[] = [
+  {
+    id: 'image-alt',
+    description: 'Images have a text alternative',
+    wcagCriterion: '1.1.1 Non-text Content',
+    level: 'A',
+    check: ({ nodes }) => nodes
+      .filter(({ node }) => isImage(node))
+      .map(({ node }): AccessibilityFinding => ({
+        node,
+        type: 'warning',
+        message: `Image "${node.name}" needs alt text`,
+        fix: 'Add descriptive alt text, or alt="" if the image is decorative',
+        autofix: { kind: 'attribute', name: 'alt', value: accessibleName(node) }
+      }))
+  },
+  {
+    id: 'heading-order',
+    description: 'Heading levels do not skip levels',
+    wcagCriterion: '1.3.1 Info and Relationships',
+    level: 'A',
+    check: ({ nodes }) => {
+      const findings: AccessibilityFinding[] = [];
+      let previous = 0;
+      nodes.filter(({ node }) => isHeading(node)).forEach(({ node }) => {
+        const level = inferHeadingLevel(node);
+        // The first heading may start at any level; later ones may go at most one level deeper
+        const expected = previous === 0 ? level : Math.min(level, previous + 1);
+        if (expected !== level) {
+          findings.push({
+            node,
+            type: 'warning',
+            message: `Heading "${node.name}" skips from h${previous} to h${level}`,
+            fix: `Use h${expected}, or restyle it without changing the heading level`,
+            autofix: { kind: 'element', tag: `h${expected}` }
+          });
+        }
+        previous = expected;
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'form-label',
+    description: 'Form controls have a visible label',
+    wcagCriterion: '3.3.2 Labels or Instructions',
+    level: 'A',
+    check: ({ nodes, componentType }) => nodes
+      .filter(({ node }) => isFormControl(node, node === nodes[0].node ? componentType : undefined))
+      .filter(({ node, ancestors }) => {
+        // A text layer named as a label next to the control, or any text in a small field group,
+        // reads as its label
+        const siblings = (ancestors[0]?.children || []).filter(sibling => sibling !== node && sibling.visible !== false);
+        return !siblings.some(sibling => sibling.type === 'TEXT' && (/\blabel\b/i.test(sibling.name) || siblings.length <= 2));
+      })
+      .map(({ node }): AccessibilityFinding => ({
+        node,
+        type: 'warning',
+        message: `Form control "${node.name}" has no label`,
+        fix: 'Add a <label> associated with the control through for/id',
+        autofix: { kind: 'element', tag: 'label' }
+      }))
+  },
+  {
+    id: 'text-contrast',
+    description: 'Text has a contrast ratio of 4.5:1 (3:1 for large text)',
+    wcagCriterion: '1.4.3 Contrast (Minimum)',
+    level: 'AA',
+    check: ({ nodes }) => nodes.flatMap((entry): AccessibilityFinding[] => {
+      const ratio = entry.node.type === 'TEXT' ? contrastRatio(entry) : null;
+      if (ratio === null || ColorUtils.meetsContrastStandards(ratio, isLargeText(entry.node)).AA) return [];
+      return [{
+        node: entry.node,
+        type: ratio < 3 ? 'error' : 'warning',
+        message: `Text contrast ratio ${ratio.toFixed(2)}:1 is below ${isLargeText(entry.node) ? '3.0' : '4.5'}:1`,
+        fix: 'Increase the contrast between the text and its background'
+      }];
+    })
+  },
+  {
+    id: 'text-contrast-enhanced',
+    description: 'Text has a contrast ratio of 7:1 (4.5:1 for large text)',
+    wcagCriterion: '1.4.6 Contrast (Enhanced)',
+    level: 'AAA',
+    check: ({ nodes }) => nodes.flatMap((entry): AccessibilityFinding[] => {
+      const ratio = entry.node.type === 'TEXT' ? contrastRatio(entry) : null;
+      if (ratio === null) return [];
+      const standards = ColorUtils.meetsContrastStandards(ratio, isLargeText(entry.node));
+      // Text below AA is reported by text-contrast
+      if (!standards.AA || standards.AAA) return [];
+      return [{
+        node: entry.node,
+        type: 'info',
+        message: `Text contrast ratio ${ratio.toFixed(2)}:1 meets AA but not AAA`,
+        fix: 'Consider increasing the contrast for better readability'
+      }];
+    })
+  },
+  targetSizeRule('target-size', MIN_TARGET_SIZE, '2.5.8 Target Size (Minimum)', 'AA', 'warning'),
+  targetSizeRule('target-size-enhanced', ENHANCED_TARGET_SIZE, '2.5.5 Target Size (Enhanced)', 'AAA', 'info'),
+  {
+    id: 'interactive-role',
+    description: 'Interactive-looking frames render as buttons or links',
+    wcagCriterion: '4.1.2 Name, Role, Value',
+    level: 'A',
+    check: ({ nodes, componentType }) => nodes
+      .filter(({ node }) => {
+        const type = node === nodes[0].node ? componentType : undefined;
+        return isButtonLike(node, type) || (isLinkLike(node) && node.type !== 'TEXT');
+      })
+      .map(({ node }): AccessibilityFinding => {
+        const tag = isLinkLike(node) ? 'a' : 'button';
+        return {
+          node,
+          type: 'warning',
+          message: `"${node.name}" looks interactive but has no ${tag === 'a' ? 'link' : 'button'} role`,
+          fix: `Render it as <${tag}> so it is focusable and operable with the keyboard`,
+          autofix: { kind: 'element', tag }
+        };
+      })
+  },
+  {
+    id: 'control-name',
+    description: 'Buttons and links have an accessible name',
+    wcagCriterion: '4.1.2 Name, Role, Value',
+    level: 'A',
+    check: ({ nodes, componentType }) => nodes
+      .filter(({ node }) => {
+        const type = node === nodes[0].node ? componentType : undefined;
+        // Form controls are named by their label, see form-label
+        return (isButtonLike(node, type) || isLinkLike(node)) && node.type !== 'TEXT' && !textContent(node);
+      })
+      .map(({ node }): AccessibilityFinding => ({
+        node,
+        type: 'error',
+        message: `"${node.name}" has no text, so screen readers cannot name it`,
+        fix: 'Add visible text or an aria-label',
+        autofix: { kind: 'attribute', name: 'aria-label', value: accessibleName(node) }
+      }))
+  }
+];
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { FigmaApiResponse, FigmaNode } from '../types/figma';
+import type { CodeGenerationOptions } from '../types/generator';
+import { ComponentLibrary } from '../utils/component-library';
+import { AdvancedCodeGenerator } from './advanced-code-generator';
+
+const options: CodeGenerationOptions = {
+  framework: 'react',
+  styling: 'plain-css',
+  typescript: true,
+  accessibility: false,
+  responsive: false,
+  optimizeImages: false,
+  includeComments: false,
+  generateTests: false
+};
+
+const text = (id: string, name: string, characters: string): FigmaNode => ({ id, name, type: 'TEXT', characters });
+
+function file(nodes: FigmaNode[], components: FigmaApiResponse['components'] = {}): FigmaApiResponse {
+  return {
+    name: 'Landing',
+    lastModified: '2024-05-01T00:00:00Z',
+    thumbnailUrl: '',
+    version: '1',
+    document: { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [{ id: '0:1', name: 'Page', type: 'CANVAS', children: nodes }] },
+    components,
+    styles: {}
+  } as FigmaApiResponse;
+}
+
+describe('AdvancedCodeGenerator components', () => {
+  const button: FigmaNode = { id: '1:1', name: 'Button', type: 'COMPONENT', children: [text('1:2', 'Label', 'Go')] };
+  const badge: FigmaNode = { id: '3:1', name: 'Badge', type: 'COMPONENT', children: [text('3:2', 'Text', 'New')] };
+  const landing: FigmaNode = {
+    id: '2:1',
+    name: 'Landing',
+    type: 'FRAME',
+    children: [
+      { id: '2:2', name: 'Button', type: 'INSTANCE', componentId: '1:1', children: [text('I2:2;1:2', 'Label', 'Go')] },
+      { id: '2:3', name: 'Badge', type: 'INSTANCE', componentId: '3:1', children: [text('I2:3;3:2', 'Text', 'New')] }
+    ]
+  };
+  const sketch: FigmaNode = { id: '4:1', name: 'Sketch', type: 'FRAME', children: [{ id: '4:2', name: 'Box', type: 'RECTANGLE' }] };
+  const figmaData = file([button, badge, landing, sketch], {
+    '1:1': { key: 'button', name: 'Button' },
+    '3:1': { key: 'badge', name: 'Badge' }
+  } as FigmaApiResponse['components']);
+
+  it('generates the components and the top-level frames that use their instances', () => {
+    const generator = new AdvancedCodeGenerator(figmaData, options);
+
+    expect(generator.buildComponentGraph().targets.map(target => target.name)).toEqual(['Button', 'Badge', 'Landing']);
+
+    const page = generator.generateComponents().find(component => component.name === 'Landing')!;
+    expect(page.jsx).toContain("import Button from './Button';");
+    expect(page.jsx).toContain("import Badge from './Badge';");
+    expect(page.jsx).toContain('<Button />');
+  });
+
+  it('maps the instances of a frame to the component library', () => {
+    const generator = new AdvancedCodeGenerator(figmaData, options);
+    generator.setComponentLibrary(new ComponentLibrary(figmaData, [{ figmaName: 'Badge', importPath: '@acme/ui', componentName: 'Tag' }]));
+
+    const components = generator.generateComponents();
+
+    expect(components.map(component => component.name)).toEqual(['Button', 'Landing']);
+    const page = components.find(component => component.name === 'Landing')!;
+    expect(page.jsx).toContain("import { Tag } from '@acme/ui';");
+    expect(page.jsx).toContain('<Tag />');
+  });
+});
+
+describe('AdvancedCodeGenerator variants', () => {
+  const fill = (r: number, g: number, b: number) => [{ type: 'SOLID' as const, color: { r, g, b, a: 1 } }];
+  const variant = (id: string, value: string, background: number): FigmaNode => ({
+    id,
+    name: `Variant=${value}`,
+    type: 'COMPONENT',
+    fills: fill(background, background, 1),
+    children: [text(`${id}:label`, 'Label', 'Go')]
+  });
+  const buttonSet: FigmaNode = {
+    id: '1:0',
+    name: 'Button',
+    type: 'COMPONENT_SET',
+    children: [variant('1:1', 'Primary', 0), variant('1:2', 'Secondary', 0.9)]
+  };
+  const figmaData = file([buttonSet], {
+    '1:1': { key: 'primary', name: 'Variant=Primary', componentSetId: '1:0' },
+    '1:2': { key: 'secondary', name: 'Variant=Secondary', componentSetId: '1:0' }
+  } as FigmaApiResponse['components']);
+
+  it('styles only the root per variant and warns about the layers that differ', () => {
+    const secondary = variant('1:2', 'Secondary', 0.9);
+    secondary.children = [{ ...text('1:2:label', 'Label', 'Go'), fills: fill(1, 0, 0) }, { id: '1:2:icon', name: 'Icon', type: 'VECTOR' }];
+    const set = { ...buttonSet, children: [buttonSet.children![0], secondary] };
+    const [button] = new AdvancedCodeGenerator(file([set], figmaData.components), options).generateComponents();
+
+    expect(button.css).toContain('.button--secondary {\n  background-color: rgba(230, 230, 255, 1);\n}');
+    expect(button.metadata.warnings).toContain(
+      "Button (Secondary): Label, Icon differ from the default variant; only the root element's styles change with the variant props"
+    );
+  });
+
+  it('does not warn when the variants differ only at the root', () => {
+    const [button] = new AdvancedCodeGenerator(figmaData, options).generateComponents();
+
+    expect(button.metadata.warnings ?? []).toEqual([]);
+  });
+
+  it('gives the default variant no CSS Modules class instead of undefined', () => {
+    const [button] = new AdvancedCodeGenerator(figmaData, { ...options, styling: 'css-modules' }).generateComponents();
+
+    // Only variants that differ from the default get a rule, so the lookup falls back for the rest
+    expect(button.css).toContain('.button--secondary {');
+    expect(button.css).not.toContain('.button--primary');
+    expect(button.jsx).toContain("className={`${styles['button']} ${styles[variantClass] ?? ''}`}");
+  });
+});
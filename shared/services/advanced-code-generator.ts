@@ -1,12 +1,46 @@
 import { FigmaNode, FigmaApiResponse, GeneratedComponent, ComponentMetadata, AccessibilityReport, ResponsiveBreakpoints } from '../types/figma';
+import { ComponentLibraryMapping, ComponentLibraryReport } from '../types/generator';
+import { ComponentNameSanitizer } from '../utils/component-name-sanitizer';
+import { StyleGenerator } from './style-generator';
+import { DesignSystemExtractor } from './design-system-extractor';
+import { AccessibilityAnalyzer } from './accessibility-analyzer';
+import { AccessibilityAutofixPlan, planAccessibilityFixes } from './accessibility-autofix';
+import {
+  ComponentVariant,
+  ComponentVariantSet,
+  parseVariantName,
+  resolveVariantSet,
+  toPropName,
+  variantKeyExpression,
+  variantTypeLiteral,
+  variantValueLiteral
+} from '../utils/component-variants';
+import { orderByDependencies } from '../utils/component-graph';
+import { ComponentLibrary, isPackageImport, libraryImports, renderLibraryElement } from '../utils/component-library';
+import { LayoutEngine } from '../utils/layout-engine';
+import { DESIGN_TOKENS } from '../utils/constants';
+import {
+  RichTextBlock,
+  TextRun,
+  hasListLines,
+  hasRichText,
+  parseRichText,
+  splitRunsAtLineBreaks,
+  textRuns
+} from '../utils/rich-text';
 
 export interface CodeGenerationOptions {
-  framework: 'react' | 'vue' | 'html';
+  framework: 'react' | 'vue' | 'html' | 'angular' | 'svelte';
   styling: 'tailwind' | 'css-modules' | 'styled-components' | 'plain-css';
   typescript: boolean;
   accessibility: boolean;
   responsive: boolean;
   optimizeImages: boolean;
+  customBreakpoints?: Record<string, number>;
+  tokenReferences?: 'none' | 'css-variables' | 'scss';
+  tailwindConfig?: string;
+  tailwindTolerance?: number;
+  accessibilityRules?: Record<string, boolean>;
 }
 
 export interface CustomCodeInputs {
@@ -15,14 +49,69 @@ export interface CustomCodeInputs {
   cssAdvanced: string;
 }
 
+interface MainComponentRef {
+  name: string;
+  node: FigmaNode;
+  variants: ComponentVariantSet | null;
+}
+
+interface TextProp {
+  name: string;
+  nodeId: string;
+  layerName: string;
+  defaultValue: string;
+  propertyRef?: string;
+}
+
+interface ResolvedInstance {
+  ref: MainComponentRef;
+  props: Array<{ name: string; value: string | boolean }>;
+}
+
+type InstanceDialect = 'react' | 'vue' | 'angular' | 'svelte';
+
+type TextDialect = InstanceDialect | 'html';
+
+// A javítások HTML attribútumneveinek JSX megfelelői
+const REACT_ATTRIBUTE_NAMES: Record<string, string> = {
+  for: 'htmlFor'
+};
+
+// A mobil tartomány alsó határa: ennél keskenyebb nézetre nem méretezünk
+const MIN_VIEWPORT_WIDTH = 320;
+
 export class AdvancedCodeGenerator {
   private figmaData: FigmaApiResponse;
   private options: CodeGenerationOptions;
   private customCode: CustomCodeInputs = { jsx: '', css: '', cssAdvanced: '' };
+  private styleGenerator: StyleGenerator;
+  // Fő komponensek node ID szerint (készletnél a variánsok ID-jával is), a példányok feloldásához
+  private mainComponents: Map<string, MainComponentRef> = new Map();
+  // Az éppen generált komponens szöveg node-jai és a hozzájuk kötött propok
+  private textBindings: Map<string, string> = new Map();
+  // Az éppen generált komponens gyökere: a layout szempontjából nincs szülője
+  private layoutRootId: string | null = null;
+  private parentIndex: Map<string, FigmaNode> | null = null;
+  // A Figmából exportált képek node ID szerint, a generált kódban használt útvonalukkal
+  private assets: Map<string, string> = new Map();
+  // Meglévő komponenskönyvtárra leképezett fő komponensek; ezek nem generálódnak újra
+  private componentLibrary: ComponentLibrary | null = null;
+  // Az éppen generált komponens accessibility javításai (csak accessibility módban)
+  private accessibilityFixes: AccessibilityAutofixPlan | null = null;
 
   constructor(figmaData: FigmaApiResponse, options: CodeGenerationOptions) {
     this.figmaData = figmaData;
     this.options = options;
+    // Tokenes módban a fájlból kinyert design tokenekre hivatkozunk a nyers értékek helyett
+    const tokens = options.tokenReferences && options.tokenReferences !== 'none'
+      ? new DesignSystemExtractor(figmaData).extractDesignTokens()
+      : undefined;
+    this.styleGenerator = new StyleGenerator({ includeComments: false, generateTests: false, ...options }, tokens);
+  }
+
+  // Azok a stílusértékek, amelyekhez nem található design token
+  getTokenWarnings(): string[] {
+    return this.styleGenerator.getTokenWarnings();
   }
 
   // Egyéni kód beállítása
@@ -30,65 +119,150 @@ export class AdvancedCodeGenerator {
     this.customCode = customCode;
   }
 
+  // Exportált képek beállítása: ezek a node-ok <img> elemként, a kép útvonalával kerülnek ki
+  setAssets(assets: Record<string, string>) {
+    this.assets = new Map(Object.entries(assets));
+  }
+
+  // Komponenskönyvtár leképezések beállítása: a leképezett példányok a könyvtár komponenseként kerülnek ki
+  setComponentLibrary(library: ComponentLibrary) {
+    this.componentLibrary = library;
+  }
+
+  // A példányok könyvtári leképezésének riportja (csak beállított könyvtárnál)
+  getComponentLibraryReport(): ComponentLibraryReport | null {
+    return this.componentLibrary?.report() ?? null;
+  }
+
   // Fő generálási metódus
   generateComponents(): GeneratedComponent[] {
-    const components: GeneratedComponent[] = [];
-    
-    // Komponensek generálása
-    Object.entries(this.figmaData.components || {}).forEach(([key, component]) => {
-      const node = this.findNodeById(component.key);
+    return this.buildComponentGraph().targets.map(({ node, name }) => this.generateComponent(node, name));
+  }
+
+  // Generálandó node-ok függőségi sorrendben: a példányként hivatkozott komponensek kerülnek előre
+  buildComponentGraph(): { targets: Array<{ node: FigmaNode; name: string }>; cycles: string[][] } {
+    const targets = this.detectComponentNodes();
+    const names = new Map(targets.map(target => [target.node.id, this.sanitizeComponentName(target.name)]));
+
+    const { order, cycles } = orderByDependencies(
+      targets,
+      target => target.node.id,
+      target => this.instanceDependencies(this.generationRoot(target.node)).map(ref => ref.node.id)
+    );
+
+    return {
+      targets: order,
+      cycles: cycles.map(cycle => cycle.map(id => names.get(id) || id))
+    };
+  }
+
+  // Generálandó node-ok felderítése
+  detectComponentNodes(): Array<{ node: FigmaNode; name: string }> {
+    const targets: Array<{ node: FigmaNode; name: string }> = [];
+    const componentSets = new Set<string>();
+
+    // A Figma API a komponenseket node ID szerint indexeli, a régebbi exportok a key mezőben tárolják
+    Object.entries(this.figmaData.components || {}).forEach(([nodeId, component]) => {
+      // A könyvtárból importált komponenst nem generáljuk újra
+      if (this.componentLibrary?.mappingFor(nodeId)) return;
+
+      // A variánsok a komponens készlettel együtt, egyetlen komponensként generálódnak
+      if (component.componentSetId) {
+        const setNode = this.findNodeById(component.componentSetId);
+        if (setNode && setNode.type === 'COMPONENT_SET') {
+          if (!componentSets.has(setNode.id)) {
+            componentSets.add(setNode.id);
+            targets.push({ node: setNode, name: this.figmaData.componentSets?.[setNode.id]?.name || setNode.name });
+          }
+          return;
+        }
+      }
+
+      const node = this.findNodeById(nodeId) || this.findNodeById(component.key);
       if (node) {
-        const generatedComponent = this.generateSingleComponent(node, component.name);
-        components.push(generatedComponent);
+        targets.push({ node, name: component.name });
       }
     });
 
-    // Ha nincsenek komponensek, generáljuk a fő frame-eket
-    if (components.length === 0) {
-      this.findMainFrames(this.figmaData.document).forEach(frame => {
-        const generatedComponent = this.generateSingleComponent(frame, frame.name);
-        components.push(generatedComponent);
-      });
-    }
+    // Ha nincsenek komponensek, generáljuk a fő frame-eket; különben a példányokat tartalmazó
+    // felső szintű frame-eket, hogy a példányaik importként (vagy könyvtári komponensként) kerüljenek ki
+    const frames = targets.length === 0
+      ? this.findMainFrames(this.figmaData.document)
+      : this.findInstanceFrames(this.figmaData.document);
+    frames.forEach(frame => {
+      targets.push({ node: frame, name: frame.name });
+    });
+
+    this.registerMainComponents(targets);
+    return targets;
+  }
 
-    return components;
+  private registerMainComponents(targets: Array<{ node: FigmaNode; name: string }>): void {
+    this.mainComponents = new Map();
+
+    targets.forEach(({ node, name }) => {
+      if (node.type !== 'COMPONENT' && node.type !== 'COMPONENT_SET') return;
+
+      const variants = resolveVariantSet(node);
+      const ref: MainComponentRef = { name: this.sanitizeComponentName(name), node, variants };
+      this.mainComponents.set(node.id, ref);
+      variants?.variants.forEach(variant => this.mainComponents.set(variant.node.id, ref));
+    });
   }
 
-  private generateSingleComponent(node: FigmaNode, componentName: string): GeneratedComponent {
+  generateComponent(node: FigmaNode, componentName: string): GeneratedComponent {
     const startTime = Date.now();
     
     const sanitizedName = this.sanitizeComponentName(componentName);
-    const jsx = this.generateJSX(node, sanitizedName);
-    const css = this.generateCSS(node, sanitizedName);
-    const accessibility = this.analyzeAccessibility(node);
-    const responsive = this.analyzeResponsive(node);
-    const metadata = this.generateMetadata(node, Date.now() - startTime);
+    // Komponens készletnél az alapértelmezett variáns adja a szerkezetet, a többi csak stílust
+    const variants = resolveVariantSet(node);
+    const baseNode = this.generationRoot(node);
+    this.layoutRootId = baseNode.id;
+    this.textBindings = new Map(this.extractTextProps(baseNode, variants).map(prop => [prop.nodeId, prop.name]));
+    this.accessibilityFixes = this.planAccessibilityFixes(baseNode, sanitizedName);
+    const jsx = this.generateJSX(baseNode, sanitizedName, variants);
+    const css = this.generateCSS(baseNode, sanitizedName, variants);
+    const accessibility = this.analyzeAccessibility(baseNode);
+    const responsive = this.analyzeResponsive(baseNode, sanitizedName);
+    const metadata = this.generateMetadata(baseNode, Date.now() - startTime, variants);
+    this.recordLibraryUsage(baseNode, sanitizedName);
+    // A Tailwind témához tűréshatáron belül igazított értékek, az eltérésükkel
+    const snapWarnings = this.styleGenerator.takeTailwindWarnings();
+    const warnings = [...this.variantChildWarnings(variants, sanitizedName), ...snapWarnings];
 
     return {
       id: node.id,
       name: sanitizedName,
       jsx,
       css,
-      ...(this.options.typescript && { typescript: this.generateTypeScript(node, sanitizedName) }),
+      ...(this.options.typescript && { typescript: this.generateTypeScript(baseNode, sanitizedName, variants) }),
       accessibility,
       responsive,
-      metadata,
+      metadata: {
+        ...metadata,
+        figmaNodeId: node.id,
+        ...(warnings.length > 0 && { warnings: [...(metadata.warnings || []), ...warnings] })
+      },
     };
   }
 
   // JSX generálás fejlett logikával + egyéni kód
-  private generateJSX(node: FigmaNode, componentName: string): string {
-    const props = this.extractProps(node);
+  private generateJSX(node: FigmaNode, componentName: string, variants: ComponentVariantSet | null = null): string {
+    const props = this.extractProps(node, variants);
     const children = this.generateChildren(node);
-    const className = this.generateClassName(node);
+    const cssModules = this.options.styling === 'css-modules';
+    // CSS Modules alatt a gyökér a modul saját szabályának osztályát kapja
+    const className = cssModules ? this.variantBaseClass(componentName) : this.generateClassName(node);
     const styles = this.generateInlineStyles(node);
 
     if (this.options.framework === 'react') {
-      const imports = this.generateImports(node);
+      const imports = this.generateImports(node, this.instanceDependencies(node), componentName);
+      const rootTag = this.usesStyledComponents() ? `Styled${componentName}` : undefined;
       const propsInterface = this.options.typescript ? this.generatePropsInterface(props, componentName) : '';
+      const propList = props.map(p => p.defaultValue !== undefined ? `${p.name} = ${p.defaultValue}` : p.name).join(', ');
       const componentSignature = this.options.typescript 
-        ? `export const ${componentName}: React.FC<${componentName}Props> = ({ ${props.map(p => p.name).join(', ')} })`
-        : `export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} })`;
+        ? `export const ${componentName}: React.FC<${componentName}Props> = ({ ${propList} })`
+        : `export const ${componentName} = ({ ${propList} })`;
 
       // Egyéni JSX kód beépítése
       const customJSXSection = this.customCode.jsx ? `
@@ -97,50 +271,106 @@ export class AdvancedCodeGenerator {
   // === EGYÉNI JSX KÓD VÉGE ===
 ` : '';
 
+      if (variants) {
+        // A gyökérelem osztálya a variáns propokból számolódik, inline stílus nélkül
+        // (CSS Modules alatt az alapértelmezett és az eltérés nélküli variánsnak nincs szabálya, ezért '')
+        const baseClass = this.variantBaseClass(componentName);
+        const classExpression = cssModules
+          ? `\`\${styles[${this.toStringLiteral(baseClass)}]} \${styles[variantClass] ?? ''}\``
+          : baseClass ? `\`${baseClass} \${variantClass}\`` : 'variantClass';
+
+        return `${imports}
+${propsInterface}${this.generateVariantClassMap(variants, componentName)}
+
+${componentSignature} => {${customJSXSection}
+  const variantClass = ${this.variantClassExpression(variants)};
+
+  return (
+    ${this.generateJSXElement(node, '', '', children, 1, classExpression, rootTag)}
+  );
+};
+
+export default ${componentName};`;
+      }
+
       return `${imports}
 ${propsInterface}
 ${componentSignature} => {${customJSXSection}
   return (
-    ${this.generateJSXElement(node, className, styles, children, 1)}
+    ${this.generateJSXElement(node, className, styles, children, 1, undefined, rootTag)}
   );
 };
 
 export default ${componentName};`;
     }
 
-    // HTML generálás
-    if (this.options.framework === 'html') {
-      return this.generateHTML(node, className, styles, children);
+    // Vue SFC generálás
+    if (this.options.framework === 'vue') {
+      return this.generateVue(node, componentName, variants);
+    }
+
+    // Angular standalone komponens
+    if (this.options.framework === 'angular') {
+      return this.generateAngular(node, componentName, variants);
+    }
+
+    // Svelte egyfájlos komponens
+    if (this.options.framework === 'svelte') {
+      return this.generateSvelte(node, componentName, variants);
     }
 
-    return jsx;
+    // HTML generálás
+    return this.generateHTML(node, componentName, variants);
   }
 
-  private generateJSXElement(node: FigmaNode, className: string, styles: string, children: string, depth: number): string {
+  private generateJSXElement(node: FigmaNode, className: string, styles: string, children: string, depth: number, classExpression?: string, rootTag?: string): string {
     const indent = '  '.repeat(depth);
-    const tag = this.getHtmlTag(node);
+    const tag = rootTag ?? this.getHtmlTag(node);
     const attributes = this.generateAttributes(node);
+    const classAttribute = classExpression
+      ? ` className={${classExpression}}`
+      : this.reactClassAttribute(className);
     
+    if (node.type === 'TEXT' && node.characters && hasRichText(node)) {
+      return this.generateRichTextElement(node, `${classAttribute}${styles ? ` style={${styles}}` : ''}${attributes}`, depth, 'react');
+    }
+
+    // Űrlapmezővé javított node: a Figma tartalma a placeholderbe került
+    if (this.getHtmlTag(node) === 'input' || this.getHtmlTag(node) === 'textarea') {
+      return `${indent}<${tag}${classAttribute}${styles ? ` style={${styles}}` : ''}${attributes} />`;
+    }
+
     if (node.type === 'TEXT' && node.characters) {
-      return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes}>
-${indent}  {${node.characters ? `"${node.characters}"` : 'children'}}
+      return `${indent}<${tag}${classAttribute}${styles ? ` style={${styles}}` : ''}${attributes}>
+${indent}  {${this.textBindings.get(node.id) ?? (node.characters ? `"${node.characters}"` : 'children')}}
 ${indent}</${tag}>`;
     }
 
     if (children) {
-      return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes}>
+      return `${indent}<${tag}${classAttribute}${styles ? ` style={${styles}}` : ''}${attributes}>
 ${children}
 ${indent}</${tag}>`;
     }
 
-    return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes} />`;
+    return `${indent}<${tag}${classAttribute}${styles ? ` style={${styles}}` : ''}${attributes} />`;
   }
 
   private generateChildren(node: FigmaNode): string {
-    if (!node.children || node.children.length === 0) return '';
+    // Az exportált kép a node teljes részfáját tartalmazza
+    if (!node.children || node.children.length === 0 || this.assets.has(node.id)) return '';
     
     return node.children
       .map(child => {
+        const libraryInstance = this.componentLibrary?.resolve(child);
+        if (libraryInstance) {
+          return renderLibraryElement(libraryInstance, 'react', '    ');
+        }
+
+        const instance = this.resolveInstance(child);
+        if (instance) {
+          return this.generateInstanceElement(instance, 2, 'react');
+        }
+
         const childClassName = this.generateClassName(child);
         const childStyles = this.generateInlineStyles(child);
         const grandChildren = this.generateChildren(child);
@@ -150,21 +380,34 @@ ${indent}</${tag}>`;
   }
 
   // CSS generálás fejlett logikával + egyéni CSS
-  private generateCSS(node: FigmaNode, componentName: string): string {
+  private generateCSS(node: FigmaNode, componentName: string, variants: ComponentVariantSet | null = null): string {
     let baseCSS = '';
     
     if (this.options.styling === 'tailwind') {
-      baseCSS = this.generateTailwindCSS(node);
+      baseCSS = this.generateTailwindCSS(node, componentName);
     } else {
       const styles = this.extractAllStyles(node);
       const cssRules = this.convertToCSSRules(styles, componentName);
+      // Variánsonként csak az alapértelmezett variánstól eltérő deklarációk kerülnek módosító osztályba
+      const variantRules = (variants?.variants || [])
+        .filter(variant => variant !== variants?.defaultVariant)
+        .map(variant => ({ className: this.variantModifierClass(variant, componentName), styles: this.variantStyleOverrides(styles, variant.node) }))
+        .filter(rule => Object.keys(rule.styles).length > 0);
+      const runRules = this.textRunRules(node);
+      const extraRules = [...variantRules, ...runRules].map(rule => this.convertToCSSRules(rule.styles, rule.className));
       
       if (this.options.styling === 'css-modules') {
-        baseCSS = this.generateCSSModules(cssRules);
-      } else if (this.options.styling === 'styled-components') {
-        baseCSS = this.generateStyledComponents(cssRules, componentName);
+        baseCSS = [this.generateCSSModules(cssRules), ...extraRules].join('\n\n');
+      } else if (this.usesStyledComponents()) {
+        // A styled-components csak React alatt értelmezhető, a többi keretrendszer sima CSS-t kap
+        // A variáns módosító a gyökérelemre, a szövegfutam osztálya a leszármazottakra vonatkozik
+        const nestedRules = [
+          ...variantRules.map(rule => `&${this.convertToCSSRules(rule.styles, rule.className)}`),
+          ...runRules.map(rule => `& ${this.convertToCSSRules(rule.styles, rule.className)}`)
+        ].join('\n\n');
+        baseCSS = this.generateStyledComponents(cssRules, componentName, nestedRules, this.getHtmlTag(node));
       } else {
-        baseCSS = this.generatePlainCSS(cssRules, componentName);
+        baseCSS = [this.generatePlainCSS(cssRules, componentName), ...extraRules].join('\n\n');
       }
     }
 
@@ -185,25 +428,12 @@ ${this.customCode.cssAdvanced}
     return `${baseCSS}${customCSSSection}${advancedCSSSection}`;
   }
 
-  private extractAllStyles(node: FigmaNode): Record<string, any> {
-    const styles: Record<string, any> = {};
+  private extractAllStyles(node: FigmaNode, inline = false): Record<string, any> {
+    // Layout, méretezés (FIXED/HUG/FILL) és pozíció az auto-layout szülőhöz képest
+    const styles: Record<string, any> = LayoutEngine.resolveStyles(node, this.layoutParent(node));
 
-    // Layout és pozíció
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      styles.width = `${width}px`;
-      styles.height = `${height}px`;
-    }
-
-    // Flexbox layout
-    if (node.layoutMode) {
-      styles.display = 'flex';
-      styles.flexDirection = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
-      
-      if (node.itemSpacing) {
-        styles.gap = `${node.itemSpacing}px`;
-      }
-    }
+    // Az exportált kép már tartalmazza a kitöltést, keretet és árnyékot, csak a helye kell
+    if (this.assets.has(node.id)) return styles;
 
     // Padding
     if (node.paddingLeft || node.paddingRight || node.paddingTop || node.paddingBottom) {
@@ -269,138 +499,144 @@ ${this.customCode.cssAdvanced}
       }
     }
 
-    return styles;
+    // Sass változók futásidőben nem léteznek, ezért SCSS módban az inline stílusok nyers értékek maradnak
+    if (inline && this.options.tokenReferences === 'scss') return styles;
+    return this.styleGenerator.resolveTokens(styles, node.name);
   }
 
-  private generateTailwindCSS(node: FigmaNode): string {
+  private generateTailwindCSS(node: FigmaNode, componentName: string): string {
     const classes = this.generateTailwindClasses(node);
     return `/* Figma alapú Tailwind osztályok: ${classes} */
 
 /* Komponens alapstílusok */
-.${this.sanitizeComponentName(node.name).toLowerCase()} {
+.${componentName.toLowerCase()} {
   @apply ${classes};
 }`;
   }
 
   private generateTailwindClasses(node: FigmaNode): string {
-    const classes: string[] = [];
-
-    // Layout
-    if (node.layoutMode === 'HORIZONTAL') {
-      classes.push('flex', 'flex-row');
-    } else if (node.layoutMode === 'VERTICAL') {
-      classes.push('flex', 'flex-col');
+    if (this.assets.has(node.id)) {
+      return LayoutEngine.resolveTailwindClasses(node, this.layoutParent(node)).join(' ');
     }
+    // A StyleGenerator a projekt Tailwind témájához igazít (tokenes módban a tokennevekhez),
+    // a témán kívüli értékek arbitrary value-k lesznek
+    return this.styleGenerator.generateTailwindClasses(node, this.layoutParent(node));
+  }
 
-    // Spacing
-    if (node.itemSpacing) {
-      const gap = this.pxToTailwindSpacing(node.itemSpacing);
-      classes.push(`gap-${gap}`);
-    }
-
-    // Padding
-    if (node.paddingLeft) classes.push(`pl-${this.pxToTailwindSpacing(node.paddingLeft)}`);
-    if (node.paddingRight) classes.push(`pr-${this.pxToTailwindSpacing(node.paddingRight)}`);
-    if (node.paddingTop) classes.push(`pt-${this.pxToTailwindSpacing(node.paddingTop)}`);
-    if (node.paddingBottom) classes.push(`pb-${this.pxToTailwindSpacing(node.paddingBottom)}`);
-
-    // Size
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      classes.push(`w-[${width}px]`, `h-[${height}px]`);
-    }
+  // Accessibility elemzés a szabályalapú motorral, a generálási opciókban kikapcsolt szabályok nélkül;
+  // a generálás közben javított hibák "auto-fixed" jelöléssel szerepelnek
+  private analyzeAccessibility(node: FigmaNode): AccessibilityReport {
+    const report = new AccessibilityAnalyzer(node, {
+      rules: this.options.accessibilityRules,
+      componentType: this.detectComponentType(node),
+      autoFixed: this.accessibilityFixes?.changes
+    }).analyze();
 
-    // Background color
-    if (node.backgroundColor) {
-      classes.push(this.colorToTailwind(node.backgroundColor));
+    // Az egyéni kódot a motor nem látja, azt kézzel kell ellenőrizni
+    if (this.customCode.jsx || this.customCode.css) {
+      report.suggestions.push('Ellenőrizd az egyéni kód accessibility megfelelőségét');
+      report.suggestions.push('Teszteld a komponenst képernyőolvasóval');
     }
 
-    // Border radius
-    if (node.cornerRadius) {
-      classes.push(this.borderRadiusToTailwind(node.cornerRadius));
-    }
+    return report;
+  }
 
-    // Text styles
-    if (node.type === 'TEXT' && node.style) {
-      if (node.style.fontSize) {
-        classes.push(this.fontSizeToTailwind(node.style.fontSize));
-      }
-    }
+  // Accessibility módban a javítások tervét a markup generálása előtt kell elkészíteni:
+  // a tag- és attribútumdöntések ezt követik
+  private planAccessibilityFixes(node: FigmaNode, componentName: string): AccessibilityAutofixPlan | null {
+    this.accessibilityFixes = null;
+    if (!this.options.accessibility) return null;
 
-    return classes.join(' ');
+    return planAccessibilityFixes(node, {
+      rules: this.options.accessibilityRules,
+      componentType: this.detectComponentType(node),
+      idPrefix: ComponentNameSanitizer.toKebabCase(componentName),
+      defaultTag: child => this.getHtmlTag(child),
+      rendersImage: child => this.getHtmlTag(child) === 'img',
+      // Sima HTML-ben a példányok beágyazva maradnak
+      rendersElsewhere: child => this.options.framework !== 'html'
+        && Boolean(this.componentLibrary?.resolve(child) || this.resolveInstance(child))
+    });
   }
 
-  // Accessibility elemzés
-  private analyzeAccessibility(node: FigmaNode): AccessibilityReport {
-    const issues: any[] = [];
-    const suggestions: string[] = [];
-    let score = 100;
-
-    // Képek alt text ellenőrzése
-    if (this.isImage(node)) {
-      issues.push({
-        type: 'error',
-        message: 'Kép hiányzó alt szöveg',
-        element: node.name,
-        fix: 'Adj hozzá alt attribútumot leíró szöveggel'
-      });
-      score -= 15;
-    }
-
-    // Szöveg kontraszt ellenőrzése
-    if (node.type === 'TEXT') {
-      const contrastRatio = this.calculateContrastRatio(node);
-      if (contrastRatio < 4.5) {
-        issues.push({
-          type: 'warning',
-          message: 'Alacsony szöveg kontraszt',
-          element: node.name,
-          fix: 'Növeld a szöveg és háttér közötti kontrasztot'
-        });
-        score -= 10;
-      }
-    }
+  // A javítás attribútumai dialektus szerint; a gyökér gomb/link a kattintást is továbbadja
+  private autofixAttributes(node: FigmaNode, dialect: TextDialect): string {
+    const fix = this.accessibilityFixes?.nodes.get(node.id);
+    if (!fix) return '';
 
-    // Interaktív elemek ellenőrzése
-    if (this.isInteractiveElement(node)) {
-      suggestions.push('Biztosítsd a billentyűzetes navigáció támogatását');
-      suggestions.push('Adj hozzá ARIA címkéket a képernyőolvasókhoz');
-      suggestions.push('Használj megfelelő focus állapotokat');
+    const attributes = fix.attributes.map(({ name, value }) => {
+      if (dialect !== 'react') return this.instanceAttribute(name, value, dialect);
+      // JSX-ben a tabIndex szám
+      return name === 'tabindex' ? `tabIndex={${value}}` : this.instanceAttribute(REACT_ATTRIBUTE_NAMES[name] ?? name, value, dialect);
+    });
+    if (fix.keyboard) {
+      attributes.push(this.keyboardClickHandler(dialect));
     }
-
-    // Címsor hierarchia ellenőrzése
-    if (this.isHeading(node)) {
-      suggestions.push('Ellenőrizd a címsor hierarchiát (h1, h2, h3...)');
+    if (node.id === this.layoutRootId && this.isAutofixedControl(node)) {
+      if (dialect === 'react') attributes.push('onClick={onClick}');
+      if (dialect === 'svelte') attributes.push('on:click');
     }
+    return attributes.map(attribute => ` ${attribute}`).join('');
+  }
 
-    // Egyéni kód accessibility javítások
-    if (this.customCode.jsx || this.customCode.css) {
-      suggestions.push('Ellenőrizd az egyéni kód accessibility megfelelőségét');
-      suggestions.push('Teszteld a komponenst képernyőolvasóval');
+  // Szerep alapján kattintható konténer: az Enter és a Szóköz is kattintást vált ki
+  private keyboardClickHandler(dialect: TextDialect): string {
+    const condition = "event.key === 'Enter' || event.key === ' '";
+    switch (dialect) {
+      case 'react':
+        return `onKeyDown={(event) => { if (${condition}) { event.preventDefault(); event.currentTarget.click(); } }}`;
+      case 'vue':
+        return '@keydown.enter.space.prevent="$event.currentTarget.click()"';
+      case 'angular':
+        return '(keydown.enter)="$any($event.currentTarget).click()" (keydown.space)="$event.preventDefault(); $any($event.currentTarget).click()"';
+      case 'svelte':
+        return `on:keydown={(event) => { if (${condition}) { event.preventDefault(); event.currentTarget.click(); } }}`;
+      default:
+        return `onkeydown="if (${condition}) { event.preventDefault(); this.click(); }"`;
     }
+  }
 
-    return {
-      score: Math.max(0, score),
-      issues,
-      suggestions,
-      wcagCompliance: score >= 80 ? 'AA' : score >= 60 ? 'A' : 'Non-compliant'
-    };
+  // Gombként/linkként renderelt vagy szerepet kapott node
+  private isAutofixedControl(node: FigmaNode): boolean {
+    const fix = this.accessibilityFixes?.nodes.get(node.id);
+    return Boolean(fix && (fix.tag === 'button' || fix.tag === 'a' || fix.keyboard));
   }
 
-  // Responsive design elemzés
-  private analyzeResponsive(node: FigmaNode): ResponsiveBreakpoints {
-    const hasFlexLayout = node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL';
-    const hasConstraints = node.constraints?.horizontal !== 'LEFT' || node.constraints?.vertical !== 'TOP';
-    const hasResponsiveDesign = hasFlexLayout || hasConstraints;
+  // Responsive design elemzés: a klasszikus frame-ek constraintjei és a breakpointok alapján
+  private analyzeResponsive(node: FigmaNode, componentName: string): ResponsiveBreakpoints {
+    const { mobile, tablet } = this.breakpointWidths();
+    // Minden tartományt a legkeskenyebb szélességén méretezünk át, így a szabályok az egész tartományra érvényesek
+    const responsive = {
+      mobile: this.generateResponsiveCSS(node, componentName, `(max-width: ${mobile}px)`, MIN_VIEWPORT_WIDTH),
+      tablet: this.generateResponsiveCSS(node, componentName, `(min-width: ${mobile + 1}px) and (max-width: ${tablet}px)`, mobile + 1),
+      desktop: this.generateResponsiveCSS(node, componentName, `(min-width: ${tablet + 1}px)`, tablet + 1)
+    };
+
+    const hasResponsiveDesign = LayoutEngine.isAutoLayout(node) ||
+      this.hasFluidConstraints(node) ||
+      Object.values(responsive).some(css => css.length > 0);
 
+    return { ...responsive, hasResponsiveDesign };
+  }
+
+  // Egyéni breakpointok a generálási opciókból, hiányzó kulcsoknál az alapértelmezett design tokenek.
+  // Az asztali tartomány a tablet breakpoint fölött kezdődik, ezért annak felső határa kell csak.
+  private breakpointWidths(): { mobile: number; tablet: number } {
+    const custom = this.options.customBreakpoints || {};
     return {
-      mobile: this.generateResponsiveCSS(node, 'mobile'),
-      tablet: this.generateResponsiveCSS(node, 'tablet'),
-      desktop: this.generateResponsiveCSS(node, 'desktop'),
-      hasResponsiveDesign
+      mobile: custom.mobile ?? DESIGN_TOKENS.BREAKPOINTS.mobile,
+      tablet: custom.tablet ?? DESIGN_TOKENS.BREAKPOINTS.tablet
     };
   }
 
+  // Van-e olyan gyerek, amely a frame szélességével együtt mozog vagy nyúlik
+  private hasFluidConstraints(node: FigmaNode): boolean {
+    return (node.children || []).some(child =>
+      (LayoutEngine.isConstrained(child, node) && (child.constraints?.horizontal || 'LEFT') !== 'LEFT') ||
+      this.hasFluidConstraints(child)
+    );
+  }
+
   // Segédfüggvények
   private findNodeById(id: string): FigmaNode | null {
     const search = (node: FigmaNode): FigmaNode | null => {
@@ -416,10 +652,51 @@ ${this.customCode.cssAdvanced}
     return search(this.figmaData.document);
   }
 
+  // A generált komponens gyökere és a készlet variánsai önállóan, szülő nélkül méreteződnek
+  private layoutParent(node: FigmaNode): FigmaNode | undefined {
+    if (node.id === this.layoutRootId) return undefined;
+
+    if (!this.parentIndex) {
+      const index = new Map<string, FigmaNode>();
+      const traverse = (current: FigmaNode) => {
+        current.children?.forEach(child => {
+          index.set(child.id, current);
+          traverse(child);
+        });
+      };
+      traverse(this.figmaData.document);
+      this.parentIndex = index;
+    }
+
+    const parent = this.parentIndex.get(node.id);
+    return parent && parent.type !== 'COMPONENT_SET' ? parent : undefined;
+  }
+
+  // Az oldalak legfelső szintű frame-jei, amelyekben komponenspéldány van (a komponensek saját példányai nem számítanak)
+  private findInstanceFrames(document: FigmaNode): FigmaNode[] {
+    const containsInstance = (node: FigmaNode): boolean => (node.children || []).some(child =>
+      child.type === 'INSTANCE' || (child.type !== 'COMPONENT' && child.type !== 'COMPONENT_SET' && containsInstance(child))
+    );
+
+    return (document.children || [])
+      .flatMap(page => page.children || [])
+      .filter(node => node.type === 'FRAME' && containsInstance(node));
+  }
+
   private findMainFrames(node: FigmaNode): FigmaNode[] {
     const frames: FigmaNode[] = [];
     
     const traverse = (currentNode: FigmaNode) => {
+      // A komponens készlet egy komponens, a variánsait nem járjuk be külön
+      if (currentNode.type === 'COMPONENT_SET' && resolveVariantSet(currentNode)) {
+        frames.push(currentNode);
+        return;
+      }
+      // A fő komponens egyszer generálódik, a példányai importként hivatkoznak rá
+      if (currentNode.type === 'COMPONENT' && currentNode.children && currentNode.children.length > 0) {
+        frames.push(currentNode);
+        return;
+      }
       if (currentNode.type === 'FRAME' && currentNode.children && currentNode.children.length > 0) {
         frames.push(currentNode);
       }
@@ -445,48 +722,10 @@ ${this.customCode.cssAdvanced}
     return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${alpha})`;
   }
 
-  private colorToTailwind(color: any): string {
-    const { r, g, b } = color;
-    
-    // Egyszerűsített színkonverzió
-    if (r > 0.9 && g > 0.9 && b > 0.9) return 'bg-white';
-    if (r < 0.1 && g < 0.1 && b < 0.1) return 'bg-black';
-    if (r > 0.8 && g < 0.3 && b < 0.3) return 'bg-red-500';
-    if (r < 0.3 && g > 0.8 && b < 0.3) return 'bg-green-500';
-    if (r < 0.3 && g < 0.3 && b > 0.8) return 'bg-blue-500';
-    
-    return 'bg-gray-500';
-  }
-
-  private pxToTailwindSpacing(px: number): string {
-    const spacing = Math.round(px / 4);
-    if (spacing <= 0) return '0';
-    if (spacing <= 96) return spacing.toString();
-    return `[${px}px]`;
-  }
-
-  private borderRadiusToTailwind(radius: number): string {
-    if (radius <= 2) return 'rounded-sm';
-    if (radius <= 4) return 'rounded';
-    if (radius <= 6) return 'rounded-md';
-    if (radius <= 8) return 'rounded-lg';
-    if (radius <= 12) return 'rounded-xl';
-    if (radius <= 16) return 'rounded-2xl';
-    return `rounded-[${radius}px]`;
-  }
-
-  private fontSizeToTailwind(fontSize: number): string {
-    if (fontSize <= 12) return 'text-xs';
-    if (fontSize <= 14) return 'text-sm';
-    if (fontSize <= 16) return 'text-base';
-    if (fontSize <= 18) return 'text-lg';
-    if (fontSize <= 20) return 'text-xl';
-    if (fontSize <= 24) return 'text-2xl';
-    if (fontSize <= 30) return 'text-3xl';
-    return `text-[${fontSize}px]`;
-  }
-
   private getHtmlTag(node: FigmaNode): string {
+    if (this.assets.has(node.id)) return 'img';
+    const fixedTag = this.accessibilityFixes?.nodes.get(node.id)?.tag;
+    if (fixedTag) return fixedTag;
     switch (node.type) {
       case 'TEXT': return this.isHeading(node) ? 'h2' : 'span';
       case 'FRAME': return 'div';
@@ -501,14 +740,6 @@ ${this.customCode.cssAdvanced}
     return node.fills?.some(fill => fill.type === 'IMAGE') || false;
   }
 
-  private isInteractiveElement(node: FigmaNode): boolean {
-    const name = node.name.toLowerCase();
-    return name.includes('button') || 
-           name.includes('link') ||
-           name.includes('input') ||
-           name.includes('click');
-  }
-
   private isHeading(node: FigmaNode): boolean {
     if (node.type !== 'TEXT') return false;
     const name = node.name.toLowerCase();
@@ -518,14 +749,16 @@ ${this.customCode.cssAdvanced}
            (node.style?.fontSize && node.style.fontSize > 20);
   }
 
-  private calculateContrastRatio(node: FigmaNode): number {
-    // Egyszerűsített kontraszt számítás
-    // Valós implementációban WCAG kontrasztszámítást használnánk
-    return 4.5; // Placeholder
-  }
+  private generateImports(node: FigmaNode, dependencies: MainComponentRef[] = [], componentName?: string): string {
+    const imports = ['import React from "react";', ...libraryImports(this.libraryDependencies(node))];
+    dependencies.forEach(ref => imports.push(`import ${ref.name} from './${ref.name}';`));
 
-  private generateImports(node: FigmaNode): string {
-    const imports = ['import React from "react";'];
+    // A stílusfájl neve megegyezik a projekt exportjáéval (X.module.css, X.styles.ts)
+    if (componentName && this.options.styling === 'css-modules') {
+      imports.push(`import styles from './${componentName}.module.css';`);
+    } else if (componentName && this.usesStyledComponents()) {
+      imports.push(`import { Styled${componentName} } from './${componentName}.styles';`);
+    }
     
     if (this.options.typescript) {
       // TypeScript típusok importálása szükség esetén
@@ -534,7 +767,7 @@ ${this.customCode.cssAdvanced}
     return imports.join('\n');
   }
 
-  private generatePropsInterface(props: any[], componentName: string): string {
+  private generatePropsInterface(props: Array<{name: string, type: string, optional: boolean}>, componentName: string): string {
     if (props.length === 0) return '';
     
     return `interface ${componentName}Props {
@@ -544,18 +777,39 @@ ${this.customCode.cssAdvanced}
 `;
   }
 
-  private extractProps(node: FigmaNode): Array<{name: string, type: string, optional: boolean}> {
-    const props = [];
+  private extractProps(node: FigmaNode, variants: ComponentVariantSet | null = null): Array<{name: string, type: string, optional: boolean, defaultValue?: string}> {
+    const props: Array<{name: string, type: string, optional: boolean, defaultValue?: string}> = [];
+
+    // Variáns tengelyenként egy típusos prop, az alapértelmezett variáns értékével
+    variants?.axes.forEach(axis => {
+      props.push({
+        name: axis.propName,
+        type: variantTypeLiteral(axis),
+        optional: true,
+        defaultValue: variantValueLiteral(axis, axis.defaultValue)
+      });
+    });
+
+    // Fő komponensben a szövegek felülírhatók, a példányok ezeken keresztül adják át a saját szövegüket
+    this.extractTextProps(node, variants).forEach(prop => {
+      props.push({ name: prop.name, type: 'string', optional: true, defaultValue: this.toStringLiteral(prop.defaultValue) });
+    });
     
     if (node.type === 'TEXT' && node.characters) {
       props.push({ name: 'children', type: 'React.ReactNode', optional: true });
     }
     
-    if (this.isImage(node)) {
+    if (this.isImage(node) && !this.assets.has(node.id)) {
       props.push({ name: 'src', type: 'string', optional: false });
       props.push({ name: 'alt', type: 'string', optional: false });
     }
 
+    // A gombbá/linkké javított gyökér kattintáskezelője (Vue/Angular/Svelte alatt a natív esemény megy tovább)
+    if (this.options.framework === 'react' && node.id === this.layoutRootId && this.isAutofixedControl(node)) {
+      // A gyökér tényleges elemének kezelőtípusa (button, a vagy szerepet kapott div)
+      props.push({ name: 'onClick', type: `React.ComponentProps<'${this.getHtmlTag(node)}'>['onClick']`, optional: true });
+    }
+
     props.push({ name: 'className', type: 'string', optional: true });
     
     return props;
@@ -565,33 +819,296 @@ ${this.customCode.cssAdvanced}
     if (this.options.styling === 'tailwind') {
       return this.generateTailwindClasses(node);
     }
+    return this.cssClassName(node);
+  }
+
+  private cssClassName(node: FigmaNode): string {
     return node.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
   }
 
   private generateInlineStyles(node: FigmaNode): string {
     if (this.options.styling === 'tailwind') return '';
     
-    const styles = this.extractAllStyles(node);
+    const styles = this.extractAllStyles(node, true);
     const styleEntries = Object.entries(styles)
-      .map(([key, value]) => `${key}: "${value}"`)
+      .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
       .join(', ');
     
-    return styleEntries ? `{{ ${styleEntries} }}` : '';
+    // Objektum literál; a JSX attribútum adja köré a kifejezés kapcsos zárójelét
+    return styleEntries ? `{ ${styleEntries} }` : '';
+  }
+
+  // CSS Modules alatt az osztálynév a modul objektumából jön, különben szó szerinti
+  private reactClassAttribute(className: string): string {
+    if (!className) return '';
+    return this.options.styling === 'css-modules'
+      ? ` className={styles[${this.toStringLiteral(className)}]}`
+      : ` className="${className}"`;
+  }
+
+  private usesStyledComponents(): boolean {
+    return this.options.styling === 'styled-components' && this.options.framework === 'react';
   }
 
   private generateAttributes(node: FigmaNode): string {
     const attributes = [];
     
-    if (this.isImage(node)) {
-      attributes.push('src={src}', 'alt={alt}');
+    if (this.assets.has(node.id)) {
+      attributes.push(this.assetAttributes(node));
+    } else if (this.isImage(node)) {
+      const fixedAlt = this.accessibilityFixes?.nodes.get(node.id)?.alt;
+      attributes.push('src={src}', fixedAlt !== undefined ? `alt={alt ?? ${JSON.stringify(fixedAlt)}}` : 'alt={alt}');
     }
     
-    return attributes.length > 0 ? ' ' + attributes.join(' ') : '';
+    return (attributes.length > 0 ? ' ' + attributes.join(' ') : '') + this.autofixAttributes(node, 'react');
+  }
+
+  private generateHTML(node: FigmaNode, componentName: string, variants: ComponentVariantSet | null = null): string {
+    // Sima HTML-ben nincs prop, az alapértelmezett variáns osztályai kerülnek ki statikusan
+    const rootClass = variants
+      ? [this.variantBaseClass(componentName), this.variantClassValues(variants, componentName)[variants.defaultVariant.key]].filter(Boolean).join(' ')
+      : undefined;
+    return this.generateMarkupElement(node, 0, 'html', rootClass);
+  }
+
+  private generateVue(node: FigmaNode, componentName: string, variants: ComponentVariantSet | null = null): string {
+    const props = this.extractProps(node, variants).filter(p => p.name !== 'children' && p.name !== 'className');
+    const defaults = props.filter(p => p.defaultValue !== undefined);
+    let propsDeclaration = '';
+
+    if (props.length > 0 && this.options.typescript) {
+      const typed = `defineProps<{
+  ${props.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type};`).join('\n  ')}
+}>()`;
+      propsDeclaration = defaults.length > 0
+        ? `withDefaults(${typed}, {
+  ${defaults.map(p => `${p.name}: ${p.defaultValue},`).join('\n  ')}
+})`
+        : typed;
+    } else if (props.length > 0) {
+      propsDeclaration = defaults.length > 0
+        ? `defineProps({
+  ${props.map(p => p.defaultValue !== undefined
+    ? `${p.name}: { type: ${p.type === 'boolean' ? 'Boolean' : 'String'}, default: ${p.defaultValue} },`
+    : `${p.name}: { type: String, required: ${!p.optional} },`).join('\n  ')}
+})`
+        : `defineProps([${props.map(p => `'${p.name}'`).join(', ')}])`;
+    }
+
+    const imports = [
+      ...(variants ? [`import { computed } from 'vue';`] : []),
+      ...libraryImports(this.libraryDependencies(node)),
+      ...this.instanceDependencies(node).map(ref => `import ${ref.name} from './${ref.name}.vue';`)
+    ];
+    const statements = variants
+      ? [`const props = ${propsDeclaration};`, `${this.generateVariantClassMap(variants, componentName)}
+const variantClass = computed(() => ${this.variantClassExpression(variants, 'props.')});`]
+      : [propsDeclaration ? `${propsDeclaration};` : ''];
+    const scriptBody = [imports.join('\n'), ...statements].filter(Boolean).join('\n\n');
+
+    const script = scriptBody ? `
+
+<script setup${this.options.typescript ? ' lang="ts"' : ''}>
+${scriptBody}
+</script>` : '';
+
+    return `<template>
+${this.generateMarkupElement(node, 1, 'vue', variants ? this.variantBaseClass(componentName) : undefined)}
+</template>${script}`;
   }
 
-  private generateHTML(node: FigmaNode, className: string, styles: string, children: string): string {
-    // HTML generálás implementációja
-    return `<!-- HTML implementation -->`;
+  private generateAngular(node: FigmaNode, componentName: string, variants: ComponentVariantSet | null = null): string {
+    const props = this.extractProps(node, variants).filter(p => p.name !== 'children' && p.name !== 'className');
+    const fileName = ComponentNameSanitizer.toKebabCase(componentName);
+    const inputs = props
+      .map(p => p.defaultValue !== undefined
+        ? `  @Input() ${p.name}: ${p.type} = ${p.defaultValue};`
+        : `  @Input() ${p.name}${p.optional ? '?' : '!'}: ${p.type};`)
+      .join('\n');
+    const variantGetter = variants ? `
+
+  get variantClass(): string {
+    return ${this.variantClassExpression(variants, 'this.')};
+  }` : '';
+    // A template template literalba kerül, ezért a backtick-eket escape-elni kell
+    const template = this.generateMarkupElement(node, 2, 'angular', variants ? this.variantBaseClass(componentName) : undefined).replace(/`/g, '\\`');
+    const variantClassMap = variants ? `\n${this.generateVariantClassMap(variants, componentName)}\n` : '';
+    const dependencies = this.instanceDependencies(node);
+    const libraryDependencies = this.libraryDependencies(node);
+    const dependencyImports = [
+      ...libraryImports(libraryDependencies).map(statement => `\n${statement}`),
+      ...dependencies.map(ref => `\nimport { ${ref.name}Component } from './${ComponentNameSanitizer.toKebabCase(ref.name)}.component';`)
+    ].join('');
+    const componentImports = [
+      'CommonModule',
+      ...Array.from(new Set(libraryDependencies.map(mapping => mapping.componentName))).sort(),
+      ...dependencies.map(ref => `${ref.name}Component`)
+    ];
+
+    return `import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';${dependencyImports}
+${variantClassMap}
+@Component({
+  selector: 'app-${fileName}',
+  standalone: true,
+  imports: [${componentImports.join(', ')}],
+  template: \`
+${template}
+  \`,
+  styleUrls: ['./${fileName}.component.css']
+})
+export class ${componentName}Component {${inputs || variantGetter ? `\n${inputs}${variantGetter}\n` : ''}}`;
+  }
+
+  private generateSvelte(node: FigmaNode, componentName: string, variants: ComponentVariantSet | null = null): string {
+    const props = this.extractProps(node, variants).filter(p => p.name !== 'children' && p.name !== 'className');
+    const declarations = props
+      .map(p => {
+        if (p.defaultValue !== undefined) {
+          return this.options.typescript
+            ? `  export let ${p.name}: ${p.type} = ${p.defaultValue};`
+            : `  export let ${p.name} = ${p.defaultValue};`;
+        }
+        return this.options.typescript
+          ? `  export let ${p.name}: ${p.type}${p.optional ? ' | undefined = undefined' : ''};`
+          : `  export let ${p.name}${p.optional ? ' = undefined' : ''};`;
+      })
+      .join('\n');
+    const variantDeclarations = variants ? `
+
+${this.generateVariantClassMap(variants, componentName, '  ')}
+  $: variantClass = ${this.variantClassExpression(variants)};` : '';
+
+    const imports = [
+      ...libraryImports(this.libraryDependencies(node)),
+      ...this.instanceDependencies(node).map(ref => `import ${ref.name} from './${ref.name}.svelte';`)
+    ].map(statement => `  ${statement}`).join('\n');
+    const scriptBody = [imports, declarations ? `${declarations}${variantDeclarations}` : ''].filter(Boolean).join('\n\n');
+
+    const script = scriptBody ? `<script${this.options.typescript ? ' lang="ts"' : ''}>
+${scriptBody}
+</script>
+
+` : '';
+
+    return `${script}${this.generateMarkupElement(node, 0, 'svelte', variants ? this.variantBaseClass(componentName) : undefined)}`;
+  }
+
+  // Vue/Angular/Svelte template és sima HTML: class/style attribútumok JSX kifejezések helyett
+  // A variáns gyökérelemnél a rootClass a statikus alaposztály, mellé a variantClass kötés kerül
+  private generateMarkupElement(node: FigmaNode, depth: number, dialect: 'vue' | 'html' | 'angular' | 'svelte', rootClass?: string): string {
+    // Sima HTML-ben nincs komponens import, ott a példány tartalma marad beágyazva
+    if (dialect !== 'html') {
+      const libraryInstance = this.componentLibrary?.resolve(node);
+      if (libraryInstance) {
+        return renderLibraryElement(libraryInstance, dialect, '  '.repeat(depth));
+      }
+
+      const instance = this.resolveInstance(node);
+      if (instance) {
+        return this.generateInstanceElement(instance, depth, dialect);
+      }
+    }
+
+    const indent = '  '.repeat(depth);
+    const tag = this.getHtmlTag(node);
+    const className = this.generateClassName(node);
+    const styles = rootClass === undefined ? this.generateStyleAttribute(node) : '';
+    const classAttribute = rootClass === undefined
+      ? className ? ` class="${className}"` : ''
+      : this.variantClassAttribute(dialect, rootClass);
+    let attributes = `${classAttribute}${styles ? ` style="${styles}"` : ''}`;
+
+    if (this.assets.has(node.id)) {
+      attributes += ` ${this.assetAttributes(node)}`;
+    } else if (this.isImage(node)) {
+      attributes += this.imageAttributes(node, dialect);
+    }
+    attributes += this.autofixAttributes(node, dialect);
+
+    if (node.type === 'TEXT' && node.characters && hasRichText(node)) {
+      return this.generateRichTextElement(node, attributes, depth, dialect);
+    }
+
+    if (node.type === 'TEXT' && node.characters) {
+      return `${indent}<${tag}${attributes}>${this.boundText(node, dialect)}</${tag}>`;
+    }
+
+    if (tag === 'img' || tag === 'input') {
+      return `${indent}<${tag}${attributes} />`;
+    }
+
+    if (tag === 'textarea') {
+      return `${indent}<textarea${attributes}></textarea>`;
+    }
+
+    const children = (node.children || [])
+      .map(child => this.generateMarkupElement(child, depth + 1, dialect))
+      .join('\n');
+
+    if (children) {
+      return `${indent}<${tag}${attributes}>
+${children}
+${indent}</${tag}>`;
+    }
+
+    return `${indent}<${tag}${attributes}></${tag}>`;
+  }
+
+  private variantClassAttribute(dialect: 'vue' | 'html' | 'angular' | 'svelte', staticClass: string): string {
+    const staticAttribute = staticClass ? ` class="${staticClass}"` : '';
+    switch (dialect) {
+      case 'vue':
+        return `${staticAttribute} :class="variantClass"`;
+      case 'angular':
+        return `${staticAttribute} [ngClass]="variantClass"`;
+      case 'svelte':
+        return staticClass ? ` class="${staticClass} {variantClass}"` : ' class={variantClass}';
+      default:
+        return staticAttribute;
+    }
+  }
+
+  private imageAttributes(node: FigmaNode, dialect: 'vue' | 'html' | 'angular' | 'svelte'): string {
+    // Javított alt szöveg: a prop felülírhatja, hiányában ez kerül ki
+    const fixedAlt = this.accessibilityFixes?.nodes.get(node.id)?.alt;
+    const altFallback = fixedAlt !== undefined ? ` ?? ${this.toStringLiteral(fixedAlt)}` : '';
+    switch (dialect) {
+      case 'vue':
+        return ` :src="src" :alt="alt${this.escapeHtml(altFallback)}"`;
+      case 'angular':
+        return ` [src]="src" [alt]="alt${this.escapeHtml(altFallback)}"`;
+      case 'svelte':
+        return altFallback ? ` {src} alt={alt${altFallback}}` : ' {src} {alt}';
+      default:
+        return ` src="" alt="${this.escapeHtml(fixedAlt ?? node.name)}"`;
+    }
+  }
+
+  // Exportált kép statikus útvonallal; a vektoros ikonok díszítő elemek, ezért üres az alt szövegük
+  private assetAttributes(node: FigmaNode): string {
+    const fixedAlt = this.accessibilityFixes?.nodes.get(node.id)?.alt;
+    const alt = this.escapeHtml(fixedAlt ?? (this.isImage(node) ? node.name : ''));
+    return `src="${this.assets.get(node.id)}" alt="${alt}"`;
+  }
+
+  private generateStyleAttribute(node: FigmaNode): string {
+    if (this.options.styling === 'tailwind') return '';
+
+    return Object.entries(this.extractAllStyles(node, true))
+      .map(([property, value]) => `${this.camelToKebab(property)}: ${String(value).replace(/"/g, "'")}`)
+      .join('; ');
+  }
+
+  // A kapcsos zárójelek a Vue/Angular/Svelte templatekben kifejezést nyitnának
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\{/g, '&#123;')
+      .replace(/\}/g, '&#125;');
   }
 
   private convertToCSSRules(styles: Record<string, any>, componentName: string): string {
@@ -606,11 +1123,12 @@ ${this.customCode.cssAdvanced}
     return cssRules;
   }
 
-  private generateStyledComponents(cssRules: string, componentName: string): string {
+  // A styled elem a gyökér HTML elemét rendereli, így az akadálymentesítési javítás (pl. <button>) megmarad
+  private generateStyledComponents(cssRules: string, componentName: string, nestedRules = '', tag = 'div'): string {
     return `import styled from 'styled-components';
 
-export const Styled${componentName} = styled.div\`
-${cssRules.replace(/^\.[^{]+\{/, '').replace(/\}$/, '')}
+export const Styled${componentName} = styled.${tag}\`
+${cssRules.replace(/^\.[^{]+\{/, '').replace(/\}$/, '')}${nestedRules ? `\n${nestedRules}\n` : ''}
 \`;`;
   }
 
@@ -639,13 +1157,18 @@ ${cssRules.replace(/^\.[^{]+\{/, '').replace(/\}$/, '')}
     return '';
   }
 
-  private generateResponsiveCSS(node: FigmaNode, breakpoint: string): string {
-    // Responsive CSS generálás breakpoint alapján
-    return `/* ${breakpoint} responsive styles */`;
+  private generateResponsiveCSS(node: FigmaNode, componentName: string, mediaQuery: string, viewportWidth: number): string {
+    // Responsive CSS generálás: a gyökér a komponens osztályát, a gyerekek a saját osztályukat kapják
+    const rules = LayoutEngine.breakpointOverrides(node, viewportWidth)
+      .map(override => this.convertToCSSRules(override.styles, override.node === node ? componentName : this.cssClassName(override.node)));
+
+    if (rules.length === 0) return '';
+
+    return `@media ${mediaQuery} {\n${rules.join('\n').replace(/^/gm, '  ')}\n}`;
   }
 
-  private generateTypeScript(node: FigmaNode, componentName: string): string {
-    const props = this.extractProps(node);
+  private generateTypeScript(node: FigmaNode, componentName: string, variants: ComponentVariantSet | null = null): string {
+    const props = this.extractProps(node, variants);
     
     return `export interface ${componentName}Props {
   ${props.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type};`).join('\n  ')}
@@ -654,15 +1177,418 @@ ${cssRules.replace(/^\.[^{]+\{/, '').replace(/\}$/, '')}
 export type ${componentName}Ref = HTMLDivElement;`;
   }
 
-  private generateMetadata(node: FigmaNode, generationTime: number): ComponentMetadata {
+  private generateMetadata(node: FigmaNode, generationTime: number, variants: ComponentVariantSet | null = null): ComponentMetadata {
+    const textProps = this.extractTextProps(node, variants);
     return {
       figmaNodeId: node.id,
       componentType: this.detectComponentType(node),
       complexity: this.calculateComplexity(node),
       estimatedAccuracy: this.estimateAccuracy(node),
       generationTime,
-      dependencies: this.extractDependencies(node)
+      dependencies: Array.from(new Set([...this.extractDependencies(node), ...this.libraryPackages(node)])),
+      ...((variants || textProps.length > 0) && {
+        suggestedProps: [
+          ...(variants?.axes || []).map(axis => ({ name: axis.propName, type: variantTypeLiteral(axis), required: false })),
+          ...textProps.map(prop => ({ name: prop.name, type: 'string', required: false }))
+        ]
+      })
+    };
+  }
+
+  // Példány segédfüggvények
+  private generationRoot(node: FigmaNode): FigmaNode {
+    return resolveVariantSet(node)?.defaultVariant.node ?? node;
+  }
+
+  private mainComponentFor(node: FigmaNode): MainComponentRef | undefined {
+    return node.type === 'INSTANCE' && node.componentId ? this.mainComponents.get(node.componentId) : undefined;
+  }
+
+  // A közvetlenül hivatkozott fő komponensek; a feloldott példányok belsejét nem járjuk be
+  private instanceDependencies(node: FigmaNode): MainComponentRef[] {
+    const dependencies = new Map<string, MainComponentRef>();
+
+    const traverse = (current: FigmaNode) => {
+      if (this.libraryMappingFor(current)) return;
+      const ref = this.mainComponentFor(current);
+      if (ref) {
+        dependencies.set(ref.node.id, ref);
+        return;
+      }
+      current.children?.forEach(traverse);
+    };
+
+    node.children?.forEach(traverse);
+    return Array.from(dependencies.values());
+  }
+
+  // Komponenskönyvtár segédfüggvények
+  private libraryMappingFor(node: FigmaNode): ComponentLibraryMapping | null {
+    if (!this.componentLibrary || node.type !== 'INSTANCE' || !node.componentId) return null;
+    return this.componentLibrary.mappingFor(node.componentId);
+  }
+
+  // A közvetlenül használt könyvtári komponensek leképezései, az instanceDependencies bejárásával egyezően
+  private libraryDependencies(node: FigmaNode): ComponentLibraryMapping[] {
+    const dependencies = new Map<string, ComponentLibraryMapping>();
+
+    const traverse = (current: FigmaNode) => {
+      const mapping = this.libraryMappingFor(current);
+      if (mapping) {
+        dependencies.set(`${mapping.importPath}:${mapping.componentName}`, mapping);
+        return;
+      }
+      if (this.mainComponentFor(current)) return;
+      current.children?.forEach(traverse);
+    };
+
+    node.children?.forEach(traverse);
+    return Array.from(dependencies.values());
+  }
+
+  // A könyvtári importok npm csomagjai; a projekten belüli útvonalak nem függőségek
+  private libraryPackages(node: FigmaNode): string[] {
+    if (this.options.framework === 'html') return [];
+    return this.libraryDependencies(node).map(mapping => mapping.importPath).filter(isPackageImport);
+  }
+
+  // Minden példány bekerül a riportba; a generált vagy leképezett példány belsejét nem járjuk be
+  private recordLibraryUsage(node: FigmaNode, componentName: string): void {
+    const library = this.componentLibrary;
+    if (!library) return;
+
+    const traverse = (current: FigmaNode) => {
+      if (current.type === 'INSTANCE') {
+        const generated = Boolean(this.mainComponentFor(current));
+        library.recordInstance(current, componentName, generated);
+        if (generated || this.libraryMappingFor(current)) return;
+      }
+      current.children?.forEach(traverse);
+    };
+
+    node.children?.forEach(traverse);
+  }
+
+  // Szöveg node-ok a beágyazott példányok nélkül
+  private collectTextNodes(node: FigmaNode): FigmaNode[] {
+    const texts: FigmaNode[] = [];
+
+    const traverse = (current: FigmaNode) => {
+      if (current.type === 'TEXT' && current.characters) {
+        texts.push(current);
+      }
+      if (current.type !== 'INSTANCE') {
+        current.children?.forEach(traverse);
+      }
     };
+
+    node.children?.forEach(traverse);
+    return texts;
+  }
+
+  // Csak fő komponens kap szöveg propokat; a név a TEXT komponens tulajdonságból vagy a réteg nevéből jön
+  private extractTextProps(node: FigmaNode, variants: ComponentVariantSet | null = null): TextProp[] {
+    if (node.type !== 'COMPONENT') return [];
+
+    const usedNames = new Set((variants?.axes || []).map(axis => axis.propName));
+    // A vegyes stílusú szöveg nem fér el egy string propban, statikusan marad
+    return this.collectTextNodes(node).filter(text => !hasRichText(text)).map(text => {
+      const propertyRef = text.componentPropertyReferences?.characters;
+      const baseName = toPropName(propertyRef ? propertyRef.split('#')[0] : text.name);
+      let name = baseName;
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${baseName}${suffix}`;
+      }
+      usedNames.add(name);
+
+      return { name, nodeId: text.id, layerName: text.name, defaultValue: text.characters as string, propertyRef };
+    });
+  }
+
+  private resolveInstance(node: FigmaNode): ResolvedInstance | null {
+    const ref = this.mainComponentFor(node);
+    if (!ref) return null;
+
+    const props: ResolvedInstance['props'] = [];
+
+    // Variáns propok: a példány tulajdonságaiból, ennek hiányában a hivatkozott variáns nevéből
+    if (ref.variants) {
+      const variantValues = parseVariantName(this.findNodeById(node.componentId as string)?.name || '');
+      ref.variants.axes.forEach(axis => {
+        const property = node.componentProperties?.[axis.name];
+        const raw = property?.type === 'VARIANT' ? String(property.value) : variantValues[axis.name];
+        if (raw === undefined) return;
+
+        const value = axis.isBoolean ? raw.toLowerCase() : raw;
+        if (value !== axis.defaultValue) {
+          props.push({ name: axis.propName, value: axis.isBoolean ? value === 'true' : value });
+        }
+      });
+    }
+
+    // Szöveg felülírások: a példány node ID-ja "I<példány>;<fő komponens node>" alakú
+    const textProps = this.extractTextProps(this.generationRoot(ref.node), ref.variants);
+    const overrides = new Map<string, string>();
+
+    this.collectTextNodes(node).forEach(text => {
+      const sourceId = text.id.split(';').pop();
+      const prop = textProps.find(p => p.nodeId === sourceId) || textProps.find(p => p.layerName === text.name);
+      if (prop && text.characters !== prop.defaultValue) {
+        overrides.set(prop.name, text.characters as string);
+      }
+    });
+
+    Object.entries(node.componentProperties || {}).forEach(([key, property]) => {
+      if (property.type !== 'TEXT') return;
+      const prop = textProps.find(p => p.propertyRef === key);
+      if (prop && String(property.value) !== prop.defaultValue) {
+        overrides.set(prop.name, String(property.value));
+      }
+    });
+
+    overrides.forEach((value, name) => props.push({ name, value }));
+    return { ref, props };
+  }
+
+  private generateInstanceElement(instance: ResolvedInstance, depth: number, dialect: InstanceDialect): string {
+    const indent = '  '.repeat(depth);
+    const attributes = instance.props
+      .map(({ name, value }) => ` ${this.instanceAttribute(name, value, dialect)}`)
+      .join('');
+
+    if (dialect === 'angular') {
+      const selector = `app-${ComponentNameSanitizer.toKebabCase(instance.ref.name)}`;
+      return `${indent}<${selector}${attributes}></${selector}>`;
+    }
+
+    return `${indent}<${instance.ref.name}${attributes} />`;
+  }
+
+  private instanceAttribute(name: string, value: string | boolean, dialect: TextDialect): string {
+    if (typeof value === 'boolean') {
+      switch (dialect) {
+        case 'vue':
+          return `:${name}="${value}"`;
+        case 'angular':
+          return `[${name}]="${value}"`;
+        default:
+          return `${name}={${value}}`;
+      }
+    }
+
+    // JSX attribútumban nincs entitás escape, a különleges karaktereket kifejezésként adjuk át
+    if (dialect === 'react') {
+      return /["{}<>&\n]/.test(value) ? `${name}={${JSON.stringify(value)}}` : `${name}="${value}"`;
+    }
+    return `${name}="${this.escapeHtml(value)}"`;
+  }
+
+  // Vegyes stílusú szöveg: listák esetén blokk konténer <p>, <ul> és <ol> elemekkel,
+  // egyébként a futamok a szöveg saját elemében, sortörésnél <br />-rel
+  private generateRichTextElement(node: FigmaNode, attributes: string, depth: number, dialect: TextDialect): string {
+    const indent = '  '.repeat(depth);
+
+    if (hasListLines(node)) {
+      const blocks = parseRichText(node)
+        .map(block => this.generateRichTextBlock(block, node, depth + 1, dialect))
+        .filter(Boolean)
+        .join('\n');
+      return `${indent}<div${attributes}>
+${blocks}
+${indent}</div>`;
+    }
+
+    const tag = this.getHtmlTag(node);
+    const content = this.generateTextRuns(textRuns(node), node, dialect);
+    if (dialect === 'react') {
+      return `${indent}<${tag}${attributes}>
+${indent}  ${content}
+${indent}</${tag}>`;
+    }
+    return `${indent}<${tag}${attributes}>${content}</${tag}>`;
+  }
+
+  private generateRichTextBlock(block: RichTextBlock, node: FigmaNode, depth: number, dialect: TextDialect): string {
+    const indent = '  '.repeat(depth);
+
+    if (block.kind === 'paragraph') {
+      return block.runs.length > 0 ? `${indent}<p>${this.generateTextRuns(block.runs, node, dialect)}</p>` : '';
+    }
+
+    const tag = block.ordered ? 'ol' : 'ul';
+    const items = block.items.map(item => {
+      const content = this.generateTextRuns(item.runs, node, dialect);
+      if (item.lists.length === 0) {
+        return `${indent}  <li>${content}</li>`;
+      }
+
+      const nested = item.lists.map(list => this.generateRichTextBlock(list, node, depth + 2, dialect)).join('\n');
+      return `${indent}  <li>${content}
+${nested}
+${indent}  </li>`;
+    });
+
+    return `${indent}<${tag}>
+${items.join('\n')}
+${indent}</${tag}>`;
+  }
+
+  private generateTextRuns(runs: TextRun[], node: FigmaNode, dialect: TextDialect): string {
+    return splitRunsAtLineBreaks(runs)
+      .map(line => line.map(run => this.generateTextRun(run, node, dialect)).join(''))
+      .join('<br />');
+  }
+
+  // Félkövér és dőlt futam <strong>/<em>, link <a>, minden más eltérés saját osztályú <span>
+  private generateTextRun(run: TextRun, node: FigmaNode, dialect: TextDialect): string {
+    const text = dialect === 'react' ? `{${JSON.stringify(run.text)}}` : this.escapeHtml(run.text);
+    const baseWeight = node.style?.fontWeight ?? 400;
+    const tags: string[] = [];
+
+    if (run.hyperlink) tags.push('a');
+    if ((run.override.fontWeight ?? baseWeight) >= 600 && baseWeight < 600) tags.push('strong');
+    if (run.override.italic && !node.style?.italic) tags.push('em');
+
+    const className = this.textRunClassName(run, node);
+    if (tags.length === 0 && className) tags.push('span');
+    if (tags.length === 0) return text;
+
+    return tags.reduceRight((content, tag, index) => {
+      const attributes = [
+        ...(index === 0 && className ? [dialect === 'react' ? this.reactClassAttribute(className).trim() : `class="${className}"`] : []),
+        ...(tag === 'a' && run.hyperlink ? [this.instanceAttribute('href', this.hyperlinkHref(run), dialect)] : [])
+      ];
+      return `<${tag}${attributes.map(attribute => ` ${attribute}`).join('')}>${content}</${tag}>`;
+    }, text);
+  }
+
+  private hyperlinkHref(run: TextRun): string {
+    const link = run.hyperlink;
+    if (link?.type === 'NODE' && link.nodeID) return `#${link.nodeID}`;
+    return link?.url || '#';
+  }
+
+  private textRunClassName(run: TextRun, node: FigmaNode): string {
+    if (run.styleId === 0) return '';
+
+    if (this.options.styling === 'tailwind') {
+      return this.styleGenerator.generateTextRunTailwindClasses(run.override, node.name);
+    }
+    return Object.keys(this.styleGenerator.generateTextRunStyles(run.override, node.name)).length > 0
+      ? `${this.cssClassName(node)}__run-${run.styleId}`
+      : '';
+  }
+
+  // A szövegfutamok osztályaihoz tartozó CSS szabályok, stílus-azonosítónként egyszer
+  private textRunRules(node: FigmaNode): Array<{ className: string; styles: Record<string, any> }> {
+    const rules = new Map<string, Record<string, any>>();
+
+    [node, ...this.collectTextNodes(node)]
+      .filter(text => hasRichText(text))
+      .forEach(text => textRuns(text).forEach(run => {
+        const className = this.textRunClassName(run, text);
+        if (className && !rules.has(className)) {
+          rules.set(className, this.styleGenerator.generateTextRunStyles(run.override, text.name));
+        }
+      }));
+
+    return Array.from(rules, ([className, styles]) => ({ className, styles }));
+  }
+
+  private boundText(node: FigmaNode, dialect: 'vue' | 'html' | 'angular' | 'svelte'): string {
+    const binding = this.textBindings.get(node.id);
+    if (!binding || dialect === 'html') {
+      return this.escapeHtml(node.characters as string);
+    }
+    return dialect === 'svelte' ? `{${binding}}` : `{{ ${binding} }}`;
+  }
+
+  // Variáns segédfüggvények
+  private variantBaseClass(componentName: string): string {
+    return this.options.styling === 'tailwind' ? '' : componentName.toLowerCase();
+  }
+
+  private variantModifierClass(variant: ComponentVariant, componentName: string): string {
+    const suffix = Object.values(variant.values)
+      .map(value => ComponentNameSanitizer.toKebabCase(value).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''))
+      .join('-');
+    return `${componentName.toLowerCase()}--${suffix}`;
+  }
+
+  // Tailwind alatt a variáns teljes osztálylistája (StyleGenerator), egyébként a módosító CSS osztály
+  private variantClassValues(variants: ComponentVariantSet, componentName: string): Record<string, string> {
+    if (this.options.styling === 'tailwind') {
+      return this.styleGenerator.generateVariantTailwindClasses(variants.node);
+    }
+    return Object.fromEntries(variants.variants.map(variant => [variant.key, this.variantModifierClass(variant, componentName)]));
+  }
+
+  private generateVariantClassMap(variants: ComponentVariantSet, componentName: string, indent = ''): string {
+    const entries = Object.entries(this.variantClassValues(variants, componentName))
+      .map(([key, value]) => `${indent}  ${this.toStringLiteral(key)}: ${this.toStringLiteral(value)},`)
+      .join('\n');
+
+    return `${indent}const variantClasses${this.options.typescript ? ': Record<string, string>' : ''} = {
+${entries}
+${indent}};`;
+  }
+
+  // Hiányzó kombinációnál (ritka készlet) az alapértelmezett variáns osztályai érvényesek
+  private variantClassExpression(variants: ComponentVariantSet, accessorPrefix = ''): string {
+    return `variantClasses[${variantKeyExpression(variants.axes, accessorPrefix)}] ?? variantClasses[${this.toStringLiteral(variants.defaultVariant.key)}]`;
+  }
+
+  // A variánsok csak a gyökérelem stílusában térnek el: a gyerekek az alapértelmezett variánsból,
+  // inline stílussal készülnek, így eltéréseiket (szín, méret, példánycsere, hiányzó réteg) a generált
+  // kód nem követi. Ezekről variánsonként figyelmeztetés szól.
+  private variantChildWarnings(variants: ComponentVariantSet | null, componentName: string): string[] {
+    if (!variants) return [];
+
+    return variants.variants
+      .filter(variant => variant !== variants.defaultVariant)
+      .map(variant => ({ variant, layers: this.variantChildDifferences(variants.defaultVariant.node, variant.node) }))
+      .filter(({ layers }) => layers.length > 0)
+      .map(({ variant, layers }) =>
+        `${componentName} (${Object.values(variant.values).join(', ')}): ${layers.join(', ')} differ from the default variant; only the root element's styles change with the variant props`
+      );
+  }
+
+  // A variáns azon rétegei, amelyek típusban, fő komponensben vagy stílusban eltérnek az alapértelmezettől
+  private variantChildDifferences(base: FigmaNode, variant: FigmaNode): string[] {
+    const layers: string[] = [];
+    const compare = (expected: FigmaNode[] = [], actual: FigmaNode[] = []) => {
+      actual.forEach((child, index) => {
+        const counterpart = expected[index];
+        if (!counterpart || counterpart.type !== child.type || counterpart.componentId !== child.componentId
+          || JSON.stringify(this.extractAllStyles(counterpart)) !== JSON.stringify(this.extractAllStyles(child))) {
+          layers.push(child.name);
+          return;
+        }
+        compare(counterpart.children, child.children);
+      });
+      expected.slice(actual.length).forEach(child => layers.push(child.name));
+    };
+
+    compare(base.children, variant.children);
+    return layers;
+  }
+
+  private variantStyleOverrides(baseStyles: Record<string, any>, variantNode: FigmaNode): Record<string, any> {
+    const styles = this.extractAllStyles(variantNode);
+    const overrides: Record<string, any> = {};
+
+    Object.entries(styles).forEach(([property, value]) => {
+      if (baseStyles[property] !== value) overrides[property] = value;
+    });
+    Object.keys(baseStyles).forEach(property => {
+      if (!(property in styles)) overrides[property] = 'unset';
+    });
+
+    return overrides;
+  }
+
+  private toStringLiteral(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
   }
 
   private detectComponentType(node: FigmaNode): ComponentMetadata['componentType'] {
@@ -712,6 +1638,12 @@ export type ${componentName}Ref = HTMLDivElement;`;
   }
 
   private extractDependencies(node: FigmaNode): string[] {
+    // A sima HTML kimenetnek nincs futásidejű függősége
+    if (this.options.framework === 'html') return [];
+    if (this.options.framework === 'vue') return ['vue'];
+    if (this.options.framework === 'angular') return ['@angular/core', '@angular/common'];
+    if (this.options.framework === 'svelte') return ['svelte'];
+
     const deps = ['react'];
     
     if (this.options.typescript) deps.push('@types/react');
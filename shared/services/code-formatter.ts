@@ -1,5 +1,18 @@
 import { GeneratedComponent } from '../types/figma';
 import { CodeGenerationOptions } from '../types/generator';
+import { ComponentNameSanitizer } from '../utils/component-name-sanitizer';
+import { mergeProtectedRegions, ProtectedRegionConflict } from '../utils/protected-regions';
+
+// The code of an earlier version of a component, possibly edited by hand
+export interface PreviousComponentCode {
+  jsx?: string;
+  css?: string;
+  typescript?: string;
+}
+
+export interface ComponentRegionConflict extends ProtectedRegionConflict {
+  file: keyof PreviousComponentCode;
+}
 
 export class CodeFormatter {
   private options: CodeGenerationOptions;
@@ -68,6 +81,37 @@ export class CodeFormatter {
     }
   }
 
+  formatAngularComponent(component: GeneratedComponent): string {
+    try {
+      let formatted = component.jsx;
+
+      if (this.options.includeComments) {
+        formatted = this.addComments(formatted, component);
+      }
+
+      // The inline template is already indented by the generator, so only sort imports
+      return this.formatImports(formatted);
+    } catch (error) {
+      console.warn(`Failed to format Angular component ${component.name}:`, error);
+      return component.jsx;
+    }
+  }
+
+  formatSvelteComponent(component: GeneratedComponent): string {
+    try {
+      let formatted = component.jsx;
+
+      if (this.options.includeComments) {
+        formatted = this.addHTMLComments(formatted, component);
+      }
+
+      return formatted;
+    } catch (error) {
+      console.warn(`Failed to format Svelte component ${component.name}:`, error);
+      return component.jsx;
+    }
+  }
+
   formatCSS(css: string, componentName: string): string {
     try {
       let formatted = css;
@@ -108,11 +152,43 @@ export class CodeFormatter {
     }
   }
 
+  /**
+   * Carries the @figma-keep-start/@figma-keep-end regions of the previous code over to the
+   * regenerated component (markup or SFC, CSS and TypeScript alike). Regions whose anchor element
+   * is gone are left out and returned as conflicts.
+   */
+  mergeProtectedRegions(
+    component: GeneratedComponent,
+    previous: PreviousComponentCode
+  ): { component: GeneratedComponent; conflicts: ComponentRegionConflict[] } {
+    const merged = { ...component };
+    const conflicts: ComponentRegionConflict[] = [];
+
+    (['jsx', 'css', 'typescript'] as const).forEach(file => {
+      const previousCode = previous[file];
+      if (!previousCode) return;
+
+      try {
+        const result = mergeProtectedRegions(previousCode, merged[file] || '');
+        merged[file] = result.code;
+        conflicts.push(...result.conflicts.map(conflict => ({ ...conflict, file })));
+      } catch (error) {
+        console.warn(`Failed to merge protected regions of ${component.name}:`, error);
+      }
+    });
+
+    return { component: merged, conflicts };
+  }
+
   generateTestFile(component: GeneratedComponent): string {
     if (!this.options.generateTests) return '';
 
     try {
       const testTemplate = this.getTestTemplate(component);
+      // Already indented; formatIndentation would mistake generics like ComponentFixture<...> for tags
+      if (this.options.framework === 'angular' || this.options.framework === 'svelte') {
+        return testTemplate;
+      }
       return this.formatIndentation(testTemplate);
     } catch (error) {
       console.warn(`Failed to generate test file for ${component.name}:`, error);
@@ -132,8 +208,8 @@ export class CodeFormatter {
  * Accessibility Score: ${component.accessibility.score}/100
  * WCAG Compliance: ${component.accessibility.wcagCompliance}
  * 
- * ${component.metadata.warnings.length > 0 ? 
-   `Warnings:\n * ${component.metadata.warnings.join('\n * ')}` : 
+ * ${(component.metadata.warnings?.length ?? 0) > 0 ? 
+   `Warnings:\n * ${component.metadata.warnings!.join('\n * ')}` : 
    'No warnings'}
  */\n\n`;
 
@@ -192,8 +268,8 @@ WCAG Compliance: ${component.accessibility.wcagCompliance}
 
       const indentedLine = indentChar.repeat(indentLevel) + trimmedLine;
 
-      // Increase indent for opening tags/brackets
-      if (trimmedLine.includes('<') && !trimmedLine.includes('</') && !trimmedLine.endsWith('/>') ||
+      // Increase indent for opening tags/brackets; a '<' right after an identifier is a generic, not a tag
+      if (/(^|[^\w$.])<[A-Za-z>]/.test(trimmedLine) && !trimmedLine.includes('</') && !trimmedLine.endsWith('/>') ||
           trimmedLine.endsWith('{') ||
           trimmedLine.endsWith('(')) {
         indentLevel++;
@@ -324,6 +400,57 @@ ${html}
   }
 
   private getTestTemplate(component: GeneratedComponent): string {
+    switch (this.options.framework) {
+      case 'angular':
+        return this.getAngularTestTemplate(component);
+      case 'svelte':
+        return this.getSvelteTestTemplate(component);
+      default:
+        return this.getReactTestTemplate(component);
+    }
+  }
+
+  private getAngularTestTemplate(component: GeneratedComponent): string {
+    const className = `${component.name}Component`;
+    const requiredProps = (component.metadata.suggestedProps ?? []).filter(prop => prop.required);
+
+    return `import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ${className} } from './${ComponentNameSanitizer.toKebabCase(component.name)}.component';
+
+describe('${className}', () => {
+  let fixture: ComponentFixture<${className}>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [${className}]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(${className});
+  });
+
+  it('should create', () => {
+    ${requiredProps.map(prop => `fixture.componentRef.setInput('${prop.name}', 'test value');
+    `).join('')}fixture.detectChanges();
+    expect(fixture.componentInstance).toBeTruthy();
+  });
+});`;
+  }
+
+  private getSvelteTestTemplate(component: GeneratedComponent): string {
+    const requiredProps = (component.metadata.suggestedProps ?? []).filter(prop => prop.required);
+    const props = requiredProps.map(prop => `${prop.name}: 'test value'`).join(', ');
+
+    return `import { render } from '@testing-library/svelte';
+import ${component.name} from './${component.name}.svelte';
+
+describe('${component.name}', () => {
+  it('should render without crashing', () => {
+    render(${component.name}${props ? `, { props: { ${props} } }` : ''});
+  });
+});`;
+  }
+
+  private getReactTestTemplate(component: GeneratedComponent): string {
     return `import { render, screen } from '@testing-library/react';
 import { ${component.name} } from './${component.name}';
 
@@ -332,7 +459,7 @@ describe('${component.name}', () => {
     render(<${component.name} />);
   });
 
-  ${component.metadata.suggestedProps.filter(prop => prop.required).map(prop => `
+  ${(component.metadata.suggestedProps ?? []).filter(prop => prop.required).map(prop => `
   it('should render with ${prop.name} prop', () => {
     const test${prop.name.charAt(0).toUpperCase() + prop.name.slice(1)} = 'test value';
     render(<${component.name} ${prop.name}={test${prop.name.charAt(0).toUpperCase() + prop.name.slice(1)}} />);
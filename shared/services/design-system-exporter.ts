@@ -1,10 +1,13 @@
 import { DesignTokens } from './design-system-extractor';
+import { flattenDesignTokens } from '../utils/token-resolver';
 
 export interface ExportOptions {
   format: 'css' | 'scss' | 'js' | 'json' | 'tailwind' | 'figma-tokens';
   includeComments: boolean;
   useCustomProperties: boolean;
   prefix?: string;
+  // Tailwind `content` globok; alapértelmezetten a React forrásfájlok
+  contentPaths?: string[];
 }
 
 export class DesignSystemExporter {
@@ -176,6 +179,10 @@ export const getBreakpoint = (key) => breakpoints[key];
       });
     });
 
+    Object.entries(this.tokens.colors.custom).forEach(([key, value]) => {
+      css += `  --${prefix}color-${key}: ${value};\n`;
+    });
+
     // Typography
     if (this.options.includeComments) {
       css += `\n  /* Typography */\n`;
@@ -193,6 +200,14 @@ export const getBreakpoint = (key) => breakpoints[key];
       css += `  --${prefix}font-weight-${key}: ${value};\n`;
     });
 
+    Object.entries(this.tokens.typography.lineHeights).forEach(([key, value]) => {
+      css += `  --${prefix}line-height-${key}: ${value};\n`;
+    });
+
+    Object.entries(this.tokens.typography.letterSpacing).forEach(([key, value]) => {
+      css += `  --${prefix}letter-spacing-${key}: ${value};\n`;
+    });
+
     // Spacing
     if (this.options.includeComments) {
       css += `\n  /* Spacing */\n`;
@@ -202,6 +217,10 @@ export const getBreakpoint = (key) => breakpoints[key];
       css += `  --${prefix}spacing-${key}: ${value};\n`;
     });
 
+    Object.entries(this.tokens.spacing.scale).forEach(([key, value]) => {
+      css += `  --${prefix}spacing-scale-${key}: ${value};\n`;
+    });
+
     // Shadows
     if (this.options.includeComments) {
       css += `\n  /* Shadows */\n`;
@@ -372,6 +391,13 @@ export const getBreakpoint = (key) => breakpoints[key];
     });
     scss += `);\n\n`;
 
+    // Lapos változók: a token módban generált komponens CSS ezekre hivatkozik ($color-primary-500)
+    scss += `// Token variables\n`;
+    flattenDesignTokens(this.tokens).forEach(token => {
+      scss += `$${this.options.prefix || ''}${token.name}: ${token.value};\n`;
+    });
+    scss += `\n`;
+
     return scss;
   }
 
@@ -456,12 +482,16 @@ export const getBreakpoint = (key) => breakpoints[key];
 
   // Tailwind config generálás
   private generateTailwindConfig(): string {
+    const contentPaths = this.options.contentPaths ?? [
+      './src/**/*.{js,ts,jsx,tsx}',
+      './pages/**/*.{js,ts,jsx,tsx}',
+      './components/**/*.{js,ts,jsx,tsx}',
+    ];
+
     return `/** @type {import('tailwindcss').Config} */
 module.exports = {
   content: [
-    './src/**/*.{js,ts,jsx,tsx}',
-    './pages/**/*.{js,ts,jsx,tsx}',
-    './components/**/*.{js,ts,jsx,tsx}',
+${contentPaths.map(path => `    '${path}',`).join('\n')}
   ],
   theme: {
     extend: {
@@ -473,11 +503,14 @@ module.exports = {
         warning: ${JSON.stringify(this.tokens.colors.semantic.warning, null, 8)},
         error: ${JSON.stringify(this.tokens.colors.semantic.error, null, 8)},
         info: ${JSON.stringify(this.tokens.colors.semantic.info, null, 8)},
+        ...${JSON.stringify(this.tokens.colors.custom, null, 8)},
       },
       fontFamily: ${JSON.stringify(this.tokens.typography.fontFamilies, null, 8)},
       fontSize: ${JSON.stringify(this.tokens.typography.fontSizes, null, 8)},
       fontWeight: ${JSON.stringify(this.tokens.typography.fontWeights, null, 8)},
-      spacing: ${JSON.stringify(this.tokens.spacing.semantic, null, 8)},
+      lineHeight: ${JSON.stringify(this.tokens.typography.lineHeights, null, 8)},
+      letterSpacing: ${JSON.stringify(this.tokens.typography.letterSpacing, null, 8)},
+      spacing: ${JSON.stringify(this.spacingThemeScale(), null, 8)},
       boxShadow: ${JSON.stringify(this.tokens.shadows.elevation, null, 8)},
       borderRadius: ${JSON.stringify(this.tokens.borderRadius, null, 8)},
       screens: ${JSON.stringify(this.tokens.breakpoints, null, 8)},
@@ -490,6 +523,14 @@ module.exports = {
 `;
   }
 
+  // A szemantikus spacing mellé a kinyert skála "scale-N" kulcsokkal, hogy ne írja felül a Tailwind 0-96 skáláját
+  private spacingThemeScale(): Record<string, string> {
+    const scale = Object.fromEntries(
+      Object.entries(this.tokens.spacing.scale).map(([key, value]) => [`scale-${key}`, value])
+    );
+    return { ...this.tokens.spacing.semantic, ...scale };
+  }
+
   // Figma Tokens formátum konverzió
   private convertToFigmaTokensFormat(): any {
     return {
@@ -0,0 +1,226 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CachedFigmaResponse,
+  FigmaApiClient,
+  FigmaApiClientOptions,
+  FigmaApiError,
+  FigmaAuthError,
+  FigmaNetworkError,
+  FigmaNotFoundError,
+  FigmaRateLimitError,
+  FigmaResponseCache
+} from './figma-api';
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+// A local stand-in for the Figma REST API; each path answers from its queue, then with its last entry
+const stub = {
+  server: null as http.Server | null,
+  baseUrl: '',
+  routes: new Map<string, StubResponse[]>(),
+  requests: [] as Array<{ path: string; at: number; token: string | undefined }>
+};
+
+function route(path: string, ...responses: StubResponse[]) {
+  stub.routes.set(path, responses);
+}
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const path = req.url || '/';
+  stub.requests.push({ path, at: Date.now(), token: req.headers['x-figma-token'] as string | undefined });
+
+  const queue = stub.routes.get(path);
+  const response = queue ? (queue.length > 1 ? queue.shift()! : queue[0]) : { status: 404, body: { message: 'No stub route' } };
+  res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+  res.end(JSON.stringify(response.body ?? {}));
+}
+
+// Every test gets its own token, so the rate limiter and version checks shared per token start empty
+let tokens = 0;
+function client(options: FigmaApiClientOptions = {}) {
+  tokens += 1;
+  return new FigmaApiClient(`figd_client_test_${tokens}`, { baseUrl: stub.baseUrl, retryDelayMs: 10, ...options });
+}
+
+function memoryCache(): FigmaResponseCache & { entries: Map<string, CachedFigmaResponse> } {
+  const entries = new Map<string, CachedFigmaResponse>();
+  return {
+    entries,
+    get: async cacheKey => entries.get(cacheKey),
+    set: async (cacheKey, entry) => {
+      entries.set(cacheKey, entry);
+    }
+  };
+}
+
+const file = (version: string) => ({ name: 'Landing', version, lastModified: `2024-05-0${version}T00:00:00Z`, document: { id: '0:0' } });
+
+beforeAll(async () => {
+  stub.server = http.createServer(handle);
+  await new Promise<void>(resolve => stub.server!.listen(0, '127.0.0.1', resolve));
+  stub.baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => stub.server?.close(resolve));
+});
+
+beforeEach(() => {
+  stub.routes.clear();
+  stub.requests = [];
+});
+
+describe('FigmaApiClient retries', () => {
+  it('waits for Retry-After after a 429 and then succeeds', async () => {
+    route('/files/abc', { status: 429, headers: { 'Retry-After': '1' } }, { status: 200, body: file('1') });
+
+    const response = await client().getFile('abc');
+
+    expect(response.version).toBe('1');
+    expect(stub.requests).toHaveLength(2);
+    expect(stub.requests[1].at - stub.requests[0].at).toBeGreaterThanOrEqual(950);
+  });
+
+  it('reports a Retry-After beyond the longest wait without retrying', async () => {
+    route('/files/abc', { status: 429, headers: { 'Retry-After': '120' }, body: { err: 'Rate limit exceeded' } });
+
+    const error = await client().getFile('abc').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FigmaRateLimitError);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 120000, message: 'Figma API Error: 429 - Rate limit exceeded' });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('gives up with a FigmaRateLimitError when still limited after the retries', async () => {
+    route('/files/abc', { status: 429, headers: { 'Retry-After': '0' } });
+
+    const error = await client({ maxRetries: 2 }).getFile('abc').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FigmaRateLimitError);
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it('backs off exponentially after 5xx responses', async () => {
+    route('/files/abc', { status: 503 }, { status: 502 }, { status: 200, body: file('1') });
+
+    const response = await client({ retryDelayMs: 50 }).getFile('abc');
+
+    expect(response.version).toBe('1');
+    const [first, second, third] = stub.requests.map(request => request.at);
+    expect(second - first).toBeGreaterThanOrEqual(45);
+    expect(third - second).toBeGreaterThanOrEqual(95);
+  });
+
+  it('gives up with the last 5xx status after the retries', async () => {
+    route('/files/abc', { status: 500, body: { message: 'Internal error' } });
+
+    const error = await client({ maxRetries: 1 }).getFile('abc').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FigmaApiError);
+    expect(error).toMatchObject({ name: 'FigmaApiError', status: 500, message: 'Figma API Error: 500 - Internal error' });
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('does not retry other client errors', async () => {
+    route('/files/abc', { status: 400, body: { err: 'Bad request' } });
+
+    const error = await client().getFile('abc').catch(caught => caught);
+
+    expect(error).toMatchObject({ name: 'FigmaApiError', status: 400 });
+    expect(stub.requests).toHaveLength(1);
+  });
+});
+
+describe('FigmaApiClient errors', () => {
+  it.each([401, 403])('reports a %i as a FigmaAuthError', async status => {
+    route('/files/abc', { status, body: { err: 'Invalid token' } });
+
+    const error = await client().getFile('abc').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FigmaAuthError);
+    expect(error).toMatchObject({ status, message: `Figma API Error: ${status} - Invalid token` });
+  });
+
+  it('reports a 404 as a FigmaNotFoundError', async () => {
+    const error = await client().getFile('missing').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FigmaNotFoundError);
+    expect(error.status).toBe(404);
+  });
+
+  it('reports an unreachable API as a FigmaNetworkError after the retries', async () => {
+    const unreachable = http.createServer();
+    await new Promise<void>(resolve => unreachable.listen(0, '127.0.0.1', resolve));
+    const { port } = unreachable.address() as AddressInfo;
+    await new Promise(resolve => unreachable.close(resolve));
+
+    const error = await client({ baseUrl: `http://127.0.0.1:${port}`, maxRetries: 1 }).getFile('abc').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FigmaNetworkError);
+    expect(error.status).toBe(0);
+    expect(error.message).toMatch(/^Could not reach the Figma API: /);
+  });
+});
+
+describe('FigmaApiClient cache', () => {
+  it('fetches a file once on a cache miss, without a version check', async () => {
+    route('/files/abc', { status: 200, body: file('1') });
+    const cache = memoryCache();
+
+    await client({ cache }).getFile('abc');
+
+    expect(stub.requests.map(request => request.path)).toEqual(['/files/abc']);
+    expect(cache.entries.get('file:abc')).toMatchObject({ version: '1', response: file('1') });
+  });
+
+  it('serves a cached file without requests while the last check is recent', async () => {
+    route('/files/abc', { status: 200, body: file('1') });
+    const api = client({ cache: memoryCache() });
+
+    await api.getFile('abc');
+    const cached = await api.getFile('abc');
+
+    expect(cached).toEqual(file('1'));
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('checks the version once the last check has expired and refetches a changed file', async () => {
+    const cache = memoryCache();
+    await cache.set('file:abc', { version: '1', lastModified: file('1').lastModified, response: file('1') });
+    route('/files/abc?depth=1', { status: 200, body: file('1') }, { status: 200, body: file('2') });
+    route('/files/abc', { status: 200, body: file('2') });
+    const api = client({ cache, versionCheckTtlMs: 0 });
+
+    expect(await api.getFile('abc')).toEqual(file('1'));
+    expect(await api.getFile('abc')).toEqual(file('2'));
+
+    expect(stub.requests.map(request => request.path)).toEqual(['/files/abc?depth=1', '/files/abc?depth=1', '/files/abc']);
+    expect(cache.entries.get('file:abc')?.version).toBe('2');
+  });
+
+  it('does not reuse a version check across tokens', async () => {
+    const cache = memoryCache();
+    route('/files/abc', { status: 200, body: file('1') });
+    route('/files/abc?depth=1', { status: 200, body: file('1') });
+
+    await client({ cache }).getFile('abc');
+    await client({ cache }).getFile('abc');
+
+    expect(stub.requests.map(request => request.path)).toEqual(['/files/abc', '/files/abc?depth=1']);
+    expect(stub.requests[0].token).not.toBe(stub.requests[1].token);
+  });
+
+  it('does not serve a cached file to a token that lost access', async () => {
+    const cache = memoryCache();
+    await cache.set('file:abc', { version: '1', lastModified: file('1').lastModified, response: file('1') });
+    route('/files/abc?depth=1', { status: 403, body: { err: 'Forbidden' } });
+
+    await expect(client({ cache }).getFile('abc')).rejects.toBeInstanceOf(FigmaAuthError);
+  });
+});
@@ -1,38 +1,277 @@
 import { FigmaApiResponse, FigmaNode } from '../types/figma';
 
+// One requested node of GET /files/:key/nodes, with the components and styles it uses
+export interface FigmaNodeEntry {
+  document: FigmaNode;
+  components: FigmaApiResponse['components'];
+  componentSets?: FigmaApiResponse['componentSets'];
+  styles: FigmaApiResponse['styles'];
+  schemaVersion: number;
+}
+
+export interface FigmaFileNodesResponse {
+  name: string;
+  lastModified: string;
+  thumbnailUrl: string;
+  version: string;
+  role: string;
+  editorType: string;
+  // null for IDs that do not exist in the file
+  nodes: Record<string, FigmaNodeEntry | null>;
+}
+
+// A file response stored together with the file version it was fetched at
+export interface CachedFigmaResponse {
+  version: string;
+  lastModified: string;
+  response: unknown;
+}
+
+export interface FigmaResponseCache {
+  get(cacheKey: string): Promise<CachedFigmaResponse | undefined>;
+  set(cacheKey: string, entry: CachedFigmaResponse): Promise<void>;
+}
+
+export interface FigmaApiClientOptions {
+  // Can point at a local server that mimics the Figma endpoints
+  baseUrl?: string;
+  // File and node responses are reused while the file's version and lastModified are unchanged
+  cache?: FigmaResponseCache;
+  // Retries after a 429, a 5xx or a network failure
+  maxRetries?: number;
+  // First backoff delay; doubled on every further retry
+  retryDelayMs?: number;
+  // How long a file's version check is reused before a cached request checks it again
+  versionCheckTtlMs?: number;
+}
+
+// status is the HTTP status Figma answered with (0 when it could not be reached)
+export class FigmaApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'FigmaApiError';
+  }
+}
+
+// The token is missing, invalid, expired or has no access to the file
+export class FigmaAuthError extends FigmaApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'FigmaAuthError';
+  }
+}
+
+export class FigmaNotFoundError extends FigmaApiError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'FigmaNotFoundError';
+  }
+}
+
+// Still rate limited after the retries, or asked to wait longer than a request can block
+export class FigmaRateLimitError extends FigmaApiError {
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message, 429);
+    this.name = 'FigmaRateLimitError';
+  }
+}
+
+export class FigmaNetworkError extends FigmaApiError {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message, 0);
+    this.name = 'FigmaNetworkError';
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// A Retry-After longer than this is reported to the caller instead of holding the request open
+const MAX_RETRY_WAIT_MS = 60000;
+
+// Short enough that an edit in Figma shows up on the next import, long enough to cover one import's requests
+const DEFAULT_VERSION_CHECK_TTL_MS = 30000;
+
+interface VersionCheck {
+  version: string;
+  lastModified: string;
+  checkedAt: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 export class FigmaApiClient {
-  private baseUrl = 'https://api.figma.com/v1';
+  // Figma rate limits per token, so every client using the same token shares one limiter
+  private static rateLimiters = new Map<string, RateLimiter>();
+  // The last known version of each file, by token and file key, so the check stays per token
+  private static versionChecks = new Map<string, VersionCheck>();
+
+  private baseUrl: string;
   private apiKey: string;
+  private cache?: FigmaResponseCache;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private versionCheckTtlMs: number;
+  private rateLimiter: RateLimiter;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: FigmaApiClientOptions = {}) {
     this.apiKey = apiKey;
+    this.baseUrl = (options.baseUrl || 'https://api.figma.com/v1').replace(/\/+$/, '');
+    this.cache = options.cache;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    this.versionCheckTtlMs = options.versionCheckTtlMs ?? DEFAULT_VERSION_CHECK_TTL_MS;
+    this.rateLimiter = FigmaApiClient.rateLimiterFor(apiKey);
+  }
+
+  private static rateLimiterFor(apiKey: string): RateLimiter {
+    let limiter = FigmaApiClient.rateLimiters.get(apiKey);
+    if (!limiter) {
+      limiter = new RateLimiter();
+      FigmaApiClient.rateLimiters.set(apiKey, limiter);
+    }
+    return limiter;
   }
 
   private async makeRequest<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      headers: {
-        'X-Figma-Token': this.apiKey,
-        'Content-Type': 'application/json',
-      },
-    });
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.waitIfNeeded();
+
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${endpoint}`, {
+          headers: {
+            'X-Figma-Token': this.apiKey,
+            'Content-Type': 'application/json',
+          },
+        });
+      } catch (error) {
+        if (attempt < this.maxRetries) {
+          await sleep(this.backoffDelay(attempt));
+          continue;
+        }
+        throw new FigmaNetworkError(
+          `Could not reach the Figma API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error
+        );
+      }
+
+      if (response.ok) {
+        return response.json();
+      }
+
+      const retryAfterMs = this.parseRetryAfter(response.headers.get('Retry-After'));
+      const retryable = response.status === 429 || response.status >= 500;
+      const waitMs = retryAfterMs ?? this.backoffDelay(attempt);
+      if (retryable && attempt < this.maxRetries && waitMs <= MAX_RETRY_WAIT_MS) {
+        await sleep(waitMs);
+        continue;
+      }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        `Figma API Error: ${response.status} - ${errorData.message || response.statusText}`
-      );
+      throw await this.toError(response, retryAfterMs);
     }
+  }
 
-    return response.json();
+  private backoffDelay(attempt: number): number {
+    return this.retryDelayMs * 2 ** attempt;
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private async toError(response: Response, retryAfterMs?: number): Promise<FigmaApiError> {
+    const errorData = await response.json().catch(() => ({}));
+    const message = `Figma API Error: ${response.status} - ${errorData.message || errorData.err || response.statusText}`;
+
+    switch (response.status) {
+      case 401:
+      case 403:
+        return new FigmaAuthError(message, response.status);
+      case 404:
+        return new FigmaNotFoundError(message);
+      case 429:
+        return new FigmaRateLimitError(message, retryAfterMs);
+      default:
+        return new FigmaApiError(message, response.status);
+    }
+  }
+
+  /**
+   * Serves a file response from the cache when the file has not changed since it was stored.
+   * The version check is a depth=1 file request made with this client's token, so a cached
+   * response is only returned to tokens that can still read the file. A check, or a full
+   * response, is reused for versionCheckTtlMs, and a cache miss goes straight to the endpoint.
+   */
+  private async cachedRequest<T extends { version: string; lastModified: string }>(
+    fileKey: string,
+    cacheKey: string,
+    endpoint: string
+  ): Promise<T> {
+    if (!this.cache) {
+      return this.makeRequest<T>(endpoint);
+    }
+
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      const current = await this.currentVersion(fileKey);
+      if (cached.version === current.version && cached.lastModified === current.lastModified) {
+        return cached.response as T;
+      }
+    }
+
+    const response = await this.makeRequest<T>(endpoint);
+    this.recordVersion(fileKey, response);
+    await this.cache.set(cacheKey, { version: response.version, lastModified: response.lastModified, response });
+    return response;
+  }
+
+  private versionCheckKey(fileKey: string): string {
+    return `${this.apiKey}:${fileKey}`;
+  }
+
+  private async currentVersion(fileKey: string): Promise<{ version: string; lastModified: string }> {
+    const recent = FigmaApiClient.versionChecks.get(this.versionCheckKey(fileKey));
+    if (recent && Date.now() - recent.checkedAt < this.versionCheckTtlMs) {
+      return recent;
+    }
+
+    const current = await this.makeRequest<{ version: string; lastModified: string }>(`/files/${fileKey}?depth=1`);
+    this.recordVersion(fileKey, current);
+    return current;
+  }
+
+  private recordVersion(fileKey: string, current: { version: string; lastModified: string }): void {
+    const now = Date.now();
+    // Expired checks are dropped here, so files that are no longer requested do not pile up
+    Array.from(FigmaApiClient.versionChecks.entries()).forEach(([key, check]) => {
+      if (now - check.checkedAt >= this.versionCheckTtlMs) FigmaApiClient.versionChecks.delete(key);
+    });
+    FigmaApiClient.versionChecks.set(this.versionCheckKey(fileKey), {
+      version: current.version,
+      lastModified: current.lastModified,
+      checkedAt: now
+    });
   }
 
   async getFile(fileKey: string): Promise<FigmaApiResponse> {
-    return this.makeRequest<FigmaApiResponse>(`/files/${fileKey}`);
+    return this.cachedRequest<FigmaApiResponse>(fileKey, `file:${fileKey}`, `/files/${fileKey}`);
   }
 
-  async getFileNodes(fileKey: string, nodeIds: string[]): Promise<{ nodes: Record<string, FigmaNode> }> {
+  async getFileNodes(fileKey: string, nodeIds: string[]): Promise<FigmaFileNodesResponse> {
     const ids = nodeIds.join(',');
-    return this.makeRequest(`/files/${fileKey}/nodes?ids=${ids}`);
+    return this.cachedRequest<FigmaFileNodesResponse>(
+      fileKey,
+      `nodes:${fileKey}:${ids}`,
+      `/files/${fileKey}/nodes?ids=${encodeURIComponent(ids)}`
+    );
   }
 
   async exportImages(
@@ -44,7 +283,7 @@ export class FigmaApiClient {
       svg_include_id?: boolean;
       svg_simplify_stroke?: boolean;
     } = {}
-  ): Promise<{ images: Record<string, string> }> {
+  ): Promise<{ err?: string | null; images: Record<string, string | null> }> {
     const params = new URLSearchParams({
       ids: nodeIds.join(','),
       format: options.format || 'png',
@@ -65,6 +304,15 @@ export class FigmaApiClient {
     return match[2];
   }
 
+  /**
+   * The node ID selected in a Figma URL (node-id=12-34 or 12:34), as the API expects it ("12:34")
+   */
+  static extractNodeId(figmaUrl: string): string | null {
+    const match = figmaUrl.match(/[?&]node-id=([^&#]+)/);
+    if (!match) return null;
+    return decodeURIComponent(match[1]).replace(/-/g, ':');
+  }
+
   static validateApiKey(apiKey: string): boolean {
     return /^figd_[a-zA-Z0-9_-]+$/.test(apiKey);
   }
@@ -0,0 +1,206 @@
+import { ColorUtils } from '../utils/color-utils';
+import { WCAG_CONTRAST_RATIOS } from '../utils/constants';
+import { ColorScale, ColorTokens } from './design-system-extractor';
+
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export interface PaletteColor {
+  // Token name, e.g. 'primary-500' or 'custom-1'
+  name: string;
+  hex: string;
+}
+
+export interface ContrastSuggestion {
+  name: string;
+  hex: string;
+  ratio: number;
+  // The level the suggested shade reaches
+  level: 'AA' | 'AAA';
+}
+
+export interface ContrastPair {
+  foreground: string;
+  background: string;
+  ratio: number;
+  // Normal-size text thresholds: 4.5:1 for AA, 7:1 for AAA
+  AA: boolean;
+  AAA: boolean;
+  // Nearest shade for the foreground that reaches the next failed level
+  suggestion?: ContrastSuggestion;
+}
+
+export interface ColorBlindnessSimulation {
+  deficiency: ColorVisionDeficiency;
+  colors: Array<PaletteColor & { simulated: string }>;
+  // Pairs that are told apart with normal vision but look alike with the deficiency
+  confusablePairs: Array<{ first: string; second: string; difference: number }>;
+}
+
+export interface PaletteAudit {
+  colors: PaletteColor[];
+  // Every foreground/background pair, foreground-major
+  pairs: ContrastPair[];
+  simulations: ColorBlindnessSimulation[];
+}
+
+// Machado et al. (2009) full-severity matrices, applied to linear RGB
+const DEFICIENCY_MATRICES: Record<ColorVisionDeficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998]
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881]
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039]
+  ]
+};
+
+// CIE76 color difference below which two swatches are hard to tell apart
+const CONFUSABLE_DIFFERENCE = 10;
+
+// The shades that stand for a scale in the matrix: light surface, base color, dark text
+const AUDITED_SHADES: Array<keyof ColorScale> = [50, 500, 900];
+
+/**
+ * Audits an extracted palette: the contrast of every foreground/background pair with WCAG AA/AAA
+ * results and, for failing pairs, the nearest passing shade from the generated color scales, plus
+ * how the palette looks with protanopia, deuteranopia and tritanopia.
+ */
+export function auditPalette(tokens: ColorTokens): PaletteAudit {
+  const scales = paletteScales(tokens);
+  const colors = paletteColors(tokens, scales);
+  const scaleOf = new Map(colors.map(color => [color.name, scales.find(scale => color.name.startsWith(`${scale.name}-`))]));
+  const shades = scales.flatMap(scale => scaleShades(scale.name, scale.scale));
+
+  const pairs = colors.flatMap(foreground => colors
+    .filter(background => background !== foreground)
+    .map((background): ContrastPair => {
+      const ratio = contrast(foreground.hex, background.hex);
+      const { AA, AAA } = ColorUtils.meetsContrastStandards(ratio);
+      const pair: ContrastPair = { foreground: foreground.name, background: background.name, ratio: round(ratio), AA, AAA };
+      if (AAA) return pair;
+
+      // A scale color moves along its own scale; a custom color may take any generated shade
+      const scale = scaleOf.get(foreground.name);
+      const candidates = scale ? scaleShades(scale.name, scale.scale) : shades;
+      const suggestion = nearestPassingShade(foreground.hex, background.hex, candidates, AA ? 'AAA' : 'AA');
+      return suggestion ? { ...pair, suggestion } : pair;
+    }));
+
+  const simulations = (Object.keys(DEFICIENCY_MATRICES) as ColorVisionDeficiency[])
+    .map(deficiency => simulatePalette(colors, deficiency));
+
+  return { colors, pairs, simulations };
+}
+
+// Simulated appearance of a hex color with a color vision deficiency
+export function simulateColorVision(hex: string, deficiency: ColorVisionDeficiency): string {
+  const linear = hexToRgb(hex).map(toLinear);
+  const simulated = DEFICIENCY_MATRICES[deficiency].map(row =>
+    row.reduce((sum, weight, index) => sum + weight * linear[index], 0));
+  return rgbToHex(simulated.map(channel => fromLinear(Math.min(1, Math.max(0, channel)))));
+}
+
+function simulatePalette(colors: PaletteColor[], deficiency: ColorVisionDeficiency): ColorBlindnessSimulation {
+  const simulatedColors = colors.map(color => ({ ...color, simulated: simulateColorVision(color.hex, deficiency) }));
+
+  const confusablePairs: ColorBlindnessSimulation['confusablePairs'] = [];
+  simulatedColors.forEach((first, index) => {
+    simulatedColors.slice(index + 1).forEach(second => {
+      const difference = colorDifference(first.simulated, second.simulated);
+      if (difference < CONFUSABLE_DIFFERENCE && colorDifference(first.hex, second.hex) >= CONFUSABLE_DIFFERENCE) {
+        confusablePairs.push({ first: first.name, second: second.name, difference: round(difference) });
+      }
+    });
+  });
+
+  return { deficiency, colors: simulatedColors, confusablePairs };
+}
+
+function paletteScales(tokens: ColorTokens): Array<{ name: string; scale: ColorScale }> {
+  return [
+    { name: 'primary', scale: tokens.primary },
+    { name: 'secondary', scale: tokens.secondary },
+    { name: 'neutral', scale: tokens.neutral },
+    ...Object.entries(tokens.semantic).map(([name, scale]) => ({ name, scale: scale as ColorScale }))
+  ];
+}
+
+// Audited scale shades and the custom colors, each hex once (the first name wins); translucent
+// colors are left out, their contrast depends on what is underneath
+function paletteColors(tokens: ColorTokens, scales: Array<{ name: string; scale: ColorScale }>): PaletteColor[] {
+  const colors = [
+    ...scales.flatMap(({ name, scale }) => AUDITED_SHADES.map(shade => ({ name: `${name}-${shade}`, value: scale[shade] }))),
+    ...Object.entries(tokens.custom).map(([name, value]) => ({ name, value }))
+  ].flatMap(({ name, value }) => {
+    const color = ColorUtils.parseColor(value);
+    if (!color || (color.a !== undefined && color.a < 1)) return [];
+    return [{ name, hex: rgbToHex([color.r, color.g, color.b]) }];
+  });
+
+  return colors.filter((color, index) => colors.findIndex(other => other.hex === color.hex) === index);
+}
+
+function scaleShades(name: string, scale: ColorScale): PaletteColor[] {
+  return Object.entries(scale).map(([shade, hex]) => ({ name: `${name}-${shade}`, hex: (hex as string).toLowerCase() }));
+}
+
+function nearestPassingShade(foreground: string, background: string, candidates: PaletteColor[], level: 'AA' | 'AAA'): ContrastSuggestion | undefined {
+  const threshold = level === 'AA' ? WCAG_CONTRAST_RATIOS.AA_NORMAL : WCAG_CONTRAST_RATIOS.AAA_NORMAL;
+  const passing = candidates
+    .map(candidate => ({ ...candidate, ratio: contrast(candidate.hex, background) }))
+    .filter(candidate => candidate.ratio >= threshold)
+    .sort((a, b) => colorDifference(a.hex, foreground) - colorDifference(b.hex, foreground));
+
+  const nearest = passing[0];
+  return nearest && { name: nearest.name, hex: nearest.hex, ratio: round(nearest.ratio), level };
+}
+
+function contrast(first: string, second: string): number {
+  return ColorUtils.getContrastRatio(ColorUtils.parseColor(first)!, ColorUtils.parseColor(second)!);
+}
+
+function hexToRgb(hex: string): number[] {
+  const color = ColorUtils.parseColor(hex)!;
+  return [color.r, color.g, color.b];
+}
+
+function rgbToHex(channels: number[]): string {
+  return `#${channels.map(channel => Math.round(channel * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function toLinear(channel: number): number {
+  return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(channel: number): number {
+  return channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+}
+
+// CIE76 difference in CIELAB (D65)
+function colorDifference(first: string, second: string): number {
+  const [l1, a1, b1] = toLab(first);
+  const [l2, a2, b2] = toLab(second);
+  return Math.sqrt((l1 - l2) ** 2 + (a1 - a2) ** 2 + (b1 - b2) ** 2);
+}
+
+function toLab(hex: string): number[] {
+  const [r, g, b] = hexToRgb(hex).map(toLinear);
+  const xyz = [
+    (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047,
+    0.2126 * r + 0.7152 * g + 0.0722 * b,
+    (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883
+  ].map(value => value > 0.008856 ? Math.cbrt(value) : 7.787 * value + 16 / 116);
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
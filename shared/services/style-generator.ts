@@ -1,21 +1,76 @@
-import { FigmaNode, FigmaPaint, FigmaEffect } from '../types/figma';
+import { FigmaNode, FigmaPaint, FigmaEffect, Color, TypeStyle } from '../types/figma';
 import { CSSStyles, CodeGenerationOptions } from '../types/generator';
 import { ColorUtils } from '../utils/color-utils';
-import { DESIGN_TOKENS } from '../utils/constants';
+import { resolveVariantSet } from '../utils/component-variants';
+import { LayoutEngine } from '../utils/layout-engine';
+import { TokenCategory, TokenResolver } from '../utils/token-resolver';
+import { DEFAULT_TAILWIND_THEME, TailwindThemeMapper, parseTailwindConfig } from '../utils/tailwind-theme';
+import type { DesignTokens } from './design-system-extractor';
+
+const TEXT_DECORATIONS: Record<string, { css: string; tailwind: string }> = {
+  UNDERLINE: { css: 'underline', tailwind: 'underline' },
+  STRIKETHROUGH: { css: 'line-through', tailwind: 'line-through' },
+  NONE: { css: 'none', tailwind: 'no-underline' }
+};
+
+const TEXT_CASES: Record<string, { css: string; tailwind: string }> = {
+  UPPER: { css: 'uppercase', tailwind: 'uppercase' },
+  LOWER: { css: 'lowercase', tailwind: 'lowercase' },
+  TITLE: { css: 'capitalize', tailwind: 'capitalize' },
+  ORIGINAL: { css: 'none', tailwind: 'normal-case' }
+};
 
 export class StyleGenerator {
   private options: CodeGenerationOptions;
-
-  constructor(options: CodeGenerationOptions) {
+  private tokenResolver: TokenResolver | null;
+  private tailwindMapper: TailwindThemeMapper;
+
+  /**
+   * With design tokens (and tokenReferences other than 'none') raw values are replaced by token
+   * references: var(--token) or $token in CSS, theme names in Tailwind classes
+   */
+  constructor(options: CodeGenerationOptions, tokens?: DesignTokens) {
     this.options = options;
+    this.tokenResolver = tokens && options.tokenReferences && options.tokenReferences !== 'none'
+      ? new TokenResolver(tokens, options.tokenReferences)
+      : null;
+    // Tailwind classes follow the project's theme when a tailwind.config is given
+    const theme = options.tailwindConfig ? parseTailwindConfig(options.tailwindConfig) : DEFAULT_TAILWIND_THEME;
+    this.tailwindMapper = new TailwindThemeMapper(theme, options.tailwindTolerance ?? 0);
+  }
+
+  /**
+   * Rewrites token-backed declarations to token references; a no-op without design tokens.
+   * The context (usually the node name) is listed in the warning for values without a token.
+   */
+  resolveTokens(styles: CSSStyles, context: string): CSSStyles {
+    return this.tokenResolver ? this.tokenResolver.resolveStyles(styles, context) : styles;
+  }
+
+  /**
+   * One warning per style value that matched no design token
+   */
+  getTokenWarnings(): string[] {
+    return this.tokenResolver ? this.tokenResolver.getWarnings() : [];
   }
 
-  generateStyles(node: FigmaNode): CSSStyles {
+  /**
+   * Values snapped to a Tailwind theme key (within the tolerance) since the last call, with the
+   * drift each one introduced; clears the list
+   */
+  takeTailwindWarnings(): string[] {
+    return this.tailwindMapper.takeWarnings();
+  }
+
+  /**
+   * The parent is the node's auto-layout container; omit it for the root of the component
+   */
+  generateStyles(node: FigmaNode, parent?: FigmaNode): CSSStyles {
     try {
       const styles: CSSStyles = {};
 
       // Layout and positioning
-      this.addLayoutStyles(node, styles);
+      this.addLayoutStyles(node, styles, parent);
       
       // Typography
       this.addTypographyStyles(node, styles);
@@ -32,19 +87,19 @@ export class StyleGenerator {
       // Spacing
       this.addSpacingStyles(node, styles);
 
-      return styles;
+      return this.resolveTokens(styles, node.name);
     } catch (error) {
       console.warn(`Failed to generate styles for node ${node.name}:`, error);
       return {};
     }
   }
 
-  generateTailwindClasses(node: FigmaNode): string {
+  generateTailwindClasses(node: FigmaNode, parent?: FigmaNode): string {
     try {
       const classes: string[] = [];
 
       // Layout
-      this.addTailwindLayoutClasses(node, classes);
+      this.addTailwindLayoutClasses(node, classes, parent);
       
       // Typography
       this.addTailwindTypographyClasses(node, classes);
@@ -68,6 +123,74 @@ export class StyleGenerator {
     }
   }
 
+  /**
+   * Tailwind classes for every variant of a COMPONENT_SET, keyed by the joined variant values
+   * (e.g. "Small|Hover"). Returns an empty record for nodes that are not component sets.
+   */
+  generateVariantTailwindClasses(componentSet: FigmaNode): Record<string, string> {
+    const variants = resolveVariantSet(componentSet);
+    if (!variants) return {};
+
+    return Object.fromEntries(
+      variants.variants.map(variant => [variant.key, this.generateTailwindClasses(variant.node)])
+    );
+  }
+
+  /**
+   * Declarations for a run of text inside a TEXT node. The override comes from the node's
+   * styleOverrideTable and only holds the properties that differ from the base style.
+   */
+  generateTextRunStyles(override: Partial<TypeStyle>, context = 'text run'): CSSStyles {
+    const styles: CSSStyles = {};
+
+    if (override.fontFamily) styles.fontFamily = `"${override.fontFamily}", sans-serif`;
+    if (override.fontSize) styles.fontSize = `${override.fontSize}px`;
+    if (override.fontWeight) styles.fontWeight = override.fontWeight;
+    if (override.italic !== undefined) styles.fontStyle = override.italic ? 'italic' : 'normal';
+    if (override.lineHeightPx) styles.lineHeight = `${override.lineHeightPx}px`;
+    if (override.letterSpacing !== undefined) styles.letterSpacing = `${override.letterSpacing}px`;
+    if (override.textDecoration && TEXT_DECORATIONS[override.textDecoration]) {
+      styles.textDecoration = TEXT_DECORATIONS[override.textDecoration].css;
+    }
+    if (override.textCase && TEXT_CASES[override.textCase]) {
+      styles.textTransform = TEXT_CASES[override.textCase].css;
+    }
+
+    const fill = override.fills?.[0];
+    if (fill?.color && fill.visible !== false) {
+      styles.color = ColorUtils.colorToCSS(fill.color, fill.opacity);
+    }
+
+    return this.resolveTokens(styles, context);
+  }
+
+  /**
+   * The same run styles as generateTextRunStyles, expressed as Tailwind classes
+   */
+  generateTextRunTailwindClasses(override: Partial<TypeStyle>, context = 'text run'): string {
+    const classes: string[] = [];
+
+    if (override.fontFamily) classes.push(this.fontFamilyClass(override.fontFamily, context));
+    if (override.fontSize) classes.push(this.fontSizeClass(override.fontSize, context));
+    if (override.fontWeight) classes.push(this.fontWeightClass(override.fontWeight, context));
+    if (override.italic !== undefined) classes.push(override.italic ? 'italic' : 'not-italic');
+    if (override.lineHeightPx) classes.push(`leading-[${override.lineHeightPx}px]`);
+    if (override.letterSpacing !== undefined) classes.push(`tracking-[${override.letterSpacing}px]`);
+    if (override.textDecoration && TEXT_DECORATIONS[override.textDecoration]) {
+      classes.push(TEXT_DECORATIONS[override.textDecoration].tailwind);
+    }
+    if (override.textCase && TEXT_CASES[override.textCase]) {
+      classes.push(TEXT_CASES[override.textCase].tailwind);
+    }
+
+    const fill = override.fills?.[0];
+    if (fill?.color && fill.visible !== false) {
+      classes.push(this.colorClass('text', fill.color, fill.opacity, context));
+    }
+
+    return classes.filter(Boolean).join(' ');
+  }
+
   generateResponsiveCSS(node: FigmaNode, breakpoints: Record<string, number>): string {
     try {
       const baseStyles = this.generateStyles(node);
@@ -97,45 +220,9 @@ export class StyleGenerator {
     }
   }
 
-  private addLayoutStyles(node: FigmaNode, styles: CSSStyles): void {
-    // Size
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      styles.width = `${width}px`;
-      styles.height = `${height}px`;
-    }
-
-    // Flexbox layout
-    if (node.layoutMode) {
-      styles.display = 'flex';
-      styles.flexDirection = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
-      
-      // Alignment
-      if (node.primaryAxisAlignItems) {
-        const alignMap = {
-          'MIN': 'flex-start',
-          'CENTER': 'center',
-          'MAX': 'flex-end',
-          'SPACE_BETWEEN': 'space-between'
-        };
-        styles.justifyContent = alignMap[node.primaryAxisAlignItems] || 'flex-start';
-      }
-
-      if (node.counterAxisAlignItems) {
-        const alignMap = {
-          'MIN': 'flex-start',
-          'CENTER': 'center',
-          'MAX': 'flex-end',
-          'BASELINE': 'baseline'
-        };
-        styles.alignItems = alignMap[node.counterAxisAlignItems] || 'flex-start';
-      }
-
-      // Gap
-      if (node.itemSpacing) {
-        styles.gap = `${node.itemSpacing}px`;
-      }
-    }
+  private addLayoutStyles(node: FigmaNode, styles: CSSStyles, parent?: FigmaNode): void {
+    // Size, flex/grid layout, sizing modes and absolute positioning
+    Object.assign(styles, LayoutEngine.resolveStyles(node, parent));
 
     // Clipping
     if (node.clipsContent) {
@@ -155,7 +242,7 @@ export class StyleGenerator {
       
       // Text alignment
       if (textStyle.textAlignHorizontal) {
-        const alignMap = {
+        const alignMap: Record<string, string> = {
           'LEFT': 'left',
           'CENTER': 'center',
           'RIGHT': 'right',
@@ -241,42 +328,10 @@ export class StyleGenerator {
     }
   }
 
-  private addTailwindLayoutClasses(node: FigmaNode, classes: string[]): void {
-    // Layout mode
-    if (node.layoutMode === 'HORIZONTAL') {
-      classes.push('flex', 'flex-row');
-    } else if (node.layoutMode === 'VERTICAL') {
-      classes.push('flex', 'flex-col');
-    }
-
-    // Alignment
-    if (node.primaryAxisAlignItems) {
-      const justifyMap = {
-        'MIN': 'justify-start',
-        'CENTER': 'justify-center',
-        'MAX': 'justify-end',
-        'SPACE_BETWEEN': 'justify-between'
-      };
-      const justifyClass = justifyMap[node.primaryAxisAlignItems];
-      if (justifyClass) classes.push(justifyClass);
-    }
-
-    if (node.counterAxisAlignItems) {
-      const alignMap = {
-        'MIN': 'items-start',
-        'CENTER': 'items-center',
-        'MAX': 'items-end',
-        'BASELINE': 'items-baseline'
-      };
-      const alignClass = alignMap[node.counterAxisAlignItems];
-      if (alignClass) classes.push(alignClass);
-    }
-
-    // Size
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      classes.push(`w-[${width}px]`, `h-[${height}px]`);
-    }
+  private addTailwindLayoutClasses(node: FigmaNode, classes: string[], parent?: FigmaNode): void {
+    // Size, flex/grid layout, gap, sizing modes and absolute positioning
+    const spacing = (utility: string, pixels: number) => this.spacingClass(utility, pixels, node.name);
+    classes.push(...LayoutEngine.resolveTailwindClasses(node, parent, spacing));
 
     // Overflow
     if (node.clipsContent) {
@@ -286,17 +341,22 @@ export class StyleGenerator {
 
   private addTailwindTypographyClasses(node: FigmaNode, classes: string[]): void {
     if (node.type === 'TEXT' && node.style) {
+      // Font family (only named when it resolves to a design token)
+      if (this.tokenResolver && node.style.fontFamily) {
+        classes.push(this.fontFamilyClass(node.style.fontFamily, node.name));
+      }
+
       // Font size
-      const fontSize = this.fontSizeToTailwind(node.style.fontSize);
+      const fontSize = this.fontSizeClass(node.style.fontSize, node.name);
       if (fontSize) classes.push(fontSize);
 
       // Font weight
-      const fontWeight = this.fontWeightToTailwind(node.style.fontWeight);
+      const fontWeight = node.style.fontWeight ? this.fontWeightClass(node.style.fontWeight, node.name) : '';
       if (fontWeight) classes.push(fontWeight);
 
       // Text alignment
       if (node.style.textAlignHorizontal) {
-        const alignMap = {
+        const alignMap: Record<string, string> = {
           'LEFT': 'text-left',
           'CENTER': 'text-center',
           'RIGHT': 'text-right',
@@ -311,55 +371,44 @@ export class StyleGenerator {
   private addTailwindColorClasses(node: FigmaNode, classes: string[]): void {
     // Background color
     if (node.backgroundColor) {
-      const bgClass = ColorUtils.colorToTailwind(node.backgroundColor);
+      const bgClass = this.colorClass('bg', node.backgroundColor, undefined, node.name);
       if (bgClass) classes.push(bgClass);
     }
 
     if (node.fills && node.fills.length > 0) {
       const fill = node.fills[0];
       if (fill.visible !== false && fill.type === 'SOLID' && fill.color) {
-        const bgClass = ColorUtils.colorToTailwind(fill.color);
+        const bgClass = this.colorClass('bg', fill.color, fill.opacity, node.name);
         if (bgClass) classes.push(bgClass);
       }
     }
 
     // Text color
-    if (node.type === 'TEXT' && node.style?.fills?.[0]?.color) {
-      const textClass = ColorUtils.colorToTextTailwind(node.style.fills[0].color);
+    const textFill = node.style?.fills?.[0];
+    if (node.type === 'TEXT' && textFill?.color) {
+      const textClass = this.colorClass('text', textFill.color, textFill.opacity, node.name);
       if (textClass) classes.push(textClass);
     }
   }
 
   private addTailwindSpacingClasses(node: FigmaNode, classes: string[]): void {
-    // Gap
-    if (node.itemSpacing) {
-      const gap = this.pxToTailwindSpacing(node.itemSpacing);
-      if (gap) classes.push(`gap-${gap}`);
-    }
-
     // Padding
-    if (node.paddingLeft) {
-      const pl = this.pxToTailwindSpacing(node.paddingLeft);
-      if (pl) classes.push(`pl-${pl}`);
-    }
-    if (node.paddingRight) {
-      const pr = this.pxToTailwindSpacing(node.paddingRight);
-      if (pr) classes.push(`pr-${pr}`);
-    }
-    if (node.paddingTop) {
-      const pt = this.pxToTailwindSpacing(node.paddingTop);
-      if (pt) classes.push(`pt-${pt}`);
-    }
-    if (node.paddingBottom) {
-      const pb = this.pxToTailwindSpacing(node.paddingBottom);
-      if (pb) classes.push(`pb-${pb}`);
-    }
+    const paddings: Array<[string, number | undefined]> = [
+      ['pl', node.paddingLeft],
+      ['pr', node.paddingRight],
+      ['pt', node.paddingTop],
+      ['pb', node.paddingBottom]
+    ];
+    paddings.forEach(([utility, padding]) => {
+      if (padding) classes.push(this.spacingClass(utility, padding, node.name));
+    });
   }
 
   private addTailwindBorderClasses(node: FigmaNode, classes: string[]): void {
     // Border radius
     if (node.cornerRadius) {
-      const radius = this.borderRadiusToTailwind(node.cornerRadius);
+      const radius = this.tokenClass('rounded', 'radius', `${node.cornerRadius}px`, node.name)
+        ?? this.tailwindMapper.borderRadius(node.cornerRadius, node.name);
       if (radius) classes.push(radius);
     }
 
@@ -368,7 +417,7 @@ export class StyleGenerator {
       const stroke = node.strokes[0];
       if (stroke.visible !== false && stroke.color) {
         classes.push('border');
-        const borderColor = ColorUtils.colorToTailwind(stroke.color).replace('bg-', 'border-');
+        const borderColor = this.colorClass('border', stroke.color, stroke.opacity, node.name);
         if (borderColor) classes.push(borderColor);
       }
     }
@@ -376,30 +425,41 @@ export class StyleGenerator {
 
   private addTailwindEffectClasses(node: FigmaNode, classes: string[]): void {
     if (node.effects && node.effects.length > 0) {
-      const hasShadow = node.effects.some(effect => 
+      const shadow = node.effects.find(effect => 
         effect.type === 'DROP_SHADOW' && effect.visible !== false
       );
       
-      if (hasShadow) {
-        classes.push('shadow-lg'); // Simplified shadow class
+      if (shadow) {
+        // Simplified shadow class unless the shadow is a design token
+        classes.push(this.tokenClass('shadow', 'shadow', this.effectToCSS(shadow), node.name) ?? 'shadow-lg');
       }
     }
   }
 
-  private fontSizeToTailwind(fontSize: number): string {
-    const sizes = Object.entries(DESIGN_TOKENS.FONT_SIZES);
-    let closest = sizes[0];
-    let closestDiff = Math.abs(fontSize - closest[1]);
+  // Tailwind class named after the matching design token; null without tokens or without a match
+  private tokenClass(utility: string, category: TokenCategory, value: string, context: string): string | null {
+    return this.tokenResolver ? this.tokenResolver.tailwindClass(utility, category, value, context) : null;
+  }
 
-    for (const [name, size] of sizes) {
-      const diff = Math.abs(fontSize - size);
-      if (diff < closestDiff) {
-        closest = [name, size];
-        closestDiff = diff;
-      }
-    }
+  private fontFamilyClass(fontFamily: string, context: string): string {
+    return this.tokenClass('font', 'fontFamily', fontFamily, context) ?? `font-['${fontFamily.replace(/\s+/g, '_')}']`;
+  }
 
-    return `text-${closest[0]}`;
+  private fontSizeClass(fontSize: number, context: string): string {
+    return this.tokenClass('text', 'fontSize', `${fontSize}px`, context) ?? this.tailwindMapper.fontSize(fontSize, context);
+  }
+
+  private spacingClass(utility: string, pixels: number, context: string): string {
+    return this.tokenClass(utility, 'spacing', `${pixels}px`, context) ?? this.tailwindMapper.spacing(utility, pixels, context);
+  }
+
+  private colorClass(utility: string, color: Color, opacity: number | undefined, context: string): string {
+    return this.tokenClass(utility, 'color', ColorUtils.colorToCSS(color, opacity), context)
+      ?? this.tailwindMapper.color(utility, color, opacity, context);
+  }
+
+  private fontWeightClass(fontWeight: number, context: string): string {
+    return this.tokenClass('font', 'fontWeight', String(fontWeight), context) ?? this.fontWeightToTailwind(fontWeight);
   }
 
   private fontWeightToTailwind(fontWeight: number): string {
@@ -413,44 +473,6 @@ export class StyleGenerator {
     return 'font-black';
   }
 
-  private pxToTailwindSpacing(pixels: number): string {
-    const rem = pixels / 16; // Convert to rem (assuming 16px base)
-    
-    if (rem <= 0.125) return '0.5'; // 2px
-    if (rem <= 0.25) return '1';    // 4px
-    if (rem <= 0.375) return '1.5'; // 6px
-    if (rem <= 0.5) return '2';     // 8px
-    if (rem <= 0.625) return '2.5'; // 10px
-    if (rem <= 0.75) return '3';    // 12px
-    if (rem <= 1) return '4';       // 16px
-    if (rem <= 1.25) return '5';    // 20px
-    if (rem <= 1.5) return '6';     // 24px
-    if (rem <= 2) return '8';       // 32px
-    if (rem <= 2.5) return '10';    // 40px
-    if (rem <= 3) return '12';      // 48px
-    if (rem <= 4) return '16';      // 64px
-    if (rem <= 5) return '20';      // 80px
-    if (rem <= 6) return '24';      // 96px
-    
-    return `[${pixels}px]`; // Arbitrary value for larger sizes
-  }
-
-  private borderRadiusToTailwind(radius: number): string {
-    const radiusMap = Object.entries(DESIGN_TOKENS.BORDER_RADIUS);
-    let closest = radiusMap[0];
-    let closestDiff = Math.abs(radius - closest[1]);
-
-    for (const [name, value] of radiusMap) {
-      const diff = Math.abs(radius - value);
-      if (diff < closestDiff) {
-        closest = [name, value];
-        closestDiff = diff;
-      }
-    }
-
-    return closest[0] === 'base' ? 'rounded' : `rounded-${closest[0]}`;
-  }
-
   private effectToCSS(effect: FigmaEffect): string {
     if (effect.type === 'DROP_SHADOW') {
       const x = effect.offset?.x || 0;
@@ -480,8 +502,9 @@ export class StyleGenerator {
     breakpointName: string, 
     width: number
   ): CSSStyles {
-    // This would contain logic to generate responsive styles
-    // For now, return empty object as this would be complex to implement fully
-    return {};
+    // Only the node's own rule is emitted here; a frame wider than the breakpoint is clamped
+    // so it resizes with the viewport and its constrained children follow
+    const override = LayoutEngine.breakpointOverrides(node, width).find(entry => entry.node === node);
+    return override ? override.styles : {};
   }
 }
@@ -1,5 +1,7 @@
+import type { FigmaNode } from './figma';
+
 export interface CodeGenerationOptions {
-  framework: 'react' | 'vue' | 'html';
+  framework: 'react' | 'vue' | 'html' | 'angular' | 'svelte';
   styling: 'tailwind' | 'css-modules' | 'styled-components' | 'plain-css';
   typescript: boolean;
   accessibility: boolean;
@@ -8,6 +10,14 @@ export interface CodeGenerationOptions {
   includeComments: boolean;
   generateTests: boolean;
   customBreakpoints?: Record<string, number>;
+  // Reference extracted design tokens instead of raw values ('none' keeps raw values)
+  tokenReferences?: 'none' | 'css-variables' | 'scss';
+  // Source of the project's tailwind.config; its theme replaces Tailwind's default scales
+  tailwindConfig?: string;
+  // Largest drift accepted when snapping to a theme key: px for lengths, RGB units for colors
+  tailwindTolerance?: number;
+  // Accessibility rules by ID; rules set to false are skipped
+  accessibilityRules?: Record<string, boolean>;
 }
 
 export interface CustomCodeInputs {
@@ -18,6 +28,16 @@ export interface CustomCodeInputs {
   utilities?: string;
 }
 
+// What templates, framework adapters and component generators receive for one component
+export interface ComponentConfig {
+  name: string;
+  // Detected component type, e.g. 'button' or a type contributed by a plugin
+  type: string;
+  node?: FigmaNode;
+  options: CodeGenerationOptions;
+  customCode?: CustomCodeInputs;
+}
+
 export interface GenerationResult {
   components: any[];
   totalTime: number;
@@ -79,3 +99,136 @@ export interface CSSStyles {
   background?: string;
   [key: string]: any;
 }
+
+
+export type GenerationPhaseKey = 'parse' | 'detect' | 'generate' | 'accessibility' | 'format';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJobPhase {
+  id: number;
+  key: GenerationPhaseKey;
+  name: string;
+  status: 'pending' | 'processing' | 'completed' | 'error';
+  progress: number;
+  startTime?: number;
+  endTime?: number;
+  error?: string;
+}
+
+export interface GenerationComponentProgress {
+  phase: GenerationPhaseKey;
+  name: string;
+  index: number;
+  total: number;
+}
+
+export interface GenerationJobSnapshot {
+  id: string;
+  status: GenerationJobStatus;
+  phases: GenerationJobPhase[];
+  currentComponent?: GenerationComponentProgress;
+  result?: GenerationResult & { id: number };
+  error?: string;
+}
+
+export type GenerationJobEventType = 'progress' | 'completed' | 'failed' | 'cancelled';
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+// A Figma node of a component that appeared, disappeared or changed between two generations
+export interface NodeDiff {
+  nodeId: string;
+  name: string;
+  type: string;
+  status: DiffStatus;
+  // Changed node properties, e.g. ["fills", "absoluteBoundingBox"]
+  properties?: string[];
+}
+
+export interface CssPropertyDiff {
+  selector: string;
+  property: string;
+  before?: string;
+  after?: string;
+}
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+// A run of changed lines with the unchanged lines around it; line numbers are 1-based
+export interface DiffHunk {
+  beforeStart: number;
+  afterStart: number;
+  lines: DiffLine[];
+}
+
+export interface ComponentDiff {
+  name: string;
+  status: DiffStatus;
+  nodes: NodeDiff[];
+  css: CssPropertyDiff[];
+  code: {
+    markup: DiffHunk[];
+    css: DiffHunk[];
+  };
+}
+
+export interface RegenerationDiff {
+  fromVersion: number;
+  toVersion: number;
+  // Only components that were added, removed or changed
+  components: ComponentDiff[];
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+}
+
+// A component library prop fed by a Figma property or text layer: the prop name, or the prop
+// name with a translation of the Figma values (e.g. { "Large": "lg" })
+export type ComponentPropMapping = string | {
+  prop: string;
+  values?: Record<string, string | number | boolean>;
+};
+
+/**
+ * A Figma main component rendered as a component of an existing library instead of being
+ * generated. Matched by component or component set key first, then by name.
+ */
+export interface ComponentLibraryMapping {
+  figmaKey?: string | null;
+  figmaName?: string | null;
+  // Module the component is imported from, e.g. '@acme/ui'
+  importPath: string;
+  // Named export of the module, e.g. 'Button'
+  componentName: string;
+  // Element selector of an Angular component; defaults to the kebab-cased component name
+  selector?: string | null;
+  // By Figma variant, boolean or text property name, or by text layer name; the 'children' prop
+  // becomes the element's content
+  props?: Record<string, ComponentPropMapping> | null;
+}
+
+// The instances of one Figma main component across the generated components
+export interface LibraryComponentUsage {
+  figmaName: string;
+  figmaKey: string | null;
+  instances: number;
+  // Generated components containing the instances
+  usedIn: string[];
+  // For mapped components, the library component they are rendered as
+  importPath?: string;
+  componentName?: string;
+  // For unmapped components, whether the main component was generated from this file
+  generated?: boolean;
+}
+
+export interface ComponentLibraryReport {
+  mapped: LibraryComponentUsage[];
+  unmapped: LibraryComponentUsage[];
+}
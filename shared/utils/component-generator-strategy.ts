@@ -1,6 +1,5 @@
 
 import { 
-  ComponentConfig, 
   GeneratedComponent, 
   AccessibilityReport, 
   ResponsiveBreakpoints, 
@@ -8,6 +7,7 @@ import {
   FigmaNode,
   AccessibilityIssue
 } from '../types/figma';
+import { ComponentConfig } from '../types/generator';
 import { TemplateEngine } from './template-engine';
 import { CodeGenerationError } from './errors';
 
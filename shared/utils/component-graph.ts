@@ -0,0 +1,42 @@
+export interface DependencyOrder<T> {
+  order: T[];
+  cycles: string[][];
+}
+
+/**
+ * Orders items so that each one comes after the items it depends on, keeping the original order
+ * for independent items. Dependencies on unknown keys are ignored. Every circular reference is
+ * reported once as the key path that closes the loop, e.g. ["card", "button", "card"].
+ */
+export function orderByDependencies<T>(
+  items: T[],
+  keyOf: (item: T) => string,
+  dependenciesOf: (item: T) => string[]
+): DependencyOrder<T> {
+  const byKey = new Map(items.map(item => [keyOf(item), item]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const order: T[] = [];
+  const cycles: string[][] = [];
+  const path: string[] = [];
+
+  const visit = (key: string) => {
+    const item = byKey.get(key);
+    if (!item || state.get(key) === 'done') return;
+
+    if (state.get(key) === 'visiting') {
+      cycles.push([...path.slice(path.indexOf(key)), key]);
+      return;
+    }
+
+    state.set(key, 'visiting');
+    path.push(key);
+    dependenciesOf(item).forEach(visit);
+    path.pop();
+    state.set(key, 'done');
+    order.push(item);
+  };
+
+  items.forEach(item => visit(keyOf(item)));
+
+  return { order, cycles };
+}
@@ -0,0 +1,238 @@
+import { FigmaApiResponse, FigmaNode } from '../types/figma';
+import {
+  ComponentLibraryMapping,
+  ComponentLibraryReport,
+  ComponentPropMapping,
+  LibraryComponentUsage
+} from '../types/generator';
+import { ComponentNameSanitizer } from './component-name-sanitizer';
+import { parseVariantName } from './component-variants';
+
+export type LibraryDialect = 'react' | 'vue' | 'angular' | 'svelte';
+
+export type LibraryPropValue = string | number | boolean;
+
+// An instance rendered as a library component, with its props mapped from the Figma instance
+export interface LibraryInstance {
+  mapping: ComponentLibraryMapping;
+  props: Array<{ name: string; value: LibraryPropValue }>;
+  // Value of the prop mapped to 'children', rendered as the element's content
+  children: string | null;
+}
+
+interface MainComponentInfo {
+  // The component set for variants, otherwise the component itself
+  id: string;
+  name: string;
+  keys: string[];
+  names: string[];
+  // Variant values encoded in a variant component's name ("Size=Large, State=Hover")
+  variantValues: Record<string, string>;
+}
+
+/**
+ * Resolves instances of Figma main components to the components of an existing library, based
+ * on the configured mappings, and counts every instance it sees for the mapping report.
+ */
+export class ComponentLibrary {
+  private usage = new Map<string, LibraryComponentUsage>();
+
+  constructor(private figmaData: FigmaApiResponse, private mappings: ComponentLibraryMapping[]) {}
+
+  // The mapping of a main component, component set or variant, by node ID
+  mappingFor(componentId: string): ComponentLibraryMapping | null {
+    const info = this.mainComponent(componentId);
+    if (!info) return null;
+
+    return this.mappings.find(mapping => mapping.figmaKey && info.keys.includes(mapping.figmaKey))
+      || this.mappings.find(mapping => mapping.figmaName && info.names.includes(mapping.figmaName))
+      || null;
+  }
+
+  resolve(node: FigmaNode): LibraryInstance | null {
+    if (node.type !== 'INSTANCE' || !node.componentId) return null;
+
+    const mapping = this.mappingFor(node.componentId);
+    if (!mapping) return null;
+
+    const values = this.instanceValues(node);
+    const props: LibraryInstance['props'] = [];
+    let children: string | null = null;
+
+    Object.entries(mapping.props || {}).forEach(([figmaProperty, propMapping]) => {
+      const raw = values.get(figmaProperty);
+      if (raw === undefined) return;
+
+      const { prop, value } = mapPropValue(propMapping, raw);
+      if (prop === 'children') {
+        children = String(value);
+      } else {
+        props.push({ name: prop, value });
+      }
+    });
+
+    return { mapping, props, children };
+  }
+
+  // Counts an instance for the report; generated tells whether its main component was generated
+  recordInstance(node: FigmaNode, usedIn: string, generated: boolean): void {
+    if (node.type !== 'INSTANCE' || !node.componentId) return;
+
+    const info = this.mainComponent(node.componentId);
+    const id = info?.id ?? node.componentId;
+    const mapping = this.mappingFor(node.componentId);
+    const entry = this.usage.get(id) || {
+      figmaName: info?.name ?? node.name,
+      figmaKey: info?.keys[0] ?? null,
+      instances: 0,
+      usedIn: [],
+      ...(mapping
+        ? { importPath: mapping.importPath, componentName: mapping.componentName }
+        : { generated })
+    };
+
+    entry.instances++;
+    if (!entry.usedIn.includes(usedIn)) entry.usedIn.push(usedIn);
+    this.usage.set(id, entry);
+  }
+
+  report(): ComponentLibraryReport {
+    const entries = Array.from(this.usage.values());
+    return {
+      mapped: entries.filter(entry => entry.componentName !== undefined),
+      unmapped: entries.filter(entry => entry.componentName === undefined)
+    };
+  }
+
+  private mainComponent(componentId: string): MainComponentInfo | null {
+    const components = this.figmaData.components || {};
+    // Older exports index components by key instead of node ID
+    const component = components[componentId]
+      || Object.values(components).find(candidate => candidate.key === componentId);
+    if (!component) return null;
+
+    const set = component.componentSetId ? this.figmaData.componentSets?.[component.componentSetId] : undefined;
+    return {
+      id: set ? (component.componentSetId as string) : componentId,
+      name: set?.name ?? component.name,
+      keys: [set?.key, component.key].filter((key): key is string => Boolean(key)),
+      names: [set?.name, component.name].filter((name): name is string => Boolean(name)),
+      variantValues: parseVariantName(component.name)
+    };
+  }
+
+  // Figma property values of an instance by property name ("Label#12:0" -> "Label"), then the
+  // characters of its text layers by layer name
+  private instanceValues(node: FigmaNode): Map<string, LibraryPropValue> {
+    const info = this.mainComponent(node.componentId as string);
+    const values = new Map<string, LibraryPropValue>(Object.entries(info?.variantValues || {}));
+
+    Object.entries(node.componentProperties || {}).forEach(([key, property]) => {
+      if (property.type !== 'INSTANCE_SWAP') {
+        values.set(key.split('#')[0], property.value);
+      }
+    });
+
+    const visit = (current: FigmaNode) => {
+      if (current.type === 'TEXT' && current.characters !== undefined && !values.has(current.name)) {
+        values.set(current.name, current.characters);
+      }
+      // Text inside nested instances belongs to those instances
+      if (current.type !== 'INSTANCE') current.children?.forEach(visit);
+    };
+    node.children?.forEach(visit);
+
+    return values;
+  }
+}
+
+function mapPropValue(propMapping: ComponentPropMapping, raw: LibraryPropValue): { prop: string; value: LibraryPropValue } {
+  if (typeof propMapping === 'string') {
+    return { prop: propMapping, value: normalizeValue(raw) };
+  }
+
+  const translated = propMapping.values?.[String(raw)];
+  return { prop: propMapping.prop, value: translated !== undefined ? translated : normalizeValue(raw) };
+}
+
+// Boolean variants are named "true"/"false" in Figma
+function normalizeValue(raw: LibraryPropValue): LibraryPropValue {
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  return raw;
+}
+
+/**
+ * Import statements for the library components used by a generated component, one per module
+ * and sorted by module: `import { Button, Card } from '@acme/ui';`
+ */
+export function libraryImports(mappings: ComponentLibraryMapping[]): string[] {
+  const byPath = new Map<string, Set<string>>();
+  mappings.forEach(mapping => {
+    byPath.set(mapping.importPath, (byPath.get(mapping.importPath) || new Set()).add(mapping.componentName));
+  });
+
+  return Array.from(byPath.keys()).sort().map(importPath => {
+    const names = Array.from(byPath.get(importPath) as Set<string>).sort();
+    return `import { ${names.join(', ')} } from '${importPath}';`;
+  });
+}
+
+// Whether an import path names an npm package rather than a file of the project ('./ui', '@/ui')
+export function isPackageImport(importPath: string): boolean {
+  return !/^(\.|\/|@\/|~)/.test(importPath);
+}
+
+function libraryElementTag(mapping: ComponentLibraryMapping, dialect: LibraryDialect): string {
+  return dialect === 'angular'
+    ? mapping.selector || ComponentNameSanitizer.toKebabCase(mapping.componentName)
+    : mapping.componentName;
+}
+
+// The library component element with its props and content, at the given indentation
+export function renderLibraryElement(instance: LibraryInstance, dialect: LibraryDialect, indent = ''): string {
+  const tag = libraryElementTag(instance.mapping, dialect);
+  const attributes = instance.props.map(({ name, value }) => ` ${libraryAttribute(name, value, dialect)}`).join('');
+
+  if (instance.children !== null) {
+    return `${indent}<${tag}${attributes}>${libraryText(instance.children, dialect)}</${tag}>`;
+  }
+  return dialect === 'angular'
+    ? `${indent}<${tag}${attributes}></${tag}>`
+    : `${indent}<${tag}${attributes} />`;
+}
+
+function libraryAttribute(name: string, value: LibraryPropValue, dialect: LibraryDialect): string {
+  if (typeof value !== 'string') {
+    switch (dialect) {
+      case 'vue':
+        return `:${name}="${value}"`;
+      case 'angular':
+        return `[${name}]="${value}"`;
+      default:
+        return `${name}={${value}}`;
+    }
+  }
+
+  if (dialect === 'react') {
+    return /["{}<>&\n]/.test(value) ? `${name}={${JSON.stringify(value)}}` : `${name}="${value}"`;
+  }
+  return `${name}="${escapeMarkup(value)}"`;
+}
+
+function libraryText(text: string, dialect: LibraryDialect): string {
+  if (dialect === 'react') {
+    return /[{}<>&]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+  }
+  return escapeMarkup(text);
+}
+
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\{/g, '&#123;')
+    .replace(/\}/g, '&#125;');
+}
@@ -6,4 +6,9 @@ export class ComponentNameSanitizer {
       .replace(/^[0-9]/, 'Component$&')
       .replace(/^./, str => str.toUpperCase()) || 'Component';
   }
+
+  // PascalCase component name -> kebab-case file name / Angular selector (UserCard -> user-card)
+  static toKebabCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+  }
 }
@@ -0,0 +1,50 @@
+import vm from 'vm';
+import { tsImport } from 'tsx/esm/api';
+import { beforeAll, describe, expect, it } from 'vitest';
+import type * as ComponentPreview from './component-preview';
+
+// Loaded through tsx like the dev server does: its esbuild keepNames adds __name calls to serialized functions
+let preview: typeof ComponentPreview;
+
+beforeAll(async () => {
+  preview = await tsImport('./component-preview.ts', import.meta.url);
+});
+
+const card: ComponentPreview.PreviewComponent = { name: 'Card', jsx: '', css: '.card { padding: 8px; }', html: '<div class="card">Card</div>' };
+
+// Runs the document's inline runtime script against a minimal page, returning what it posts to its parent
+async function runPreviewDocument(html: string) {
+  const config = html.match(/<script type="application\/json" id="preview-config">([\s\S]*?)<\/script>/)![1];
+  const runtime = Array.from(html.matchAll(/<script>([\s\S]*?)<\/script>/g)).pop()![1];
+  const posted: unknown[] = [];
+  const elements: Record<string, object> = {
+    'preview-config': { textContent: config },
+    'preview-root': { innerHTML: '' }
+  };
+
+  const page = {
+    window: {
+      parent: { postMessage: (message: unknown) => posted.push(message) },
+      addEventListener: () => undefined
+    },
+    document: { getElementById: (id: string) => elements[id] ?? null }
+  };
+  vm.runInNewContext(runtime, page);
+  await new Promise(resolve => setTimeout(resolve, 50));
+  return posted;
+}
+
+describe('buildPreviewDocument', () => {
+  it('starts its runtime in a page without the build helpers', async () => {
+    const html = preview.buildPreviewDocument(card, [card], 'html');
+
+    expect(html).toContain('__name(');
+
+    // The sandbox cannot import the compilers, so the runtime reports a load error through its channel
+    expect(await runPreviewDocument(html)).toEqual([{
+      type: 'error',
+      channel: preview.PREVIEW_CHANNEL,
+      error: expect.objectContaining({ phase: 'load', message: expect.stringMatching(/^Could not load the preview runtime: /) })
+    }]);
+  });
+});
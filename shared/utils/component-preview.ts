@@ -0,0 +1,545 @@
+import type * as ReactModule from 'react';
+import type * as ReactDomClient from 'react-dom/client';
+import { DESIGN_TOKENS } from './constants';
+import type { CodeGenerationOptions } from '../types/generator';
+
+export type PreviewFramework = 'react' | 'vue' | 'html';
+
+export type PreviewViewport = 'mobile' | 'tablet' | 'desktop';
+
+export const PREVIEW_FRAMEWORKS: CodeGenerationOptions['framework'][] = ['react', 'vue', 'html'];
+
+// Tags the messages of the preview iframe, which has an opaque origin
+export const PREVIEW_CHANNEL = 'figma-component-preview';
+
+/*
+ * Loaded by the iframe at runtime, so the app bundle does not grow with compilers it rarely needs.
+ * The preview therefore needs network access to esm.sh (and cdn.tailwindcss.com for Tailwind
+ * output); offline or behind a proxy that blocks them it shows a load error. The versions are
+ * pinned in the URLs, but there is no integrity check: dynamic import() takes no integrity
+ * option and both hosts build their responses on demand, so the content is trusted as served.
+ */
+const PREVIEW_MODULES = {
+  sucrase: 'https://esm.sh/sucrase@3.35.0',
+  react: 'https://esm.sh/react@18.3.1',
+  reactDom: 'https://esm.sh/react-dom@18.3.1/client?deps=react@18.3.1',
+  styledComponents: 'https://esm.sh/styled-components@6.1.13?deps=react@18.3.1,react-dom@18.3.1',
+  vue: 'https://esm.sh/vue@3.4.38',
+  vueCompiler: 'https://esm.sh/@vue/compiler-sfc@3.4.38?deps=vue@3.4.38',
+};
+
+const TAILWIND_PLAY_CDN = 'https://cdn.tailwindcss.com/3.4.17';
+
+export interface PreviewComponent {
+  name: string;
+  jsx: string;
+  css: string;
+  vue?: string;
+  html?: string;
+  responsive?: {
+    mobile: string;
+    tablet: string;
+    desktop: string;
+  };
+}
+
+export interface PreviewOptions {
+  styling?: CodeGenerationOptions['styling'];
+  typescript?: boolean;
+  tailwindConfig?: string;
+  customBreakpoints?: Record<string, number>;
+}
+
+export interface PreviewSourceLine {
+  number: number;
+  text: string;
+}
+
+export interface PreviewError {
+  phase: 'load' | 'compile' | 'runtime';
+  message: string;
+  // Generated file and 1-based position, when the error could be mapped back to the source
+  file: string | null;
+  line: number | null;
+  column: number | null;
+  excerpt: PreviewSourceLine[];
+}
+
+export type PreviewMessage =
+  | { type: 'rendered'; placeholders: string[] }
+  | { type: 'error'; error: PreviewError }
+  | { type: 'warning'; message: string };
+
+interface PreviewConfig {
+  channel: string;
+  framework: PreviewFramework;
+  modules: typeof PREVIEW_MODULES;
+  entry: string;
+  // Source of every component of the project by file name, so their imports of each other resolve
+  files: Record<string, string>;
+  // React output that imports its styled-components module (X.styles.ts)
+  styledComponents: boolean;
+  tailwindConfig: string | null;
+}
+
+// What the runtime uses of the modules it loads from esm.sh (sucrase and Vue are not dependencies of the app)
+interface SucraseModule {
+  transform(code: string, options: { transforms: string[]; filePath?: string; production?: boolean }): { code: string };
+}
+
+interface VueModule {
+  h(type: string, props: Record<string, unknown>, children: unknown): unknown;
+  createApp(component: unknown): { config: { errorHandler?: (error: unknown) => void }; mount(root: Element): unknown };
+}
+
+interface VueCompileError {
+  message: string;
+  loc?: { start: { line: number; column: number } };
+}
+
+interface SfcBlock {
+  content: string;
+}
+
+interface SfcDescriptor {
+  template: SfcBlock | null;
+  script: SfcBlock | null;
+  scriptSetup: SfcBlock | null;
+  styles: SfcBlock[];
+}
+
+interface VueCompilerModule {
+  parse(source: string, options: { filename: string }): { descriptor: SfcDescriptor; errors: VueCompileError[] };
+  compileScript(descriptor: SfcDescriptor, options: { id: string; inlineTemplate: boolean }): { content: string };
+  compileTemplate(options: { source: string; filename: string; id: string }): { code: string; errors: Array<VueCompileError | string> };
+}
+
+interface PreviewLibraries {
+  sucrase: SucraseModule;
+  react: typeof ReactModule;
+  reactDom: typeof ReactDomClient;
+  styledComponents?: object;
+  vue: VueModule;
+  vueCompiler: VueCompilerModule;
+}
+
+type ModuleExports = Record<string, unknown>;
+
+// An error the runtime has placed in a generated file
+interface LocatedError extends Error {
+  previewFile: string;
+  previewLine: number | null;
+  previewColumn: number | null;
+  previewPhase: 'compile';
+}
+
+declare global {
+  interface Window {
+    // The Tailwind Play CDN's global, whose config it watches
+    tailwind?: { config: object };
+  }
+}
+
+/**
+ * Viewport widths for the preview. Each width falls inside the range the generated media queries
+ * target for that breakpoint (mobile up to the mobile breakpoint, tablet up to the tablet one).
+ */
+export function previewViewports(customBreakpoints: Record<string, number> = {}): Record<PreviewViewport, number> {
+  const mobile = customBreakpoints.mobile ?? DESIGN_TOKENS.BREAKPOINTS.mobile;
+  const tablet = customBreakpoints.tablet ?? DESIGN_TOKENS.BREAKPOINTS.tablet;
+  const desktop = customBreakpoints.desktop ?? DESIGN_TOKENS.BREAKPOINTS.desktop;
+
+  return {
+    mobile: Math.min(375, mobile),
+    tablet,
+    desktop: Math.max(desktop, tablet + 1),
+  };
+}
+
+export function isPreviewable(framework: CodeGenerationOptions['framework']): framework is PreviewFramework {
+  return PREVIEW_FRAMEWORKS.includes(framework);
+}
+
+function previewSource(component: PreviewComponent, framework: PreviewFramework): string {
+  switch (framework) {
+    case 'vue':
+      return component.vue || component.jsx;
+    case 'html':
+      return component.html || component.jsx;
+    default:
+      return component.jsx;
+  }
+}
+
+export function previewFileName(component: PreviewComponent, framework: PreviewFramework, options: PreviewOptions = {}): string {
+  switch (framework) {
+    case 'vue':
+      return `${component.name}.vue`;
+    case 'html':
+      return `${component.name}.html`;
+    default:
+      return `${component.name}${options.typescript === false ? '.jsx' : '.tsx'}`;
+  }
+}
+
+// The styled-components module a React component imports, named like the export's file
+function styledComponentsFileName(component: PreviewComponent, options: PreviewOptions): string {
+  return `${component.name}.styles.${options.typescript === false ? 'js' : 'ts'}`;
+}
+
+// The styles of a component; styled-components output is a JS module, not CSS, so it is left out
+function componentStyles(component: PreviewComponent, options: PreviewOptions): string {
+  const responsive = component.responsive;
+  return [
+    options.styling === 'styled-components' ? '' : component.css,
+    responsive?.mobile,
+    responsive?.tablet,
+    responsive?.desktop,
+  ].filter(Boolean).join('\n\n');
+}
+
+// Keeps embedded text from closing the element it is embedded in
+function escapeClosingTag(text: string, tag: string): string {
+  return text.replace(new RegExp(`</(${tag})`, 'gi'), '<\\/$1');
+}
+
+/**
+ * A script that calls fn in another page (the preview iframe or a headless browser) with the
+ * given argument expressions. fn may only use its arguments and browser globals. Builds with
+ * esbuild's keepNames, which tsx always enables, wrap named functions in calls to a __name
+ * helper that the page does not have, so the script defines a stand-in for it.
+ */
+export function pageScript(fn: (...args: never[]) => unknown, ...args: string[]): string {
+  return `(function () { var __name = function (target) { return target; }; return (${fn.toString()})(${args.join(', ')}); })()`;
+}
+
+/**
+ * The srcdoc of the preview iframe: the styles of every component (processed by the Tailwind Play
+ * CDN for Tailwind output), the sources as JSON and the runtime that compiles and mounts the entry.
+ */
+export function buildPreviewDocument(
+  component: PreviewComponent,
+  components: PreviewComponent[],
+  framework: PreviewFramework,
+  options: PreviewOptions = {}
+): string {
+  const all = components.some(candidate => candidate.name === component.name)
+    ? components
+    : [component, ...components];
+  const tailwind = options.styling === 'tailwind';
+  const styledComponents = options.styling === 'styled-components' && framework === 'react';
+
+  const config: PreviewConfig = {
+    channel: PREVIEW_CHANNEL,
+    framework,
+    modules: PREVIEW_MODULES,
+    entry: previewFileName(component, framework, options),
+    files: Object.fromEntries(all.flatMap(candidate => [
+      [previewFileName(candidate, framework, options), previewSource(candidate, framework)],
+      ...(styledComponents && candidate.css ? [[styledComponentsFileName(candidate, options), candidate.css]] : []),
+    ])),
+    styledComponents,
+    tailwindConfig: tailwind && options.tailwindConfig ? options.tailwindConfig : null,
+  };
+
+  const styles = all
+    .map(candidate => componentStyles(candidate, options))
+    .filter(Boolean)
+    .map(css => `<style${tailwind ? ' type="text/tailwindcss"' : ''}>\n${escapeClosingTag(css, 'style')}\n</style>`);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+${tailwind ? `<script src="${TAILWIND_PLAY_CDN}"></script>` : '<style>body { margin: 0; font-family: system-ui, sans-serif; }</style>'}
+${styles.join('\n')}
+</head>
+<body>
+<div id="preview-root"></div>
+<script type="application/json" id="preview-config">${JSON.stringify(config).replace(/</g, '\\u003c')}</script>
+<script>${pageScript(previewRuntime, "JSON.parse(document.getElementById('preview-config').textContent)")}</script>
+</body>
+</html>`;
+}
+
+/**
+ * Runs inside the preview page: the sandboxed iframe, or the headless browser of the visual
+ * comparison. It is sent as a pageScript, so it may only use its argument and browser globals.
+ * React output is compiled with sucrase, which keeps line numbers, so runtime stack frames map
+ * straight back to the generated source; Vue output goes through the SFC compiler first, so
+ * only its compile errors have a line.
+ */
+function previewRuntime(config: PreviewConfig): void {
+  const post = (message: PreviewMessage) => window.parent.postMessage({ ...message, channel: config.channel }, '*');
+  const importModule = new Function('url', 'return import(url)') as (url: string) => Promise<{ default?: unknown }>;
+  const extension = /\.(tsx|jsx|ts|js|vue|html)$/;
+
+  // Files whose compiled lines are the lines of their source
+  const lineMapped = new Set<string>();
+  const modules: Record<string, { exports: ModuleExports }> = {};
+  const placeholders: string[] = [];
+  const libs = {} as PreviewLibraries;
+  let failed = false;
+
+  // Lines an engine puts before the body of a Function, measured since they differ between engines
+  const functionLineOffset = (() => {
+    try {
+      new Function('throw new Error();\n//# sourceURL=preview-probe.js')();
+    } catch (error) {
+      const match = String(error instanceof Error ? error.stack : '').match(/preview-probe\.js:(\d+)/);
+      if (match) return Number(match[1]) - 1;
+    }
+    return 0;
+  })();
+
+  const fail = (error: unknown, phase: PreviewError['phase']) => {
+    if (failed) return;
+    failed = true;
+
+    const located = error instanceof Error && 'previewFile' in error ? error as LocatedError : null;
+    let file: string | null = located?.previewFile ?? null;
+    let line: number | null = located?.previewLine ?? null;
+    let column: number | null = located?.previewColumn ?? null;
+    if (line === null) {
+      const frames = String(error instanceof Error ? error.stack || '' : '').matchAll(/([\w.-]+\.(?:tsx|jsx|ts|js)):(\d+):(\d+)/g);
+      for (const frame of Array.from(frames)) {
+        if (lineMapped.has(frame[1])) {
+          file = frame[1];
+          line = Number(frame[2]) - functionLineOffset;
+          column = Number(frame[3]);
+          break;
+        }
+      }
+    }
+
+    const lines = file !== null ? (config.files[file] || '').split('\n') : [];
+    const excerpt = line !== null
+      ? lines
+          .map((text, index) => ({ number: index + 1, text }))
+          .filter(({ number }) => Math.abs(number - (line as number)) <= 2)
+      : [];
+
+    post({
+      type: 'error',
+      error: {
+        phase,
+        message: error instanceof Error ? error.message : String(error),
+        file,
+        line,
+        column,
+        excerpt,
+      },
+    });
+  };
+
+  const locate = (error: unknown, file: string, line: number | undefined, column: number | undefined): LocatedError => {
+    const located = error instanceof Error ? error : new Error(typeof error === 'string' ? error : (error as VueCompileError).message);
+    return Object.assign(located, { previewFile: file, previewLine: line ?? null, previewColumn: column ?? null, previewPhase: 'compile' as const });
+  };
+
+  const fileFor = (specifier: string): string | null => {
+    if (!/^\.\.?\//.test(specifier)) return null;
+    const name = specifier.replace(/^.*\//, '').replace(extension, '');
+    return Object.keys(config.files).find(file => file.replace(extension, '') === name) ?? null;
+  };
+
+  const placeholderStyle = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    padding: '4px 8px',
+    border: '1px dashed #94a3b8',
+    borderRadius: '4px',
+    color: '#64748b',
+    font: '12px system-ui, sans-serif',
+  };
+
+  // Stand-ins for imports the preview cannot provide, e.g. a component library package
+  const placeholderModule = (specifier: string) => {
+    if (!placeholders.includes(specifier)) placeholders.push(specifier);
+    const cache: Record<string, unknown> = {};
+    const placeholder = (name: string) => {
+      if (config.framework === 'vue') {
+        return {
+          name,
+          setup: (_props: unknown, { slots }: { slots: { default?: () => unknown } }) => () =>
+            libs.vue.h('div', { style: placeholderStyle, title: specifier }, slots.default ? slots.default() : name),
+        };
+      }
+      return (props: { children?: ReactModule.ReactNode }) =>
+        libs.react.createElement('div', { style: placeholderStyle, title: specifier }, props.children ?? name);
+    };
+
+    return new Proxy({}, {
+      get: (_target, key) => {
+        if (key === '__esModule') return true;
+        if (typeof key !== 'string') return undefined;
+        const name = key === 'default' ? specifier.replace(/^.*\//, '') : key;
+        return cache[name] || (cache[name] = placeholder(name));
+      },
+    });
+  };
+
+  const requireModule = (specifier: string): unknown => {
+    if (specifier === 'react') return libs.react;
+    if (specifier === 'react-dom' || specifier === 'react-dom/client') return libs.reactDom;
+    if (specifier === 'vue') return libs.vue;
+    if (specifier === 'styled-components' && libs.styledComponents) return libs.styledComponents;
+
+    const file = fileFor(specifier);
+    if (file) return load(file);
+
+    // CSS modules resolve class names to themselves; the CSS itself is already in the document
+    if (/\.(css|scss|sass|less)$/.test(specifier)) {
+      return new Proxy({}, { get: (_target, key) => (typeof key === 'string' && key !== '__esModule' ? key : undefined) });
+    }
+    return placeholderModule(specifier);
+  };
+
+  const compileReact = (file: string, source: string): string => {
+    try {
+      const code = libs.sucrase.transform(source, {
+        transforms: ['jsx', 'typescript', 'imports'],
+        filePath: file,
+        production: true,
+      }).code;
+      lineMapped.add(file);
+      return code;
+    } catch (error) {
+      // sucrase's syntax errors carry the position of the offending token
+      const loc = error instanceof Error ? (error as Error & { loc?: { line: number; column: number } }).loc : undefined;
+      throw locate(error, file, loc?.line, loc?.column);
+    }
+  };
+
+  const compileVue = (file: string, source: string): string => {
+    const compiler = libs.vueCompiler;
+    const { descriptor, errors } = compiler.parse(source, { filename: file });
+    if (errors.length > 0) {
+      throw locate(errors[0], file, errors[0].loc?.start.line, errors[0].loc?.start.column);
+    }
+
+    descriptor.styles.forEach(style => {
+      const element = document.createElement('style');
+      element.textContent = style.content;
+      document.head.appendChild(element);
+    });
+
+    const id = `preview-${Object.keys(modules).length}`;
+    let code: string;
+    try {
+      if (descriptor.script || descriptor.scriptSetup) {
+        code = compiler.compileScript(descriptor, { id, inlineTemplate: true }).content;
+      } else {
+        const template = compiler.compileTemplate({ source: descriptor.template?.content ?? '', filename: file, id });
+        if (template.errors.length > 0) throw template.errors[0];
+        code = `${template.code}\nexport default { render };`;
+      }
+    } catch (error) {
+      const loc = error instanceof Error ? (error as Error & VueCompileError).loc : undefined;
+      throw locate(error, file, loc?.start.line, loc?.start.column);
+    }
+
+    return libs.sucrase.transform(code, { transforms: ['typescript', 'imports'] }).code;
+  };
+
+  const load = (file: string): ModuleExports => {
+    if (modules[file]) return modules[file].exports;
+
+    const module = { exports: {} as ModuleExports };
+    modules[file] = module;
+    const source = config.files[file];
+    const code = config.framework === 'vue' ? compileVue(file, source) : compileReact(file, source);
+    // Vue files get a different URL so their stack frames are not taken for source lines
+    const url = config.framework === 'vue' ? `${file}.js` : file;
+    new Function('require', 'module', 'exports', `${code}\n//# sourceURL=${url}`)(requireModule, module, module.exports);
+    return module.exports;
+  };
+
+  const applyTailwindConfig = () => {
+    if (!config.tailwindConfig) return;
+    try {
+      const module = { exports: {} as ModuleExports };
+      const code = libs.sucrase.transform(config.tailwindConfig, { transforms: ['typescript', 'imports'] }).code;
+      new Function('require', 'module', 'exports', code)(() => ({}), module, module.exports);
+      const tailwindConfig = { ...(module.exports.default ?? module.exports) as Record<string, unknown> };
+      // Plugins are npm packages the Play CDN cannot load
+      delete tailwindConfig.plugins;
+      window.tailwind!.config = tailwindConfig;
+    } catch (error) {
+      post({ type: 'warning', message: `tailwind.config could not be applied: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  };
+
+  const root = document.getElementById('preview-root') as HTMLElement;
+  window.addEventListener('error', event => fail(event.error ?? event.message, 'runtime'));
+  window.addEventListener('unhandledrejection', event => fail(event.reason, 'runtime'));
+
+  const render = () => {
+    if (config.framework === 'html') {
+      root.innerHTML = config.files[config.entry];
+      return;
+    }
+
+    const entry = load(config.entry);
+    const component = entry.default ?? entry[config.entry.replace(extension, '')];
+    if (!component) throw locate(new Error(`${config.entry} has no default export`), config.entry, undefined, undefined);
+
+    if (config.framework === 'vue') {
+      const app = libs.vue.createApp(component);
+      app.config.errorHandler = (error: unknown) => fail(error, 'runtime');
+      app.mount(root);
+      return;
+    }
+
+    const React = libs.react;
+    // Render errors go to the overlay instead of unmounting the preview silently
+    class Boundary extends React.Component<{ children?: ReactModule.ReactNode }, { failed: boolean }> {
+      constructor(props: { children?: ReactModule.ReactNode }) {
+        super(props);
+        this.state = { failed: false };
+      }
+
+      static getDerivedStateFromError() {
+        return { failed: true };
+      }
+
+      componentDidCatch(error: unknown) {
+        fail(error, 'runtime');
+      }
+
+      render() {
+        return this.state.failed ? null : this.props.children;
+      }
+    }
+
+    libs.reactDom.createRoot(root).render(
+      React.createElement(Boundary, null, React.createElement(component as ReactModule.ComponentType))
+    );
+  };
+
+  const names: Array<keyof PreviewConfig['modules']> = {
+    react: ['sucrase', 'react', 'reactDom'] as const,
+    vue: ['sucrase', 'vue', 'vueCompiler'] as const,
+    html: ['sucrase'] as const,
+  }[config.framework].slice();
+  if (config.styledComponents) names.push('styledComponents');
+  Promise.all(names.map(name => importModule(config.modules[name])))
+    .then(loaded => {
+      names.forEach((name, index) => {
+        Object.assign(libs, { [name]: loaded[index].default ?? loaded[index] });
+      });
+    })
+    .then(
+      () => {
+        applyTailwindConfig();
+        try {
+          render();
+          if (!failed) post({ type: 'rendered', placeholders });
+        } catch (error) {
+          fail(error, error instanceof Error && (error as Partial<LocatedError>).previewPhase === 'compile' ? 'compile' : 'runtime');
+        }
+      },
+      error => fail(new Error(`Could not load the preview runtime: ${error instanceof Error ? error.message : String(error)}`), 'load')
+    );
+}
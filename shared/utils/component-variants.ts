@@ -0,0 +1,148 @@
+import { FigmaNode } from '../types/figma';
+
+export interface VariantAxis {
+  name: string;
+  propName: string;
+  values: string[];
+  defaultValue: string;
+  isBoolean: boolean;
+}
+
+export interface ComponentVariant {
+  node: FigmaNode;
+  values: Record<string, string>;
+  key: string;
+}
+
+export interface ComponentVariantSet {
+  node: FigmaNode;
+  axes: VariantAxis[];
+  variants: ComponentVariant[];
+  defaultVariant: ComponentVariant;
+}
+
+// Variant values are joined into a single lookup key, e.g. "Small|Hover"
+export const VARIANT_KEY_SEPARATOR = '|';
+
+const RESERVED_PROP_NAMES = new Set([
+  'children', 'className', 'class', 'style', 'src', 'alt', 'key', 'ref',
+  'default', 'new', 'delete', 'in', 'for', 'if', 'switch', 'case', 'function', 'var', 'let', 'const'
+]);
+
+/**
+ * Parses a Figma variant component name ("Size=Small, State=Hover") into its property values.
+ * Names without "=" pairs return an empty record.
+ */
+export function parseVariantName(name: string): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  name.split(',').forEach(pair => {
+    const separator = pair.indexOf('=');
+    if (separator === -1) return;
+
+    const property = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (property && value) {
+      values[property] = value;
+    }
+  });
+
+  return values;
+}
+
+// Figma property or layer name -> prop name ("Has Icon" -> "hasIcon"); names that would clash
+// with generated props get a "Variant" suffix
+export function toPropName(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+
+  const camel = words
+    .map((word, index) => index === 0
+      ? word.toLowerCase()
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+
+  const propName = /^[0-9]/.test(camel) ? `variant${camel}` : camel || 'variant';
+  return RESERVED_PROP_NAMES.has(propName) ? `${propName}Variant` : propName;
+}
+
+function isBooleanAxis(values: string[]): boolean {
+  return values.length > 0 && values.every(value => /^(true|false)$/i.test(value));
+}
+
+/**
+ * Collapses a COMPONENT_SET node into its variant axes and variant components. Axes come from
+ * componentPropertyDefinitions when the file provides them, otherwise from the variant names.
+ * Returns null for anything that is not a component set with at least one variant.
+ */
+export function resolveVariantSet(node: FigmaNode): ComponentVariantSet | null {
+  if (node.type !== 'COMPONENT_SET') return null;
+
+  const components = (node.children || []).filter(child => child.type === 'COMPONENT');
+  if (components.length === 0) return null;
+
+  const parsed = components.map(component => ({ node: component, values: parseVariantName(component.name) }));
+  const definitions = Object.entries(node.componentPropertyDefinitions || {})
+    .filter(([, definition]) => definition.type === 'VARIANT');
+
+  const axisNames = definitions.length > 0
+    ? definitions.map(([name]) => name)
+    : Array.from(new Set(parsed.flatMap(variant => Object.keys(variant.values))));
+
+  const usedPropNames = new Set<string>();
+  const axes: VariantAxis[] = axisNames.map(name => {
+    const definition = node.componentPropertyDefinitions?.[name];
+    const seen = parsed.map(variant => variant.values[name]).filter((value): value is string => Boolean(value));
+    const rawValues = Array.from(new Set([...(definition?.variantOptions || []), ...seen]));
+    const isBoolean = isBooleanAxis(rawValues);
+    const values = isBoolean ? Array.from(new Set(rawValues.map(value => value.toLowerCase()))) : rawValues;
+
+    // Figma treats the first (top-left) variant as the default when no definition says otherwise
+    const rawDefault = definition?.defaultValue !== undefined ? String(definition.defaultValue) : seen[0] ?? values[0];
+    const defaultValue = isBoolean ? rawDefault.toLowerCase() : rawDefault;
+
+    let propName = toPropName(name);
+    while (usedPropNames.has(propName)) {
+      propName = `${propName}Variant`;
+    }
+    usedPropNames.add(propName);
+
+    return { name, propName, values, defaultValue, isBoolean };
+  }).filter(axis => axis.values.length > 0);
+
+  if (axes.length === 0) return null;
+
+  const variants: ComponentVariant[] = parsed.map(({ node: component, values }) => {
+    const normalized: Record<string, string> = {};
+    axes.forEach(axis => {
+      const value = values[axis.name] ?? axis.defaultValue;
+      normalized[axis.name] = axis.isBoolean ? value.toLowerCase() : value;
+    });
+    return { node: component, values: normalized, key: variantKey(axes, normalized) };
+  });
+
+  const defaultKey = variantKey(axes, Object.fromEntries(axes.map(axis => [axis.name, axis.defaultValue])));
+  const defaultVariant = variants.find(variant => variant.key === defaultKey) || variants[0];
+
+  return { node, axes, variants, defaultVariant };
+}
+
+export function variantKey(axes: VariantAxis[], values: Record<string, string>): string {
+  return axes.map(axis => values[axis.name] ?? axis.defaultValue).join(VARIANT_KEY_SEPARATOR);
+}
+
+// Runtime expression producing the lookup key from the props, e.g. "[size, state].join('|')"
+export function variantKeyExpression(axes: VariantAxis[], accessorPrefix = ''): string {
+  return `[${axes.map(axis => `${accessorPrefix}${axis.propName}`).join(', ')}].join('${VARIANT_KEY_SEPARATOR}')`;
+}
+
+export function variantValueLiteral(axis: VariantAxis, value: string): string {
+  return axis.isBoolean ? value : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// TypeScript type of the axis prop: a string literal union, or boolean for true/false axes
+export function variantTypeLiteral(axis: VariantAxis): string {
+  return axis.isBoolean ? 'boolean' : axis.values.map(value => variantValueLiteral(axis, value)).join(' | ');
+}
@@ -144,3 +144,6 @@ export const FIGMA_NODE_TYPES = {
   COMPONENT_SET: 'COMPONENT_SET',
   INSTANCE: 'INSTANCE'
 } as const;
+
+// Recorded with every project version; bump it when the generated output changes
+export const GENERATOR_VERSION = '1.0.0';
@@ -46,3 +46,11 @@ export class AccessibilityError extends CodeGenerationError {
     this.name = 'AccessibilityError';
   }
 }
+
+// A feature the deployment has not been set up for; the setting names what to configure
+export class ConfigurationError extends CodeGenerationError {
+  constructor(message: string, public readonly setting?: string) {
+    super(message);
+    this.name = 'ConfigurationError';
+  }
+}
@@ -0,0 +1,59 @@
+import { FigmaNode } from '../types/figma';
+
+export type AssetFormat = 'svg' | 'png';
+
+export interface AssetNode {
+  node: FigmaNode;
+  format: AssetFormat;
+}
+
+// Shapes Figma can only describe as vector paths; they are exported as SVG
+const VECTOR_NODE_TYPES = new Set(['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'REGULAR_POLYGON']);
+
+export const ASSET_MIME_TYPES: Record<AssetFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png'
+};
+
+// Public path generated markup uses for an asset; the exported project serves it from public/assets
+export const ASSET_PUBLIC_PATH = '/assets';
+
+/**
+ * Whether a node is rendered from an exported image instead of markup: image fills become PNGs,
+ * vector shapes become SVGs
+ */
+export function assetFormat(node: FigmaNode): AssetFormat | null {
+  if (node.visible === false) return null;
+  if (node.fills?.some(fill => fill.type === 'IMAGE' && fill.visible !== false)) return 'png';
+  if (VECTOR_NODE_TYPES.has(node.type)) return 'svg';
+  return null;
+}
+
+/**
+ * Every node of the tree that needs an exported image. The subtree of an asset node is part of
+ * its image, so it is not searched further.
+ */
+export function collectAssetNodes(root: FigmaNode): AssetNode[] {
+  const assets: AssetNode[] = [];
+
+  const traverse = (node: FigmaNode) => {
+    const format = assetFormat(node);
+    if (format) {
+      assets.push({ node, format });
+      return;
+    }
+    node.children?.forEach(traverse);
+  };
+
+  traverse(root);
+  return assets;
+}
+
+/**
+ * A stable file name for the asset of a node, e.g. "hero-image-12-34.png"
+ */
+export function assetFileName(node: FigmaNode, format: AssetFormat): string {
+  const slug = node.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'asset';
+  const id = node.id.replace(/[^a-zA-Z0-9]+/g, '-');
+  return `${slug}-${id}.${format}`;
+}
@@ -0,0 +1,318 @@
+import { FigmaApiResponse, FigmaNode } from '../types/figma';
+import {
+  ComponentDiff,
+  CssPropertyDiff,
+  DiffHunk,
+  DiffLine,
+  NodeDiff,
+  RegenerationDiff
+} from '../types/generator';
+import { NodeFinder } from './node-finder';
+
+// The parts of a generated component the diff looks at; stored records and fresh results both fit
+export interface DiffableComponent {
+  name: string;
+  jsx: string;
+  css: string;
+  metadata?: { figmaNodeId?: string };
+}
+
+export interface GenerationSnapshot {
+  figmaData: FigmaApiResponse;
+  components: DiffableComponent[];
+}
+
+// Unchanged lines shown around each change, as in a unified diff
+const CONTEXT_LINES = 3;
+
+// Above this many line pairs the LCS table gets too large; the texts are shown as replaced instead
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compares two generations of a project component by component (matched by name): the Figma
+ * nodes under each component root, the CSS declarations and the generated markup and CSS text.
+ * Components without any difference are only counted.
+ */
+export function diffGeneration(
+  previous: GenerationSnapshot,
+  next: GenerationSnapshot,
+  fromVersion: number,
+  toVersion: number
+): RegenerationDiff {
+  const previousByName = new Map(previous.components.map(component => [component.name, component]));
+  const nextByName = new Map(next.components.map(component => [component.name, component]));
+  const names = [
+    ...Array.from(previousByName.keys()),
+    ...Array.from(nextByName.keys()).filter(name => !previousByName.has(name))
+  ];
+
+  const previousFinder = new NodeFinder(previous.figmaData);
+  const nextFinder = new NodeFinder(next.figmaData);
+  const rootOf = (finder: NodeFinder, component?: DiffableComponent) => {
+    const nodeId = component?.metadata?.figmaNodeId;
+    return nodeId ? finder.findNodeById(nodeId) : null;
+  };
+
+  const components: ComponentDiff[] = [];
+  let unchanged = 0;
+
+  names.forEach(name => {
+    const before = previousByName.get(name);
+    const after = nextByName.get(name);
+
+    const nodes = diffNodes(rootOf(previousFinder, before), rootOf(nextFinder, after));
+    const css = diffCssProperties(before?.css || '', after?.css || '');
+    const code = {
+      markup: diffLines(before?.jsx || '', after?.jsx || ''),
+      css: diffLines(before?.css || '', after?.css || '')
+    };
+
+    const status = !before ? 'added' : !after ? 'removed'
+      : nodes.length > 0 || css.length > 0 || code.markup.length > 0 || code.css.length > 0 ? 'changed' : null;
+    if (status) {
+      components.push({ name, status, nodes, css, code });
+    } else {
+      unchanged++;
+    }
+  });
+
+  const count = (status: ComponentDiff['status']) => components.filter(component => component.status === status).length;
+
+  return {
+    fromVersion,
+    toVersion,
+    components,
+    summary: { added: count('added'), removed: count('removed'), changed: count('changed'), unchanged }
+  };
+}
+
+/**
+ * Nodes added, removed or changed under two versions of a component root, matched by node ID.
+ * A node counts as changed when any of its own properties (not its children) differs.
+ */
+export function diffNodes(before: FigmaNode | null, after: FigmaNode | null): NodeDiff[] {
+  const beforeNodes = indexNodes(before);
+  const afterNodes = indexNodes(after);
+  const diffs: NodeDiff[] = [];
+
+  beforeNodes.forEach((node, id) => {
+    const updated = afterNodes.get(id);
+    if (!updated) {
+      diffs.push({ nodeId: id, name: node.name, type: node.type, status: 'removed' });
+      return;
+    }
+
+    const properties = changedProperties(node, updated);
+    if (properties.length > 0) {
+      diffs.push({ nodeId: id, name: updated.name, type: updated.type, status: 'changed', properties });
+    }
+  });
+
+  afterNodes.forEach((node, id) => {
+    if (!beforeNodes.has(id)) {
+      diffs.push({ nodeId: id, name: node.name, type: node.type, status: 'added' });
+    }
+  });
+
+  return diffs;
+}
+
+/**
+ * Declarations that were added, removed or given a new value, per selector. Nested blocks
+ * (media queries, SCSS nesting) are keyed by their full selector path.
+ */
+export function diffCssProperties(before: string, after: string): CssPropertyDiff[] {
+  const beforeRules = parseDeclarations(before);
+  const afterRules = parseDeclarations(after);
+  const diffs: CssPropertyDiff[] = [];
+
+  const selectors = new Set([...Array.from(beforeRules.keys()), ...Array.from(afterRules.keys())]);
+  selectors.forEach(selector => {
+    const beforeDeclarations = beforeRules.get(selector) || new Map<string, string>();
+    const afterDeclarations = afterRules.get(selector) || new Map<string, string>();
+    const properties = new Set([...Array.from(beforeDeclarations.keys()), ...Array.from(afterDeclarations.keys())]);
+
+    properties.forEach(property => {
+      const beforeValue = beforeDeclarations.get(property);
+      const afterValue = afterDeclarations.get(property);
+      if (beforeValue !== afterValue) {
+        diffs.push({ selector, property, before: beforeValue, after: afterValue });
+      }
+    });
+  });
+
+  return diffs;
+}
+
+/**
+ * A line-based unified diff (longest common subsequence) grouped into hunks with context lines.
+ * Identical texts give no hunks.
+ */
+export function diffLines(before: string, after: string): DiffHunk[] {
+  if (before === after) return [];
+
+  const beforeLines = before ? before.split('\n') : [];
+  const afterLines = after ? after.split('\n') : [];
+
+  // The common head and tail never change, so the LCS only runs over the middle
+  let prefix = 0;
+  while (prefix < beforeLines.length && prefix < afterLines.length && beforeLines[prefix] === afterLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < beforeLines.length - prefix &&
+    suffix < afterLines.length - prefix &&
+    beforeLines[beforeLines.length - 1 - suffix] === afterLines[afterLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const lines: DiffLine[] = [
+    ...beforeLines.slice(0, prefix).map(text => ({ type: 'context' as const, text })),
+    ...diffMiddle(
+      beforeLines.slice(prefix, beforeLines.length - suffix),
+      afterLines.slice(prefix, afterLines.length - suffix)
+    ),
+    ...beforeLines.slice(beforeLines.length - suffix).map(text => ({ type: 'context' as const, text }))
+  ];
+
+  return groupHunks(lines);
+}
+
+function diffMiddle(before: string[], after: string[]): DiffLine[] {
+  const removed = before.map(text => ({ type: 'removed' as const, text }));
+  const added = after.map(text => ({ type: 'added' as const, text }));
+  if (before.length === 0 || after.length === 0 || before.length * after.length > MAX_LCS_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const width = after.length + 1;
+  const lengths = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = before[i] === after[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      lines.push({ type: 'context', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      lines.push(removed[i++]);
+    } else {
+      lines.push(added[j++]);
+    }
+  }
+
+  return [...lines, ...removed.slice(i), ...added.slice(j)];
+}
+
+function groupHunks(lines: DiffLine[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  // Context lines seen since the last change, not yet placed in a hunk
+  let pending: DiffLine[] = [];
+  let beforeLine = 1;
+  let afterLine = 1;
+
+  lines.forEach(line => {
+    if (line.type === 'context') {
+      pending.push(line);
+      if (current && pending.length > CONTEXT_LINES * 2) {
+        current.lines.push(...pending.slice(0, CONTEXT_LINES));
+        hunks.push(current);
+        current = null;
+        pending = pending.slice(CONTEXT_LINES);
+      }
+    } else {
+      if (!current) {
+        const context = pending.slice(-CONTEXT_LINES);
+        current = {
+          beforeStart: beforeLine - context.length,
+          afterStart: afterLine - context.length,
+          lines: context
+        };
+      } else {
+        current.lines.push(...pending);
+      }
+      pending = [];
+      current.lines.push(line);
+    }
+
+    if (line.type !== 'added') beforeLine++;
+    if (line.type !== 'removed') afterLine++;
+  });
+
+  if (current) {
+    (current as DiffHunk).lines.push(...pending.slice(0, CONTEXT_LINES));
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+function indexNodes(root: FigmaNode | null): Map<string, FigmaNode> {
+  const nodes = new Map<string, FigmaNode>();
+  const visit = (node: FigmaNode) => {
+    nodes.set(node.id, node);
+    node.children?.forEach(visit);
+  };
+  if (root) visit(root);
+  return nodes;
+}
+
+function changedProperties(before: FigmaNode, after: FigmaNode): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.delete('children');
+
+  return Array.from(keys).filter(key =>
+    JSON.stringify((before as any)[key]) !== JSON.stringify((after as any)[key])
+  );
+}
+
+function parseDeclarations(css: string): Map<string, Map<string, string>> {
+  const rules = new Map<string, Map<string, string>>();
+  const selectors: string[] = [];
+  let buffer = '';
+
+  const addDeclaration = (text: string) => {
+    const declaration = text.trim();
+    if (!declaration || selectors.length === 0) return;
+
+    // At-rules such as @apply have no colon: the rule name is the property
+    const separator = declaration.startsWith('@') ? declaration.search(/\s/) : declaration.indexOf(':');
+    if (separator <= 0) return;
+
+    const selector = selectors.join(' ');
+    const declarations = rules.get(selector) || new Map<string, string>();
+    declarations.set(declaration.slice(0, separator).trim(), declaration.slice(separator + 1).trim());
+    rules.set(selector, declarations);
+  };
+
+  for (const character of css.replace(/\/\*[\s\S]*?\*\//g, '')) {
+    if (character === '{') {
+      selectors.push(buffer.trim().replace(/\s+/g, ' '));
+      buffer = '';
+    } else if (character === '}') {
+      addDeclaration(buffer);
+      buffer = '';
+      selectors.pop();
+    } else if (character === ';') {
+      addDeclaration(buffer);
+      buffer = '';
+    } else {
+      buffer += character;
+    }
+  }
+
+  return rules;
+}
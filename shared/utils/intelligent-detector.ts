@@ -1,5 +1,6 @@
 
-import { FigmaNode, ComponentConfig } from '../types/figma-generator';
+import { FigmaNode } from '../types/figma';
+import { ComponentConfig } from '../types/generator';
 
 export interface DetectionResult {
   type: string;
@@ -8,9 +9,13 @@ export interface DetectionResult {
   suggestedName: string;
 }
 
+// Scores how well a node matches a component type, from 0 to 1
+export type ComponentTypeDetector = (node: FigmaNode) => number;
+
 export class IntelligentComponentDetector {
   private patterns = new Map<string, RegExp[]>();
   private semanticRules = new Map<string, (node: FigmaNode) => number>();
+  private detectors = new Map<string, ComponentTypeDetector>();
 
   constructor() {
     this.initializePatterns();
@@ -29,9 +34,18 @@ export class IntelligentComponentDetector {
       structuralResults
     );
 
+    // Registered detectors are specific to their type, so their score is used as is
+    this.detectors.forEach((detector, type) => {
+      combinedResults.set(type, Math.max(combinedResults.get(type) || 0, detector(node)));
+    });
+
     return this.selectBestMatch(combinedResults, node);
   }
 
+  registerDetector(type: string, detector: ComponentTypeDetector): void {
+    this.detectors.set(type, detector);
+  }
+
   private initializePatterns(): void {
     this.patterns.set('button', [
       /\b(button|btn|click|action)\b/i,
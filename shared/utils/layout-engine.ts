@@ -0,0 +1,505 @@
+import { FigmaNode } from '../types/figma';
+import { CSSStyles } from '../types/generator';
+
+export type SizingMode = 'FIXED' | 'HUG' | 'FILL';
+
+type Axis = 'horizontal' | 'vertical';
+
+// Where a constrained child sits along one axis of its frame, as CSS lengths
+interface AxisPlacement {
+  start?: string;
+  end?: string;
+  size?: string;
+  centered?: boolean;
+}
+
+export interface BreakpointOverride {
+  node: FigmaNode;
+  styles: CSSStyles;
+}
+
+// Returns a Tailwind class for a spacing utility and pixel value, or null to use the default scale
+export type TailwindSpacingResolver = (utility: string, pixels: number) => string | null;
+
+const JUSTIFY_CONTENT: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between'
+};
+
+const ALIGN_ITEMS: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  BASELINE: 'baseline'
+};
+
+const TAILWIND_JUSTIFY: Record<string, string> = {
+  MIN: 'justify-start',
+  CENTER: 'justify-center',
+  MAX: 'justify-end',
+  SPACE_BETWEEN: 'justify-between'
+};
+
+const TAILWIND_ITEMS: Record<string, string> = {
+  MIN: 'items-start',
+  CENTER: 'items-center',
+  MAX: 'items-end',
+  BASELINE: 'items-baseline'
+};
+
+// Keys of Tailwind's default spacing scale (in 4px units)
+const TAILWIND_SPACING_STEPS = new Set([
+  0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96
+]);
+
+const SIZE_PROPERTY: Record<Axis, 'width' | 'height'> = { horizontal: 'width', vertical: 'height' };
+
+const EDGE_PROPERTIES: Record<Axis, ['left', 'right'] | ['top', 'bottom']> = {
+  horizontal: ['left', 'right'],
+  vertical: ['top', 'bottom']
+};
+
+// Node types whose children keep Figma constraints when the frame has no auto-layout
+const CONSTRAINT_CONTAINERS = new Set(['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE', 'SECTION']);
+
+/**
+ * Maps Figma auto-layout (direction, alignment, wrap, grid, sizing modes, absolute children and
+ * min/max constraints) and the constraints of children in classic frames to CSS declarations and
+ * Tailwind classes. The parent is the node's container; pass nothing for the root of the
+ * generated component.
+ */
+export class LayoutEngine {
+  static isFlexLayout(node?: FigmaNode): boolean {
+    return node?.layoutMode === 'HORIZONTAL' || node?.layoutMode === 'VERTICAL';
+  }
+
+  static isAutoLayout(node?: FigmaNode): boolean {
+    return this.isFlexLayout(node) || node?.layoutMode === 'GRID';
+  }
+
+  /**
+   * Absolutely positioned children of an auto-layout frame are taken out of the flow
+   */
+  static isAbsolute(node: FigmaNode, parent?: FigmaNode): boolean {
+    return this.isAutoLayout(parent) && node.layoutPositioning === 'ABSOLUTE';
+  }
+
+  /**
+   * Children of a frame without auto-layout are placed by their horizontal and vertical constraints
+   */
+  static isConstrained(node: FigmaNode, parent?: FigmaNode): boolean {
+    return Boolean(
+      parent &&
+      CONSTRAINT_CONTAINERS.has(parent.type) &&
+      !this.isAutoLayout(parent) &&
+      node.absoluteBoundingBox &&
+      parent.absoluteBoundingBox
+    );
+  }
+
+  /**
+   * Resolve how the node is sized along an axis. Prefers layoutSizingHorizontal/Vertical and falls
+   * back to the legacy layoutGrow, layoutAlign and axis sizing mode fields, then text auto-resize.
+   */
+  static sizingMode(node: FigmaNode, axis: Axis, parent?: FigmaNode): SizingMode {
+    const explicit = axis === 'horizontal' ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+    if (explicit === 'FIXED' || explicit === 'HUG' || explicit === 'FILL') {
+      return explicit;
+    }
+
+    if (this.isFlexLayout(parent)) {
+      const primary = this.isPrimaryAxis(parent as FigmaNode, axis);
+      if (primary && node.layoutGrow === 1) return 'FILL';
+      if (!primary && node.layoutAlign === 'STRETCH') return 'FILL';
+    }
+
+    if (this.isFlexLayout(node)) {
+      const sizingMode = this.isPrimaryAxis(node, axis) ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+      if (sizingMode === 'AUTO') return 'HUG';
+    }
+
+    if (node.type === 'TEXT') {
+      const autoResize = node.style?.textAutoResize;
+      if (autoResize === 'WIDTH_AND_HEIGHT') return 'HUG';
+      if (autoResize === 'HEIGHT' && axis === 'vertical') return 'HUG';
+    }
+
+    return 'FIXED';
+  }
+
+  /**
+   * CSS declarations for the node's own layout and its sizing inside the parent
+   */
+  static resolveStyles(node: FigmaNode, parent?: FigmaNode): CSSStyles {
+    const styles: CSSStyles = {};
+    const absolute = this.isAbsolute(node, parent);
+    const inFlex = !absolute && this.isFlexLayout(parent);
+    const placement = this.isConstrained(node, parent) ? this.constraintPlacement(node, parent as FigmaNode) : null;
+
+    (['horizontal', 'vertical'] as Axis[]).forEach(axis => {
+      const property = SIZE_PROPERTY[axis];
+      const placedSize = placement?.[axis].size;
+      if (placedSize) {
+        styles[property] = placedSize;
+        return;
+      }
+
+      const minProperty = axis === 'horizontal' ? 'minWidth' : 'minHeight';
+      const hasMinimum = Boolean(node[minProperty]);
+      const primary = inFlex && this.isPrimaryAxis(parent as FigmaNode, axis);
+      const size = node.absoluteBoundingBox?.[property];
+
+      switch (absolute ? 'FIXED' : this.sizingMode(node, axis, parent)) {
+        case 'FIXED':
+          if (size !== undefined) styles[property] = `${size}px`;
+          if (primary) styles.flexShrink = 0;
+          break;
+        case 'HUG':
+          styles[property] = axis === 'horizontal' ? 'fit-content' : 'auto';
+          break;
+        case 'FILL':
+          if (primary) {
+            styles.flex = '1 1 0';
+            // Flex items never shrink below their content by default, Figma's fill does
+            if (!hasMinimum) styles[minProperty] = '0';
+          } else if (inFlex) {
+            styles.alignSelf = 'stretch';
+          } else if (!this.isAutoLayout(parent)) {
+            styles[property] = '100%';
+          }
+          break;
+      }
+    });
+
+    this.addConstraintStyles(node, styles);
+
+    if (absolute && parent) {
+      const { left, top } = this.offsetWithin(node, parent);
+      styles.position = 'absolute';
+      styles.left = `${left}px`;
+      styles.top = `${top}px`;
+    } else if (placement) {
+      styles.position = 'absolute';
+      (['horizontal', 'vertical'] as Axis[]).forEach(axis => {
+        const [startEdge, endEdge] = EDGE_PROPERTIES[axis];
+        if (placement[axis].start) styles[startEdge] = placement[axis].start;
+        if (placement[axis].end) styles[endEdge] = placement[axis].end;
+      });
+      if (placement.horizontal.centered || placement.vertical.centered) {
+        styles.transform = `translate(${placement.horizontal.centered ? '-50%' : '0'}, ${placement.vertical.centered ? '-50%' : '0'})`;
+      }
+    } else if (this.hasPositionedChildren(node)) {
+      styles.position = 'relative';
+    }
+
+    if (this.isFlexLayout(node)) {
+      styles.display = 'flex';
+      styles.flexDirection = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
+
+      if (node.primaryAxisAlignItems && JUSTIFY_CONTENT[node.primaryAxisAlignItems]) {
+        styles.justifyContent = JUSTIFY_CONTENT[node.primaryAxisAlignItems];
+      }
+      if (node.counterAxisAlignItems && ALIGN_ITEMS[node.counterAxisAlignItems]) {
+        styles.alignItems = ALIGN_ITEMS[node.counterAxisAlignItems];
+      }
+      if (node.layoutWrap === 'WRAP') {
+        styles.flexWrap = 'wrap';
+        if (node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+          styles.alignContent = 'space-between';
+        }
+      }
+
+      const { row, column } = this.flexGaps(node);
+      if (row || column) {
+        styles.gap = row === column ? `${row}px` : `${row}px ${column}px`;
+      }
+    } else if (node.layoutMode === 'GRID') {
+      styles.display = 'grid';
+      if (node.gridColumnCount) styles.gridTemplateColumns = `repeat(${node.gridColumnCount}, minmax(0, 1fr))`;
+      if (node.gridRowCount) styles.gridTemplateRows = `repeat(${node.gridRowCount}, auto)`;
+
+      const row = node.gridRowGap || 0;
+      const column = node.gridColumnGap || 0;
+      if (row || column) {
+        styles.gap = row === column ? `${row}px` : `${row}px ${column}px`;
+      }
+    }
+
+    return styles;
+  }
+
+  /**
+   * The same layout as resolveStyles, expressed as Tailwind utility classes. The optional spacing
+   * resolver can replace the default gap scale, e.g. with design token names.
+   */
+  static resolveTailwindClasses(node: FigmaNode, parent?: FigmaNode, spacing?: TailwindSpacingResolver): string[] {
+    const classes: string[] = [];
+    const absolute = this.isAbsolute(node, parent);
+    const inFlex = !absolute && this.isFlexLayout(parent);
+    const placement = this.isConstrained(node, parent) ? this.constraintPlacement(node, parent as FigmaNode) : null;
+
+    (['horizontal', 'vertical'] as Axis[]).forEach(axis => {
+      const prefix = axis === 'horizontal' ? 'w' : 'h';
+      const placedSize = placement?.[axis].size;
+      if (placedSize) {
+        classes.push(placedSize === 'auto' ? `${prefix}-auto` : `${prefix}-[${this.arbitraryValue(placedSize)}]`);
+        return;
+      }
+
+      const hasMinimum = Boolean(axis === 'horizontal' ? node.minWidth : node.minHeight);
+      const primary = inFlex && this.isPrimaryAxis(parent as FigmaNode, axis);
+      const size = node.absoluteBoundingBox?.[SIZE_PROPERTY[axis]];
+
+      switch (absolute ? 'FIXED' : this.sizingMode(node, axis, parent)) {
+        case 'FIXED':
+          if (size !== undefined) classes.push(`${prefix}-[${size}px]`);
+          if (primary) classes.push('shrink-0');
+          break;
+        case 'HUG':
+          classes.push(axis === 'horizontal' ? 'w-fit' : 'h-auto');
+          break;
+        case 'FILL':
+          if (primary) {
+            classes.push('flex-1');
+            if (!hasMinimum) classes.push(`min-${prefix}-0`);
+          } else if (inFlex) {
+            classes.push('self-stretch');
+          } else if (!this.isAutoLayout(parent)) {
+            classes.push(`${prefix}-full`);
+          }
+          break;
+      }
+    });
+
+    if (node.minWidth) classes.push(`min-w-[${node.minWidth}px]`);
+    if (node.maxWidth) classes.push(`max-w-[${node.maxWidth}px]`);
+    if (node.minHeight) classes.push(`min-h-[${node.minHeight}px]`);
+    if (node.maxHeight) classes.push(`max-h-[${node.maxHeight}px]`);
+
+    if (absolute && parent) {
+      const { left, top } = this.offsetWithin(node, parent);
+      classes.push('absolute', `left-[${left}px]`, `top-[${top}px]`);
+    } else if (placement) {
+      classes.push('absolute');
+      (['horizontal', 'vertical'] as Axis[]).forEach(axis => {
+        const [startEdge, endEdge] = EDGE_PROPERTIES[axis];
+        const { start, end, centered } = placement[axis];
+        if (start) classes.push(`${startEdge}-[${this.arbitraryValue(start)}]`);
+        if (end) classes.push(`${endEdge}-[${this.arbitraryValue(end)}]`);
+        if (centered) classes.push(axis === 'horizontal' ? '-translate-x-1/2' : '-translate-y-1/2');
+      });
+    } else if (this.hasPositionedChildren(node)) {
+      classes.push('relative');
+    }
+
+    if (this.isFlexLayout(node)) {
+      classes.push('flex', node.layoutMode === 'HORIZONTAL' ? 'flex-row' : 'flex-col');
+
+      if (node.primaryAxisAlignItems && TAILWIND_JUSTIFY[node.primaryAxisAlignItems]) {
+        classes.push(TAILWIND_JUSTIFY[node.primaryAxisAlignItems]);
+      }
+      if (node.counterAxisAlignItems && TAILWIND_ITEMS[node.counterAxisAlignItems]) {
+        classes.push(TAILWIND_ITEMS[node.counterAxisAlignItems]);
+      }
+      if (node.layoutWrap === 'WRAP') {
+        classes.push('flex-wrap');
+        if (node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+          classes.push('content-between');
+        }
+      }
+
+      const { row, column } = this.flexGaps(node);
+      classes.push(...this.tailwindGapClasses(row, column, spacing));
+    } else if (node.layoutMode === 'GRID') {
+      classes.push('grid');
+      if (node.gridColumnCount) classes.push(`grid-cols-${node.gridColumnCount}`);
+      if (node.gridRowCount) classes.push(`grid-rows-${node.gridRowCount}`);
+      classes.push(...this.tailwindGapClasses(node.gridRowGap || 0, node.gridColumnGap || 0, spacing));
+    }
+
+    return classes;
+  }
+
+  /**
+   * Styles that keep a classic frame usable when the viewport is narrower than its Figma width.
+   * The frame is resized to the given width the way Figma applies constraints; the frame itself
+   * and every fixed-width child that would overflow get a fluid max-width. Auto-layout frames
+   * reflow their own children, so only their outer size is clamped.
+   */
+  static breakpointOverrides(root: FigmaNode, viewportWidth: number): BreakpointOverride[] {
+    const overrides: BreakpointOverride[] = [];
+    const width = root.absoluteBoundingBox?.width;
+    if (!width || width <= viewportWidth) return overrides;
+
+    if (!root.maxWidth) {
+      overrides.push({ node: root, styles: { maxWidth: '100%' } });
+    }
+    this.collectOverflowingChildren(root, viewportWidth, overrides);
+
+    return overrides;
+  }
+
+  /**
+   * Convert pixels to a Tailwind spacing key, or an arbitrary value when off the default scale
+   */
+  static pxToSpacing(px: number): string {
+    const step = px / 4;
+    return TAILWIND_SPACING_STEPS.has(step) ? String(step) : `[${px}px]`;
+  }
+
+  private static hasPositionedChildren(node: FigmaNode): boolean {
+    return Boolean(node.children?.some(child => this.isAbsolute(child, node) || this.isConstrained(child, node)));
+  }
+
+  // LEFT/TOP pin the start edge, RIGHT/BOTTOM the end edge, LEFT_RIGHT/TOP_BOTTOM both edges
+  // (stretch), CENTER keeps the offset from the middle and SCALE keeps position and size as a
+  // percentage of the frame
+  private static constraintPlacement(node: FigmaNode, parent: FigmaNode): Record<Axis, AxisPlacement> {
+    return {
+      horizontal: this.axisPlacement(node, parent, 'horizontal', node.constraints?.horizontal),
+      vertical: this.axisPlacement(node, parent, 'vertical', node.constraints?.vertical)
+    };
+  }
+
+  private static axisPlacement(node: FigmaNode, parent: FigmaNode, axis: Axis, constraint?: string): AxisPlacement {
+    const { start, size, end, parentSize } = this.axisMetrics(node, parent, axis);
+
+    switch (constraint) {
+      case 'RIGHT':
+      case 'BOTTOM':
+        return { end: `${end}px` };
+      case 'LEFT_RIGHT':
+      case 'TOP_BOTTOM':
+        return { start: `${start}px`, end: `${end}px`, size: 'auto' };
+      case 'CENTER': {
+        const offset = this.round(start + size / 2 - parentSize / 2);
+        const position = offset === 0 ? '50%' : `calc(50% ${offset < 0 ? '-' : '+'} ${Math.abs(offset)}px)`;
+        return { start: position, centered: true };
+      }
+      case 'SCALE':
+        return { start: this.percentOf(start, parentSize), size: this.percentOf(size, parentSize) };
+      default:
+        return { start: `${start}px` };
+    }
+  }
+
+  private static axisMetrics(node: FigmaNode, parent: FigmaNode, axis: Axis) {
+    const property = SIZE_PROPERTY[axis];
+    const box = node.absoluteBoundingBox;
+    const parentBox = parent.absoluteBoundingBox;
+    if (!box || !parentBox) return { start: 0, size: 0, end: 0, parentSize: 0 };
+
+    const start = this.round(axis === 'horizontal' ? box.x - parentBox.x : box.y - parentBox.y);
+    const size = box[property];
+    const parentSize = parentBox[property];
+
+    return { start, size, end: this.round(parentSize - start - size), parentSize };
+  }
+
+  private static collectOverflowingChildren(frame: FigmaNode, frameWidth: number, overrides: BreakpointOverride[]): void {
+    if (this.isAutoLayout(frame)) return;
+
+    frame.children?.forEach(child => {
+      if (!this.isConstrained(child, frame)) return;
+
+      const { start, size, end, parentSize } = this.axisMetrics(child, frame, 'horizontal');
+      let resizedWidth = size;
+      let maxWidth: string | undefined;
+
+      switch (child.constraints?.horizontal) {
+        case 'LEFT_RIGHT':
+          resizedWidth = Math.max(frameWidth - start - end, 0);
+          break;
+        case 'SCALE':
+          resizedWidth = parentSize ? size * frameWidth / parentSize : size;
+          break;
+        case 'CENTER':
+          if (size > frameWidth) {
+            resizedWidth = frameWidth;
+            maxWidth = '100%';
+          }
+          break;
+        case 'RIGHT':
+          if (size > frameWidth - end) {
+            resizedWidth = Math.max(frameWidth - end, 0);
+            maxWidth = this.remainingWidth(end);
+          }
+          break;
+        default:
+          if (size > frameWidth - start) {
+            resizedWidth = Math.max(frameWidth - start, 0);
+            maxWidth = this.remainingWidth(start);
+          }
+      }
+
+      if (maxWidth && !child.maxWidth) {
+        overrides.push({ node: child, styles: { maxWidth } });
+      }
+      if (resizedWidth < size) {
+        this.collectOverflowingChildren(child, resizedWidth, overrides);
+      }
+    });
+  }
+
+  private static remainingWidth(inset: number): string {
+    return inset > 0 ? `calc(100% - ${inset}px)` : '100%';
+  }
+
+  private static percentOf(value: number, total: number): string {
+    return total ? `${this.round(value / total * 100)}%` : '0%';
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  // Tailwind arbitrary values cannot contain spaces; it restores them around calc() operators
+  private static arbitraryValue(value: string): string {
+    return value.replace(/\s+/g, '');
+  }
+
+  private static isPrimaryAxis(container: FigmaNode, axis: Axis): boolean {
+    return (container.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+  }
+
+  // Space-between distributes the free space itself, so Figma ignores the item spacing there
+  // Only horizontal layouts wrap in Figma; the spacing between wrapped rows is counterAxisSpacing
+  private static flexGaps(node: FigmaNode): { row: number; column: number } {
+    const itemSpacing = node.primaryAxisAlignItems === 'SPACE_BETWEEN' ? 0 : node.itemSpacing || 0;
+
+    if (node.layoutWrap === 'WRAP') {
+      return { row: node.counterAxisSpacing ?? node.itemSpacing ?? 0, column: itemSpacing };
+    }
+    return { row: itemSpacing, column: itemSpacing };
+  }
+
+  private static tailwindGapClasses(row: number, column: number, spacing?: TailwindSpacingResolver): string[] {
+    const gapClass = (utility: string, pixels: number) =>
+      spacing?.(utility, pixels) ?? `${utility}-${this.pxToSpacing(pixels)}`;
+
+    if (!row && !column) return [];
+    if (row === column) return [gapClass('gap', row)];
+
+    return [
+      ...(column ? [gapClass('gap-x', column)] : []),
+      ...(row ? [gapClass('gap-y', row)] : [])
+    ];
+  }
+
+  private static addConstraintStyles(node: FigmaNode, styles: CSSStyles): void {
+    if (node.minWidth) styles.minWidth = `${node.minWidth}px`;
+    if (node.maxWidth) styles.maxWidth = `${node.maxWidth}px`;
+    if (node.minHeight) styles.minHeight = `${node.minHeight}px`;
+    if (node.maxHeight) styles.maxHeight = `${node.maxHeight}px`;
+  }
+
+  private static offsetWithin(node: FigmaNode, parent: FigmaNode): { left: number; top: number } {
+    const box = node.absoluteBoundingBox;
+    const parentBox = parent.absoluteBoundingBox;
+    if (!box || !parentBox) return { left: 0, top: 0 };
+
+    return { left: box.x - parentBox.x, top: box.y - parentBox.y };
+  }
+}
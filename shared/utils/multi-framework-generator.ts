@@ -1,5 +1,14 @@
 
-import { ComponentConfig, GeneratedComponent } from '../types/figma-generator';
+import { GeneratedComponent } from '../types/figma';
+import { ComponentConfig } from '../types/generator';
+import {
+  ComponentLibrary,
+  LibraryDialect,
+  LibraryInstance,
+  isPackageImport,
+  libraryImports,
+  renderLibraryElement
+} from './component-library';
 
 export interface FrameworkAdapter {
   generateCode(config: ComponentConfig): string;
@@ -9,11 +18,25 @@ export interface FrameworkAdapter {
 
 export class MultiFrameworkGenerator {
   private adapters = new Map<string, FrameworkAdapter>();
+  private componentLibrary: ComponentLibrary | null = null;
 
   constructor() {
     this.initializeAdapters();
   }
 
+  registerAdapter(framework: string, adapter: FrameworkAdapter): void {
+    this.adapters.set(framework, adapter);
+  }
+
+  getAdapter(framework: string): FrameworkAdapter | undefined {
+    return this.adapters.get(framework);
+  }
+
+  // Instances of mapped Figma components become wrappers around the library component
+  setComponentLibrary(library: ComponentLibrary): void {
+    this.componentLibrary = library;
+  }
+
   generateForFramework(framework: string, config: ComponentConfig): GeneratedComponent {
     const adapter = this.adapters.get(framework);
     if (!adapter) {
@@ -21,8 +44,14 @@ export class MultiFrameworkGenerator {
     }
 
     const startTime = Date.now();
-    const jsx = adapter.generateCode(config);
-    const css = adapter.generateStyles(config);
+    const libraryInstance = config.node && this.componentLibrary?.resolve(config.node);
+    const jsx = libraryInstance
+      ? generateLibraryWrapper(framework as LibraryDialect, config, libraryInstance)
+      : adapter.generateCode(config);
+    const css = libraryInstance ? '' : adapter.generateStyles(config);
+    const libraryPackages = libraryInstance && isPackageImport(libraryInstance.mapping.importPath)
+      ? [libraryInstance.mapping.importPath]
+      : [];
 
     return {
       id: config.node?.id || `${framework}-${config.name}`,
@@ -37,7 +66,7 @@ export class MultiFrameworkGenerator {
         complexity: 'simple',
         estimatedAccuracy: 95,
         generationTime: Date.now() - startTime,
-        dependencies: adapter.getDependencies()
+        dependencies: [...adapter.getDependencies(), ...libraryPackages]
       }
     };
   }
@@ -46,6 +75,55 @@ export class MultiFrameworkGenerator {
     this.adapters.set('react', new ReactAdapter());
     this.adapters.set('vue', new VueAdapter());
     this.adapters.set('angular', new AngularAdapter());
+    this.adapters.set('svelte', new SvelteAdapter());
+  }
+}
+
+function generateLibraryWrapper(framework: LibraryDialect, config: ComponentConfig, instance: LibraryInstance): string {
+  const componentName = config.name;
+  const [libraryImport] = libraryImports([instance.mapping]);
+
+  switch (framework) {
+    case 'vue':
+      return `<template>
+${renderLibraryElement(instance, 'vue', '  ')}
+</template>
+
+<script setup${config.options.typescript ? ' lang="ts"' : ''}>
+${libraryImport}
+</script>`;
+    case 'svelte':
+      return `<script${config.options.typescript ? ' lang="ts"' : ''}>
+  ${libraryImport}
+</script>
+
+${renderLibraryElement(instance, 'svelte')}`;
+    case 'angular': {
+      const selector = componentName.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+      return `import { Component } from '@angular/core';
+${libraryImport}
+
+@Component({
+  selector: 'app-${selector}',
+  standalone: true,
+  imports: [${instance.mapping.componentName}],
+  template: \`
+${renderLibraryElement(instance, 'angular', '    ').replace(/`/g, '\\`')}
+  \`
+})
+export class ${componentName}Component {}`;
+    }
+    default:
+      return `import React from 'react';
+${libraryImport}
+
+export const ${componentName} = () => {
+  return (
+${renderLibraryElement(instance, 'react', '    ')}
+  );
+};
+
+export default ${componentName};`;
   }
 }
 
@@ -127,14 +205,17 @@ interface Props {
 class AngularAdapter implements FrameworkAdapter {
   generateCode(config: ComponentConfig): string {
     const componentName = config.name;
-    const selector = config.name.toLowerCase().replace(/([A-Z])/g, '-$1').toLowerCase();
+    const selector = componentName.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
 
     return `import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
 
 @Component({
   selector: 'app-${selector}',
+  standalone: true,
+  imports: [CommonModule],
   template: \`
-    <div [class]="${componentName.toLowerCase()} + ' ' + (className || '')" [attr.class]="className">
+    <div [ngClass]="['${componentName.toLowerCase()}', className || '']">
       <ng-content></ng-content>
     </div>
   \`,
@@ -152,6 +233,37 @@ export class ${componentName}Component {
   }
 
   getDependencies(): string[] {
-    return ['@angular/core'];
+    return ['@angular/core', '@angular/common'];
+  }
+}
+
+class SvelteAdapter implements FrameworkAdapter {
+  generateCode(config: ComponentConfig): string {
+    const componentName = config.name;
+
+    return `<script${config.options.typescript ? ' lang="ts"' : ''}>
+  let className${config.options.typescript ? ': string' : ''} = '';
+  export { className as class };
+</script>
+
+<div class="${componentName.toLowerCase()} {className}" {...$$restProps}>
+  <slot />
+</div>
+
+<style>
+  .${componentName.toLowerCase()} {
+    display: block;
+  }
+</style>`;
+  }
+
+  generateStyles(config: ComponentConfig): string {
+    return `.${config.name.toLowerCase()} {
+  display: block;
+}`;
+  }
+
+  getDependencies(): string[] {
+    return ['svelte'];
   }
 }
@@ -0,0 +1,207 @@
+import { FigmaNode, GeneratedComponent } from '../types/figma';
+import { CodeGenerationOptions, ComponentConfig } from '../types/generator';
+import { ComponentTypeDetector, IntelligentComponentDetector } from './intelligent-detector';
+import { ComponentTemplate, TemplateEngine } from './template-engine';
+import { FrameworkAdapter, MultiFrameworkGenerator } from './multi-framework-generator';
+import { CodeGenerationError, ValidationError } from './errors';
+
+// Below this confidence a node keeps the built-in generation even if a plugin detector matched
+export const PLUGIN_DETECTION_THRESHOLD = 0.5;
+
+// Adapters replace a supported framework's output; they cannot add new frameworks
+const PLUGIN_FRAMEWORKS = ['react', 'vue', 'html', 'angular', 'svelte'];
+
+export interface ComponentPostProcessContext {
+  node: FigmaNode;
+  options: CodeGenerationOptions;
+  // The plugin component type the node was detected as, or null
+  pluginType: string | null;
+}
+
+// Returns a replacement component, or changes the given one in place and returns nothing
+export type ComponentPostProcessor = (
+  component: GeneratedComponent,
+  context: ComponentPostProcessContext
+) => GeneratedComponent | void;
+
+/**
+ * What a plugin module exports (as its default export or as `plugin`). Detectors classify Figma
+ * nodes as the plugin's own component types, templates render those types, framework adapters
+ * replace the built-in output of a framework and post-processors see every generated component.
+ */
+export interface GeneratorPlugin {
+  name: string;
+  version?: string;
+  description?: string;
+  detectors?: Record<string, ComponentTypeDetector>;
+  templates?: Record<string, ComponentTemplate>;
+  frameworks?: Partial<Record<CodeGenerationOptions['framework'], FrameworkAdapter>>;
+  postProcess?: ComponentPostProcessor | ComponentPostProcessor[];
+}
+
+export interface PluginSummary {
+  name: string;
+  version: string | null;
+  description: string | null;
+  // The file or directory the plugin was loaded from
+  source: string;
+  detectors: string[];
+  templates: string[];
+  frameworks: string[];
+  postProcessors: number;
+}
+
+export class PluginRegistry {
+  private plugins: PluginSummary[] = [];
+  private detector = new IntelligentComponentDetector();
+  private templateEngine = new TemplateEngine();
+  private frameworkGenerator = new MultiFrameworkGenerator();
+  private detectorTypes = new Set<string>();
+  private templateTypes = new Set<string>();
+  private frameworks = new Set<string>();
+  private postProcessors: Array<{ plugin: string; process: ComponentPostProcessor }> = [];
+
+  /**
+   * Adds a plugin's contributions. Later plugins override the detectors, templates and
+   * framework adapters of earlier ones with the same key.
+   */
+  register(plugin: unknown, source: string): GeneratorPlugin {
+    const validPlugin = this.validate(plugin);
+    if (this.plugins.some(registered => registered.name === validPlugin.name)) {
+      throw new ValidationError(`A plugin named "${validPlugin.name}" is already registered`, 'name');
+    }
+
+    const detectors = Object.entries(validPlugin.detectors || {});
+    const templates = Object.entries(validPlugin.templates || {});
+    const frameworks = Object.entries(validPlugin.frameworks || {}) as Array<[string, FrameworkAdapter]>;
+    const postProcessors = ([] as ComponentPostProcessor[]).concat(validPlugin.postProcess || []);
+
+    detectors.forEach(([type, detector]) => {
+      this.detector.registerDetector(type, detector);
+      this.detectorTypes.add(type);
+    });
+    templates.forEach(([type, template]) => {
+      this.templateEngine.registerTemplate(type, template);
+      this.templateTypes.add(type);
+    });
+    frameworks.forEach(([framework, adapter]) => {
+      this.frameworkGenerator.registerAdapter(framework, adapter);
+      this.frameworks.add(framework);
+    });
+    postProcessors.forEach(process => this.postProcessors.push({ plugin: validPlugin.name, process }));
+
+    this.plugins.push({
+      name: validPlugin.name,
+      version: validPlugin.version ?? null,
+      description: validPlugin.description ?? null,
+      source,
+      detectors: detectors.map(([type]) => type),
+      templates: templates.map(([type]) => type),
+      frameworks: frameworks.map(([framework]) => framework),
+      postProcessors: postProcessors.length
+    });
+
+    return validPlugin;
+  }
+
+  list(): PluginSummary[] {
+    return this.plugins;
+  }
+
+  /**
+   * The plugin component type a node is detected as. Plugin detectors compete with the built-in
+   * heuristics, so a node only gets a plugin type when that type scores best.
+   */
+  detect(node: FigmaNode): string | null {
+    if (this.detectorTypes.size === 0) return null;
+
+    const result = this.detector.detectComponentType(node);
+    return this.detectorTypes.has(result.type) && result.confidence >= PLUGIN_DETECTION_THRESHOLD
+      ? result.type
+      : null;
+  }
+
+  /**
+   * Replaces the built-in output of a component with the plugins' output: the framework adapter
+   * for the target framework first, then the template of the detected plugin type.
+   */
+  generate(component: GeneratedComponent, config: ComponentConfig): GeneratedComponent {
+    const adapter = this.frameworks.has(config.options.framework)
+      ? this.frameworkGenerator.getAdapter(config.options.framework)
+      : undefined;
+    if (adapter) {
+      component.jsx = adapter.generateCode(config);
+      component.css = adapter.generateStyles(config);
+      component.metadata.dependencies = adapter.getDependencies();
+    }
+
+    if (this.templateTypes.has(config.type)) {
+      component.jsx = this.templateEngine.generateComponent(config.type, config);
+    }
+    if (this.detectorTypes.has(config.type)) {
+      component.metadata.componentType = config.type;
+    }
+
+    return component;
+  }
+
+  // Runs every post-processor in registration order
+  postProcess(component: GeneratedComponent, context: ComponentPostProcessContext): GeneratedComponent {
+    return this.postProcessors.reduce((current, { plugin, process }) => {
+      try {
+        return process(current, context) || current;
+      } catch (error) {
+        throw new CodeGenerationError(
+          `Plugin ${plugin} post-processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          context.node.id,
+          context.pluginType ?? undefined,
+          error instanceof Error ? error : undefined
+        );
+      }
+    }, component);
+  }
+
+  private validate(plugin: unknown): GeneratorPlugin {
+    if (!plugin || typeof plugin !== 'object') {
+      throw new ValidationError('A plugin module must export a plugin object');
+    }
+
+    const candidate = plugin as Record<string, unknown>;
+    if (typeof candidate.name !== 'string' || !candidate.name.trim()) {
+      throw new ValidationError('A plugin must have a name', 'name');
+    }
+
+    const checkEntries = (field: string, isValid: (value: any) => boolean, expected: string) => {
+      const entries = candidate[field];
+      if (entries === undefined) return;
+      if (!entries || typeof entries !== 'object') {
+        throw new ValidationError(`Plugin ${candidate.name}: ${field} must be an object`, field);
+      }
+      Object.entries(entries).forEach(([key, value]) => {
+        if (!isValid(value)) {
+          throw new ValidationError(`Plugin ${candidate.name}: ${field}.${key} must be ${expected}`, field);
+        }
+      });
+    };
+
+    checkEntries('detectors', value => typeof value === 'function', 'a function');
+    checkEntries('templates', value => typeof value?.render === 'function', 'an object with a render method');
+    checkEntries(
+      'frameworks',
+      value => ['generateCode', 'generateStyles', 'getDependencies'].every(method => typeof value?.[method] === 'function'),
+      'an object with generateCode, generateStyles and getDependencies methods'
+    );
+    Object.keys(candidate.frameworks || {}).forEach(framework => {
+      if (!PLUGIN_FRAMEWORKS.includes(framework)) {
+        throw new ValidationError(`Plugin ${candidate.name}: unsupported framework ${framework}`, 'frameworks');
+      }
+    });
+
+    const postProcess = candidate.postProcess;
+    if (postProcess !== undefined && !([] as unknown[]).concat(postProcess).every(value => typeof value === 'function')) {
+      throw new ValidationError(`Plugin ${candidate.name}: postProcess must be a function or an array of functions`, 'postProcess');
+    }
+
+    return candidate as unknown as GeneratorPlugin;
+  }
+}
@@ -0,0 +1,283 @@
+import { describe, expect, it } from 'vitest';
+import { extractProtectedRegions, mergeProtectedRegions } from './protected-regions';
+
+const lines = (...parts: string[]) => parts.join('\n');
+
+describe('mergeProtectedRegions', () => {
+  describe('anchors', () => {
+    it('inserts a region after the exact anchor line', () => {
+      const previous = lines(
+        'export const Card = () => {',
+        '  // @figma-keep-start state',
+        '  const [open, setOpen] = useState(false);',
+        '  // @figma-keep-end',
+        '  return <div />;',
+        '};'
+      );
+      const generated = lines('export const Card = () => {', '  return <section />;', '};');
+
+      expect(mergeProtectedRegions(previous, generated)).toEqual({
+        code: lines(
+          'export const Card = () => {',
+          '  // @figma-keep-start state',
+          '  const [open, setOpen] = useState(false);',
+          '  // @figma-keep-end',
+          '  return <section />;',
+          '};'
+        ),
+        conflicts: []
+      });
+    });
+
+    it('finds an anchor whose numbers and colors changed in Figma', () => {
+      const previous = lines(
+        '.card {',
+        '  width: 320px;',
+        '  /* @figma-keep-start hover */',
+        '  transition: transform 0.2s;',
+        '  /* @figma-keep-end */',
+        '  color: #1a1a1a;',
+        '}'
+      );
+      const generated = lines('.card {', '  width: 360px;', '  color: #222222;', '}');
+
+      expect(mergeProtectedRegions(previous, generated).code).toBe(lines(
+        '.card {',
+        '  width: 360px;',
+        '  /* @figma-keep-start hover */',
+        '  transition: transform 0.2s;',
+        '  /* @figma-keep-end */',
+        '  color: #222222;',
+        '}'
+      ));
+    });
+
+    it('finds an element by tag and classes when its other attributes changed', () => {
+      const previous = lines(
+        '    <div className="card p-4" style={{ width: "320px" }}>',
+        '      {/* @figma-keep-start badge */}',
+        '      <Badge />',
+        '      {/* @figma-keep-end */}',
+        '    </div>'
+      );
+      const generated = lines('    <div className="card p-4" role="group">', '    </div>');
+
+      const { code, conflicts } = mergeProtectedRegions(previous, generated);
+
+      expect(conflicts).toEqual([]);
+      expect(code).toBe(lines(
+        '    <div className="card p-4" role="group">',
+        '      {/* @figma-keep-start badge */}',
+        '      <Badge />',
+        '      {/* @figma-keep-end */}',
+        '    </div>'
+      ));
+    });
+
+    it('follows the same occurrence of an anchor that appears several times', () => {
+      const previous = lines(
+        '<li class="item">',
+        '</li>',
+        '<li class="item">',
+        '<!-- @figma-keep-start second -->',
+        '<em>new</em>',
+        '<!-- @figma-keep-end -->',
+        '</li>'
+      );
+      const generated = lines('<li class="item">', '</li>', '<li class="item">', '</li>', '<li class="item">', '</li>');
+
+      expect(mergeProtectedRegions(previous, generated).code).toBe(lines(
+        '<li class="item">',
+        '</li>',
+        '<li class="item">',
+        '<!-- @figma-keep-start second -->',
+        '<em>new</em>',
+        '<!-- @figma-keep-end -->',
+        '</li>',
+        '<li class="item">',
+        '</li>'
+      ));
+    });
+
+    it('keeps a region that opens the file at the start', () => {
+      const previous = lines('// @figma-keep-start header', "import './polyfills';", '// @figma-keep-end', 'import React from "react";');
+      const generated = lines('import React from "react";', 'export default null;');
+
+      expect(mergeProtectedRegions(previous, generated).code).toBe(lines(
+        '// @figma-keep-start header',
+        "import './polyfills';",
+        '// @figma-keep-end',
+        'import React from "react";',
+        'export default null;'
+      ));
+    });
+
+    it('reports a region whose anchor no longer exists', () => {
+      const previous = lines('<aside class="sidebar">', '<!-- @figma-keep-start ad -->', '<Ad />', '<!-- @figma-keep-end -->', '</aside>');
+      const generated = lines('<main class="content">', '</main>');
+
+      const { code, conflicts } = mergeProtectedRegions(previous, generated);
+
+      expect(code).toBe(generated);
+      expect(conflicts).toEqual([{
+        region: 'ad',
+        reason: 'its anchor "<aside class="sidebar">" no longer exists',
+        content: lines('<!-- @figma-keep-start ad -->', '<Ad />', '<!-- @figma-keep-end -->')
+      }]);
+    });
+
+    it('replaces a region of the same name that the generated code already has', () => {
+      const previous = lines('<template>', '  <!-- @figma-keep-start slot -->', '  <slot name="custom" />', '  <!-- @figma-keep-end -->', '</template>');
+      const generated = lines('<template>', '  <div>', '  <!-- @figma-keep-start slot -->', '  <!-- @figma-keep-end -->', '  </div>', '</template>');
+
+      expect(mergeProtectedRegions(previous, generated).code).toBe(lines(
+        '<template>',
+        '  <div>',
+        '  <!-- @figma-keep-start slot -->',
+        '  <slot name="custom" />',
+        '  <!-- @figma-keep-end -->',
+        '  </div>',
+        '</template>'
+      ));
+    });
+  });
+
+  describe('malformed regions', () => {
+    it('reports a region nested in another and keeps neither', () => {
+      const previous = lines(
+        '<div class="card">',
+        '<!-- @figma-keep-start outer -->',
+        '<!-- @figma-keep-start inner -->',
+        '<p>text</p>',
+        '<!-- @figma-keep-end -->',
+        '<!-- @figma-keep-end -->',
+        '</div>'
+      );
+      const generated = lines('<div class="card">', '</div>');
+
+      const { code, conflicts } = mergeProtectedRegions(previous, generated);
+
+      expect(code).toBe(generated);
+      expect(conflicts).toEqual([{
+        region: 'outer',
+        reason: 'region "inner" starts inside it',
+        content: lines('<!-- @figma-keep-start outer -->', '<!-- @figma-keep-start inner -->')
+      }]);
+    });
+
+    it('keeps the first of two regions with the same name', () => {
+      const previous = lines(
+        'const a = 1;',
+        '// @figma-keep-start extra',
+        'const first = true;',
+        '// @figma-keep-end',
+        'const b = 2;',
+        '// @figma-keep-start extra',
+        'const second = true;',
+        '// @figma-keep-end'
+      );
+      const generated = lines('const a = 1;', 'const b = 2;');
+
+      const { code, conflicts } = mergeProtectedRegions(previous, generated);
+
+      expect(code).toBe(lines('const a = 1;', '// @figma-keep-start extra', 'const first = true;', '// @figma-keep-end', 'const b = 2;'));
+      expect(conflicts).toEqual([{
+        region: 'extra',
+        reason: 'another region has the same name',
+        content: lines('// @figma-keep-start extra', 'const second = true;', '// @figma-keep-end')
+      }]);
+    });
+
+    it('reports a region without an end marker', () => {
+      const previous = lines('.card {', '/* @figma-keep-start tweak */', '  gap: 4px;', '}');
+      const generated = lines('.card {', '}');
+
+      const { code, conflicts } = mergeProtectedRegions(previous, generated);
+
+      expect(code).toBe(generated);
+      expect(conflicts).toEqual([{
+        region: 'tweak',
+        reason: 'it has no @figma-keep-end marker',
+        content: lines('/* @figma-keep-start tweak */', '  gap: 4px;', '}')
+      }]);
+    });
+  });
+
+  describe('marker forms', () => {
+    it.each([
+      ['TSX', '// @figma-keep-start custom', '// @figma-keep-end'],
+      ['JSX children', '{/* @figma-keep-start custom */}', '{/* @figma-keep-end */}'],
+      ['Vue SFC and HTML', '<!-- @figma-keep-start custom -->', '<!-- @figma-keep-end -->'],
+      ['CSS', '/* @figma-keep-start custom */', '/* @figma-keep-end */']
+    ])('reads %s comments', (_form, start, end) => {
+      const previous = lines('anchor', start, 'kept', end);
+
+      const { regions, conflicts } = extractProtectedRegions(previous);
+
+      expect(conflicts).toEqual([]);
+      expect(regions).toMatchObject([{ name: 'custom', lines: [start, 'kept', end], anchor: 'anchor' }]);
+      expect(mergeProtectedRegions(previous, 'anchor').code).toBe(previous);
+    });
+
+    it('keeps regions in every block of a Vue single-file component', () => {
+      const previous = lines(
+        '<template>',
+        '  <button class="button">',
+        '    <!-- @figma-keep-start icon -->',
+        '    <Icon name="plus" />',
+        '    <!-- @figma-keep-end -->',
+        '  </button>',
+        '</template>',
+        '<script setup lang="ts">',
+        '// @figma-keep-start emits',
+        "const emit = defineEmits(['press']);",
+        '// @figma-keep-end',
+        '</script>',
+        '<style scoped>',
+        '.button {',
+        '  /* @figma-keep-start focus */',
+        '  outline-offset: 2px;',
+        '  /* @figma-keep-end */',
+        '}',
+        '</style>'
+      );
+      const generated = lines(
+        '<template>',
+        '  <button class="button" type="button">',
+        '  </button>',
+        '</template>',
+        '<script setup lang="ts">',
+        '</script>',
+        '<style scoped>',
+        '.button {',
+        '}',
+        '</style>'
+      );
+
+      const { code, conflicts } = mergeProtectedRegions(previous, generated);
+
+      expect(conflicts).toEqual([]);
+      expect(code).toBe(lines(
+        '<template>',
+        '  <button class="button" type="button">',
+        '    <!-- @figma-keep-start icon -->',
+        '    <Icon name="plus" />',
+        '    <!-- @figma-keep-end -->',
+        '  </button>',
+        '</template>',
+        '<script setup lang="ts">',
+        '// @figma-keep-start emits',
+        "const emit = defineEmits(['press']);",
+        '// @figma-keep-end',
+        '</script>',
+        '<style scoped>',
+        '.button {',
+        '  /* @figma-keep-start focus */',
+        '  outline-offset: 2px;',
+        '  /* @figma-keep-end */',
+        '}',
+        '</style>'
+      ));
+    });
+  });
+});
@@ -0,0 +1,176 @@
+// Hand-written code kept across regeneration. The markers work in any comment syntax:
+//   // @figma-keep-start name        (TS/JS)
+//   {/* @figma-keep-start name */}   (JSX children)
+//   <!-- @figma-keep-start name -->  (HTML, Vue, Svelte and Angular templates)
+//   /* @figma-keep-start name */     (CSS)
+// and end with the matching @figma-keep-end comment on its own line.
+const START_MARKER = /@figma-keep-start\s+([\w.-]+)/;
+const END_MARKER = /@figma-keep-end\b/;
+
+const OPENING_TAG = /^<([\w-]+)\b[^>]*?\bclass(?:Name)?="([^"]*)"/;
+
+// Ways to find an anchor line again, from strict to loose; each maps a trimmed line to a key
+const ANCHOR_KEYS: Array<(line: string) => string | null> = [
+  // The exact line
+  line => line,
+  // Numbers and hex colors blanked out, so changed design values still match
+  line => line.replace(/#[0-9a-fA-F]{3,8}\b/g, '#0').replace(/\d+(\.\d+)?/g, '0'),
+  // An element by tag and class names, ignoring its other attributes (e.g. an added style)
+  line => {
+    const match = line.match(OPENING_TAG);
+    return match ? `${match[1]}.${match[2].replace(/\d+(\.\d+)?/g, '0')}` : null;
+  }
+];
+
+export interface ProtectedRegion {
+  name: string;
+  // Marker lines and the user's lines between them, verbatim
+  lines: string[];
+  // The generated line the region follows, or null when it opens the file
+  anchor: string | null;
+  // Which occurrence of the anchor it follows when several lines match, per ANCHOR_KEYS entry
+  anchorOccurrences: number[];
+}
+
+export interface ProtectedRegionConflict {
+  region: string;
+  reason: string;
+  // The region as it was in the previous code, so it can be re-applied by hand
+  content: string;
+}
+
+export interface ProtectedRegionMerge {
+  code: string;
+  conflicts: ProtectedRegionConflict[];
+}
+
+/**
+ * The protected regions of a file, each anchored to the generated line right before it.
+ * Unclosed, nested and duplicate regions are reported as conflicts.
+ */
+export function extractProtectedRegions(code: string): { regions: ProtectedRegion[]; conflicts: ProtectedRegionConflict[] } {
+  const regions: ProtectedRegion[] = [];
+  const conflicts: ProtectedRegionConflict[] = [];
+  // Generated lines outside regions seen so far, to count anchor occurrences
+  const generatedLines: string[] = [];
+  let open: { name: string; lines: string[]; anchor: string | null } | null = null;
+
+  for (const line of code.split('\n')) {
+    const start = line.match(START_MARKER);
+
+    if (open) {
+      open.lines.push(line);
+      if (start) {
+        conflicts.push({ region: open.name, reason: `region "${start[1]}" starts inside it`, content: open.lines.join('\n') });
+        open = null;
+      } else if (END_MARKER.test(line)) {
+        if (regions.some(region => region.name === open!.name)) {
+          conflicts.push({ region: open.name, reason: 'another region has the same name', content: open.lines.join('\n') });
+        } else {
+          const anchor = open.anchor;
+          regions.push({
+            name: open.name,
+            lines: open.lines,
+            anchor,
+            anchorOccurrences: ANCHOR_KEYS.map(key => {
+              const anchorKey = anchor === null ? null : key(anchor);
+              return generatedLines.filter(seen => key(seen.trim()) === anchorKey).length - 1;
+            })
+          });
+        }
+        open = null;
+      }
+      continue;
+    }
+
+    if (start) {
+      const anchor = [...generatedLines].reverse().find(seen => seen.trim() !== '');
+      open = { name: start[1], lines: [line], anchor: anchor === undefined ? null : anchor.trim() };
+    } else {
+      generatedLines.push(line);
+    }
+  }
+
+  if (open) {
+    conflicts.push({ region: open.name, reason: 'it has no @figma-keep-end marker', content: open.lines.join('\n') });
+  }
+
+  return { regions, conflicts };
+}
+
+/**
+ * Copies the protected regions of the previous code into freshly generated code. A region
+ * replaces the region of the same name when the generated code has one, otherwise it goes
+ * after its anchor line: matched exactly first, then ignoring changed numbers and colors
+ * (e.g. a width that changed in Figma), then as the same element by tag and classes. A region whose anchor no longer exists is left out
+ * and reported as a conflict.
+ */
+export function mergeProtectedRegions(previous: string, generated: string): ProtectedRegionMerge {
+  const { regions, conflicts } = extractProtectedRegions(previous);
+  if (regions.length === 0) {
+    return { code: generated, conflicts };
+  }
+
+  const { regions: generatedRegions } = extractProtectedRegions(generated);
+  const lines = generated.split('\n');
+  // Regions to insert after each line index; -1 is the start of the file
+  const insertions = new Map<number, ProtectedRegion[]>();
+  const replacements = new Map<string, ProtectedRegion>();
+
+  regions.forEach(region => {
+    if (generatedRegions.some(generatedRegion => generatedRegion.name === region.name)) {
+      replacements.set(region.name, region);
+      return;
+    }
+
+    const position = region.anchor === null ? -1 : findAnchor(lines, region);
+    if (position === null) {
+      conflicts.push({
+        region: region.name,
+        reason: `its anchor "${region.anchor}" no longer exists`,
+        content: region.lines.join('\n')
+      });
+      return;
+    }
+
+    insertions.set(position, [...(insertions.get(position) || []), region]);
+  });
+
+  const merged: string[] = [];
+  const insertAfter = (position: number) => insertions.get(position)?.forEach(region => merged.push(...region.lines));
+  let replacing = false;
+
+  insertAfter(-1);
+  lines.forEach((line, index) => {
+    const start = line.match(START_MARKER);
+    if (start && replacements.has(start[1])) {
+      merged.push(...replacements.get(start[1])!.lines);
+      replacing = true;
+    } else if (replacing) {
+      if (END_MARKER.test(line)) replacing = false;
+    } else {
+      merged.push(line);
+    }
+    insertAfter(index);
+  });
+
+  return { code: merged.join('\n'), conflicts };
+}
+
+function findAnchor(lines: string[], region: ProtectedRegion): number | null {
+  for (let index = 0; index < ANCHOR_KEYS.length; index++) {
+    const key = ANCHOR_KEYS[index];
+    const anchorKey = key(region.anchor!);
+    if (anchorKey === null) continue;
+
+    const candidates = lines
+      .map((line, position) => (key(line.trim()) === anchorKey ? position : -1))
+      .filter(position => position >= 0);
+    const occurrence = region.anchorOccurrences[index];
+    if (candidates.length > occurrence) return candidates[occurrence];
+    // Lines added or removed before the anchor shift the count; a single candidate is unambiguous
+    if (candidates.length === 1) return candidates[0];
+  }
+
+  return null;
+}
@@ -0,0 +1,175 @@
+import { FigmaNode, Hyperlink, LineType, TypeStyle } from '../types/figma';
+
+export interface TextRun {
+  text: string;
+  // Key into styleOverrideTable; 0 means the node's base style
+  styleId: number;
+  override: Partial<TypeStyle>;
+  hyperlink?: Hyperlink;
+}
+
+export interface RichTextParagraph {
+  kind: 'paragraph';
+  runs: TextRun[];
+}
+
+export interface RichTextList {
+  kind: 'list';
+  ordered: boolean;
+  items: RichTextListItem[];
+}
+
+export interface RichTextListItem {
+  runs: TextRun[];
+  lists: RichTextList[];
+}
+
+export type RichTextBlock = RichTextParagraph | RichTextList;
+
+interface TextLine {
+  runs: TextRun[];
+  type: LineType;
+  indentation: number;
+}
+
+/**
+ * A TEXT node needs rich rendering when part of it has its own style, a link or list formatting;
+ * everything else stays a single flat string.
+ */
+export function hasRichText(node: FigmaNode): boolean {
+  if (node.type !== 'TEXT' || !node.characters) return false;
+
+  const hasStyledRuns = (node.characterStyleOverrides || []).some(styleId => Object.keys(overrideFor(node, styleId)).length > 0);
+  return hasStyledRuns || hasListLines(node) || Boolean(node.style?.hyperlink);
+}
+
+/**
+ * Whether the text contains bulleted or numbered lines, which need block elements around them
+ */
+export function hasListLines(node: FigmaNode): boolean {
+  return (node.lineTypes || []).some(type => type !== 'NONE');
+}
+
+/**
+ * Splits the characters of a TEXT node into runs of identically styled text. Characters past the
+ * end of characterStyleOverrides use the base style, as in the Figma API.
+ */
+export function textRuns(node: FigmaNode): TextRun[] {
+  const characters = node.characters || '';
+  const overrides = node.characterStyleOverrides || [];
+  const runs: TextRun[] = [];
+
+  for (let index = 0; index < characters.length; index++) {
+    const rawId = overrides[index] ?? 0;
+    // Overrides without any entry in the table render like the base style
+    const styleId = Object.keys(overrideFor(node, rawId)).length > 0 ? rawId : 0;
+    const last = runs[runs.length - 1];
+
+    if (last && last.styleId === styleId) {
+      last.text += characters[index];
+    } else {
+      const override = overrideFor(node, styleId);
+      const hyperlink = override.hyperlink ?? node.style?.hyperlink;
+      runs.push({ text: characters[index], styleId, override, ...(hyperlink && { hyperlink }) });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Groups the text into paragraphs and (nested) lists. Consecutive list lines of the same type form
+ * one list; deeper indentation nests a list inside the previous item.
+ */
+export function parseRichText(node: FigmaNode): RichTextBlock[] {
+  const lines = splitLines(node);
+  const blocks: RichTextBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (line.type === 'NONE') {
+      blocks.push({ kind: 'paragraph', runs: line.runs });
+      index++;
+      continue;
+    }
+
+    const end = findListEnd(lines, index);
+    blocks.push(...buildLists(lines.slice(index, end), listLevel(line)));
+    index = end;
+  }
+
+  return blocks;
+}
+
+/**
+ * Splits runs at line breaks, e.g. for rendering <br /> between the lines of a paragraph
+ */
+export function splitRunsAtLineBreaks(runs: TextRun[]): TextRun[][] {
+  const lines: TextRun[][] = [[]];
+
+  runs.forEach(run => {
+    run.text.split('\n').forEach((text, index) => {
+      if (index > 0) lines.push([]);
+      if (text) lines[lines.length - 1].push({ ...run, text });
+    });
+  });
+
+  return lines;
+}
+
+function overrideFor(node: FigmaNode, styleId: number): Partial<TypeStyle> {
+  if (!styleId) return {};
+  return node.styleOverrideTable?.[String(styleId)] || {};
+}
+
+function splitLines(node: FigmaNode): TextLine[] {
+  return splitRunsAtLineBreaks(textRuns(node)).map((runs, index) => ({
+    runs,
+    type: node.lineTypes?.[index] || 'NONE',
+    indentation: node.lineIndentations?.[index] || 0
+  }));
+}
+
+function listLevel(line: TextLine): number {
+  return Math.max(line.indentation, 1);
+}
+
+function findListEnd(lines: TextLine[], start: number): number {
+  let end = start;
+  while (end < lines.length && lines[end].type !== 'NONE') {
+    end++;
+  }
+  return end;
+}
+
+function buildLists(lines: TextLine[], level: number): RichTextList[] {
+  const lists: RichTextList[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const ordered = line.type === 'ORDERED';
+    let current = lists[lists.length - 1];
+
+    // A switch between bullets and numbers at the same level starts a new list
+    if (!current || current.ordered !== ordered) {
+      current = { kind: 'list', ordered, items: [] };
+      lists.push(current);
+    }
+
+    const item: RichTextListItem = { runs: line.runs, lists: [] };
+    current.items.push(item);
+    index++;
+
+    const nestedStart = index;
+    while (index < lines.length && listLevel(lines[index]) > level) {
+      index++;
+    }
+    if (index > nestedStart) {
+      item.lists = buildLists(lines.slice(nestedStart, index), listLevel(lines[nestedStart]));
+    }
+  }
+
+  return lists;
+}
@@ -0,0 +1,352 @@
+import { Color } from '../types/figma';
+import { ColorUtils } from './color-utils';
+import { DESIGN_TOKENS } from './constants';
+import { ValidationError } from './errors';
+
+// The theme sections the class mapper reads; values are CSS strings as written in tailwind.config
+export interface TailwindTheme {
+  colors: Record<string, unknown>;
+  spacing: Record<string, unknown>;
+  fontSize: Record<string, unknown>;
+  borderRadius: Record<string, unknown>;
+}
+
+type ThemeSection = keyof TailwindTheme;
+
+type LengthSection = 'spacing' | 'fontSize' | 'borderRadius';
+
+const THEME_SECTIONS: ThemeSection[] = ['colors', 'spacing', 'fontSize', 'borderRadius'];
+
+// Keys of Tailwind's default spacing scale (in 4px units)
+const DEFAULT_SPACING_STEPS = [
+  0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96
+];
+
+/**
+ * Tailwind's default theme for the sections the mapper uses
+ */
+export const DEFAULT_TAILWIND_THEME: TailwindTheme = {
+  colors: {
+    white: '#ffffff',
+    black: '#000000',
+    ...Object.fromEntries(Object.entries(DESIGN_TOKENS.COLORS).map(([name, shades]) => [
+      name,
+      Object.fromEntries(Object.entries(shades).map(([shade, color]) => [shade, ColorUtils.colorToHex(color)]))
+    ]))
+  },
+  spacing: {
+    px: '1px',
+    ...Object.fromEntries(DEFAULT_SPACING_STEPS.map(step => [String(step), `${step * DESIGN_TOKENS.SPACING.unit}px`]))
+  },
+  fontSize: Object.fromEntries(Object.entries(DESIGN_TOKENS.FONT_SIZES).map(([key, size]) => [key, `${size}px`])),
+  borderRadius: Object.fromEntries(Object.entries(DESIGN_TOKENS.BORDER_RADIUS).map(([key, radius]) =>
+    [key === 'base' ? 'DEFAULT' : key, `${radius}px`]
+  ))
+};
+
+/**
+ * Reads the theme from the source of a tailwind.config file, including the configs written by
+ * DesignSystemExporter. The config is parsed, never executed: plain object literals, strings,
+ * numbers and spreads of object literals are understood, any other expression (function themes,
+ * imported palettes) is skipped. `theme.<section>` replaces the default section and
+ * `theme.extend.<section>` is merged over it, as in Tailwind.
+ */
+export function parseTailwindConfig(source: string): TailwindTheme {
+  const start = source.search(/\btheme\s*:\s*\{/);
+  if (start === -1) return DEFAULT_TAILWIND_THEME;
+
+  let theme: Record<string, unknown>;
+  try {
+    const parser = new ObjectLiteralParser(source, source.indexOf('{', start));
+    theme = parser.parseObject();
+  } catch (error) {
+    throw new ValidationError(
+      `Could not read the Tailwind config theme: ${error instanceof Error ? error.message : String(error)}`,
+      'tailwindConfig'
+    );
+  }
+
+  const extend = isRecord(theme.extend) ? theme.extend : {};
+  return Object.fromEntries(THEME_SECTIONS.map(section => [section, {
+    ...(isRecord(theme[section]) ? theme[section] : DEFAULT_TAILWIND_THEME[section]),
+    ...(isRecord(extend[section]) ? extend[section] : {})
+  }])) as unknown as TailwindTheme;
+}
+
+interface ThemeLength {
+  key: string;
+  px: number;
+}
+
+interface ThemeColor {
+  key: string;
+  color: Color;
+}
+
+/**
+ * Maps design values to classes of a Tailwind theme. Exact theme matches use the theme key, values
+ * within the tolerance snap to the nearest key and are reported with the drift they introduce,
+ * and everything else becomes an arbitrary value such as p-[13px] or bg-[#1a2b3c].
+ *
+ * The tolerance is in px for lengths and in RGB channel units (0-255, Euclidean) for colors;
+ * 0 keeps every value exact.
+ */
+export class TailwindThemeMapper {
+  private lengths: Record<LengthSection, ThemeLength[]>;
+  private colors: ThemeColor[];
+  private warnings = new Set<string>();
+
+  constructor(theme: TailwindTheme = DEFAULT_TAILWIND_THEME, private tolerance = 0) {
+    this.lengths = {
+      spacing: this.themeLengths(theme.spacing),
+      fontSize: this.themeLengths(theme.fontSize),
+      borderRadius: this.themeLengths(theme.borderRadius)
+    };
+    this.colors = this.themeColors(theme.colors);
+  }
+
+  spacing(utility: string, px: number, context: string): string {
+    return this.lengthClass('spacing', utility, px, context);
+  }
+
+  fontSize(px: number, context: string): string {
+    return this.lengthClass('fontSize', 'text', px, context);
+  }
+
+  borderRadius(px: number, context: string): string {
+    return this.lengthClass('borderRadius', 'rounded', px, context);
+  }
+
+  /**
+   * Color class for a utility such as "bg", "text" or "border"; translucent colors get an
+   * opacity modifier (bg-blue-500/50)
+   */
+  color(utility: string, color: Color, opacity: number | undefined, context: string): string {
+    const alpha = opacity ?? color.a ?? 1;
+    const modifier = alpha < 1 ? `/${Math.round(alpha * 100)}` : '';
+    const hex = ColorUtils.colorToHex(color);
+
+    let nearest: ThemeColor | null = null;
+    let nearestDistance = Infinity;
+    this.colors.forEach(candidate => {
+      const distance = this.colorDistance(color, candidate.color);
+      if (distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    });
+
+    const match = nearest as ThemeColor | null;
+    if (match && nearestDistance < 0.5) return `${utility}-${match.key}${modifier}`;
+    if (match && nearestDistance <= this.tolerance) {
+      const themeClass = `${utility}-${match.key}${modifier}`;
+      this.warnings.add(
+        `${context}: color ${hex} snapped to ${themeClass} (${ColorUtils.colorToHex(match.color)}, drift ${Math.round(nearestDistance)} RGB)`
+      );
+      return themeClass;
+    }
+
+    return `${utility}-[${hex}]${modifier}`;
+  }
+
+  /**
+   * The snap warnings collected since the last call; clears the list
+   */
+  takeWarnings(): string[] {
+    const warnings = Array.from(this.warnings);
+    this.warnings.clear();
+    return warnings;
+  }
+
+  private lengthClass(section: LengthSection, utility: string, px: number, context: string): string {
+    let nearest: ThemeLength | null = null;
+    this.lengths[section].forEach(candidate => {
+      if (!nearest || Math.abs(candidate.px - px) < Math.abs(nearest.px - px)) nearest = candidate;
+    });
+
+    const match = nearest as ThemeLength | null;
+    const drift = match ? Math.round((match.px - px) * 100) / 100 : Infinity;
+    if (match && drift === 0) return this.themeClass(utility, match.key);
+    if (match && Math.abs(drift) <= this.tolerance) {
+      const themeClass = this.themeClass(utility, match.key);
+      const label = section === 'fontSize' ? 'font size' : section === 'borderRadius' ? 'border radius' : 'spacing';
+      this.warnings.add(
+        `${context}: ${label} ${px}px snapped to ${themeClass} (${match.px}px, drift ${drift > 0 ? '+' : ''}${drift}px)`
+      );
+      return themeClass;
+    }
+
+    return `${utility}-[${px}px]`;
+  }
+
+  // Tailwind writes the DEFAULT key as the bare utility (rounded instead of rounded-DEFAULT)
+  private themeClass(utility: string, key: string): string {
+    return key === 'DEFAULT' ? utility : `${utility}-${key}`;
+  }
+
+  private themeLengths(section: Record<string, unknown>): ThemeLength[] {
+    return Object.entries(section).flatMap(([key, value]) => {
+      // fontSize entries may be [size, { lineHeight }]
+      const raw = Array.isArray(value) ? value[0] : value;
+      const px = typeof raw === 'string' || typeof raw === 'number' ? this.toPx(String(raw)) : null;
+      return px === null ? [] : [{ key, px }];
+    });
+  }
+
+  private themeColors(section: Record<string, unknown>, prefix = ''): ThemeColor[] {
+    return Object.entries(section).flatMap(([key, value]) => {
+      const name = key === 'DEFAULT' ? prefix.replace(/-$/, '') : `${prefix}${key}`;
+      if (isRecord(value)) return this.themeColors(value, `${name}-`);
+
+      const color = typeof value === 'string' ? ColorUtils.parseColor(value.trim()) : null;
+      return color && name ? [{ key: name, color }] : [];
+    });
+  }
+
+  private toPx(value: string): number | null {
+    const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem)?$/);
+    if (!match) return null;
+    return parseFloat(match[1]) * (match[2] === 'rem' ? 16 : 1);
+  }
+
+  private colorDistance(first: Color, second: Color): number {
+    // Compared on the 0-255 channels a hex value can express
+    const channel = (a: number, b: number) => Math.round(a * 255) - Math.round(b * 255);
+    return Math.sqrt(
+      channel(first.r, second.r) ** 2 + channel(first.g, second.g) ** 2 + channel(first.b, second.b) ** 2
+    );
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Unparsable expressions inside the theme are returned as this marker and dropped
+const SKIPPED = Symbol('skipped');
+
+/**
+ * A small reader for the object-literal subset used in Tailwind configs
+ */
+class ObjectLiteralParser {
+  constructor(private source: string, private position: number) {}
+
+  parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.expect('{');
+
+    while (this.peek() !== '}') {
+      if (this.source.startsWith('...', this.position)) {
+        this.position += 3;
+        const spread = this.parseValue();
+        if (isRecord(spread)) Object.assign(result, spread);
+      } else {
+        const key = this.parseKey();
+        this.expect(':');
+        const value = this.parseValue();
+        if (value !== SKIPPED) result[key] = value;
+      }
+
+      if (this.peek() === ',') this.position++;
+      else if (this.peek() !== '}') throw new Error(`unexpected "${this.peek()}" at offset ${this.position}`);
+    }
+
+    this.position++;
+    return result;
+  }
+
+  private parseArray(): unknown[] {
+    const result: unknown[] = [];
+    this.expect('[');
+
+    while (this.peek() !== ']') {
+      const value = this.parseValue();
+      if (value !== SKIPPED) result.push(value);
+      if (this.peek() === ',') this.position++;
+      else if (this.peek() !== ']') throw new Error(`unexpected "${this.peek()}" at offset ${this.position}`);
+    }
+
+    this.position++;
+    return result;
+  }
+
+  private parseValue(): unknown {
+    const next = this.peek();
+    if (next === '{') return this.parseObject();
+    if (next === '[') return this.parseArray();
+    if (next === '"' || next === "'" || next === '`') return this.parseString();
+
+    const literal = this.source.slice(this.position).match(/^-?\d*\.?\d+(?=[\s,}\]])/);
+    if (literal) {
+      this.position += literal[0].length;
+      return parseFloat(literal[0]);
+    }
+
+    this.skipExpression();
+    return SKIPPED;
+  }
+
+  private parseKey(): string {
+    const next = this.peek();
+    if (next === '"' || next === "'") return this.parseString();
+
+    const identifier = this.source.slice(this.position).match(/^[\w$.-]+/);
+    if (!identifier) throw new Error(`expected a key at offset ${this.position}`);
+    this.position += identifier[0].length;
+    return identifier[0];
+  }
+
+  private parseString(): string {
+    const quote = this.source[this.position++];
+    let value = '';
+
+    while (this.position < this.source.length && this.source[this.position] !== quote) {
+      if (this.source[this.position] === '\\') this.position++;
+      value += this.source[this.position++];
+    }
+    if (this.position >= this.source.length) throw new Error('unterminated string');
+
+    this.position++;
+    return value;
+  }
+
+  // Skips to the next top-level comma or closing bracket
+  private skipExpression(): void {
+    let depth = 0;
+
+    while (this.position < this.source.length) {
+      const character = this.source[this.position];
+      if (character === '"' || character === "'" || character === '`') {
+        this.parseString();
+        continue;
+      }
+      if ('{[('.includes(character)) depth++;
+      if ('}])'.includes(character)) {
+        if (depth === 0) return;
+        depth--;
+      }
+      if (character === ',' && depth === 0) return;
+      this.position++;
+    }
+  }
+
+  // The next significant character, after whitespace and comments
+  private peek(): string {
+    for (;;) {
+      const rest = this.source.slice(this.position);
+      const skip = rest.match(/^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/);
+      if (!skip) break;
+      this.position += skip[0].length;
+    }
+
+    if (this.position >= this.source.length) throw new Error('unexpected end of config');
+    return this.source[this.position];
+  }
+
+  private expect(character: string): void {
+    if (this.peek() !== character) {
+      throw new Error(`expected "${character}" at offset ${this.position}`);
+    }
+    this.position++;
+  }
+}
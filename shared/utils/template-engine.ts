@@ -1,5 +1,5 @@
 
-import { ComponentConfig } from '../types/figma-generator';
+import { ComponentConfig } from '../types/generator';
 import { TemplateError } from './errors';
 
 export interface ComponentTemplate {
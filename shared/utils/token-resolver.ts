@@ -0,0 +1,284 @@
+import type { DesignTokens } from '../services/design-system-extractor';
+import { CSSStyles } from '../types/generator';
+import { ColorUtils } from './color-utils';
+
+export type TokenCategory =
+  | 'color'
+  | 'spacing'
+  | 'radius'
+  | 'shadow'
+  | 'fontFamily'
+  | 'fontSize'
+  | 'fontWeight'
+  | 'lineHeight'
+  | 'letterSpacing';
+
+// How a resolved token is written into CSS: var(--name) or a Sass $name variable
+export type TokenSyntax = 'css-variables' | 'scss';
+
+export interface FlatToken {
+  category: TokenCategory;
+  // Variable name without prefix, e.g. "color-primary-500"
+  name: string;
+  // Tailwind theme key, e.g. "primary-500" (used as bg-primary-500)
+  key: string;
+  value: string;
+}
+
+const CATEGORY_LABELS: Record<TokenCategory, string> = {
+  color: 'color',
+  spacing: 'spacing',
+  radius: 'border radius',
+  shadow: 'shadow',
+  fontFamily: 'font family',
+  fontSize: 'font size',
+  fontWeight: 'font weight',
+  lineHeight: 'line height',
+  letterSpacing: 'letter spacing'
+};
+
+const STYLE_CATEGORIES: Record<string, TokenCategory> = {
+  color: 'color',
+  backgroundColor: 'color',
+  borderColor: 'color',
+  outlineColor: 'color',
+  padding: 'spacing',
+  paddingTop: 'spacing',
+  paddingRight: 'spacing',
+  paddingBottom: 'spacing',
+  paddingLeft: 'spacing',
+  margin: 'spacing',
+  marginTop: 'spacing',
+  marginRight: 'spacing',
+  marginBottom: 'spacing',
+  marginLeft: 'spacing',
+  gap: 'spacing',
+  rowGap: 'spacing',
+  columnGap: 'spacing',
+  borderRadius: 'radius',
+  boxShadow: 'shadow',
+  fontFamily: 'fontFamily',
+  fontSize: 'fontSize',
+  fontWeight: 'fontWeight',
+  lineHeight: 'lineHeight',
+  letterSpacing: 'letterSpacing'
+};
+
+// Categories whose declarations may hold several space-separated values (padding: 8px 16px)
+const MULTI_VALUE_CATEGORIES = new Set<TokenCategory>(['spacing', 'radius']);
+
+const COLOR_PATTERN = /(rgba?\([^)]*\)|#[0-9a-f]{3,8}\b)/i;
+
+/**
+ * Lists every design token under the names the exporter writes: CSS custom properties and Sass
+ * variables use `name`, the Tailwind theme uses `key`.
+ */
+export function flattenDesignTokens(tokens: DesignTokens): FlatToken[] {
+  const flat: FlatToken[] = [];
+  const add = (category: TokenCategory, name: string, key: string, value: string | number) => {
+    flat.push({ category, name, key, value: String(value) });
+  };
+
+  const scales = {
+    primary: tokens.colors.primary,
+    secondary: tokens.colors.secondary,
+    neutral: tokens.colors.neutral,
+    ...tokens.colors.semantic
+  };
+  Object.entries(scales).forEach(([scaleName, scale]) => {
+    Object.entries(scale).forEach(([shade, value]) => add('color', `color-${scaleName}-${shade}`, `${scaleName}-${shade}`, value));
+  });
+  // Custom keys already read "custom-1"
+  Object.entries(tokens.colors.custom).forEach(([key, value]) => add('color', `color-${key}`, key, value));
+
+  Object.entries(tokens.spacing.semantic).forEach(([key, value]) => add('spacing', `spacing-${key}`, key, value));
+  Object.entries(tokens.spacing.scale).forEach(([key, value]) => add('spacing', `spacing-scale-${key}`, `scale-${key}`, value));
+  Object.entries(tokens.borderRadius).forEach(([key, value]) => add('radius', `border-radius-${key}`, key, value));
+  Object.entries(tokens.shadows.elevation).forEach(([key, value]) => add('shadow', `shadow-${key}`, key, value));
+
+  const { typography } = tokens;
+  Object.entries(typography.fontFamilies).forEach(([key, value]) => add('fontFamily', `font-family-${key}`, key, value));
+  Object.entries(typography.fontSizes).forEach(([key, value]) => add('fontSize', `font-size-${key}`, key, value));
+  Object.entries(typography.fontWeights).forEach(([key, value]) => add('fontWeight', `font-weight-${key}`, key, value));
+  Object.entries(typography.lineHeights).forEach(([key, value]) => add('lineHeight', `line-height-${key}`, key, value));
+  Object.entries(typography.letterSpacing).forEach(([key, value]) => add('letterSpacing', `letter-spacing-${key}`, key, value));
+
+  return flat;
+}
+
+/**
+ * Replaces raw style values with references to matching design tokens. Values are compared after
+ * normalization (colors by channel, lengths by pixel value, shadows component-wise), the first
+ * token wins when several share a value, and every value without a token is collected so it can
+ * be reported as a warning.
+ */
+export class TokenResolver {
+  private index = new Map<TokenCategory, Map<string, FlatToken>>();
+  private unmatched = new Map<string, { category: TokenCategory; value: string; contexts: Set<string> }>();
+
+  constructor(tokens: DesignTokens, private syntax: TokenSyntax = 'css-variables', private prefix = '') {
+    flattenDesignTokens(tokens).forEach(token => {
+      const normalized = this.normalize(token.category, token.value);
+      if (!normalized) return;
+
+      const byValue = this.index.get(token.category) || new Map<string, FlatToken>();
+      if (!byValue.has(normalized)) byValue.set(normalized, token);
+      this.index.set(token.category, byValue);
+    });
+  }
+
+  /**
+   * The style object with every token-backed declaration rewritten to a token reference.
+   * Declarations that cannot use tokens (sizes, positions, layout) are left untouched.
+   */
+  resolveStyles(styles: CSSStyles, context: string): CSSStyles {
+    const resolved: CSSStyles = {};
+
+    Object.entries(styles).forEach(([property, value]) => {
+      const tokenBacked = property in STYLE_CATEGORIES || property === 'border' || property === 'background';
+      resolved[property] = tokenBacked && value !== undefined ? this.resolveDeclaration(property, String(value), context) : value;
+    });
+
+    return resolved;
+  }
+
+  /**
+   * The token reference for a single value, or null (recorded as unmatched) when no token matches
+   */
+  reference(category: TokenCategory, value: string, context: string): string | null {
+    const token = this.find(category, value, context);
+    if (!token) return null;
+
+    return this.syntax === 'scss' ? `$${this.prefix}${token.name}` : `var(--${this.prefix}${token.name})`;
+  }
+
+  /**
+   * A Tailwind class built from the token's theme key (e.g. "bg" + color -> "bg-primary-500"),
+   * or null (recorded as unmatched) when no token matches
+   */
+  tailwindClass(utility: string, category: TokenCategory, value: string, context: string): string | null {
+    const token = this.find(category, value, context);
+    return token ? `${utility}-${token.key}` : null;
+  }
+
+  /**
+   * One message per value that had no matching token, listing where it was used
+   */
+  getWarnings(): string[] {
+    return Array.from(this.unmatched.values()).map(({ category, value, contexts }) =>
+      `No design token matches ${CATEGORY_LABELS[category]} ${value} (used by ${Array.from(contexts).join(', ')})`
+    );
+  }
+
+  private resolveDeclaration(property: string, value: string, context: string): string {
+    if (property === 'border') {
+      return this.resolveColorWithin(value, context);
+    }
+    if (property === 'background') {
+      // Gradients and images have no single token to point to
+      return /gradient|url\(/.test(value) ? value : this.resolveColorWithin(value, context);
+    }
+
+    const category = STYLE_CATEGORIES[property];
+    if (category === 'shadow') {
+      return this.splitTopLevel(value, ',')
+        .map(shadow => this.reference('shadow', shadow, context) ?? shadow)
+        .join(', ');
+    }
+
+    if (MULTI_VALUE_CATEGORIES.has(category)) {
+      return value.split(/\s+/)
+        .map(part => this.isZero(part) ? part : this.reference(category, part, context) ?? part)
+        .join(' ');
+    }
+
+    if (category === 'letterSpacing' && this.isZero(value)) return value;
+    return this.reference(category, value, context) ?? value;
+  }
+
+  private resolveColorWithin(value: string, context: string): string {
+    const match = value.match(COLOR_PATTERN);
+    if (!match) return value;
+
+    const reference = this.reference('color', match[1], context);
+    return reference ? value.replace(match[1], reference) : value;
+  }
+
+  private find(category: TokenCategory, value: string, context: string): FlatToken | null {
+    const normalized = this.normalize(category, value);
+    const token = normalized ? this.index.get(category)?.get(normalized) : undefined;
+    if (token) return token;
+
+    const key = `${category}:${value}`;
+    const entry = this.unmatched.get(key) || { category, value, contexts: new Set<string>() };
+    entry.contexts.add(context);
+    this.unmatched.set(key, entry);
+    return null;
+  }
+
+  private normalize(category: TokenCategory, value: string): string | null {
+    switch (category) {
+      case 'color':
+        return this.normalizeColor(value);
+      case 'shadow':
+        return this.normalizeShadow(value);
+      case 'fontFamily':
+        return value.split(',')[0].replace(/["']/g, '').trim().toLowerCase() || null;
+      case 'fontWeight':
+        return Number.isNaN(Number(value)) ? null : String(Number(value));
+      default:
+        return this.normalizeLength(value);
+    }
+  }
+
+  private normalizeColor(value: string): string | null {
+    const color = ColorUtils.parseColor(value.trim());
+    if (!color) return null;
+
+    const channel = (component: number) => Math.round(component * 255);
+    const alpha = Math.round((color.a ?? 1) * 100) / 100;
+    return `${channel(color.r)},${channel(color.g)},${channel(color.b)},${alpha}`;
+  }
+
+  // "x y blur spread color"; a missing spread counts as 0
+  private normalizeShadow(value: string): string | null {
+    const colorMatch = value.match(COLOR_PATTERN);
+    const color = colorMatch ? this.normalizeColor(colorMatch[1]) : null;
+    const lengths = value.replace(COLOR_PATTERN, ' ').trim().split(/\s+/).filter(Boolean)
+      .map(length => this.normalizeLength(length));
+
+    if (!color || lengths.length < 2 || lengths.some(length => length === null)) return null;
+    while (lengths.length < 4) lengths.push('0');
+
+    return `${lengths.join(' ')} ${color}`;
+  }
+
+  private normalizeLength(value: string): string | null {
+    const match = value.trim().match(/^(-?\d*\.?\d+)(px)?$/);
+    return match ? String(Math.round(parseFloat(match[1]) * 100) / 100) : null;
+  }
+
+  private isZero(value: string): boolean {
+    return this.normalizeLength(value) === '0';
+  }
+
+  private splitTopLevel(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const character of value) {
+      if (character === '(') depth++;
+      if (character === ')') depth--;
+      if (character === separator && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += character;
+      }
+    }
+    if (current.trim()) parts.push(current.trim());
+
+    return parts;
+  }
+}
@@ -8,8 +8,8 @@ export class GenerationConfig {
     const warnings: string[] = [];
 
     // Framework validation
-    if (!['react', 'vue', 'angular'].includes(options.framework)) {
-      errors.push(`Invalid framework: ${options.framework}. Supported: react, vue, angular`);
+    if (!['react', 'vue', 'html', 'angular', 'svelte'].includes(options.framework)) {
+      errors.push(`Invalid framework: ${options.framework}. Supported: react, vue, html, angular, svelte`);
     }
 
     // Styling validation
@@ -18,8 +18,8 @@ export class GenerationConfig {
     }
 
     // Framework-specific validations
-    if (options.framework === 'vue' && options.styling === 'styled-components') {
-      warnings.push('Styled-components with Vue may have limited support');
+    if (options.framework !== 'react' && options.styling === 'styled-components') {
+      warnings.push(`Styled-components are React-only; ${options.framework} output falls back to plain CSS`);
     }
 
     if (options.typescript && options.framework === 'vue') {
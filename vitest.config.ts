@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Tests live next to the code they cover; the Vite config is rooted in client/, so it is not reused here
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    // pglite starts a full PostgreSQL in WebAssembly, which takes a few seconds on a slow machine
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});